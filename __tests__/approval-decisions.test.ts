@@ -0,0 +1,93 @@
+import {
+  amendmentOf,
+  approvedDiff,
+  decisionDigest,
+  describeDecision,
+  storedDecision,
+  validateApprovalComment,
+  validateApprovalDecision,
+  verifyDecision,
+} from '@/lib/approval-decisions'
+
+const resolved = {
+  id: 'apr-1',
+  employeeId: 'emp-1',
+  action: 'deploy',
+  status: 'denied',
+  decidedBy: 'dana@acme.com',
+  justification: 'Change freeze until Monday',
+  resolvedAt: new Date('2026-10-16T12:00:00Z'),
+  amendedDiff: '',
+}
+
+describe('validateApprovalDecision', () => {
+  test('requires an approver, and a justification for denials', () => {
+    expect(validateApprovalDecision({ status: 'approved', approver: 'dana' })).toBeNull()
+    expect(validateApprovalDecision({ status: 'maybe', approver: 'dana' })?.error).toBe('Status must be "approved" or "denied"')
+    expect(validateApprovalDecision({ status: 'approved', approver: ' ' })?.error).toBe('approver is required')
+    expect(validateApprovalDecision({ status: 'denied', approver: 'dana', justification: '  ' })?.error).toBe(
+      'justification is required when denying a request',
+    )
+    expect(validateApprovalDecision({ status: 'approved', approver: 'dana', comment: 42 })?.error).toBe('comment must be a string')
+  })
+
+  test('only lets approvals amend the diff', () => {
+    expect(validateApprovalDecision({ status: 'approved', approver: 'dana', amendedDiff: 'Hi' })).toBeNull()
+    expect(validateApprovalDecision({ status: 'denied', approver: 'dana', justification: 'No', amendedDiff: 'Hi' })?.error).toBe(
+      'amendedDiff can only accompany an approval',
+    )
+    expect(validateApprovalDecision({ status: 'approved', approver: 'dana', amendedDiff: ['Hi'] })?.error).toBe(
+      'amendedDiff must be a string',
+    )
+  })
+
+  test('requires an author and body for comments', () => {
+    expect(validateApprovalComment({ author: 'dana', body: 'Looks fine' })).toBeNull()
+    expect(validateApprovalComment({ author: 'dana', body: '' })?.error).toBe('body is required')
+  })
+})
+
+describe('decision signatures', () => {
+  test('detect a decision edited after it was signed', () => {
+    const digest = decisionDigest(storedDecision(resolved)!)
+    expect(verifyDecision({ ...resolved, decisionHash: digest })).toBe('valid')
+    expect(verifyDecision({ ...resolved, decidedBy: 'mallory', decisionHash: digest })).toBe('invalid')
+    expect(verifyDecision({ ...resolved, decisionHash: '' })).toBe('unsigned')
+    expect(verifyDecision({ ...resolved, status: 'pending', resolvedAt: null, decisionHash: '' })).toBe('unsigned')
+  })
+
+  test('cover an amendment without invalidating decisions signed before amendments', () => {
+    const approved = { ...resolved, status: 'approved', justification: '' }
+    const verbatim = decisionDigest(storedDecision(approved)!)
+    const amended = { ...approved, amendedDiff: 'Dear customer,\nFixed.' }
+    const digest = decisionDigest(storedDecision(amended)!)
+
+    expect(digest).not.toBe(verbatim)
+    expect(verifyDecision({ ...amended, decisionHash: digest })).toBe('valid')
+    expect(verifyDecision({ ...amended, amendedDiff: 'Dear customer,\nNot fixed.', decisionHash: digest })).toBe('invalid')
+    expect(describeDecision(storedDecision(amended)!, 'Emma', digest)).toBe(
+      `Approval request for "deploy" was approved with modifications by dana@acme.com (employee: "Emma") [decision sha256:${digest}]`,
+    )
+  })
+
+  test('quote the signed fields in the audit details', () => {
+    const decision = storedDecision(resolved)!
+    const details = describeDecision(decision, 'Alex', 'abc123', 'ping me after')
+    expect(details).toBe(
+      'Approval request for "deploy" was denied by dana@acme.com (employee: "Alex"); justification: "Change freeze until Monday"; comment: "ping me after" [decision sha256:abc123]',
+    )
+  })
+})
+
+describe('amendments', () => {
+  test('an unchanged edit approves the diff as proposed', () => {
+    expect(amendmentOf('Hello', undefined)).toBe('')
+    expect(amendmentOf('Hello', 'Hello')).toBe('')
+    expect(amendmentOf('Hello', 'Hello there')).toBe('Hello there')
+  })
+
+  test('the agent acts with the amendment when there is one', () => {
+    expect(approvedDiff({ diff: 'Hello', amendedDiff: '' })).toBe('Hello')
+    expect(approvedDiff({ diff: 'Hello', amendedDiff: 'Hi' })).toBe('Hi')
+  })
+})
@@ -0,0 +1,77 @@
+import {
+  describeExpiry,
+  formatMinutes,
+  nextExpiryStep,
+  parseExpiry,
+  strictestExpiry,
+  validateExpiry,
+} from '@/lib/approval-expiry'
+
+const escalate = { afterMinutes: 60, action: 'escalate' as const, escalateTo: 'security' }
+const deny = { afterMinutes: 240, action: 'deny' as const }
+
+describe('validateExpiry', () => {
+  test('accepts a timeout or none', () => {
+    expect(validateExpiry(deny)).toEqual([])
+    expect(validateExpiry(escalate)).toEqual([])
+    expect(validateExpiry(null)).toEqual([])
+  })
+
+  test('reports each problem', () => {
+    expect(validateExpiry(60)).toEqual(['expiry must be an object or null'])
+    expect(validateExpiry({ afterMinutes: 0, action: 'ignore' })).toEqual([
+      'expiry.afterMinutes must be a positive integer',
+      'expiry.action must be one of: deny, escalate',
+    ])
+    expect(validateExpiry({ afterMinutes: 30, action: 'escalate' })).toEqual([
+      'expiry.escalateTo must name an approver group when escalating',
+    ])
+  })
+})
+
+describe('describing timeouts', () => {
+  test('formats durations', () => {
+    expect(formatMinutes(45)).toBe('45m')
+    expect(formatMinutes(90)).toBe('1h 30m')
+    expect(formatMinutes(1440 * 2 + 60)).toBe('2d 1h')
+  })
+
+  test('describes both actions', () => {
+    expect(describeExpiry(deny)).toBe('auto-denies after 4h')
+    expect(describeExpiry(escalate)).toBe('escalates to "security" after 1h, then auto-denies after another 1h')
+  })
+
+  test('parses stored timeouts leniently', () => {
+    expect(parseExpiry(JSON.stringify(deny))).toEqual(deny)
+    expect(parseExpiry('')).toBeNull()
+    expect(parseExpiry('{"action":"deny"}')).toBeNull()
+  })
+})
+
+describe('strictestExpiry', () => {
+  test('picks the shortest timeout', () => {
+    expect(strictestExpiry([deny, null, escalate])).toEqual(escalate)
+    expect(strictestExpiry([null])).toBeNull()
+  })
+})
+
+describe('nextExpiryStep', () => {
+  const deadline = new Date('2026-10-18T10:00:00Z')
+  const sweptLate = new Date('2026-10-18T10:20:00Z')
+
+  test('escalates once, timed from the missed deadline', () => {
+    const step = nextExpiryStep({ expiry: JSON.stringify(escalate), escalatedTo: '', expiresAt: deadline }, sweptLate)
+    expect(step).toEqual({ kind: 'escalate', escalateTo: 'security', expiresAt: new Date('2026-10-18T11:00:00Z') })
+  })
+
+  test('denies escalated and deny-only requests', () => {
+    expect(nextExpiryStep({ expiry: JSON.stringify(escalate), escalatedTo: 'security', expiresAt: deadline }, sweptLate)).toEqual({
+      kind: 'deny',
+      reason: 'Not decided within 1h of escalation to "security"',
+    })
+    expect(nextExpiryStep({ expiry: JSON.stringify(deny), escalatedTo: '', expiresAt: deadline }, sweptLate)).toEqual({
+      kind: 'deny',
+      reason: 'Not decided within 4h',
+    })
+  })
+})
@@ -0,0 +1,118 @@
+import { approvalFilter, approvalMetrics, ApprovalQuery, ApprovalRecord, parseApprovalQuery } from '@/lib/approval-history'
+
+function parse(query: string) {
+  return parseApprovalQuery(new URLSearchParams(query))
+}
+
+const defaults: ApprovalQuery = parse('').query!
+
+describe('parseApprovalQuery', () => {
+  test('defaults to every status, newest first, one page of 25', () => {
+    expect(defaults).toEqual({
+      statuses: [],
+      employeeId: null,
+      capability: null,
+      from: null,
+      to: null,
+      approver: null,
+      search: null,
+      sort: 'createdAt',
+      order: 'desc',
+      page: 1,
+      pageSize: 25,
+    })
+  })
+
+  test('reads filters, sorting and paging', () => {
+    const { query } = parse(
+      'status=approved,denied&employeeId=emp-1&capability=deploy:*&from=2026-10-01T00:00:00Z&approver=dana&q=hotfix&sort=resolvedAt&order=asc&page=3&pageSize=10',
+    )
+    expect(query).toMatchObject({
+      statuses: ['approved', 'denied'],
+      employeeId: 'emp-1',
+      capability: 'deploy:*',
+      from: new Date('2026-10-01T00:00:00Z'),
+      approver: 'dana',
+      search: 'hotfix',
+      sort: 'resolvedAt',
+      order: 'asc',
+      page: 3,
+      pageSize: 10,
+    })
+  })
+
+  test('reports every invalid parameter', () => {
+    const { query, errors } = parse('status=open&capability=deploy::x&from=yesterday&sort=employee&order=up&page=0&pageSize=500')
+    expect(query).toBeNull()
+    expect(errors).toEqual([
+      'status must be one of: pending, approved, denied (got open)',
+      'capability "deploy::x" has an empty segment',
+      'from must be an ISO date',
+      'sort must be one of: createdAt, resolvedAt, action',
+      'order must be "asc" or "desc"',
+      'page must be a positive integer',
+      'pageSize must be at most 100',
+    ])
+    expect(parse('from=2026-10-02&to=2026-10-01').errors).toEqual(['from must not be after to'])
+  })
+})
+
+describe('approvalFilter', () => {
+  test('matches nothing extra without filters', () => {
+    expect(approvalFilter(defaults)).toEqual({})
+  })
+
+  test('resolves capability patterns against the actions on record', () => {
+    const where = approvalFilter({ ...defaults, capability: 'deploy:*' }, ['deploy', 'deploy:production', 'deploy:staging', 'send_email'])
+    expect(where).toEqual({ AND: [{ action: { in: ['deploy:production', 'deploy:staging'] } }] })
+    expect(approvalFilter({ ...defaults, capability: 'deploy' })).toEqual({ AND: [{ action: 'deploy' }] })
+  })
+
+  test('finds approvers among deciders and voters', () => {
+    expect(approvalFilter({ ...defaults, approver: 'dana' })).toEqual({
+      AND: [{ OR: [{ decidedBy: { contains: 'dana' } }, { votes: { some: { approver: { contains: 'dana' } } } }] }],
+    })
+  })
+})
+
+describe('approvalMetrics', () => {
+  const at = (minutes: number) => new Date(Date.UTC(2026, 9, 18, 9, minutes))
+  const record = (overrides: Partial<ApprovalRecord>): ApprovalRecord => ({
+    action: 'deploy',
+    status: 'approved',
+    decidedBy: 'dana',
+    createdAt: at(0),
+    resolvedAt: at(10),
+    ...overrides,
+  })
+
+  test('summarises counts and time to decision', () => {
+    const metrics = approvalMetrics([
+      record({}),
+      record({ resolvedAt: at(30), decidedBy: 'dana, raj' }),
+      record({ status: 'denied', resolvedAt: at(50), decidedBy: 'system' }),
+      record({ action: 'send_email', status: 'pending', decidedBy: '', resolvedAt: null }),
+    ])
+
+    expect(metrics).toMatchObject({
+      total: 4,
+      byStatus: { pending: 1, approved: 2, denied: 1 },
+      expired: 1,
+      timeToDecision: { decided: 3, meanMinutes: 30, medianMinutes: 30, p90Minutes: 50 },
+    })
+    expect(metrics.byCapability.map((c) => [c.capability, c.total, c.timeToDecision?.decided ?? 0])).toEqual([
+      ['deploy', 3, 3],
+      ['send_email', 1, 0],
+    ])
+    // A quorum decision counts for each approver named
+    expect(metrics.byApprover.map((a) => [a.approver, a.approved, a.denied])).toEqual([
+      ['dana', 2, 0],
+      ['raj', 1, 0],
+      ['system', 0, 1],
+    ])
+  })
+
+  test('has no time to decision before anything is decided', () => {
+    expect(approvalMetrics([]).timeToDecision).toBeNull()
+  })
+})
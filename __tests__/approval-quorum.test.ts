@@ -0,0 +1,142 @@
+import {
+  ApproverDirectory,
+  describeQuorum,
+  evaluateQuorum,
+  isEligibleApprover,
+  parseApproverGroup,
+  parseQuorum,
+  requestQuorum,
+  unsatisfiableQuorum,
+  validateQuorum,
+} from '@/lib/approval-quorum'
+
+const directory: ApproverDirectory = {
+  groups: new Map([
+    ['devops', ['dana', 'raj', 'lee']],
+    ['security', ['sam', 'dana']],
+  ]),
+  teamLead: 'dana',
+}
+
+const approve = (approver: string) => ({ approver, decision: 'approved' })
+
+describe('validateQuorum', () => {
+  test('accepts groups with counts and the team lead', () => {
+    expect(validateQuorum([{ group: 'devops', count: 2 }, { teamLead: true }])).toEqual([])
+    expect(validateQuorum([])).toEqual([])
+  })
+
+  test('labels each invalid requirement', () => {
+    expect(validateQuorum({ group: 'devops' })).toEqual(['approvers must be a list of requirements'])
+    expect(
+      validateQuorum([{ group: 'devops', count: 0 }, { group: 'devops', teamLead: true }, { teamLead: true, count: 2 }, 'x']),
+    ).toEqual([
+      'approvers[0].count must be a positive integer',
+      'approvers[1] must name either a group or teamLead: true',
+      'approvers[2]: a team has a single lead, so count must be 1',
+      'approvers[3] must be an object',
+    ])
+  })
+})
+
+describe('unsatisfiableQuorum', () => {
+  const groups = [
+    { name: 'devops', members: '["dana","raj","lee"]' },
+    { name: 'security', members: '["sam","dana"]' },
+  ]
+
+  test('accepts rules the groups and team lead can fill', () => {
+    expect(unsatisfiableQuorum([{ group: 'devops', count: 3 }, { teamLead: true }], groups, 'sam')).toEqual([])
+    // Organization policies: the lead is only known once a request is made
+    expect(unsatisfiableQuorum([{ teamLead: true }], groups, undefined)).toEqual([])
+  })
+
+  test('rejects unknown groups, oversized counts and a missing lead', () => {
+    expect(
+      unsatisfiableQuorum([{ group: 'legal' }, { group: 'security', count: 3 }, { teamLead: true }], groups, null),
+    ).toEqual([
+      'approvers[0]: unknown approver group "legal"',
+      'approvers[1]: needs 3 from "security", which has 2 member(s)',
+      'approvers[2]: the team has no lead',
+    ])
+  })
+
+  test('rejects seats that cannot all be filled by distinct approvers', () => {
+    // dana is the lead and in security, leaving security one short
+    expect(unsatisfiableQuorum([{ group: 'security', count: 2 }, { teamLead: true }], groups, 'dana')).toEqual([
+      expect.stringContaining('too few distinct approvers'),
+    ])
+  })
+})
+
+describe('parseQuorum and describeQuorum', () => {
+  test('round-trip a stored rule', () => {
+    const rule = parseQuorum('[{"teamLead":true},{"group":"security"}]')
+    expect(describeQuorum(rule)).toBe('the team lead + 1 from "security"')
+    expect(parseQuorum('')).toEqual([])
+    expect(parseQuorum('not json')).toEqual([])
+  })
+
+  test('an escalated request is decided by the group it was escalated to', () => {
+    const quorum = '[{"group":"devops","count":2}]'
+    expect(requestQuorum({ quorum, escalatedTo: '' })).toEqual([{ group: 'devops', count: 2 }])
+    expect(requestQuorum({ quorum, escalatedTo: 'security' })).toEqual([{ group: 'security' }])
+  })
+})
+
+describe('evaluateQuorum', () => {
+  const twoOfDevops = [{ group: 'devops', count: 2 }]
+
+  test('stays pending until enough distinct approvers vote', () => {
+    expect(evaluateQuorum(twoOfDevops, directory, [approve('raj')])).toEqual({
+      outcome: 'pending',
+      decidedBy: [],
+      missing: ['1 more from "devops"'],
+    })
+    expect(evaluateQuorum(twoOfDevops, directory, [approve('raj'), approve('lee')])).toMatchObject({
+      outcome: 'approved',
+      decidedBy: expect.arrayContaining(['raj', 'lee']),
+    })
+  })
+
+  test('ignores votes from outside the quorum', () => {
+    expect(isEligibleApprover('sam', twoOfDevops, directory)).toBe(false)
+    const status = evaluateQuorum(twoOfDevops, directory, [approve('raj'), approve('sam'), { approver: 'eve', decision: 'denied' }])
+    expect(status.outcome).toBe('pending')
+  })
+
+  test('any eligible denial denies the request', () => {
+    const status = evaluateQuorum(twoOfDevops, directory, [approve('raj'), { approver: 'lee', decision: 'denied' }])
+    expect(status).toEqual({ outcome: 'denied', decidedBy: ['lee'], missing: [] })
+  })
+
+  test('counts an approver in two pools once, where they are needed', () => {
+    // dana is the team lead and in security; sam can only fill the security seat
+    const rule = [{ teamLead: true }, { group: 'security' }]
+    expect(evaluateQuorum(rule, directory, [approve('dana')]).missing).toHaveLength(1)
+    expect(evaluateQuorum(rule, directory, [approve('sam'), approve('dana')]).outcome).toBe('approved')
+  })
+
+  test('reports a team lead seat no one can fill', () => {
+    const status = evaluateQuorum([{ teamLead: true }], { ...directory, teamLead: null }, [])
+    expect(status.missing).toEqual(['the team lead (the team has none)'])
+  })
+})
+
+describe('parseApproverGroup', () => {
+  test('trims and de-duplicates members', () => {
+    expect(parseApproverGroup({ name: ' devops ', members: ['raj', ' raj', 'lee'] })).toEqual({
+      group: { name: 'devops', description: '', members: ['raj', 'lee'] },
+      errors: [],
+    })
+  })
+
+  test('keeps existing fields on update and reports problems', () => {
+    const existing = { name: 'devops', description: 'Deploys', members: ['raj'] }
+    expect(parseApproverGroup({ members: ['lee'] }, existing).group).toEqual({ ...existing, members: ['lee'] })
+    expect(parseApproverGroup({ name: '', members: [''] }).errors).toEqual([
+      'name is required',
+      'members must be a list of approver names',
+    ])
+  })
+})
@@ -0,0 +1,139 @@
+// Mock Prisma before importing modules
+const mockRequests: any[] = []
+const mockVotes: any[] = []
+const mockAuditLogs: any[] = []
+const mockGroups: any[] = []
+
+const mockPrisma: any = {
+  approvalRequest: {
+    findUnique: jest.fn(({ where }: any) => {
+      const req = mockRequests.find((r) => r.id === where.id)
+      return Promise.resolve(req ? { ...req, votes: mockVotes.filter((v) => v.approvalRequestId === req.id) } : null)
+    }),
+    findUniqueOrThrow: jest.fn(({ where }: any) => mockPrisma.approvalRequest.findUnique({ where })),
+    updateMany: jest.fn(({ where, data }: any) => {
+      const matching = mockRequests.filter((r) => r.id === where.id && r.status === where.status)
+      matching.forEach((r) => Object.assign(r, data))
+      return Promise.resolve({ count: matching.length })
+    }),
+    count: jest.fn(({ where }: any) =>
+      Promise.resolve(mockRequests.filter((r) => r.id === where.id && r.status === where.status).length)
+    ),
+  },
+  approvalVote: {
+    create: jest.fn(({ data }: any) => {
+      const vote = { id: `vote-${mockVotes.length + 1}`, createdAt: new Date(), ...data }
+      mockVotes.push(vote)
+      return Promise.resolve(vote)
+    }),
+    findMany: jest.fn(({ where }: any) =>
+      Promise.resolve(mockVotes.filter((v) => v.approvalRequestId === where.approvalRequestId))
+    ),
+  },
+  approvalComment: {
+    create: jest.fn(({ data }: any) => Promise.resolve(data)),
+  },
+  approverGroup: {
+    findMany: jest.fn(({ where }: any) => Promise.resolve(mockGroups.filter((g) => where.name.in.includes(g.name)))),
+  },
+  team: {
+    findUnique: jest.fn(() => Promise.resolve(null)),
+  },
+  auditLog: {
+    findFirst: jest.fn(() => Promise.resolve(mockAuditLogs[mockAuditLogs.length - 1] ?? null)),
+    create: jest.fn(({ data }: any) => {
+      mockAuditLogs.push(data)
+      return Promise.resolve(data)
+    }),
+  },
+  $transaction: jest.fn((fn: any) => fn(mockPrisma)),
+}
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: mockPrisma,
+  prisma: mockPrisma,
+}))
+
+const mockResolveApproval = jest.fn((..._args: unknown[]) => Promise.resolve(null))
+jest.mock('@/lib/workflow-engine', () => ({
+  workflowEngine: { resolveApproval: (...args: unknown[]) => mockResolveApproval(...args) },
+}))
+
+import { reviewApproval } from '@/lib/approval-review'
+
+function addRequest(overrides: Record<string, unknown> = {}) {
+  mockRequests.push({
+    id: 'apr-1',
+    employeeId: 'emp-1',
+    employee: { id: 'emp-1', name: 'Emma', teamId: null },
+    action: 'send_email',
+    diff: '',
+    amendedDiff: '',
+    status: 'pending',
+    quorum: '[]',
+    escalatedTo: '',
+    ...overrides,
+  })
+}
+
+beforeEach(() => {
+  for (const list of [mockRequests, mockVotes, mockAuditLogs, mockGroups]) list.length = 0
+  mockResolveApproval.mockClear()
+})
+
+describe('reviewApproval', () => {
+  test('decides a pending request and resumes its workflow run', async () => {
+    addRequest()
+    const outcome = await reviewApproval('apr-1', { status: 'approved', approver: 'dana' })
+    expect(outcome).toMatchObject({ ok: true, approval: { status: 'approved', decidedBy: 'dana' } })
+    expect(mockResolveApproval).toHaveBeenCalledWith('apr-1', 'approved', undefined)
+  })
+
+  test('returns 409 without resuming anything when the request was resolved after it was read', async () => {
+    addRequest()
+    // The sweep denies the request between the read and the claim
+    mockPrisma.approvalRequest.updateMany.mockImplementationOnce(() => {
+      mockRequests[0].status = 'denied'
+      return Promise.resolve({ count: 0 })
+    })
+
+    const outcome = await reviewApproval('apr-1', { status: 'approved', approver: 'dana' })
+    expect(outcome).toEqual({
+      ok: false,
+      status: 409,
+      error: 'Approval request was resolved while this decision was being made',
+    })
+    expect(mockResolveApproval).not.toHaveBeenCalled()
+    expect(mockAuditLogs).toHaveLength(0)
+  })
+
+  test('reports a workflow that fails to resume alongside the recorded decision', async () => {
+    addRequest()
+    mockResolveApproval.mockImplementationOnce(() => Promise.reject(new Error('runtime unavailable')))
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    const outcome = await reviewApproval('apr-1', { status: 'approved', approver: 'dana' })
+    consoleError.mockRestore()
+    expect(outcome).toMatchObject({
+      ok: true,
+      approval: { status: 'approved', workflowRun: null, workflowError: 'runtime unavailable' },
+    })
+    expect(mockAuditLogs.map((log) => log.action)).toEqual(['approval_approved'])
+  })
+
+  test('counts a concurrent vote cast after the request was read', async () => {
+    mockGroups.push({ name: 'security', members: JSON.stringify(['dana', 'lee']) })
+    addRequest({ quorum: JSON.stringify([{ group: 'security', count: 2 }]) })
+    // Lee's vote lands after Dana's review read the request, before Dana's vote
+    mockPrisma.approvalVote.create.mockImplementationOnce(({ data }: any) => {
+      mockVotes.push({ id: 'vote-lee', approvalRequestId: 'apr-1', approver: 'lee', decision: 'approved', createdAt: new Date() })
+      mockVotes.push({ id: 'vote-dana', createdAt: new Date(), ...data })
+      return Promise.resolve(data)
+    })
+
+    const outcome = await reviewApproval('apr-1', { status: 'approved', approver: 'dana' })
+    expect(outcome).toMatchObject({ ok: true, approval: { status: 'approved', quorumStatus: { outcome: 'approved' } } })
+    expect(mockResolveApproval).toHaveBeenCalledWith('apr-1', 'approved', undefined)
+  })
+})
@@ -0,0 +1,46 @@
+import {
+  compareSpecificity,
+  matchesCapability,
+  mostSpecificMatches,
+  validateCapabilityPattern,
+} from '@/lib/capabilities'
+
+describe('Capability patterns', () => {
+  test('should match exact, namespace and in-segment wildcards', () => {
+    expect(matchesCapability('deploy', 'deploy')).toBe(true)
+    expect(matchesCapability('deploy', 'deploy:production')).toBe(false)
+    expect(matchesCapability('*', 'anything:at.all')).toBe(true)
+    expect(matchesCapability('inter_agent:*', 'inter_agent:notify')).toBe(true)
+    expect(matchesCapability('inter_agent:*', 'inter_agent')).toBe(false)
+    expect(matchesCapability('github.*', 'github.pr.merge')).toBe(true)
+    expect(matchesCapability('deploy:prod*', 'deploy:production')).toBe(true)
+    expect(matchesCapability('deploy:prod*', 'deploy:production:eu')).toBe(false)
+    expect(matchesCapability('*_email', 'send_email')).toBe(true)
+  })
+
+  test('should rank exact capabilities above narrower and broader patterns', () => {
+    const ranked = ['*', 'deploy:*', 'deploy:prod*', 'deploy:production'].sort(compareSpecificity)
+    expect(ranked).toEqual(['*', 'deploy:*', 'deploy:prod*', 'deploy:production'])
+    expect(compareSpecificity('github.pr.*', 'github.*')).toBeGreaterThan(0)
+  })
+
+  test('should keep every match at the highest specificity', () => {
+    const policies = [
+      { id: 'broad', capability: 'inter_agent:*' },
+      { id: 'allow', capability: 'inter_agent:notify' },
+      { id: 'deny', capability: 'inter_agent:notify' },
+      { id: 'other', capability: 'deploy' },
+    ]
+    expect(mostSpecificMatches(policies, 'inter_agent:notify').map((p) => p.id)).toEqual(['allow', 'deny'])
+    expect(mostSpecificMatches(policies, 'inter_agent:escalate').map((p) => p.id)).toEqual(['broad'])
+    expect(mostSpecificMatches(policies, 'send_email')).toEqual([])
+  })
+
+  test('should reject malformed patterns', () => {
+    expect(validateCapabilityPattern('inter_agent:*')).toBeNull()
+    expect(validateCapabilityPattern('')).toContain('non-empty')
+    expect(validateCapabilityPattern('deploy::prod')).toContain('empty segment')
+    expect(validateCapabilityPattern('github.**')).toContain('**')
+    expect(validateCapabilityPattern('send email')).toContain('may only contain')
+  })
+})
@@ -0,0 +1,71 @@
+import { analyzePolicies, AnalyzedPolicy } from '@/lib/policy-analyzer'
+
+function policy(id: string, overrides: Partial<AnalyzedPolicy>): AnalyzedPolicy {
+  return {
+    id,
+    scope: 'employee',
+    capability: 'send_email',
+    permission: 'allow',
+    rateLimit: null,
+    quotas: '[]',
+    conditions: '[]',
+    schedule: '',
+    ...overrides,
+  }
+}
+
+const internal = '[{"path":"recipient","op":"ends_with","value":"@acme.com"}]'
+const large = '[{"path":"recipients","op":"size_gt","value":10}]'
+
+describe('analyzePolicies', () => {
+  test('flags an allow shadowed by an equally specific deny', () => {
+    const findings = analyzePolicies([policy('allow', {}), policy('deny', { permission: 'deny' })])
+    expect(findings).toEqual([
+      expect.objectContaining({ kind: 'shadowed', policyId: 'allow', relatedPolicyIds: ['deny'] }),
+    ])
+  })
+
+  test('flags policies a nearer scope always overrides', () => {
+    const findings = analyzePolicies([
+      policy('emp', { capability: 'deploy:*', permission: 'approval_required' }),
+      policy('team', { scope: 'team', capability: 'deploy:production', permission: 'deny' }),
+    ])
+    expect(findings).toEqual([expect.objectContaining({ kind: 'shadowed', policyId: 'team' })])
+    expect(findings[0].message).toContain('employee approval required "deploy:*" always takes precedence')
+  })
+
+  test('flags duplicates once and explains combined rate limits', () => {
+    const findings = analyzePolicies([policy('a', { rateLimit: 10 }), policy('b', { rateLimit: 5 })])
+    expect(findings).toHaveLength(1)
+    expect(findings[0]).toMatchObject({ kind: 'redundant', policyId: 'b', relatedPolicyIds: ['a'] })
+    expect(findings[0].message).toContain('(5/minute and 10/minute)')
+  })
+
+  test('flags conflicting conditional policies but not scheduled restrictions', () => {
+    const conflicting = analyzePolicies([
+      policy('allow-internal', { conditions: internal }),
+      policy('deny-large', { permission: 'deny', conditions: large }),
+    ])
+    expect(conflicting).toEqual([
+      expect.objectContaining({ kind: 'contradictory', policyId: 'allow-internal', relatedPolicyIds: ['deny-large'] }),
+    ])
+
+    // An unconditional baseline tightened on a schedule is intentional
+    expect(
+      analyzePolicies([
+        policy('base', { capability: 'deploy', permission: 'approval_required' }),
+        policy('friday', { capability: 'deploy', permission: 'deny', schedule: '{"days":["fri"]}' }),
+      ]),
+    ).toEqual([])
+  })
+
+  test('ignores policies for unrelated capabilities or with more conditions', () => {
+    expect(
+      analyzePolicies([
+        policy('email', {}),
+        policy('deploy', { capability: 'deploy', permission: 'deny' }),
+        policy('exception', { permission: 'deny', conditions: large }),
+      ]),
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,157 @@
+import { buildBundle, BundleState, parseBundle, planBundle, serializeBundle } from '@/lib/policy-bundle'
+
+function policy(overrides: Partial<BundleState['policies'][number]>): BundleState['policies'][number] {
+  return {
+    id: 'pol',
+    scope: 'employee',
+    employeeId: null,
+    teamId: null,
+    capability: 'send_email',
+    permission: 'allow',
+    rateLimit: null,
+    quotas: '[]',
+    conditions: '[]',
+    schedule: '',
+    enabled: true,
+    approvers: '[]',
+    expiry: '',
+    ...overrides,
+  }
+}
+
+const state: BundleState = {
+  employees: [
+    { id: 'emp-alex', name: 'Alex', teamId: 'team-eng' },
+    { id: 'emp-otto', name: 'Otto', teamId: null },
+  ],
+  teams: [{ id: 'team-eng', name: 'Engineering', description: 'Builds things', lead: 'dana' }],
+  policies: [
+    policy({ id: 'pol-org', scope: 'org', capability: 'inter_agent_comm', rateLimit: 50 }),
+    policy({ id: 'pol-team', scope: 'team', teamId: 'team-eng', capability: 'deploy:production', permission: 'approval_required' }),
+    policy({
+      id: 'pol-otto',
+      employeeId: 'emp-otto',
+      capability: 'deploy',
+      permission: 'deny',
+      schedule: '{"freeze":true}',
+    }),
+  ],
+  workflowRules: [
+    {
+      id: 'rule-1',
+      teamId: 'team-eng',
+      trigger: 'pr_opened',
+      steps: '[{"agent":"Alex","action":"modify_code"}]',
+    },
+  ],
+  approverGroups: [{ name: 'security', members: '["lee","sam"]' }],
+}
+
+describe('buildBundle', () => {
+  test('references everything by name and round-trips through YAML', () => {
+    const bundle = buildBundle(state)
+    expect(bundle.teams).toEqual([{ name: 'Engineering', description: 'Builds things', lead: 'dana', members: ['Alex'] }])
+    expect(bundle.policies.map((p) => p.scope)).toEqual(['org', 'team', 'employee'])
+    expect(bundle.policies[2]).toEqual({
+      scope: 'employee',
+      employee: 'Otto',
+      capability: 'deploy',
+      permission: 'deny',
+      schedule: { freeze: true },
+    })
+
+    const parsed = parseBundle(serializeBundle(bundle, 'yaml'))
+    expect(parsed.bundle).toEqual(bundle)
+    expect(planBundle(parsed.bundle!, state).plan?.changes).toEqual([])
+  })
+})
+
+describe('planBundle', () => {
+  test('plans creates, updates and deletes', () => {
+    const bundle = buildBundle(state)
+    bundle.teams.push({ name: 'Ops', members: ['Otto'] })
+    bundle.policies[1].permission = 'deny'
+    bundle.policies.splice(0, 1)
+    bundle.policies.push({ scope: 'team', team: 'Ops', capability: 'deploy', permission: 'approval_required' })
+
+    const { plan } = planBundle(bundle, state, { prune: true })
+    expect(plan?.changes.map((c) => [c.action, c.kind, c.key])).toEqual([
+      ['create', 'team', 'team "Ops"'],
+      ['update', 'policy', 'team "Engineering" deploy:production'],
+      ['create', 'policy', 'team "Ops" deploy'],
+      ['delete', 'policy', 'organization inter_agent_comm'],
+    ])
+    expect(plan?.changes[1].fields).toEqual(['permission'])
+    expect(plan?.summary).toEqual({ create: 2, update: 1, delete: 1 })
+
+    // Without pruning, the default, missing rows are left alone
+    expect(planBundle(bundle, state).plan?.summary.delete).toBe(0)
+  })
+
+  test('only prunes the sections a document has', () => {
+    const { bundle } = parseBundle('version: 1\npolicies:\n  - scope: org\n    capability: inter_agent_comm\n    permission: allow\n    rateLimit: 50\n')
+    expect(bundle).toEqual({ version: 1, policies: [expect.objectContaining({ capability: 'inter_agent_comm' })] })
+
+    const { plan } = planBundle(bundle!, state, { prune: true })
+    expect(plan?.changes.map((c) => [c.action, c.kind, c.key])).toEqual([
+      ['delete', 'policy', 'team "Engineering" deploy:production'],
+      ['delete', 'policy', 'employee "Otto" deploy during {"freeze":true}'],
+    ])
+  })
+
+  test('rejects what POST /api/policies would reject, and unknown names', () => {
+    const bundle = buildBundle(state)
+    bundle.policies.push(
+      { scope: 'employee', employee: 'Nobody', capability: 'deploy', permission: 'allow' },
+      { scope: 'org', capability: 'deploy', permission: 'sometimes' },
+    )
+    bundle.workflowRules[0].steps = [{ agent: 'Zed', action: 'deploy' }]
+
+    const { plan, issues } = planBundle(bundle, state)
+    expect(plan).toBeNull()
+    expect(issues).toEqual([
+      'policies[3]: unknown employee "Nobody"',
+      'policies[4]: permission must be one of: allow, deny, approval_required',
+      'workflowRules[0]: agent "Zed" is not an employee',
+    ])
+  })
+
+  test('updates team leads', () => {
+    const bundle = buildBundle(state)
+    bundle.teams[0].lead = 'lee'
+
+    const { plan } = planBundle(bundle, state)
+    expect(plan?.changes).toEqual([
+      expect.objectContaining({ kind: 'team', action: 'update', fields: ['lead'], data: expect.objectContaining({ lead: 'lee' }) }),
+    ])
+  })
+
+  test('rejects quorums that the approver groups and planned team leads cannot fill', () => {
+    const bundle = buildBundle(state)
+    bundle.teams.push({ name: 'Ops', members: ['Otto'] })
+    bundle.policies.push(
+      { scope: 'team', team: 'Engineering', capability: 'deploy', permission: 'approval_required', approvers: [{ group: 'security', count: 2 }, { teamLead: true }] },
+      { scope: 'team', team: 'Engineering', capability: 'delete_file', permission: 'approval_required', approvers: [{ group: 'security', count: 3 }] },
+      { scope: 'employee', employee: 'Otto', capability: 'send_email', permission: 'approval_required', approvers: [{ teamLead: true }] },
+      { scope: 'org', capability: 'deploy', permission: 'approval_required', approvers: [{ group: 'legal' }] },
+    )
+
+    const { plan, issues } = planBundle(bundle, state)
+    expect(plan).toBeNull()
+    expect(issues).toEqual([
+      'policies[4]: approvers[0]: needs 3 from "security", which has 2 member(s)',
+      'policies[5]: approvers[0]: the team has no lead',
+      'policies[6]: approvers[0]: unknown approver group "legal"',
+    ])
+  })
+})
+
+describe('parseBundle', () => {
+  test('reports malformed documents', () => {
+    expect(parseBundle('version: [').issues[0]).toContain('not valid YAML or JSON')
+    expect(parseBundle('{"version": 2, "teams": {}}').issues).toEqual([
+      'version must be 1',
+      'teams must be an array',
+    ])
+  })
+})
@@ -0,0 +1,86 @@
+import type { Policy } from '@prisma/client'
+import { planBulkChange, policyUpdateData } from '@/lib/policy-changes'
+
+function policy(overrides: Partial<Policy>): Policy {
+  return {
+    id: 'pol',
+    scope: 'employee',
+    employeeId: 'emp-1',
+    teamId: null,
+    capability: 'deploy',
+    permission: 'allow',
+    rateLimit: null,
+    quotas: '[]',
+    conditions: '[]',
+    schedule: '',
+    enabled: true,
+    approvers: '[]',
+    expiry: '',
+    ...overrides,
+  }
+}
+
+const state = {
+  employees: [{ id: 'emp-1' }, { id: 'emp-2' }, { id: 'emp-3' }],
+  policies: [
+    policy({ id: 'p1' }),
+    policy({ id: 'p2', employeeId: 'emp-2', enabled: false }),
+    policy({ id: 'p3', employeeId: 'emp-3', capability: 'send_email' }),
+    policy({ id: 'p4', scope: 'team', employeeId: null, teamId: 'team-1' }),
+  ],
+}
+
+describe('policyUpdateData', () => {
+  test('encodes the given fields only', () => {
+    expect(policyUpdateData({ permission: 'deny', schedule: null, quotas: [] })).toEqual({
+      permission: 'deny',
+      schedule: '',
+      quotas: '[]',
+    })
+  })
+})
+
+describe('planBulkChange', () => {
+  test('skips targets already in the requested state', () => {
+    const { changes } = planBulkChange({ operation: 'disable', policyIds: ['p1', 'p2'] }, state)
+    expect(changes).toEqual([{ action: 'update', policy: state.policies[0], data: { enabled: false } }])
+  })
+
+  test('selects employee policies by employee and capability', () => {
+    const { changes } = planBulkChange(
+      { operation: 'update', employeeIds: ['emp-1', 'emp-2', 'emp-3'], capability: 'deploy', changes: { permission: 'deny' } },
+      state,
+    )
+    expect(changes?.map((c) => c.action === 'update' && c.policy.id)).toEqual(['p1', 'p2'])
+  })
+
+  test('apply updates existing policies and creates missing ones', () => {
+    const { changes } = planBulkChange(
+      { operation: 'apply', employeeIds: ['emp-1', 'emp-3'], capability: 'deploy', changes: { permission: 'approval_required' } },
+      state,
+    )
+    expect(changes).toEqual([
+      { action: 'update', policy: state.policies[0], data: { permission: 'approval_required' } },
+      {
+        action: 'create',
+        employeeId: 'emp-3',
+        data: expect.objectContaining({ capability: 'deploy', permission: 'approval_required', enabled: true }),
+      },
+    ])
+  })
+
+  test('reports every problem with the request', () => {
+    expect(planBulkChange({ operation: 'archive', policyIds: ['p1'] }, state).issues).toEqual([
+      'operation must be one of: update, enable, disable, delete, apply',
+    ])
+    expect(planBulkChange({ operation: 'delete', policyIds: ['p1', 'nope'] }, state).issues).toEqual([
+      'policyIds[1]: unknown policy "nope"',
+    ])
+    expect(
+      planBulkChange({ operation: 'update', policyIds: ['p1'], changes: { permission: 'maybe', teamId: 'team-1' } }, state).issues,
+    ).toEqual(['changes: permission must be one of: allow, deny, approval_required', 'changes cannot move policies to another owner'])
+    expect(planBulkChange({ operation: 'apply', policyIds: ['p1'], changes: {} }, state).issues).toEqual([
+      'apply requires employeeIds and capability',
+    ])
+  })
+})
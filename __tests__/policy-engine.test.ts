@@ -4,9 +4,21 @@ import { createHash } from 'crypto'
 const mockPolicies: any[] = []
 const mockApprovalRequests: any[] = []
 const mockAuditLogs: any[] = []
+const mockFreezes: any[] = []
+const mockStandingApprovals: any[] = []
 let auditLogIdCounter = 0
-
-const mockPrisma = {
+let mockTransactions: Promise<unknown> = Promise.resolve()
+
+const isPendingDuplicate = (where: any) => (r: any) =>
+  r.employeeId === where.employeeId &&
+  r.fingerprint === where.fingerprint &&
+  r.status === where.status &&
+  !r.workflowRunId &&
+  r.quorum === where.quorum &&
+  r.expiry === where.expiry &&
+  (!r.expiresAt || r.expiresAt > where.OR[1].expiresAt.gt)
+
+const mockPrisma: any = {
   employee: {
     findUnique: jest.fn(({ where }: any) => {
       // Return a mock employee for any ID starting with 'emp-'
@@ -17,6 +29,7 @@ const mockPrisma = {
           role: 'Developer',
           autonomyMode: 'full',
           status: 'running',
+          teamId: 'team-1',
         })
       }
       return Promise.resolve(null)
@@ -24,6 +37,19 @@ const mockPrisma = {
   },
   policy: {
     findMany: jest.fn(({ where }: any) => {
+      if (where.OR) {
+        // Inherited policy lookup: policies without a scope are employee policies
+        return Promise.resolve(
+          mockPolicies.filter((p) =>
+            (where.enabled === undefined || (p.enabled ?? true) === where.enabled) &&
+            where.OR.some((clause: any) =>
+              Object.entries(clause).every(([key, value]) =>
+                (key === 'scope' ? p.scope ?? 'employee' : p[key]) === value,
+              ),
+            ),
+          )
+        )
+      }
       if (where.capability) {
         return Promise.resolve(
           mockPolicies.filter((p) => p.employeeId === where.employeeId && p.capability === where.capability)
@@ -36,17 +62,37 @@ const mockPrisma = {
   },
   approvalRequest: {
     create: jest.fn(({ data }: any) => {
-      const req = { id: `apr-${Date.now()}`, ...data, createdAt: new Date() }
+      const req = { id: `apr-${mockApprovalRequests.length + 1}`, retryCount: 0, ...data, createdAt: new Date() }
       mockApprovalRequests.push(req)
       return Promise.resolve(req)
     }),
     findMany: jest.fn(() => Promise.resolve(mockApprovalRequests)),
+    findFirst: jest.fn(({ where }: any) => Promise.resolve(mockApprovalRequests.find(isPendingDuplicate(where)) ?? null)),
     update: jest.fn(({ where, data }: any) => {
       const req = mockApprovalRequests.find((r) => r.id === where.id)
-      if (req) Object.assign(req, data)
+      req.retryCount = (req.retryCount ?? 0) + data.retryCount.increment
+      req.lastRetryAt = data.lastRetryAt
       return Promise.resolve(req)
     }),
   },
+  changeFreeze: {
+    findMany: jest.fn(() => Promise.resolve(mockFreezes)),
+  },
+  standingApproval: {
+    findMany: jest.fn(({ where }: any) =>
+      Promise.resolve(
+        mockStandingApprovals.filter(
+          (s) => s.employeeId === where.employeeId && !s.revokedAt && s.startsAt <= where.startsAt.lte && s.expiresAt > where.expiresAt.gt
+        )
+      )
+    ),
+    update: jest.fn(({ where, data }: any) => {
+      const standing = mockStandingApprovals.find((s) => s.id === where.id)
+      standing.uses += data.uses.increment
+      standing.lastUsedAt = data.lastUsedAt
+      return Promise.resolve(standing)
+    }),
+  },
   auditLog: {
     findFirst: jest.fn(() => {
       const last = mockAuditLogs[mockAuditLogs.length - 1]
@@ -65,6 +111,12 @@ const mockPrisma = {
       return Promise.resolve(sorted)
     }),
   },
+  // One transaction at a time, as SQLite's write lock has it
+  $transaction: jest.fn((fn: any) => {
+    const run = mockTransactions.then(() => fn(mockPrisma))
+    mockTransactions = run.catch(() => undefined)
+    return run
+  }),
 }
 
 jest.mock('@/lib/db', () => ({
@@ -76,14 +128,18 @@ jest.mock('@/lib/db', () => ({
 // Now import the modules under test
 import { PolicyEngine } from '@/lib/policy-engine'
 import { AuditLogger } from '@/lib/audit'
+import { MemoryRateLimitStore, RateLimiter } from '@/lib/rate-limit'
+
+const newEngine = () => new PolicyEngine(new RateLimiter(new MemoryRateLimitStore()))
 
 describe('Policy Engine', () => {
   let engine: PolicyEngine
 
   beforeEach(() => {
-    engine = new PolicyEngine()
+    engine = newEngine()
     mockPolicies.length = 0
     mockApprovalRequests.length = 0
+    mockStandingApprovals.length = 0
     mockAuditLogs.length = 0
   })
 
@@ -129,6 +185,217 @@ describe('Policy Engine', () => {
     expect(result.requiresApproval).toBe(true)
   })
 
+  test('should let a more specific policy override a wildcard', async () => {
+    mockPolicies.push(
+      { id: 'p6', employeeId: 'emp-1', capability: 'deploy:*', permission: 'deny', rateLimit: null },
+      { id: 'p7', employeeId: 'emp-1', capability: 'deploy:staging', permission: 'allow', rateLimit: null },
+    )
+
+    expect((await engine.evaluate('emp-1', 'deploy:staging')).allowed).toBe(true)
+    expect((await engine.evaluate('emp-1', 'deploy:production')).allowed).toBe(false)
+  })
+
+  test('should let deny win among equally specific policies', async () => {
+    mockPolicies.push(
+      { id: 'p8', employeeId: 'emp-1', capability: 'github.*', permission: 'allow', rateLimit: null },
+      { id: 'p9', employeeId: 'emp-1', capability: 'github.*', permission: 'deny', rateLimit: null },
+    )
+
+    const result = await engine.evaluate('emp-1', 'github.push')
+    expect(result.allowed).toBe(false)
+    expect(result.reason).toContain('denied')
+  })
+
+  test('should only apply conditional policies when their conditions hold', async () => {
+    mockPolicies.push(
+      { id: 'p10', employeeId: 'emp-1', capability: 'send_email', permission: 'deny', rateLimit: null, conditions: '[]' },
+      {
+        id: 'p11',
+        employeeId: 'emp-1',
+        capability: 'send_email',
+        permission: 'allow',
+        rateLimit: null,
+        conditions: JSON.stringify([{ path: 'recipient', op: 'ends_with', value: '@acme.com' }]),
+      },
+    )
+
+    expect((await engine.evaluate('emp-1', 'send_email', { recipient: 'ops@acme.com' })).allowed).toBe(true)
+    expect((await engine.evaluate('emp-1', 'send_email', { recipient: 'someone@gmail.com' })).allowed).toBe(false)
+  })
+
+  test('should require approval only in the matching context', async () => {
+    mockPolicies.push(
+      { id: 'p12', employeeId: 'emp-1', capability: 'deploy', permission: 'allow', rateLimit: null, conditions: '[]' },
+      {
+        id: 'p13',
+        employeeId: 'emp-1',
+        capability: 'deploy',
+        permission: 'approval_required',
+        rateLimit: null,
+        conditions: JSON.stringify([{ path: 'environment', op: 'eq', value: 'production' }]),
+      },
+      {
+        id: 'p14',
+        employeeId: 'emp-1',
+        capability: 'api_call',
+        permission: 'deny',
+        rateLimit: null,
+        conditions: JSON.stringify([{ path: 'payload', op: 'size_gt', value: 10 }]),
+      },
+    )
+
+    expect((await engine.evaluate('emp-1', 'deploy', { environment: 'staging' })).allowed).toBe(true)
+    expect((await engine.evaluate('emp-1', 'deploy', { environment: 'production' })).requiresApproval).toBe(true)
+    expect((await engine.evaluate('emp-1', 'api_call', { payload: 'tiny' })).allowed).toBe(true)
+    expect((await engine.evaluate('emp-1', 'api_call', { payload: { body: 'x'.repeat(50) } })).allowed).toBe(false)
+  })
+
+  test('should only apply scheduled policies inside their window', async () => {
+    mockPolicies.push(
+      { id: 'p15', employeeId: 'emp-1', capability: 'deploy', permission: 'allow', rateLimit: null },
+      {
+        id: 'p16',
+        employeeId: 'emp-1',
+        capability: 'deploy',
+        permission: 'deny',
+        rateLimit: null,
+        schedule: JSON.stringify({ days: ['fri'], start: '16:00' }),
+      },
+    )
+
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-16T15:00:00Z'))
+    try {
+      expect((await engine.evaluate('emp-1', 'deploy')).allowed).toBe(true)
+      jest.setSystemTime(new Date('2026-10-16T17:00:00Z'))
+      expect((await engine.evaluate('emp-1', 'deploy')).allowed).toBe(false)
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  test('should apply freeze policies while a covering freeze is active', async () => {
+    mockPolicies.push(
+      { id: 'p17', employeeId: 'emp-1', capability: 'deploy', permission: 'allow', rateLimit: null },
+      { id: 'p18', employeeId: 'emp-1', capability: 'deploy', permission: 'deny', rateLimit: null, schedule: '{"freeze":true}' },
+    )
+    expect((await engine.evaluate('emp-1', 'deploy')).allowed).toBe(true)
+
+    mockFreezes.push({ id: 'f1', name: 'Release', capabilities: '["deploy"]' })
+    try {
+      expect((await engine.evaluate('emp-1', 'deploy')).allowed).toBe(false)
+    } finally {
+      mockFreezes.length = 0
+    }
+  })
+
+  test('should let employee policies override team and organization policies', async () => {
+    mockPolicies.push(
+      { id: 'p19', scope: 'org', employeeId: null, teamId: null, capability: 'deploy', permission: 'deny', rateLimit: null },
+      { id: 'p20', scope: 'team', employeeId: null, teamId: 'team-1', capability: 'deploy', permission: 'approval_required', rateLimit: null },
+      { id: 'p21', scope: 'org', employeeId: null, teamId: null, capability: 'send_email', permission: 'deny', rateLimit: null },
+      { id: 'p22', scope: 'team', employeeId: null, teamId: 'team-2', capability: 'send_email', permission: 'allow', rateLimit: null },
+    )
+
+    const inherited = await engine.evaluate('emp-1', 'deploy')
+    expect(inherited.requiresApproval).toBe(true)
+    expect(inherited.reason).toContain('inherited from team policy')
+
+    // Another team's policies do not apply
+    const orgWide = await engine.evaluate('emp-1', 'send_email')
+    expect(orgWide.allowed).toBe(false)
+    expect(orgWide.reason).toContain('inherited from organization policy')
+
+    mockPolicies.push({ id: 'p23', employeeId: 'emp-1', capability: 'deploy:*', permission: 'allow', rateLimit: null })
+    expect((await engine.evaluate('emp-1', 'deploy:staging')).allowed).toBe(true)
+    expect((await engine.evaluate('emp-1', 'deploy')).requiresApproval).toBe(true)
+  })
+
+  test('should ignore disabled policies', async () => {
+    mockPolicies.push(
+      { id: 'p37', employeeId: 'emp-1', capability: 'deploy', permission: 'deny', rateLimit: null, enabled: false },
+      { id: 'p38', scope: 'org', employeeId: null, teamId: null, capability: 'deploy', permission: 'approval_required', rateLimit: null },
+    )
+
+    const result = await engine.evaluate('emp-1', 'deploy')
+    expect(result.requiresApproval).toBe(true)
+    expect(result.reason).toContain('inherited from organization policy')
+  })
+
+  test('should enforce rate limits over a sliding window', async () => {
+    mockPolicies.push({ id: 'p24', employeeId: 'emp-1', capability: 'api_call', permission: 'allow', rateLimit: 2 })
+
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-16T12:00:00Z'))
+    try {
+      expect((await engine.evaluate('emp-1', 'api_call')).allowed).toBe(true)
+      jest.setSystemTime(new Date('2026-10-16T12:00:30Z'))
+      expect((await engine.evaluate('emp-1', 'api_call')).allowed).toBe(true)
+
+      const limited = await engine.evaluate('emp-1', 'api_call')
+      expect(limited.allowed).toBe(false)
+      expect(limited.reason).toContain('resets at 2026-10-16T12:01:00.000Z')
+
+      // The first hit leaves the window; the second is still counted
+      jest.setSystemTime(new Date('2026-10-16T12:01:01Z'))
+      expect((await engine.evaluate('emp-1', 'api_call')).allowed).toBe(true)
+      expect((await engine.evaluate('emp-1', 'api_call')).allowed).toBe(false)
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  test('should not let simultaneous evaluations share the last use', async () => {
+    mockPolicies.push({ id: 'p24', employeeId: 'emp-1', capability: 'api_call', permission: 'allow', rateLimit: 1 })
+
+    const results = await Promise.all([engine.evaluate('emp-1', 'api_call'), engine.evaluate('emp-1', 'api_call')])
+    expect(results.map((r) => r.allowed).sort()).toEqual([false, true])
+    expect(mockAuditLogs.map((l) => l.action)).toEqual(expect.arrayContaining(['rate_limit_exceeded']))
+  })
+
+  test('should report which of several quota windows is exhausted', async () => {
+    mockPolicies.push({
+      id: 'p25',
+      employeeId: 'emp-1',
+      capability: 'send_email',
+      permission: 'allow',
+      rateLimit: 10,
+      quotas: JSON.stringify([{ kind: 'count', limit: 2, window: 'day' }]),
+    })
+
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-16T09:00:00Z'))
+    try {
+      await engine.evaluate('emp-1', 'send_email')
+      jest.setSystemTime(new Date('2026-10-16T15:00:00Z'))
+      await engine.evaluate('emp-1', 'send_email')
+
+      const result = await engine.evaluate('emp-1', 'send_email')
+      expect(result.allowed).toBe(false)
+      expect(result.exhaustedQuota).toMatchObject({ kind: 'count', window: 'day', limit: 2, used: 2 })
+      expect(result.exhaustedQuota?.resetAt).toEqual(new Date('2026-10-17T09:00:00Z'))
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  test('should charge action costs against dollar budgets', async () => {
+    mockPolicies.push({
+      id: 'p26',
+      employeeId: 'emp-1',
+      capability: 'api_call',
+      permission: 'allow',
+      rateLimit: null,
+      quotas: JSON.stringify([{ kind: 'budget', amountUsd: 10, window: 'hour' }]),
+    })
+
+    expect((await engine.evaluate('emp-1', 'api_call', { costUsd: 6 })).allowed).toBe(true)
+    expect((await engine.evaluate('emp-1', 'api_call', { costUsd: 3 })).allowed).toBe(true)
+
+    const result = await engine.evaluate('emp-1', 'api_call', { costUsd: 2 })
+    expect(result.allowed).toBe(false)
+    expect(result.reason).toContain('Budget exceeded')
+    expect(result.exhaustedQuota).toMatchObject({ kind: 'budget', window: 'hour', limit: 10, used: 9 })
+    expect(mockAuditLogs[mockAuditLogs.length - 1].action).toBe('budget_exceeded')
+  })
+
   test('should allow action when no policy exists (default allow)', async () => {
     const result = await engine.evaluate('emp-1', 'unknown_action')
     expect(result.allowed).toBe(true)
@@ -139,9 +406,10 @@ describe('Approval Flow', () => {
   let engine: PolicyEngine
 
   beforeEach(() => {
-    engine = new PolicyEngine()
+    engine = newEngine()
     mockPolicies.length = 0
     mockApprovalRequests.length = 0
+    mockStandingApprovals.length = 0
     mockAuditLogs.length = 0
   })
 
@@ -172,6 +440,201 @@ describe('Approval Flow', () => {
     await engine.evaluate('emp-1', 'read_data')
     expect(mockApprovalRequests.length).toBe(0)
   })
+
+  describe('when the same action is requested again', () => {
+    beforeEach(() => {
+      mockPolicies.push({ id: 'p7', employeeId: 'emp-1', capability: 'deploy', permission: 'approval_required', rateLimit: null })
+    })
+
+    test('should count retries on the pending request instead of queueing duplicates', async () => {
+      const first = await engine.evaluate('emp-1', 'deploy', { env: 'prod', ref: 'v2' })
+      const retry = await engine.evaluate('emp-1', 'deploy', { ref: 'v2', env: 'prod' })
+      expect(mockApprovalRequests).toHaveLength(1)
+      expect(retry.approvalRequestId).toBe(first.approvalRequestId)
+      expect(retry.reason).toContain('already pending (retry 1)')
+      expect(mockApprovalRequests[0]).toMatchObject({ retryCount: 1, lastRetryAt: expect.any(Date) })
+      expect(mockAuditLogs[mockAuditLogs.length - 1].action).toBe('approval_request_retried')
+    })
+
+    test('should count simultaneous attempts on one request', async () => {
+      const results = await Promise.all([
+        engine.evaluate('emp-1', 'deploy', { env: 'prod' }),
+        engine.evaluate('emp-1', 'deploy', { env: 'prod' }),
+      ])
+      expect(mockApprovalRequests).toHaveLength(1)
+      expect(results.map((r) => r.approvalRequestId)).toEqual(['apr-1', 'apr-1'])
+      expect(mockApprovalRequests[0].retryCount).toBe(1)
+    })
+
+    test('should count a retry on the oldest of several equivalent requests only', async () => {
+      await engine.evaluate('emp-1', 'deploy', { env: 'prod' })
+      // An equivalent request queued before retries were counted
+      mockApprovalRequests.push({ ...mockApprovalRequests[0], id: 'apr-old-2' })
+
+      const retry = await engine.evaluate('emp-1', 'deploy', { env: 'prod' })
+      expect(retry.approvalRequestId).toBe('apr-1')
+      expect(mockApprovalRequests.map((r) => r.retryCount)).toEqual([1, 0])
+    })
+
+    test('should queue a new request for a different context or once the first is resolved', async () => {
+      await engine.evaluate('emp-1', 'deploy', { env: 'prod' })
+      await engine.evaluate('emp-1', 'deploy', { env: 'staging' })
+      mockApprovalRequests[0].status = 'denied'
+      await engine.evaluate('emp-1', 'deploy', { env: 'prod' })
+      expect(mockApprovalRequests).toHaveLength(3)
+      expect(mockApprovalRequests.map((r) => r.retryCount)).toEqual([0, 0, 0])
+    })
+  })
+
+  describe('with a standing approval', () => {
+    beforeEach(() => {
+      mockPolicies.push({ id: 'p6', employeeId: 'emp-1', capability: 'send_email', permission: 'approval_required', rateLimit: null })
+      mockStandingApprovals.push({
+        id: 'sa-1',
+        employeeId: 'emp-1',
+        capability: 'send_*',
+        conditions: JSON.stringify([{ path: 'recipient', op: 'ends_with', value: '@acme.com' }]),
+        grantedBy: 'dana',
+        justification: 'Ticket replies during the outage',
+        startsAt: new Date(Date.now() - 60_000),
+        expiresAt: new Date(Date.now() + 3_600_000),
+        revokedAt: null,
+        uses: 0,
+      })
+    })
+
+    test('should allow matching actions and log the use', async () => {
+      const result = await engine.evaluate('emp-1', 'send_email', { recipient: 'ops@acme.com' })
+      expect(result).toMatchObject({ allowed: true, requiresApproval: false, standingApprovalId: 'sa-1' })
+      expect(mockApprovalRequests).toHaveLength(0)
+      expect(mockStandingApprovals[0].uses).toBe(1)
+      expect(mockAuditLogs[mockAuditLogs.length - 1].action).toBe('standing_approval_used')
+    })
+
+    test('should still ask for approval outside its conditions, window or after revocation', async () => {
+      const results = [await engine.evaluate('emp-1', 'send_email', { recipient: 'someone@example.com' })]
+      mockStandingApprovals[0].revokedAt = new Date()
+      results.push(await engine.evaluate('emp-1', 'send_email', { recipient: 'ops@acme.com' }))
+      mockStandingApprovals[0].revokedAt = null
+      results.push(
+        await engine.evaluate('emp-1', 'send_email', { recipient: 'ops@acme.com' }, { at: new Date(Date.now() + 7_200_000) })
+      )
+      expect(results.every((r) => r.requiresApproval)).toBe(true)
+      // The last two are the same request, so the second is counted as a retry
+      expect(mockApprovalRequests).toHaveLength(2)
+      expect(mockApprovalRequests[1].retryCount).toBe(1)
+      expect(mockStandingApprovals[0].uses).toBe(0)
+    })
+
+    test('should not stand in for a policy that requires a quorum', async () => {
+      mockPolicies[mockPolicies.length - 1].approvers = JSON.stringify([{ group: 'security', count: 2 }])
+      const result = await engine.evaluate('emp-1', 'send_email', { recipient: 'ops@acme.com' })
+      expect(result).toMatchObject({ allowed: false, requiresApproval: true })
+      expect(result.standingApprovalId).toBeUndefined()
+      expect(mockStandingApprovals[0].uses).toBe(0)
+    })
+
+    test('should be explained but not used by dry runs, and ignored for hypothetical policies', async () => {
+      const result = await engine.evaluate('emp-1', 'send_email', { recipient: 'ops@acme.com' }, { dryRun: true })
+      expect(result.explanation).toMatchObject({ outcome: 'allow', decidedBy: 'standing_approval' })
+      expect(mockStandingApprovals[0].uses).toBe(0)
+
+      const proposed = await engine.evaluate('emp-1', 'send_email', { recipient: 'ops@acme.com' }, {
+        policies: mockPolicies.map((p) => ({ ...p, enabled: true })),
+      })
+      expect(proposed.requiresApproval).toBe(true)
+    })
+  })
+})
+
+describe('Dry Run', () => {
+  let engine: PolicyEngine
+
+  beforeEach(() => {
+    engine = newEngine()
+    mockPolicies.length = 0
+    mockApprovalRequests.length = 0
+    mockStandingApprovals.length = 0
+    mockAuditLogs.length = 0
+  })
+
+  test('should decide without creating approval requests or audit entries', async () => {
+    mockPolicies.push({ id: 'p30', employeeId: 'emp-1', capability: 'deploy', permission: 'approval_required', rateLimit: null })
+
+    const result = await engine.evaluate('emp-1', 'deploy', {}, { dryRun: true })
+    expect(result.requiresApproval).toBe(true)
+    expect(result.approvalRequestId).toBeUndefined()
+    expect(mockApprovalRequests).toHaveLength(0)
+    expect(mockAuditLogs).toHaveLength(0)
+    expect(result.explanation).toMatchObject({ outcome: 'approval_required', decidedBy: 'policy', scope: 'employee' })
+  })
+
+  test('should explain which policies decided and why the others did not', async () => {
+    mockPolicies.push(
+      { id: 'p31', employeeId: 'emp-1', capability: 'deploy:*', permission: 'deny', rateLimit: null },
+      { id: 'p32', employeeId: 'emp-1', capability: 'deploy:staging', permission: 'allow', rateLimit: 5 },
+      {
+        id: 'p33',
+        employeeId: 'emp-1',
+        capability: 'deploy:staging',
+        permission: 'deny',
+        rateLimit: null,
+        conditions: JSON.stringify([{ path: 'branch', op: 'eq', value: 'experimental' }]),
+      },
+      { id: 'p34', scope: 'org', employeeId: null, teamId: null, capability: '*', permission: 'deny', rateLimit: null },
+      { id: 'p35', employeeId: 'emp-1', capability: 'send_email', permission: 'allow', rateLimit: null },
+    )
+
+    const { allowed, explanation } = await engine.evaluate('emp-1', 'deploy:staging', { branch: 'main' }, { dryRun: true })
+    expect(allowed).toBe(true)
+    expect(explanation?.quotas).toEqual([
+      expect.objectContaining({ policyId: 'p32', kind: 'count', window: 'minute', limit: 5, used: 0, exhausted: false }),
+    ])
+
+    const byId = Object.fromEntries(explanation!.policies.map((p) => [p.id, p]))
+    expect(Object.keys(byId).sort()).toEqual(['p31', 'p32', 'p33', 'p34'])
+    expect(byId.p32.status).toBe('decisive')
+    expect(byId.p31).toMatchObject({ status: 'overridden', note: 'Less specific than "deploy:staging"' })
+    expect(byId.p33).toMatchObject({ status: 'inactive', note: 'Conditions not met' })
+    expect(byId.p34).toMatchObject({ status: 'overridden', note: 'Overridden by employee policy' })
+  })
+
+  test('should explain autonomy fallbacks', async () => {
+    const result = await engine.evaluate('emp-1', 'unknown_action', undefined, { dryRun: true })
+    expect(result.explanation).toMatchObject({ decidedBy: 'autonomy_mode', autonomyMode: 'full', outcome: 'allow', policies: [] })
+    expect(mockAuditLogs).toHaveLength(0)
+  })
+
+  test('should decide against a given policy set at a given moment', async () => {
+    mockPolicies.push({ id: 'p36', employeeId: 'emp-1', capability: 'deploy', permission: 'allow', rateLimit: null })
+    const proposed = [
+      {
+        id: 'proposed-1',
+        scope: 'employee',
+        employeeId: 'emp-1',
+        teamId: null,
+        capability: 'deploy',
+        permission: 'deny',
+        rateLimit: null,
+        quotas: '[]',
+        conditions: '[]',
+        schedule: JSON.stringify({ days: ['fri'] }),
+        enabled: true,
+        approvers: '[]',
+        expiry: '',
+      },
+      { id: 'proposed-2', scope: 'employee', employeeId: 'emp-2', teamId: null, capability: 'deploy', permission: 'deny', rateLimit: null, quotas: '[]', conditions: '[]', schedule: '', enabled: true, approvers: '[]', expiry: '' },
+    ]
+
+    const friday = await engine.evaluate('emp-1', 'deploy', {}, { policies: proposed, at: new Date('2026-10-16T12:00:00Z') })
+    expect(friday.allowed).toBe(false)
+    expect(friday.explanation?.policies.map((p) => p.id)).toEqual(['proposed-1'])
+
+    // Outside the schedule nothing in the proposed set applies, so the autonomy mode decides
+    const monday = await engine.evaluate('emp-1', 'deploy', {}, { policies: proposed, at: new Date('2026-10-19T12:00:00Z') })
+    expect(monday.explanation).toMatchObject({ decidedBy: 'autonomy_mode', outcome: 'allow' })
+    expect(mockAuditLogs).toHaveLength(0)
+  })
 })
 
 describe('Audit Chain Integrity', () => {
@@ -0,0 +1,96 @@
+import type { Policy } from '@prisma/client'
+import type { PolicyEngine, PolicyResult } from '@/lib/policy-engine'
+import { applyProposal, parseRecordedDecision, RecordedDecision, replayDecisions } from '@/lib/policy-replay'
+
+jest.mock('@/lib/db', () => ({ __esModule: true, default: {}, prisma: {} }))
+
+const current: Policy[] = [
+  {
+    id: 'pol-1',
+    scope: 'employee',
+    employeeId: 'emp-1',
+    teamId: null,
+    capability: 'deploy',
+    permission: 'allow',
+    rateLimit: null,
+    quotas: '[]',
+    conditions: '[]',
+    schedule: '',
+    enabled: true,
+    approvers: '[]',
+    expiry: '',
+  },
+]
+
+describe('parseRecordedDecision', () => {
+  test('reads the action and outcome of decision entries', () => {
+    const entry = { id: 'a1', employeeId: 'emp-1', timestamp: new Date(0) }
+    expect(parseRecordedDecision({ ...entry, action: 'policy_denied', details: 'Action "deploy" denied by explicit policy' })).toMatchObject({
+      action: 'deploy',
+      outcome: 'deny',
+    })
+    expect(
+      parseRecordedDecision({ ...entry, action: 'autonomy_approval', details: 'No explicit policy for "send_email"; supervised mode requires approval' }),
+    ).toMatchObject({ action: 'send_email', outcome: 'approval_required' })
+    expect(
+      parseRecordedDecision({
+        ...entry,
+        action: 'approval_request_retried',
+        details: '"deploy" requested again while approval request apr-1 is pending (retry 2)',
+      }),
+    ).toMatchObject({ action: 'deploy', outcome: 'approval_required' })
+    expect(parseRecordedDecision({ ...entry, action: 'policy_created', details: 'Created policy: "deploy"' })).toBeNull()
+  })
+})
+
+describe('applyProposal', () => {
+  test('modifies, adds and removes policies in memory', () => {
+    const { policies } = applyProposal(current, {
+      upsert: [{ id: 'pol-1', permission: 'approval_required' }, { scope: 'org', capability: 'send_email', permission: 'deny' }],
+    })
+    expect(policies?.map((p) => [p.id, p.capability, p.permission])).toEqual([
+      ['pol-1', 'deploy', 'approval_required'],
+      ['proposed-2', 'send_email', 'deny'],
+    ])
+    expect(applyProposal(current, { remove: ['pol-1'] }).policies).toEqual([])
+  })
+
+  test('validates like POST /api/policies', () => {
+    expect(applyProposal(current, { upsert: [{ id: 'pol-1', permission: 'maybe' }], remove: ['pol-9'] }).issues).toEqual([
+      'remove[0]: unknown policy "pol-9"',
+      'upsert[0]: permission must be one of: allow, deny, approval_required',
+    ])
+  })
+})
+
+describe('replayDecisions', () => {
+  test('counts decisions the proposal flips, per employee and action', async () => {
+    // A fake engine: the proposed set denies deploys, the current one allows them
+    const engine = {
+      evaluate: jest.fn(async (employeeId: string, action: string, _context: unknown, options: { policies: Policy[] }) => {
+        const permission = options.policies.find((p) => p.capability === action)?.permission ?? 'allow'
+        return { allowed: permission === 'allow', requiresApproval: false, reason: `${permission} by policy` } as PolicyResult
+      }),
+    } as unknown as PolicyEngine
+    const proposed = applyProposal(current, { upsert: [{ id: 'pol-1', permission: 'deny' }] }).policies!
+    const decision = (outcome: RecordedDecision['outcome'], action = 'deploy'): RecordedDecision => ({
+      auditLogId: 'a',
+      employeeId: 'emp-1',
+      action,
+      outcome,
+      at: new Date(),
+    })
+
+    const report = await replayDecisions(engine, [decision('allow'), decision('deny'), decision('allow', 'send_email')], current, proposed)
+    expect(report).toMatchObject({ decisions: 3, changed: 2, unreproducible: 1 })
+    expect(report.groups[0]).toEqual({
+      employeeId: 'emp-1',
+      action: 'deploy',
+      total: 2,
+      changed: 2,
+      unreproducible: 1,
+      transitions: { 'allow → deny': 2 },
+    })
+    expect(report.samples).toHaveLength(2)
+  })
+})
@@ -0,0 +1,72 @@
+import { effectivePolicies, inheritedPolicyFilter, uncoveredDefaults, validatePolicyTarget } from '@/lib/policy-scopes'
+
+describe('validatePolicyTarget', () => {
+  test('requires the owner matching the scope', () => {
+    expect(validatePolicyTarget({ employeeId: 'emp-1' })).toBeNull()
+    expect(validatePolicyTarget({ scope: 'team', teamId: 'team-1' })).toBeNull()
+    expect(validatePolicyTarget({ scope: 'org' })).toBeNull()
+    expect(validatePolicyTarget({})).toBe('employeeId is required for employee policies')
+    expect(validatePolicyTarget({ scope: 'team' })).toBe('teamId is required for team policies')
+    expect(validatePolicyTarget({ scope: 'org', teamId: 'team-1' })).toContain('cannot target')
+    expect(validatePolicyTarget({ scope: 'department' })).toContain('scope must be one of')
+  })
+})
+
+describe('inheritedPolicyFilter', () => {
+  test('only includes team policies for team members', () => {
+    expect(inheritedPolicyFilter({ id: 'emp-1', teamId: null }).OR).toHaveLength(2)
+    expect(inheritedPolicyFilter({ id: 'emp-1', teamId: 'team-1' }).OR).toContainEqual({ scope: 'team', teamId: 'team-1' })
+  })
+})
+
+describe('uncoveredDefaults', () => {
+  const defaults = [
+    { capability: 'inter_agent_comm', permission: 'allow', rateLimit: 50 },
+    { capability: 'deploy', permission: 'approval_required', rateLimit: 5 },
+    { capability: 'send_email', permission: 'deny', rateLimit: null },
+  ]
+
+  test('keeps every default when the team has one unrelated policy', () => {
+    expect(uncoveredDefaults(defaults, [{ capability: 'access_database' }])).toEqual(defaults)
+  })
+
+  test('leaves out defaults an enabled inherited policy covers', () => {
+    expect(
+      uncoveredDefaults(defaults, [
+        { capability: 'inter_*' },
+        { capability: 'deploy:*' },
+        { capability: 'send_email', enabled: false },
+      ]).map((p) => p.capability),
+    ).toEqual(['deploy', 'send_email'])
+  })
+})
+
+describe('effectivePolicies', () => {
+  test('marks policies always overridden by a nearer scope', () => {
+    const result = effectivePolicies([
+      { id: 'org-deploy', scope: 'org', capability: 'deploy:production', conditions: '[]', schedule: '' },
+      { id: 'team-deploy', scope: 'team', capability: 'deploy:*', conditions: '[]', schedule: '' },
+      { id: 'org-email', scope: 'org', capability: 'send_email', conditions: '[]', schedule: '' },
+      {
+        id: 'emp-email',
+        scope: 'employee',
+        capability: 'send_email',
+        conditions: '[{"path":"recipient","op":"ends_with","value":"@acme.com"}]',
+        schedule: '',
+      },
+    ])
+
+    expect(result.map((p) => p.id)).toEqual(['emp-email', 'team-deploy', 'org-deploy', 'org-email'])
+    expect(result.find((p) => p.id === 'org-deploy')?.overriddenBy).toBe('team')
+    // A conditional override only applies some of the time
+    expect(result.find((p) => p.id === 'org-email')?.overriddenBy).toBeNull()
+  })
+
+  test('does not let disabled policies override anything', () => {
+    const result = effectivePolicies([
+      { id: 'org-deploy', scope: 'org', capability: 'deploy', conditions: '[]', schedule: '' },
+      { id: 'emp-deploy', scope: 'employee', capability: 'deploy', conditions: '[]', schedule: '', enabled: false },
+    ])
+    expect(result.find((p) => p.id === 'org-deploy')?.overriddenBy).toBeNull()
+  })
+})
@@ -0,0 +1,53 @@
+import { diffSnapshots, parseSnapshot, policyChangeAuthor, snapshotPolicy } from '@/lib/policy-versions'
+
+const base = {
+  scope: 'employee',
+  employeeId: 'emp-1',
+  teamId: null,
+  capability: 'deploy:production',
+  permission: 'approval_required',
+  rateLimit: 5,
+  quotas: '[]',
+  conditions: '[]',
+  schedule: '',
+  enabled: true,
+  approvers: '[]',
+  expiry: '',
+}
+
+describe('snapshotPolicy', () => {
+  test('keeps only the versioned fields', () => {
+    expect(snapshotPolicy({ ...base, id: 'pol-1', employee: { name: 'Alex' } } as typeof base)).toEqual(base)
+  })
+})
+
+describe('diffSnapshots', () => {
+  test('lists changed fields with JSON columns decoded', () => {
+    const after = {
+      ...base,
+      permission: 'deny',
+      conditions: '[{"path":"branch","op":"equals","value":"main"}]',
+    }
+    expect(diffSnapshots(base, after)).toEqual([
+      { field: 'permission', before: 'approval_required', after: 'deny' },
+      { field: 'conditions', before: [], after: [{ path: 'branch', op: 'equals', value: 'main' }] },
+    ])
+  })
+
+  test('treats a missing snapshot as having no fields', () => {
+    const changes = diffSnapshots(null, base)
+    expect(changes.map((c) => c.field)).toEqual(['scope', 'employeeId', 'capability', 'permission', 'rateLimit', 'quotas', 'conditions', 'enabled', 'approvers'])
+    expect(diffSnapshots(base, JSON.parse(JSON.stringify(base)))).toEqual([])
+  })
+})
+
+describe('parseSnapshot / policyChangeAuthor', () => {
+  test('handle empty input', () => {
+    expect(parseSnapshot('')).toBeNull()
+    expect(parseSnapshot('{oops')).toBeNull()
+    // Snapshots recorded before the enabled flag, approvers and expiry existed
+    expect(parseSnapshot('{"permission":"deny"}')).toEqual({ enabled: true, approvers: '[]', expiry: '', permission: 'deny' })
+    expect(policyChangeAuthor('  ops@acme.com ')).toBe('ops@acme.com')
+    expect(policyChangeAuthor(undefined)).toBe('system')
+  })
+})
@@ -0,0 +1,41 @@
+import { describeQuota, parseQuotas, policyQuotas, validateQuotas } from '@/lib/quotas'
+
+describe('validateQuotas', () => {
+  test('accepts count and budget quotas', () => {
+    expect(
+      validateQuotas([
+        { kind: 'count', limit: 200, window: 'day' },
+        { kind: 'budget', amountUsd: 12.5, window: 'hour' },
+      ]),
+    ).toEqual([])
+  })
+
+  test('reports malformed quotas', () => {
+    expect(validateQuotas({})).toEqual(['quotas must be an array'])
+    expect(
+      validateQuotas([
+        { kind: 'count', limit: 1.5, window: 'day' },
+        { kind: 'budget', amountUsd: 0, window: 'week' },
+        { kind: 'tokens', window: 'minute' },
+      ]),
+    ).toEqual([
+      'quotas[0].limit must be a positive integer',
+      'quotas[1].window must be one of: minute, hour, day',
+      'quotas[1].amountUsd must be a positive number',
+      'quotas[2].kind must be "count" or "budget"',
+    ])
+  })
+})
+
+describe('policyQuotas', () => {
+  test('folds the per-minute rate limit into the quota list', () => {
+    expect(
+      policyQuotas({ rateLimit: 5, quotas: '[{"kind":"budget","amountUsd":25,"window":"day"}]' }).map(describeQuota),
+    ).toEqual(['5/minute', '$25.00/day'])
+  })
+
+  test('ignores malformed stored quotas', () => {
+    expect(parseQuotas('not json')).toEqual([])
+    expect(policyQuotas({ rateLimit: null, quotas: '[{"kind":"count"}]' })).toEqual([])
+  })
+})
@@ -0,0 +1,93 @@
+import { MemoryRateLimitStore, RateLimiter } from '@/lib/rate-limit'
+
+describe('RateLimiter', () => {
+  const t0 = Date.UTC(2026, 9, 16, 12, 0, 0)
+  const minute = { windowMs: 60_000 }
+  let limiter: RateLimiter
+
+  beforeEach(() => {
+    limiter = new RateLimiter(new MemoryRateLimitStore())
+  })
+
+  test('should count hits inside the sliding window', async () => {
+    await limiter.record('emp-1:send_email', 1, t0)
+    await limiter.record('emp-1:send_email', 1, t0 + 20_000)
+
+    const usage = await limiter.check('emp-1:send_email', 3, { ...minute, now: t0 + 30_000 })
+    expect(usage).toMatchObject({ used: 2, remaining: 1, allowed: true })
+
+    // The first hit has left the window
+    expect((await limiter.check('emp-1:send_email', 3, { ...minute, now: t0 + 60_000 })).used).toBe(1)
+  })
+
+  test('should report when a full key frees up', async () => {
+    await limiter.record('emp-1:deploy', 1, t0)
+    await limiter.record('emp-1:deploy', 1, t0 + 10_000)
+    await limiter.record('emp-1:deploy', 1, t0 + 20_000)
+
+    const usage = await limiter.check('emp-1:deploy', 2, { ...minute, now: t0 + 30_000 })
+    expect(usage.allowed).toBe(false)
+    // Two hits must expire before a third fits; the second one leaves at t0 + 70s
+    expect(usage.resetAt).toEqual(new Date(t0 + 70_000))
+  })
+
+  test('should apply each window to the same hits', async () => {
+    await limiter.record('emp-1:send_email', 1, t0)
+    await limiter.record('emp-1:send_email', 1, t0 + 120_000)
+
+    const now = t0 + 150_000
+    expect((await limiter.check('emp-1:send_email', 2, { ...minute, now })).allowed).toBe(true)
+    const hourly = await limiter.check('emp-1:send_email', 2, { windowMs: 3_600_000, now })
+    expect(hourly.allowed).toBe(false)
+    expect(hourly.resetAt).toEqual(new Date(t0 + 3_600_000))
+  })
+
+  test('should check spend against a budget including the next cost', async () => {
+    await limiter.record('spend:emp-1:api_call', 6, t0)
+    await limiter.record('spend:emp-1:api_call', 3, t0 + 1_000)
+
+    const day = { windowMs: 86_400_000, now: t0 + 2_000 }
+    expect((await limiter.check('spend:emp-1:api_call', 10, { ...day, cost: 1 })).allowed).toBe(true)
+
+    const over = await limiter.check('spend:emp-1:api_call', 10, { ...day, cost: 2 })
+    expect(over).toMatchObject({ used: 9, allowed: false })
+    // Room for $2 once the $6 hit leaves the window
+    expect(over.resetAt).toEqual(new Date(t0 + 86_400_000))
+  })
+
+  test('should not change usage when checking', async () => {
+    await limiter.check('emp-1:api_call', 1, { now: t0 })
+    await limiter.check('emp-1:api_call', 1, { now: t0 })
+    expect((await limiter.check('emp-1:api_call', 1, { now: t0 })).allowed).toBe(true)
+  })
+
+  test('should keep keys independent', async () => {
+    await limiter.record('emp-1:api_call', 1, t0)
+    expect((await limiter.check('emp-2:api_call', 1, { now: t0 })).allowed).toBe(true)
+    expect((await limiter.check('emp-1:api_call', 1, { now: t0 })).allowed).toBe(false)
+  })
+
+  test('should consume only when every limit allows it', async () => {
+    const checks = [
+      { key: 'emp-1:deploy', limit: 1, windowMs: 60_000, cost: 1 },
+      { key: 'spend:emp-1:deploy', limit: 10, windowMs: 60_000, cost: 4 },
+    ]
+    const charges = new Map([['emp-1:deploy', 1], ['spend:emp-1:deploy', 4]])
+
+    const first = await limiter.consume(checks, charges, t0)
+    expect(first.every((usage) => usage.allowed)).toBe(true)
+
+    // The count limit is now full, so neither key is charged again
+    const second = await limiter.consume(checks, charges, t0 + 1_000)
+    expect(second.map((usage) => usage.allowed)).toEqual([false, true])
+    expect((await limiter.check('spend:emp-1:deploy', 10, { ...minute, now: t0 + 2_000 })).used).toBe(4)
+  })
+
+  test('should not let simultaneous consumers share the last use', async () => {
+    const checks = [{ key: 'emp-1:deploy', limit: 1, windowMs: 60_000, cost: 1 }]
+    const charges = new Map([['emp-1:deploy', 1]])
+
+    const results = await Promise.all([limiter.consume(checks, charges, t0), limiter.consume(checks, charges, t0)])
+    expect(results.map(([usage]) => usage.allowed).sort()).toEqual([false, true])
+  })
+})
@@ -0,0 +1,98 @@
+import { isScheduleActive, parseChangeFreeze, parseSchedule, validateSchedule } from '@/lib/schedule'
+
+// 2026-10-16 is a Friday
+const fridayAt = (time: string) => new Date(`2026-10-16T${time}:00Z`)
+
+describe('validateSchedule', () => {
+  test('accepts a well-formed schedule', () => {
+    expect(validateSchedule({ days: ['mon', 'fri'], start: '09:00', end: '17:30', outside: true })).toEqual([])
+  })
+
+  test('reports malformed fields', () => {
+    const errors = validateSchedule({ days: ['friday'], start: '9am', freeze: 'yes', timezone: 'Mars/Base', extra: 1 })
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        'schedule has unknown field "extra"',
+        expect.stringContaining('schedule.days'),
+        'schedule.start must be a time in HH:MM format',
+        'schedule.freeze must be a boolean',
+        'schedule.timezone must be a valid IANA timezone',
+      ]),
+    )
+  })
+
+  test('rejects 24:00 as a start and windows that would never be open', () => {
+    expect(validateSchedule({ start: '24:00', end: '06:00' })).toEqual(['schedule.start cannot be 24:00; use 00:00'])
+    expect(validateSchedule({ start: '09:00', end: '09:00' })).toEqual(['schedule.start and schedule.end must differ'])
+    expect(validateSchedule({ end: '00:00' })).toEqual(['schedule.start and schedule.end must differ'])
+    expect(validateSchedule({ start: '22:00', end: '06:00' })).toEqual([])
+    expect(validateSchedule({ start: '00:00', end: '24:00' })).toEqual([])
+  })
+
+  test('parses stored schedules', () => {
+    expect(parseSchedule('')).toBeUndefined()
+    expect(parseSchedule('not json')).toBeNull()
+    expect(parseSchedule('{"days":["sat"]}')).toEqual({ days: ['sat'] })
+  })
+})
+
+describe('isScheduleActive', () => {
+  test('applies within a day-and-time window', () => {
+    const schedule = { days: ['fri' as const], start: '16:00' }
+    expect(isScheduleActive(schedule, fridayAt('15:59'), 'UTC', false)).toBe(false)
+    expect(isScheduleActive(schedule, fridayAt('16:00'), 'UTC', false)).toBe(true)
+    expect(isScheduleActive(schedule, new Date('2026-10-15T17:00:00Z'), 'UTC', false)).toBe(false)
+  })
+
+  test('handles windows wrapping midnight', () => {
+    const schedule = { days: ['fri' as const], start: '22:00', end: '06:00' }
+    expect(isScheduleActive(schedule, fridayAt('23:00'), 'UTC', false)).toBe(true)
+    // Saturday early morning still belongs to Friday's window
+    expect(isScheduleActive(schedule, new Date('2026-10-17T05:00:00Z'), 'UTC', false)).toBe(true)
+    expect(isScheduleActive(schedule, fridayAt('05:00'), 'UTC', false)).toBe(false)
+  })
+
+  test('inverts the window with outside', () => {
+    const schedule = { start: '09:00', end: '17:00', outside: true }
+    expect(isScheduleActive(schedule, fridayAt('12:00'), 'UTC', false)).toBe(false)
+    expect(isScheduleActive(schedule, fridayAt('20:00'), 'UTC', false)).toBe(true)
+  })
+
+  test('evaluates the window in the given timezone', () => {
+    const schedule = { days: ['fri' as const], start: '16:00' }
+    // 15:00 UTC is 17:00 in Berlin (CEST)
+    expect(isScheduleActive(schedule, fridayAt('15:00'), 'Europe/Berlin', false)).toBe(true)
+    expect(isScheduleActive({ ...schedule, timezone: 'UTC' }, fridayAt('15:00'), 'Europe/Berlin', false)).toBe(false)
+  })
+
+  test('only applies freeze schedules during a freeze', () => {
+    expect(isScheduleActive({ freeze: true }, fridayAt('12:00'), 'UTC', false)).toBe(false)
+    expect(isScheduleActive({ freeze: true }, fridayAt('12:00'), 'UTC', true)).toBe(true)
+  })
+})
+
+describe('parseChangeFreeze', () => {
+  test('normalises a valid freeze', () => {
+    const { freeze, errors } = parseChangeFreeze({
+      name: ' Holiday ',
+      startsAt: '2026-12-20T00:00:00Z',
+      endsAt: '2027-01-04T00:00:00Z',
+      capabilities: ['deploy:*'],
+    })
+    expect(errors).toEqual([])
+    expect(freeze?.name).toBe('Holiday')
+    expect(freeze?.endsAt).toEqual(new Date('2027-01-04T00:00:00Z'))
+  })
+
+  test('rejects inverted dates and bad patterns', () => {
+    const { freeze, errors } = parseChangeFreeze({
+      name: 'Broken',
+      startsAt: '2026-12-20T00:00:00Z',
+      endsAt: '2026-12-19T00:00:00Z',
+      capabilities: ['deploy::prod'],
+    })
+    expect(freeze).toBeNull()
+    expect(errors).toContain('endsAt must be after startsAt')
+    expect(errors.some((e) => e.includes('empty segment'))).toBe(true)
+  })
+})
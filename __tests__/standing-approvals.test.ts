@@ -0,0 +1,114 @@
+import {
+  coversAction,
+  describeStandingApproval,
+  isStandingApprovalActive,
+  parseStandingApproval,
+  quorumConflicts,
+  requestContext,
+} from '@/lib/standing-approvals'
+
+const now = new Date('2026-10-18T09:00:00.000Z')
+
+const valid = {
+  employeeId: 'emp-1',
+  capability: 'send_email',
+  conditions: [{ path: 'recipient', op: 'ends_with', value: '@acme.com' }],
+  grantedBy: ' dana ',
+  justification: 'Weekly customer update',
+  durationMinutes: 120,
+}
+
+function standing(overrides: Partial<Parameters<typeof coversAction>[0]> = {}) {
+  return {
+    id: 'sa-1',
+    employeeId: 'emp-1',
+    capability: 'send_email',
+    conditions: JSON.stringify(valid.conditions),
+    grantedBy: 'dana',
+    justification: 'Weekly customer update',
+    startsAt: now,
+    expiresAt: new Date('2026-10-18T11:00:00.000Z'),
+    revokedAt: null,
+    ...overrides,
+  }
+}
+
+describe('parseStandingApproval', () => {
+  test('opens the window now for the given duration', () => {
+    const { standing: parsed, errors } = parseStandingApproval(valid, now)
+    expect(errors).toEqual([])
+    expect(parsed).toMatchObject({ grantedBy: 'dana', startsAt: now })
+    expect(parsed!.expiresAt.toISOString()).toBe('2026-10-18T11:00:00.000Z')
+  })
+
+  test('requires a justification and exactly one end', () => {
+    const { errors } = parseStandingApproval(
+      { ...valid, justification: ' ', expiresAt: '2026-10-18T10:00:00.000Z' },
+      now,
+    )
+    expect(errors).toEqual([
+      'justification is required for a standing approval',
+      'give either durationMinutes or expiresAt, not both',
+    ])
+    expect(parseStandingApproval({ ...valid, durationMinutes: undefined }, now).errors).toEqual(['durationMinutes or expiresAt is required'])
+  })
+
+  test('caps the window at a week and rejects past expiries', () => {
+    expect(parseStandingApproval({ ...valid, durationMinutes: 8 * 24 * 60 }, now).errors).toHaveLength(1)
+    expect(parseStandingApproval({ ...valid, durationMinutes: undefined, expiresAt: '2026-10-17T09:00:00.000Z' }, now).errors).toEqual([
+      'expiresAt must be in the future',
+    ])
+  })
+})
+
+describe('coversAction', () => {
+  test('matches the capability and conditions', () => {
+    expect(coversAction(standing(), 'send_email', { recipient: 'sam@acme.com' })).toBe(true)
+    expect(coversAction(standing(), 'send_email', { recipient: 'sam@example.com' })).toBe(false)
+    expect(coversAction(standing(), 'delete_file', { recipient: 'sam@acme.com' })).toBe(false)
+  })
+
+  test('covers nothing when its conditions are malformed', () => {
+    expect(coversAction(standing({ conditions: 'not json' }), 'send_email', {})).toBe(false)
+  })
+})
+
+describe('quorumConflicts', () => {
+  const quorum = JSON.stringify([{ group: 'security', count: 2 }])
+
+  test('refuses capabilities whose approval policies require a quorum', () => {
+    expect(
+      quorumConflicts('deploy:*', [
+        { capability: 'deploy:production', permission: 'approval_required', approvers: quorum },
+        { capability: 'send_email', permission: 'approval_required', approvers: quorum },
+      ]),
+    ).toEqual([expect.stringContaining('"deploy:production" needs 2 from "security"')])
+  })
+
+  test('allows capabilities whose approval policies take any one approver', () => {
+    expect(
+      quorumConflicts('send_email', [
+        { capability: 'send_*', permission: 'approval_required', approvers: '[]' },
+        { capability: 'send_email', permission: 'allow', approvers: quorum },
+      ]),
+    ).toEqual([])
+  })
+})
+
+test('isStandingApprovalActive honours the window and revocation', () => {
+  expect(isStandingApprovalActive(standing(), now)).toBe(true)
+  expect(isStandingApprovalActive(standing(), new Date('2026-10-18T11:00:00.000Z'))).toBe(false)
+  expect(isStandingApprovalActive(standing({ revokedAt: now }), now)).toBe(false)
+})
+
+test('requestContext reads a JSON object and ignores anything else', () => {
+  expect(requestContext('{"recipient":"sam@acme.com"}')).toEqual({ recipient: 'sam@acme.com' })
+  expect(requestContext('Send the weekly update')).toBeUndefined()
+  expect(requestContext('[1]')).toBeUndefined()
+})
+
+test('describeStandingApproval', () => {
+  expect(describeStandingApproval(standing())).toBe(
+    '"send_email" when recipient ends_with "@acme.com", until 2026-10-18T11:00:00.000Z (granted by dana)',
+  )
+})
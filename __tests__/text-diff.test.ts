@@ -0,0 +1,35 @@
+import { diffLines, sideBySide, summarizeDiff } from '@/lib/text-diff'
+
+describe('diffLines', () => {
+  test('keeps common lines and marks the rest', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { change: 'same', text: 'a' },
+      { change: 'removed', text: 'b' },
+      { change: 'added', text: 'B' },
+      { change: 'same', text: 'c' },
+      { change: 'added', text: 'd' },
+    ])
+  })
+
+  test('treats empty text as no lines', () => {
+    expect(diffLines('', 'a')).toEqual([{ change: 'added', text: 'a' }])
+    expect(diffLines('a\r\nb', 'a\nb').every((l) => l.change === 'same')).toBe(true)
+  })
+})
+
+describe('sideBySide', () => {
+  test('pairs replaced lines and numbers each side', () => {
+    const rows = sideBySide(diffLines('a\nb\nc\nd', 'a\nX\nd\ne'))
+    expect(rows.map((r) => [r.left && `${r.left.number}${r.left.text}`, r.right && `${r.right.number}${r.right.text}`])).toEqual([
+      ['1a', '1a'],
+      ['2b', '2X'],
+      ['3c', null],
+      ['4d', '3d'],
+      [null, '4e'],
+    ])
+  })
+
+  test('summarizes the changes', () => {
+    expect(summarizeDiff(diffLines('a\nb\nc\nd', 'a\nX\nd\ne'))).toEqual({ added: 2, removed: 2 })
+  })
+})
@@ -0,0 +1,85 @@
+import { findAnchoredLine, parseUnifiedDiff, validateLineAnchor } from '@/lib/unified-diff'
+
+const patch = [
+  'diff --git a/src/auth/session.ts b/src/auth/session.ts',
+  'index 3f2a1c9..8b7e4d0 100644',
+  '--- a/src/auth/session.ts',
+  '+++ b/src/auth/session.ts',
+  '@@ -40,4 +40,3 @@ export function validateSession(session: Session) {',
+  '   const timeout = config.timeout;',
+  '-  if (idle > 3600000) {',
+  '+  if (idle > timeout) {',
+  '--- removed comment line',
+  '   }',
+  'diff --git a/src/auth/legacy.ts b/src/auth/legacy.ts',
+  'deleted file mode 100644',
+  '--- a/src/auth/legacy.ts',
+  '+++ /dev/null',
+  '@@ -1,2 +0,0 @@',
+  '-export const LEGACY = true',
+  '-export default LEGACY',
+  '\\ No newline at end of file',
+  'diff --git a/old.md b/docs/new.md',
+  'similarity index 100%',
+  'rename from old.md',
+  'rename to docs/new.md',
+  '',
+].join('\n')
+
+describe('parseUnifiedDiff', () => {
+  const files = parseUnifiedDiff(patch)!
+
+  test('splits a git patch into files', () => {
+    expect(files.map((f) => [f.path, f.change, f.additions, f.deletions])).toEqual([
+      ['src/auth/session.ts', 'modified', 1, 2],
+      ['src/auth/legacy.ts', 'deleted', 0, 2],
+      ['docs/new.md', 'renamed', 0, 0],
+    ])
+  })
+
+  test('numbers lines by side, using hunk lengths to tell "---" lines from headers', () => {
+    const [hunk] = files[0].hunks
+    expect(hunk).toMatchObject({ oldStart: 40, newStart: 40, section: 'export function validateSession(session: Session) {' })
+    expect(hunk.lines.map((l) => [l.kind, l.oldNumber, l.newNumber])).toEqual([
+      ['context', 40, 40],
+      ['delete', 41, null],
+      ['add', null, 41],
+      ['delete', 42, null],
+      ['context', 43, 42],
+    ])
+    expect(hunk.lines[3].text).toBe('-- removed comment line')
+    expect(files[1].hunks[0].lines[1].noNewlineAtEnd).toBe(true)
+  })
+
+  test('reads plain diff -u output and tolerates a truncated hunk', () => {
+    const plain = parseUnifiedDiff('--- a/x.ts\t2026-10-18\n+++ b/x.ts\n@@ -1,5 +1,5 @@\n-a\n+b')!
+    expect(plain).toHaveLength(1)
+    expect(plain[0]).toMatchObject({ path: 'x.ts', change: 'modified', additions: 1, deletions: 1 })
+  })
+
+  test('is null for text that changes no file', () => {
+    expect(parseUnifiedDiff('To: customer@example.com\n\nDear Customer,\n--- \nEmma')).toBeNull()
+    expect(parseUnifiedDiff('')).toBeNull()
+  })
+})
+
+describe('line anchors', () => {
+  test('address deleted lines by old number and the rest by new number', () => {
+    const files = parseUnifiedDiff(patch)!
+    expect(findAnchoredLine(files, { file: 'src/auth/session.ts', side: 'old', line: 41 })?.text).toBe('  if (idle > 3600000) {')
+    expect(findAnchoredLine(files, { file: 'src/auth/session.ts', side: 'new', line: 41 })?.text).toBe('  if (idle > timeout) {')
+    expect(findAnchoredLine(files, { file: 'src/auth/session.ts', side: 'old', line: 40 })).toBeNull()
+  })
+
+  test('are validated against the diff', () => {
+    expect(validateLineAnchor({ file: 'src/auth/session.ts', side: 'new', line: 42 }, patch)).toBeNull()
+    expect(validateLineAnchor({ file: 'src/auth/session.ts', side: 'left', line: 42 }, patch)).toBe('side must be "old" or "new"')
+    expect(validateLineAnchor({ file: 'README.md', side: 'new', line: 1 }, patch)).toBe('README.md is not in the diff')
+    expect(validateLineAnchor({ file: 'src/auth/session.ts', side: 'new', line: 99 }, patch)).toBe(
+      'src/auth/session.ts has no new line 99 in the diff',
+    )
+    expect(validateLineAnchor({ file: 'x.ts', side: 'new', line: 1 }, 'Dear Customer')).toBe(
+      'This request has no unified diff to comment on',
+    )
+  })
+})
@@ -0,0 +1,158 @@
+import {
+  agentsBrokenByMoves,
+  findUnknownAgents,
+  flattenSteps,
+  parseWorkflowDefinition,
+  resolveAgent,
+  WorkflowDefinitionError,
+} from '@/lib/workflow-dsl'
+import { CONDITION_OPERATORS, evaluateCondition } from '@/lib/conditions'
+
+function issuesFor(input: unknown): string[] {
+  try {
+    parseWorkflowDefinition(input)
+  } catch (error) {
+    if (error instanceof WorkflowDefinitionError) return error.issues
+    throw error
+  }
+  return []
+}
+
+describe('Workflow DSL', () => {
+  test('should accept the legacy flat format and sort by order', () => {
+    const steps = parseWorkflowDefinition(
+      JSON.stringify([
+        { agent: 'Bo', action: 'fix_issue', order: 2 },
+        { agent: 'Ada', action: 'triage', order: 1 },
+      ])
+    )
+    expect(steps.map((s) => s.id)).toEqual(['triage', 'fix_issue'])
+  })
+
+  test('should generate unique ids for repeated actions', () => {
+    const steps = flattenSteps(
+      parseWorkflowDefinition([
+        { agent: 'Ada', action: 'notify' },
+        { parallel: [{ agent: 'Bo', action: 'notify' }, { agent: 'Cy', action: 'page' }] },
+      ])
+    )
+    expect(steps.map((s) => [s.id, s.group])).toEqual([
+      ['notify', undefined],
+      ['notify_2', 'parallel_2'],
+      ['page', 'parallel_2'],
+    ])
+  })
+
+  test('should number repeated actions in execution order, not document order', () => {
+    const steps = parseWorkflowDefinition([
+      { agent: 'Bo', action: 'notify', order: 2 },
+      { agent: 'Ada', action: 'notify', order: 1 },
+    ])
+    expect(steps.map((s) => [s.id, (s as { agent: string }).agent])).toEqual([
+      ['notify', 'Ada'],
+      ['notify_2', 'Bo'],
+    ])
+  })
+
+  test('should not give a generated id to a step that asks for it later', () => {
+    const steps = parseWorkflowDefinition([
+      { agent: 'Ada', action: 'notify', order: 1 },
+      { id: 'notify', agent: 'Bo', action: 'page', order: 2 },
+      {
+        order: 3,
+        parallel: [
+          { agent: 'Ada', action: 'review' },
+          { id: 'notify_2', agent: 'Bo', action: 'sign' },
+        ],
+      },
+    ])
+    expect(steps[0].id).toBe('notify_3')
+    expect(steps[1].id).toBe('notify')
+    expect((steps[2] as { parallel: Array<{ id: string }> }).parallel.map((s) => s.id)).toEqual(['review', 'notify_2'])
+  })
+
+  test('should reject malformed definitions with every issue found', () => {
+    expect(issuesFor('not json')).toEqual(['steps must be valid JSON'])
+    expect(issuesFor([])).toEqual(['steps must contain at least one step'])
+
+    const issues = issuesFor([
+      { agent: 'Ada', action: 'triage', retries: 9, colour: 'red' },
+      { agent: '', action: 'fix', order: 1, timeoutMs: 5 },
+      { parallel: [{ agent: 'Bo', action: 'notify' }] },
+    ])
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        'steps[0] has unknown field "colour"',
+        'steps[0].retries must be an integer between 0 and 5',
+        'steps[1].agent must be a non-empty string',
+        'steps[1].timeoutMs must be an integer between 100 and 300000',
+        'steps[2].parallel must be an array of at least two action steps',
+        'order 1 is used by more than one step; use a "parallel" group instead',
+      ])
+    )
+  })
+
+  test('should only allow conditions on the trigger or earlier steps', () => {
+    const issues = issuesFor([
+      { id: 'a', agent: 'Ada', action: 'triage', if: { path: 'steps.b.status', op: 'eq', value: 'completed' } },
+      { id: 'b', agent: 'Bo', action: 'fix', if: { path: 'severity', op: 'eq', value: 'fatal' } },
+      { id: 'c', agent: 'Bo', action: 'close', if: [{ path: 'trigger.severity', op: 'like' }] },
+    ])
+    expect(issues).toEqual([
+      `steps[2].if[0].op must be one of: ${CONDITION_OPERATORS.join(', ')}`,
+      'step "a" condition references "b", which does not run before it',
+      'step "b" condition path "severity" must start with "trigger." or "steps.<id>."',
+    ])
+  })
+
+  test('should report agents that are not members of the team', () => {
+    const steps = parseWorkflowDefinition([
+      { agent: 'Ada', action: 'triage' },
+      { parallel: [{ agent: 'Bo', action: 'notify' }, { agent: 'Zed', action: 'page' }] },
+      { agent: 'Zed', action: 'close' },
+    ])
+    const employees = [
+      { name: 'Ada', teamId: 't1' },
+      { name: 'Bo', teamId: 't2' },
+    ]
+    expect(findUnknownAgents(steps, employees, 't1')).toEqual(['agent "Zed" is not an employee'])
+    expect(findUnknownAgents(steps, [...employees, { name: 'Zed', teamId: null }], 't1')).toEqual([])
+  })
+
+  test('should resolve agents across teams, preferring the rule\'s team', () => {
+    const employees = [
+      { id: 'e1', name: 'Ada', teamId: 't1' },
+      { id: 'e2', name: 'Ada', teamId: 't2' },
+      { id: 'e3', name: 'Ada', teamId: 't3' },
+    ]
+    expect(resolveAgent('Ada', 't2', employees).agent?.id).toBe('e2')
+    expect(resolveAgent('Ada', 't4', employees)).toEqual({
+      agent: null,
+      error: 'agent "Ada" is ambiguous: 3 employees outside this team have that name',
+    })
+    expect(resolveAgent('Ada', 't4', employees.slice(0, 1)).agent?.id).toBe('e1')
+  })
+
+  test('should report only the agent issues a change of teams would add', () => {
+    const employees = [
+      { id: 'e1', name: 'Ada', teamId: 't1' },
+      { id: 'e2', name: 'Ada', teamId: 't2' },
+    ]
+    const rules = [
+      { teamId: 't1', trigger: 'incident', steps: '[{"agent":"Ada","action":"triage"}]', team: { name: 'Ops' } },
+      { teamId: 't3', trigger: 'release', steps: '[{"agent":"Zed","action":"ship"}]', team: { name: 'Eng' } },
+    ]
+    expect(agentsBrokenByMoves(rules, employees, new Map([['e1', 't3']]))).toEqual([
+      'team "Ops" rule "incident": agent "Ada" is ambiguous: 2 employees outside this team have that name',
+    ])
+    expect(agentsBrokenByMoves(rules, employees, new Map([['e2', null]]))).toEqual([])
+  })
+
+  test('should evaluate conditions against nested paths', () => {
+    const scope = { trigger: { severity: 'fatal', hosts: ['web-1'] }, steps: { scan: { metadata: { score: 9 } } } }
+    expect(evaluateCondition({ path: 'trigger.severity', op: 'in', value: ['fatal', 'high'] }, scope)).toBe(true)
+    expect(evaluateCondition({ path: 'trigger.hosts', op: 'contains', value: 'web-1' }, scope)).toBe(true)
+    expect(evaluateCondition({ path: 'steps.scan.metadata.score', op: 'gte', value: 10 }, scope)).toBe(false)
+    expect(evaluateCondition({ path: 'steps.missing.output', op: 'exists' }, scope)).toBe(false)
+  })
+})
@@ -0,0 +1,440 @@
+// Mock Prisma before importing modules
+const mockEmployees: any[] = []
+const mockPolicies: any[] = []
+const mockRules: any[] = []
+const mockRuns: any[] = []
+const mockStepRuns: any[] = []
+const mockApprovalRequests: any[] = []
+const mockAuditLogs: any[] = []
+let idCounter = 0
+
+function withSteps(run: any) {
+  return {
+    ...run,
+    steps: mockStepRuns
+      .filter((s) => s.runId === run.id)
+      .sort((a, b) => a.order - b.order),
+  }
+}
+
+const mockPrisma: any = {
+  employee: {
+    findUnique: jest.fn(({ where }: any) =>
+      Promise.resolve(mockEmployees.find((e) => e.id === where.id) ?? null)
+    ),
+    findMany: jest.fn(({ where }: any) =>
+      Promise.resolve(mockEmployees.filter((e) => e.name === where.name))
+    ),
+  },
+  policy: {
+    findMany: jest.fn(({ where }: any) => {
+      // Only employee policies are used here; take the employee from the inherited-policy filter
+      const employeeId = where.OR ? where.OR[0].employeeId : where.employeeId
+      return Promise.resolve(
+        mockPolicies.filter(
+          (p) =>
+            p.employeeId === employeeId &&
+            (where.capability === undefined || p.capability === where.capability)
+        )
+      )
+    }),
+  },
+  approvalRequest: {
+    create: jest.fn(({ data }: any) => {
+      const req = { id: `apr-${++idCounter}`, ...data, createdAt: new Date() }
+      mockApprovalRequests.push(req)
+      return Promise.resolve(req)
+    }),
+    findUnique: jest.fn(({ where }: any) => {
+      const req = mockApprovalRequests.find((r) => r.id === where.id)
+      if (!req) return Promise.resolve(null)
+      const step = mockStepRuns.find((s) => s.id === req.workflowStepRunId)
+      return Promise.resolve({ ...req, workflowStepRun: step ? { ...step } : null })
+    }),
+    findFirst: jest.fn(({ where }: any) =>
+      Promise.resolve(
+        // Retries of standalone requests (looked up by fingerprint) never match a workflow step's
+        where.fingerprint !== undefined
+          ? null
+          : mockApprovalRequests.find((r) => r.workflowStepRunId === where.workflowStepRunId && r.status === where.status) ?? null
+      )
+    ),
+    update: jest.fn(({ where, data }: any) => {
+      const req = mockApprovalRequests.find((r) => r.id === where.id)
+      Object.assign(req, data)
+      return Promise.resolve(req)
+    }),
+  },
+  standingApproval: {
+    findMany: jest.fn(() => Promise.resolve([])),
+  },
+  workflowRule: {
+    findMany: jest.fn(({ where }: any) =>
+      Promise.resolve(mockRules.filter((r) => r.trigger === where.trigger))
+    ),
+    findUnique: jest.fn(({ where }: any) => {
+      const rule = mockRules.find((r) => r.id === where.id)
+      return Promise.resolve(rule ? { ...rule, team: { id: rule.teamId, name: `Team ${rule.teamId}` } } : null)
+    }),
+  },
+  workflowRun: {
+    create: jest.fn(({ data }: any) => {
+      const { steps, ...rest } = data
+      const run = { id: `run-${++idCounter}`, ...rest, error: '' }
+      mockRuns.push(run)
+      for (const step of steps.create) {
+        mockStepRuns.push({
+          id: `step-${++idCounter}`,
+          runId: run.id,
+          employeeId: null,
+          status: 'pending',
+          reason: '',
+          ...step,
+        })
+      }
+      return Promise.resolve(run)
+    }),
+    findUnique: jest.fn(({ where }: any) => {
+      const run = mockRuns.find((r) => r.id === where.id)
+      return Promise.resolve(run ? withSteps(run) : null)
+    }),
+    update: jest.fn(({ where, data }: any) => {
+      const run = mockRuns.find((r) => r.id === where.id)
+      Object.assign(run, data)
+      return Promise.resolve(withSteps(run))
+    }),
+    updateMany: jest.fn(({ where, data }: any) => {
+      const run = mockRuns.find((r) => r.id === where.id && where.status.in.includes(r.status))
+      if (run) Object.assign(run, data)
+      return Promise.resolve({ count: run ? 1 : 0 })
+    }),
+  },
+  workflowStepRun: {
+    update: jest.fn(({ where, data }: any) => {
+      const step = mockStepRuns.find((s) => s.id === where.id)
+      Object.assign(step, data)
+      return Promise.resolve(step)
+    }),
+    updateMany: jest.fn(({ where, data }: any) => {
+      const step = mockStepRuns.find((s) => s.id === where.id && s.status === where.status)
+      if (step) Object.assign(step, data)
+      return Promise.resolve({ count: step ? 1 : 0 })
+    }),
+  },
+  auditLog: {
+    findFirst: jest.fn(() => Promise.resolve(mockAuditLogs[mockAuditLogs.length - 1] ?? null)),
+    create: jest.fn(({ data }: any) => {
+      const log = { id: `audit-${++idCounter}`, ...data }
+      mockAuditLogs.push(log)
+      return Promise.resolve(log)
+    }),
+  },
+  $transaction: jest.fn((fn: any) => fn(mockPrisma)),
+}
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: mockPrisma,
+  prisma: mockPrisma,
+}))
+
+import { WorkflowEngine } from '@/lib/workflow-engine'
+import { CustomPlannerRuntime } from '@/lib/runtime'
+import { SEED_WORKFLOW_RULES } from '../prisma/seed-workflows'
+
+function addEmployee(id: string, name: string, overrides: Record<string, unknown> = {}) {
+  mockEmployees.push({
+    id,
+    name,
+    teamId: 'team-1',
+    runtime: 'customplanner',
+    autonomyMode: 'restricted',
+    status: 'running',
+    ...overrides,
+  })
+}
+
+function allow(employeeId: string, capability: string) {
+  mockPolicies.push({ id: `p-${++idCounter}`, employeeId, capability, permission: 'allow', rateLimit: null })
+}
+
+describe('Workflow Engine', () => {
+  let engine: WorkflowEngine
+
+  beforeEach(() => {
+    engine = new WorkflowEngine()
+    for (const list of [mockEmployees, mockPolicies, mockRules, mockRuns, mockStepRuns, mockApprovalRequests, mockAuditLogs]) {
+      list.length = 0
+    }
+    addEmployee('emp-a', 'Ada')
+    addEmployee('emp-b', 'Bo')
+    mockRules.push({
+      id: 'rule-1',
+      teamId: 'team-1',
+      trigger: 'incident',
+      steps: JSON.stringify([
+        { agent: 'Bo', action: 'fix_issue', order: 2 },
+        { agent: 'Ada', action: 'triage', order: 1 },
+      ]),
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  function setSteps(steps: unknown[]) {
+    mockRules[0].steps = JSON.stringify(steps)
+  }
+
+  test('should run every step when policies allow them', async () => {
+    allow('emp-a', 'triage')
+    allow('emp-b', 'fix_issue')
+
+    const [run] = await engine.trigger('incident')
+    expect(run.status).toBe('completed')
+    expect(run.steps.map((s: any) => s.status)).toEqual(['completed', 'completed'])
+    expect(run.steps[0].employeeId).toBe('emp-a')
+    // The team is kept on the run, which outlives its rule
+    expect(run).toMatchObject({ ruleId: 'rule-1', teamId: 'team-1', teamName: 'Team team-1' })
+  })
+
+  test('should persist runtime output, metadata and timing for executed steps', async () => {
+    allow('emp-a', 'triage')
+    allow('emp-b', 'fix_issue')
+
+    const [run] = await engine.trigger('incident')
+    const step = run.steps[0]
+    expect(step.runtime).toBe('customplanner')
+    expect(step.output).toContain('triage')
+    expect(JSON.parse(step.metadata).tokensUsed).toBe(0)
+    expect(step.startedAt).toBeInstanceOf(Date)
+    expect(step.completedAt).toBeInstanceOf(Date)
+    expect(run.completedAt).toBeInstanceOf(Date)
+  })
+
+  test('should stop and fail the run when a step is denied', async () => {
+    allow('emp-a', 'triage')
+
+    const [run] = await engine.trigger('incident')
+    expect(run.status).toBe('failed')
+    expect(run.steps[1].status).toBe('denied')
+    expect(run.error).toContain('restricted')
+  })
+
+  test('should suspend the run when a step requires approval', async () => {
+    mockPolicies.push({ id: 'p-x', employeeId: 'emp-a', capability: 'triage', permission: 'approval_required', rateLimit: null })
+
+    const [run] = await engine.trigger('incident')
+    expect(run.status).toBe('awaiting_approval')
+    expect(run.steps.map((s: any) => s.status)).toEqual(['awaiting_approval', 'pending'])
+    expect(mockApprovalRequests.length).toBe(1)
+    expect(mockApprovalRequests[0].workflowRunId).toBe(run.id)
+    expect(mockApprovalRequests[0].workflowStepRunId).toBe(run.steps[0].id)
+  })
+
+  test('should resume from the suspended step once approved', async () => {
+    mockPolicies.push({ id: 'p-x', employeeId: 'emp-a', capability: 'triage', permission: 'approval_required', rateLimit: null })
+    allow('emp-b', 'fix_issue')
+
+    await engine.trigger('incident')
+    const run = await engine.resolveApproval(mockApprovalRequests[0].id, 'approved')
+
+    expect(run?.status).toBe('completed')
+    expect(run?.steps.map((s: any) => s.status)).toEqual(['completed', 'completed'])
+    expect(mockApprovalRequests.length).toBe(1)
+  })
+
+  test('should apply a decision only once when it is resolved twice at the same time', async () => {
+    mockPolicies.push({ id: 'p-x', employeeId: 'emp-a', capability: 'triage', permission: 'approval_required', rateLimit: null })
+    allow('emp-b', 'fix_issue')
+    const execute = jest.spyOn(CustomPlannerRuntime.prototype, 'execute')
+
+    await engine.trigger('incident')
+    const id = mockApprovalRequests[0].id
+    const runs = await Promise.all([engine.resolveApproval(id, 'approved'), engine.resolveApproval(id, 'approved')])
+    expect(runs.filter((run) => run === null)).toHaveLength(1)
+    expect(execute).toHaveBeenCalledTimes(2)
+  })
+
+  test('should hand the reviewer\'s amended diff to the resumed step', async () => {
+    mockPolicies.push({ id: 'p-x', employeeId: 'emp-a', capability: 'triage', permission: 'approval_required', rateLimit: null })
+    allow('emp-b', 'fix_issue')
+    const execute = jest.spyOn(CustomPlannerRuntime.prototype, 'execute')
+
+    await engine.trigger('incident')
+    Object.assign(mockApprovalRequests[0], {
+      status: 'approved',
+      decidedBy: 'dana',
+      diff: 'Dear customer, fixed.',
+      amendedDiff: 'Dear customer, we are working on it.',
+    })
+    const run = await engine.resolveApproval(mockApprovalRequests[0].id, 'approved')
+
+    expect(run?.status).toBe('completed')
+    expect(execute.mock.calls[0][0].context?.approval).toEqual({
+      id: mockApprovalRequests[0].id,
+      decidedBy: 'dana',
+      diff: 'Dear customer, we are working on it.',
+      amended: true,
+    })
+    expect(execute.mock.calls[1][0].context?.approval).toBeUndefined()
+    expect(mockAuditLogs.some((log) => log.details.includes('after approval with modifications'))).toBe(true)
+  })
+
+  test('should fail the run when the approval is denied', async () => {
+    mockPolicies.push({ id: 'p-x', employeeId: 'emp-a', capability: 'triage', permission: 'approval_required', rateLimit: null })
+
+    await engine.trigger('incident')
+    const run = await engine.resolveApproval(mockApprovalRequests[0].id, 'denied', 'not today')
+
+    expect(run?.status).toBe('failed')
+    expect(run?.error).toContain('not today')
+    expect(run?.steps.map((s: any) => s.status)).toEqual(['denied', 'pending'])
+  })
+
+  test('should run agents from other teams and fail steps whose agent cannot be resolved', async () => {
+    mockEmployees[1].teamId = 'team-2'
+    allow('emp-a', 'triage')
+    allow('emp-b', 'fix_issue')
+
+    const [run] = await engine.trigger('incident')
+    expect(run.status).toBe('completed')
+    expect(run.steps[1].employeeId).toBe('emp-b')
+
+    addEmployee('emp-c', 'Bo', { teamId: 'team-3' })
+    const [ambiguous] = await engine.trigger('incident')
+    expect(ambiguous.status).toBe('failed')
+    expect(ambiguous.steps[1].reason).toContain('agent "Bo" is ambiguous')
+  })
+
+  test('should run the seeded slack_complaint workflow across teams', async () => {
+    const rule = SEED_WORKFLOW_RULES.find((r) => r.trigger === 'slack_complaint')!
+    mockEmployees.length = 0
+    mockRules.length = 0
+    addEmployee('emp-emma', 'Emma', { teamId: rule.teamId })
+    addEmployee('emp-alex', 'Alex', { teamId: 'team-engineering' })
+    mockRules.push({ id: 'rule-seed', ...rule, steps: JSON.stringify(rule.steps) })
+    for (const step of rule.steps) {
+      allow(step.agent === 'Alex' ? 'emp-alex' : 'emp-emma', step.action)
+    }
+
+    const [run] = await engine.trigger('slack_complaint', { context: { ticket: '#4521' } })
+    expect(run.status).toBe('completed')
+    expect(run.steps.map((s: any) => s.employeeId)).toEqual(['emp-emma', 'emp-emma', 'emp-alex', 'emp-alex', 'emp-emma'])
+  })
+
+  test('should refuse to start a rule with a malformed definition', async () => {
+    setSteps([{ agent: 'Ada' }])
+
+    await expect(engine.trigger('incident')).rejects.toThrow('Invalid workflow definition')
+    expect(mockRuns.length).toBe(0)
+  })
+
+  test('should skip steps whose conditions do not hold', async () => {
+    allow('emp-a', 'triage')
+    allow('emp-b', 'fix_issue')
+    setSteps([
+      { agent: 'Ada', action: 'triage', order: 1 },
+      { agent: 'Bo', action: 'fix_issue', order: 2, if: [{ path: 'trigger.severity', op: 'eq', value: 'fatal' }] },
+    ])
+
+    const [minor] = await engine.trigger('incident', { context: { severity: 'minor' } })
+    expect(minor.status).toBe('completed')
+    expect(minor.steps.map((s: any) => s.status)).toEqual(['completed', 'skipped'])
+
+    const [fatal] = await engine.trigger('incident', { context: { severity: 'fatal' } })
+    expect(fatal.steps.map((s: any) => s.status)).toEqual(['completed', 'completed'])
+  })
+
+  test('should evaluate conditions against earlier step output', async () => {
+    allow('emp-a', 'triage')
+    allow('emp-b', 'fix_issue')
+    setSteps([
+      { agent: 'Ada', action: 'triage', order: 1 },
+      { agent: 'Bo', action: 'fix_issue', order: 2, if: [{ path: 'steps.triage.metadata.deterministic', op: 'eq', value: false }] },
+    ])
+
+    const [run] = await engine.trigger('incident')
+    expect(run.steps.map((s: any) => s.status)).toEqual(['completed', 'skipped'])
+  })
+
+  test('should fan out parallel branches and join on all of them', async () => {
+    allow('emp-a', 'triage')
+    allow('emp-b', 'notify')
+    setSteps([
+      { parallel: [{ agent: 'Ada', action: 'triage' }, { agent: 'Bo', action: 'notify' }], order: 1 },
+      { agent: 'Bo', action: 'fix_issue', order: 2 },
+    ])
+
+    const [run] = await engine.trigger('incident')
+    expect(run.status).toBe('failed')
+    expect(run.steps.map((s: any) => [s.stepKey, s.groupKey, s.status])).toEqual([
+      ['triage', 'parallel_1', 'completed'],
+      ['notify', 'parallel_1', 'completed'],
+      ['fix_issue', null, 'denied'],
+    ])
+  })
+
+  test('should run later steps once when a group\'s approvals are resolved together', async () => {
+    mockPolicies.push(
+      { id: 'p-x', employeeId: 'emp-a', capability: 'triage', permission: 'approval_required', rateLimit: null },
+      { id: 'p-y', employeeId: 'emp-b', capability: 'notify', permission: 'approval_required', rateLimit: null },
+    )
+    allow('emp-b', 'fix_issue')
+    setSteps([
+      { parallel: [{ agent: 'Ada', action: 'triage' }, { agent: 'Bo', action: 'notify' }], order: 1 },
+      { agent: 'Bo', action: 'fix_issue', order: 2 },
+    ])
+    const execute = jest.spyOn(CustomPlannerRuntime.prototype, 'execute')
+
+    await engine.trigger('incident')
+    await Promise.all(mockApprovalRequests.map((r) => engine.resolveApproval(r.id, 'approved')))
+
+    expect(mockRuns[0].status).toBe('completed')
+    expect(mockStepRuns.map((s) => s.status)).toEqual(['completed', 'completed', 'completed'])
+    // Each approved branch once, then fix_issue once
+    expect(execute).toHaveBeenCalledTimes(3)
+  })
+
+  test('should let an "any" join succeed while another branch awaits approval', async () => {
+    mockPolicies.push({ id: 'p-x', employeeId: 'emp-a', capability: 'triage', permission: 'approval_required', rateLimit: null })
+    allow('emp-b', 'notify')
+    setSteps([
+      { parallel: [{ agent: 'Ada', action: 'triage' }, { agent: 'Bo', action: 'notify' }], join: 'any' },
+    ])
+
+    const [run] = await engine.trigger('incident')
+    expect(run.status).toBe('completed')
+    expect(run.steps.map((s: any) => s.status)).toEqual(['skipped', 'completed'])
+  })
+
+  test('should retry failed attempts up to the configured limit', async () => {
+    allow('emp-a', 'triage')
+    const original = CustomPlannerRuntime.prototype.execute
+    let calls = 0
+    jest.spyOn(CustomPlannerRuntime.prototype, 'execute').mockImplementation(function (this: CustomPlannerRuntime, task) {
+      calls++
+      if (calls < 3) {
+        return Promise.resolve({ taskId: task.id, status: 'failed', output: 'flaky', durationMs: 1, metadata: {} })
+      }
+      return original.call(this, task)
+    })
+    setSteps([{ agent: 'Ada', action: 'triage', retries: 2 }])
+
+    const [run] = await engine.trigger('incident')
+    expect(run.status).toBe('completed')
+    expect(run.steps[0].attempts).toBe(3)
+  })
+
+  test('should fail a step whose runtime exceeds its timeout', async () => {
+    allow('emp-a', 'triage')
+    jest.spyOn(CustomPlannerRuntime.prototype, 'execute').mockImplementation(() => new Promise(() => {}))
+    setSteps([{ agent: 'Ada', action: 'triage', timeoutMs: 100 }])
+
+    const [run] = await engine.trigger('incident')
+    expect(run.status).toBe('failed')
+    expect(run.steps[0].reason).toBe('Timed out after 100ms')
+    expect(JSON.parse(run.steps[0].metadata).timedOut).toBe(true)
+  })
+})
@@ -0,0 +1,23 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ApprovalRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "employeeId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "details" TEXT NOT NULL DEFAULT '',
+    "diff" TEXT NOT NULL DEFAULT '',
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" DATETIME,
+    "workflowRunId" TEXT,
+    "workflowStepRunId" TEXT,
+    CONSTRAINT "ApprovalRequest_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ApprovalRequest_workflowRunId_fkey" FOREIGN KEY ("workflowRunId") REFERENCES "WorkflowRun" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ApprovalRequest_workflowStepRunId_fkey" FOREIGN KEY ("workflowStepRunId") REFERENCES "WorkflowStepRun" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_ApprovalRequest" ("action", "createdAt", "details", "diff", "employeeId", "id", "resolvedAt", "status") SELECT "action", "createdAt", "details", "diff", "employeeId", "id", "resolvedAt", "status" FROM "ApprovalRequest";
+DROP TABLE "ApprovalRequest";
+ALTER TABLE "new_ApprovalRequest" RENAME TO "ApprovalRequest";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "WorkflowRun" ADD COLUMN "completedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "WorkflowStepRun" ADD COLUMN "completedAt" DATETIME;
+ALTER TABLE "WorkflowStepRun" ADD COLUMN "durationMs" INTEGER;
+ALTER TABLE "WorkflowStepRun" ADD COLUMN "metadata" TEXT NOT NULL DEFAULT '{}';
+ALTER TABLE "WorkflowStepRun" ADD COLUMN "output" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "WorkflowStepRun" ADD COLUMN "runtime" TEXT;
+ALTER TABLE "WorkflowStepRun" ADD COLUMN "startedAt" DATETIME;
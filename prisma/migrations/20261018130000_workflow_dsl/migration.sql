@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "WorkflowRun" ADD COLUMN "definition" TEXT NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "WorkflowStepRun" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "WorkflowStepRun" ADD COLUMN "groupKey" TEXT;
+ALTER TABLE "WorkflowStepRun" ADD COLUMN "stepKey" TEXT NOT NULL DEFAULT '';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Policy" ADD COLUMN "conditions" TEXT NOT NULL DEFAULT '[]';
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Employee" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "Policy" ADD COLUMN "schedule" TEXT NOT NULL DEFAULT '';
+
+-- CreateTable
+CREATE TABLE "ChangeFreeze" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "reason" TEXT NOT NULL DEFAULT '',
+    "startsAt" DATETIME NOT NULL,
+    "endsAt" DATETIME NOT NULL,
+    "capabilities" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,21 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Policy" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "scope" TEXT NOT NULL DEFAULT 'employee',
+    "employeeId" TEXT,
+    "teamId" TEXT,
+    "capability" TEXT NOT NULL,
+    "permission" TEXT NOT NULL DEFAULT 'allow',
+    "rateLimit" INTEGER,
+    "conditions" TEXT NOT NULL DEFAULT '[]',
+    "schedule" TEXT NOT NULL DEFAULT '',
+    CONSTRAINT "Policy_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Policy_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Policy" ("id", "employeeId", "capability", "permission", "rateLimit", "conditions", "schedule") SELECT "id", "employeeId", "capability", "permission", "rateLimit", "conditions", "schedule" FROM "Policy";
+DROP TABLE "Policy";
+ALTER TABLE "new_Policy" RENAME TO "Policy";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "RateLimitHit" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "RateLimitHit_key_at_idx" ON "RateLimitHit"("key", "at");
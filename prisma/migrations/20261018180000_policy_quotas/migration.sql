@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Policy" ADD COLUMN "quotas" TEXT NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "RateLimitHit" ADD COLUMN "amount" REAL NOT NULL DEFAULT 1;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "PolicyVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "policyId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "changeType" TEXT NOT NULL,
+    "changedBy" TEXT NOT NULL DEFAULT 'system',
+    "note" TEXT NOT NULL DEFAULT '',
+    "before" TEXT NOT NULL DEFAULT '',
+    "after" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PolicyVersion_policyId_version_key" ON "PolicyVersion"("policyId", "version");
+
+-- Backfill: existing policies start their history at version 1
+INSERT INTO "PolicyVersion" ("id", "policyId", "version", "changeType", "changedBy", "note", "after")
+SELECT
+    lower(hex(randomblob(12))),
+    "id",
+    1,
+    'created',
+    'system',
+    'Recorded when policy versioning was introduced',
+    json_object(
+        'scope', "scope",
+        'employeeId', "employeeId",
+        'teamId', "teamId",
+        'capability', "capability",
+        'permission', "permission",
+        'rateLimit', "rateLimit",
+        'quotas', "quotas",
+        'conditions', "conditions",
+        'schedule', "schedule"
+    )
+FROM "Policy";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Policy" ADD COLUMN "enabled" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "ApprovalRequest" ADD COLUMN "decidedBy" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "ApprovalRequest" ADD COLUMN "justification" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "ApprovalRequest" ADD COLUMN "decisionHash" TEXT NOT NULL DEFAULT '';
+
+-- CreateTable
+CREATE TABLE "ApprovalComment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "approvalRequestId" TEXT NOT NULL,
+    "author" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ApprovalComment_approvalRequestId_fkey" FOREIGN KEY ("approvalRequestId") REFERENCES "ApprovalRequest" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ApprovalComment_approvalRequestId_idx" ON "ApprovalComment"("approvalRequestId");
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "Policy" ADD COLUMN "approvers" TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE "ApprovalRequest" ADD COLUMN "quorum" TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE "Team" ADD COLUMN "lead" TEXT NOT NULL DEFAULT '';
+
+-- CreateTable
+CREATE TABLE "ApprovalVote" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "approvalRequestId" TEXT NOT NULL,
+    "approver" TEXT NOT NULL,
+    "decision" TEXT NOT NULL,
+    "justification" TEXT NOT NULL DEFAULT '',
+    "voteHash" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ApprovalVote_approvalRequestId_fkey" FOREIGN KEY ("approvalRequestId") REFERENCES "ApprovalRequest" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ApproverGroup" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "members" TEXT NOT NULL DEFAULT '[]'
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalVote_approvalRequestId_approver_key" ON "ApprovalVote"("approvalRequestId", "approver");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApproverGroup_name_key" ON "ApproverGroup"("name");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Policy" ADD COLUMN "expiry" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "ApprovalRequest" ADD COLUMN "expiry" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "ApprovalRequest" ADD COLUMN "expiresAt" DATETIME;
+ALTER TABLE "ApprovalRequest" ADD COLUMN "escalatedTo" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "ApprovalRequest" ADD COLUMN "escalatedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "ApprovalRequest_status_expiresAt_idx" ON "ApprovalRequest"("status", "expiresAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ApprovalRequest" ADD COLUMN "amendedDiff" TEXT NOT NULL DEFAULT '';
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ApprovalComment" ADD COLUMN "file" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "ApprovalComment" ADD COLUMN "side" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "ApprovalComment" ADD COLUMN "line" INTEGER;
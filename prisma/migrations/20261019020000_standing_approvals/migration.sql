@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "StandingApproval" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "employeeId" TEXT NOT NULL,
+    "capability" TEXT NOT NULL,
+    "conditions" TEXT NOT NULL DEFAULT '[]',
+    "grantedBy" TEXT NOT NULL,
+    "justification" TEXT NOT NULL,
+    "startsAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME NOT NULL,
+    "revokedAt" DATETIME,
+    "revokedBy" TEXT NOT NULL DEFAULT '',
+    "uses" INTEGER NOT NULL DEFAULT 0,
+    "lastUsedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "StandingApproval_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "StandingApproval_employeeId_expiresAt_idx" ON "StandingApproval"("employeeId", "expiresAt");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "ApprovalRequest" ADD COLUMN "fingerprint" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "ApprovalRequest" ADD COLUMN "retryCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "ApprovalRequest" ADD COLUMN "lastRetryAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "ApprovalRequest_employeeId_fingerprint_status_idx" ON "ApprovalRequest"("employeeId", "fingerprint", "status");
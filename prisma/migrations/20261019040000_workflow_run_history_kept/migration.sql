@@ -0,0 +1,27 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_WorkflowRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "ruleId" TEXT,
+    "trigger" TEXT NOT NULL,
+    "teamId" TEXT,
+    "teamName" TEXT NOT NULL DEFAULT '',
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "context" TEXT NOT NULL DEFAULT '{}',
+    "definition" TEXT NOT NULL DEFAULT '[]',
+    "error" TEXT NOT NULL DEFAULT '',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "completedAt" DATETIME,
+    CONSTRAINT "WorkflowRun_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "WorkflowRule" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_WorkflowRun" ("completedAt", "context", "createdAt", "definition", "error", "id", "ruleId", "status", "teamId", "teamName", "trigger", "updatedAt")
+SELECT r."completedAt", r."context", r."createdAt", r."definition", r."error", r."id", r."ruleId", r."status", wr."teamId", COALESCE(t."name", ''), r."trigger", r."updatedAt"
+FROM "WorkflowRun" r
+LEFT JOIN "WorkflowRule" wr ON wr."id" = r."ruleId"
+LEFT JOIN "Team" t ON t."id" = wr."teamId";
+DROP TABLE "WorkflowRun";
+ALTER TABLE "new_WorkflowRun" RENAME TO "WorkflowRun";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,41 @@
+// Workflow rules created by the seed, keyed by the team that owns them. Steps
+// may name agents from other teams: each agent runs under its own policies.
+// Kept apart from seed.ts so tests can run the seeded definitions.
+
+export const SEED_WORKFLOW_RULES = [
+  {
+    teamId: 'team-support',
+    trigger: 'slack_complaint',
+    steps: [
+      { agent: 'Emma', action: 'detect_complaint', order: 1 },
+      { agent: 'Emma', action: 'acknowledge_customer', order: 2 },
+      { agent: 'Alex', action: 'investigate_issue', order: 3 },
+      { agent: 'Alex', action: 'create_fix', order: 4 },
+      { agent: 'Emma', action: 'reply_to_customer', order: 5 },
+    ],
+  },
+  {
+    teamId: 'team-engineering',
+    trigger: 'sentry_error_spike',
+    steps: [
+      { agent: 'Sentinel', action: 'analyze_error', order: 1 },
+      { agent: 'Alex', action: 'diagnose_root_cause', order: 2 },
+      { agent: 'Alex', action: 'implement_fix', order: 3 },
+      { agent: 'Otto', action: 'deploy_fix', order: 4 },
+    ],
+  },
+  {
+    teamId: 'team-security',
+    trigger: 'security_alert',
+    steps: [
+      { agent: 'Sentinel', action: 'assess_threat', order: 1, timeoutMs: 30000 },
+      {
+        agent: 'Sentinel',
+        action: 'block_if_critical',
+        order: 2,
+        if: [{ path: 'trigger.severity', op: 'eq', value: 'fatal' }],
+      },
+      { agent: 'Otto', action: 'patch_vulnerability', order: 3, retries: 2 },
+    ],
+  },
+]
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client'
 import { createHash } from 'crypto'
+import { SEED_WORKFLOW_RULES } from './seed-workflows'
 
 const prisma = new PrismaClient()
 
@@ -11,12 +12,17 @@ function hashChain(previousHash: string, action: string, details: string, timest
 
 async function main() {
   // Clean existing data
+  await prisma.workflowStepRun.deleteMany()
+  await prisma.workflowRun.deleteMany()
   await prisma.auditLog.deleteMany()
   await prisma.approvalRequest.deleteMany()
   await prisma.policy.deleteMany()
+  await prisma.policyVersion.deleteMany()
   await prisma.workflowRule.deleteMany()
   await prisma.employee.deleteMany()
   await prisma.team.deleteMany()
+  await prisma.changeFreeze.deleteMany()
+  await prisma.approverGroup.deleteMany()
 
   // Create teams
   const supportTeam = await prisma.team.create({
@@ -32,6 +38,7 @@ async function main() {
       id: 'team-engineering',
       name: 'Engineering',
       description: 'Handles bug fixes, deployments, and code reviews',
+      lead: 'dana@acme.com',
     },
   })
 
@@ -115,6 +122,7 @@ async function main() {
       autonomyMode: 'supervised',
       instructions: 'Monitor deployment pipelines. Handle infrastructure alerts. Manage CI/CD workflows.',
       status: 'paused',
+      timezone: 'Europe/Berlin',
       teamId: engineeringTeam.id,
     },
   })
@@ -123,16 +131,42 @@ async function main() {
   const policies = [
     // Emma policies
     { employeeId: emma.id, capability: 'send_email', permission: 'approval_required', rateLimit: 10 },
+    {
+      employeeId: emma.id,
+      capability: 'send_email',
+      permission: 'allow',
+      rateLimit: 10,
+      conditions: JSON.stringify([{ path: 'recipient', op: 'ends_with', value: '@acme.com' }]),
+    },
     { employeeId: emma.id, capability: 'access_database', permission: 'deny', rateLimit: null },
     { employeeId: emma.id, capability: 'inter_agent_comm', permission: 'allow', rateLimit: 50 },
-    { employeeId: emma.id, capability: 'api_call', permission: 'allow', rateLimit: 100 },
+    {
+      employeeId: emma.id,
+      capability: 'api_call',
+      permission: 'allow',
+      rateLimit: 100,
+      quotas: JSON.stringify([{ kind: 'count', limit: 2000, window: 'day' }]),
+    },
     // Alex policies
     { employeeId: alex.id, capability: 'modify_code', permission: 'allow', rateLimit: 20 },
     { employeeId: alex.id, capability: 'deploy', permission: 'approval_required', rateLimit: 5 },
+    {
+      employeeId: alex.id,
+      capability: 'deploy',
+      permission: 'allow',
+      rateLimit: 5,
+      conditions: JSON.stringify([{ path: 'environment', op: 'in', value: ['development', 'staging'] }]),
+    },
     { employeeId: alex.id, capability: 'send_email', permission: 'deny', rateLimit: null },
     { employeeId: alex.id, capability: 'access_database', permission: 'allow', rateLimit: 50 },
     // Sentinel policies
-    { employeeId: sentinel.id, capability: 'api_call', permission: 'allow', rateLimit: 200 },
+    {
+      employeeId: sentinel.id,
+      capability: 'api_call',
+      permission: 'allow',
+      rateLimit: 200,
+      quotas: JSON.stringify([{ kind: 'budget', amountUsd: 25, window: 'day' }]),
+    },
     { employeeId: sentinel.id, capability: 'send_email', permission: 'approval_required', rateLimit: 5 },
     { employeeId: sentinel.id, capability: 'modify_code', permission: 'deny', rateLimit: null },
     { employeeId: sentinel.id, capability: 'file_write', permission: 'deny', rateLimit: null },
@@ -142,54 +176,81 @@ async function main() {
     { employeeId: maya.id, capability: 'send_email', permission: 'approval_required', rateLimit: 5 },
     // Otto policies
     { employeeId: otto.id, capability: 'deploy', permission: 'approval_required', rateLimit: 3 },
+    {
+      employeeId: otto.id,
+      capability: 'deploy',
+      permission: 'deny',
+      rateLimit: null,
+      schedule: JSON.stringify({ days: ['fri'], start: '16:00' }),
+    },
+    { employeeId: otto.id, capability: 'deploy', permission: 'deny', rateLimit: null, schedule: JSON.stringify({ freeze: true }) },
     { employeeId: otto.id, capability: 'modify_code', permission: 'allow', rateLimit: 30 },
     { employeeId: otto.id, capability: 'file_write', permission: 'allow', rateLimit: 50 },
+    // Team policies (inherited by members)
+    {
+      scope: 'team',
+      teamId: engineeringTeam.id,
+      capability: 'deploy:production',
+      permission: 'approval_required',
+      rateLimit: 2,
+      approvers: JSON.stringify([{ group: 'devops', count: 2 }]),
+      expiry: JSON.stringify({ afterMinutes: 240, action: 'deny' }),
+    },
+    {
+      scope: 'team',
+      teamId: securityTeam.id,
+      capability: 'send_email',
+      permission: 'approval_required',
+      rateLimit: 5,
+      expiry: JSON.stringify({ afterMinutes: 60, action: 'escalate', escalateTo: 'security' }),
+    },
+    // Organization policies (inherited by everyone)
+    { scope: 'org', capability: 'inter_agent_comm', permission: 'allow', rateLimit: 50 },
   ]
 
   for (const policy of policies) {
-    await prisma.policy.create({ data: policy })
+    const created = await prisma.policy.create({ data: policy })
+    const { id, ...snapshot } = created
+    await prisma.policyVersion.create({
+      data: { policyId: id, version: 1, changeType: 'created', changedBy: 'seed', after: JSON.stringify(snapshot) },
+    })
   }
 
-  // Create workflow rules
-  await prisma.workflowRule.create({
+  // Create approver groups
+  await prisma.approverGroup.create({
     data: {
-      teamId: supportTeam.id,
-      trigger: 'slack_complaint',
-      steps: JSON.stringify([
-        { agent: 'Emma', action: 'detect_complaint', order: 1 },
-        { agent: 'Emma', action: 'acknowledge_customer', order: 2 },
-        { agent: 'Alex', action: 'investigate_issue', order: 3 },
-        { agent: 'Alex', action: 'create_fix', order: 4 },
-        { agent: 'Emma', action: 'reply_to_customer', order: 5 },
-      ]),
+      name: 'devops',
+      description: 'Sign off on production deployments',
+      members: JSON.stringify(['dana@acme.com', 'raj@acme.com', 'lee@acme.com']),
     },
   })
-
-  await prisma.workflowRule.create({
+  await prisma.approverGroup.create({
     data: {
-      teamId: engineeringTeam.id,
-      trigger: 'sentry_error_spike',
-      steps: JSON.stringify([
-        { agent: 'Sentinel', action: 'analyze_error', order: 1 },
-        { agent: 'Alex', action: 'diagnose_root_cause', order: 2 },
-        { agent: 'Alex', action: 'implement_fix', order: 3 },
-        { agent: 'Otto', action: 'deploy_fix', order: 4 },
-      ]),
+      name: 'security',
+      description: 'Review access and data-handling changes',
+      members: JSON.stringify(['sam@acme.com', 'kim@acme.com']),
     },
   })
 
-  await prisma.workflowRule.create({
+  // Create change freezes
+  const now = Date.now()
+  await prisma.changeFreeze.create({
     data: {
-      teamId: securityTeam.id,
-      trigger: 'security_alert',
-      steps: JSON.stringify([
-        { agent: 'Sentinel', action: 'assess_threat', order: 1 },
-        { agent: 'Sentinel', action: 'block_if_critical', order: 2 },
-        { agent: 'Otto', action: 'patch_vulnerability', order: 3 },
-      ]),
+      name: 'Quarter-end close',
+      reason: 'No production changes while finance closes the books',
+      startsAt: new Date(now + 86400000 * 7),
+      endsAt: new Date(now + 86400000 * 10),
+      capabilities: JSON.stringify(['deploy', 'deploy:*']),
     },
   })
 
+  // Create workflow rules
+  for (const rule of SEED_WORKFLOW_RULES) {
+    await prisma.workflowRule.create({
+      data: { teamId: rule.teamId, trigger: rule.trigger, steps: JSON.stringify(rule.steps) },
+    })
+  }
+
   // Create approval requests
   await prisma.approvalRequest.create({
     data: {
@@ -206,7 +267,34 @@ async function main() {
       employeeId: alex.id,
       action: 'deploy',
       details: 'Alex wants to deploy hotfix for authentication timeout bug (PR #287)',
-      diff: `--- a/src/auth/session.ts\n+++ b/src/auth/session.ts\n@@ -42,7 +42,7 @@\n   const sessionTimeout = config.get('session.timeout');\n-  if (Date.now() - session.lastActivity > 3600000) {\n+  if (Date.now() - session.lastActivity > sessionTimeout) {\n     return { valid: false, reason: 'Session expired' };\n   }`,
+      diff: [
+        'diff --git a/src/auth/session.ts b/src/auth/session.ts',
+        'index 3f2a1c9..8b7e4d0 100644',
+        '--- a/src/auth/session.ts',
+        '+++ b/src/auth/session.ts',
+        '@@ -40,6 +40,6 @@ export function validateSession(session: Session) {',
+        '   const config = getConfig();',
+        "   const sessionTimeout = config.get('session.timeout');",
+        '-  if (Date.now() - session.lastActivity > 3600000) {',
+        '+  if (Date.now() - session.lastActivity > sessionTimeout) {',
+        "     return { valid: false, reason: 'Session expired' };",
+        '   }',
+        '   return { valid: true };',
+        'diff --git a/src/auth/__tests__/session.test.ts b/src/auth/__tests__/session.test.ts',
+        'index 51c0e2a..d94f7b3 100644',
+        '--- a/src/auth/__tests__/session.test.ts',
+        '+++ b/src/auth/__tests__/session.test.ts',
+        "@@ -12,3 +12,9 @@ describe('validateSession', () => {",
+        "   it('accepts an active session', () => {",
+        '     expect(validateSession(activeSession).valid).toBe(true);',
+        '   });',
+        '+',
+        "+  it('uses the configured timeout', () => {",
+        "+    setConfig({ 'session.timeout': 60000 });",
+        '+    const idle = { ...activeSession, lastActivity: Date.now() - 120000 };',
+        '+    expect(validateSession(idle).valid).toBe(false);',
+        '+  });',
+      ].join('\n'),
       status: 'pending',
     },
   })
@@ -218,6 +306,8 @@ async function main() {
       details: 'Sentinel wants to send security alert to ops-team@company.com',
       diff: `To: ops-team@company.com\nSubject: [SECURITY] Unusual API Access Pattern Detected\n\nSeverity: HIGH\n\nDetected 47 failed authentication attempts from IP range 203.0.113.0/24 in the last 15 minutes.\n\nRecommended action: Temporarily block IP range and investigate.\n\n- Sentinel (AI Security Analyst)`,
       status: 'pending',
+      expiry: JSON.stringify({ afterMinutes: 60, action: 'escalate', escalateTo: 'security' }),
+      expiresAt: new Date(now + 60000 * 45),
     },
   })
 
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import { validateApprovalComment } from '@/lib/approval-decisions'
+import { validateLineAnchor } from '@/lib/unified-diff'
+
+const auditLogger = new AuditLogger()
+
+/**
+ * POST /api/approvals/:id/comments  { author, body, file?, side?, line? }
+ * Add a comment to an approval request, pending or resolved. With `file`,
+ * `side` and `line` the comment is on that line of the request's unified
+ * diff, which must contain it.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+    const input = await request.json()
+
+    const invalid = validateApprovalComment(input)
+    if (invalid) {
+      return NextResponse.json(invalid, { status: 400 })
+    }
+
+    const approval = await prisma.approvalRequest.findUnique({
+      where: { id },
+      include: { employee: true },
+    })
+    if (!approval) {
+      return NextResponse.json(
+        { error: 'Approval request not found' },
+        { status: 404 }
+      )
+    }
+
+    const onLine = input.file !== undefined || input.side !== undefined || input.line !== undefined
+    if (onLine) {
+      const anchorError = validateLineAnchor(input, approval.diff)
+      if (anchorError) {
+        return NextResponse.json({ error: anchorError }, { status: 400 })
+      }
+    }
+
+    const comment = await prisma.approvalComment.create({
+      data: {
+        approvalRequestId: id,
+        author: input.author.trim(),
+        body: input.body.trim(),
+        ...(onLine ? { file: input.file, side: input.side, line: input.line } : {}),
+      },
+    })
+
+    const where = onLine ? ` on ${comment.file}:${comment.line}${comment.side === 'old' ? ' (old)' : ''} in` : ' on'
+    await auditLogger.log(
+      'approval_commented',
+      `${comment.author} commented${where} the approval request for "${approval.action}" (employee: "${approval.employee.name}"): ${JSON.stringify(comment.body)}`,
+      approval.employeeId,
+    )
+
+    return NextResponse.json(comment, { status: 201 })
+  } catch (error) {
+    console.error('Failed to add approval comment:', error)
+    return NextResponse.json(
+      { error: 'Failed to add approval comment' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,62 +1,84 @@
 import { NextResponse } from 'next/server'
 import prisma from '@/lib/db'
-import { AuditLogger } from '@/lib/audit'
+import { approvedDiff, verifyDecision } from '@/lib/approval-decisions'
+import { quorumProgress } from '@/lib/approval-quorum'
+import { reviewApproval } from '@/lib/approval-review'
+import { expireApprovals } from '@/lib/approval-sweep'
 
-const auditLogger = new AuditLogger()
-
-export async function PUT(
+/**
+ * GET /api/approvals/:id
+ * The request with its comments and votes (oldest first), where its quorum
+ * stands, whether its recorded decision still matches the signature taken
+ * when it was made, and, once approved, the diff the agent may act with.
+ */
+export async function GET(
   request: Request,
   { params }: { params: { id: string } }
 ) {
   try {
-    const { id } = params
-    const body = await request.json()
-    const { status } = body
-
-    if (!status || !['approved', 'denied'].includes(status)) {
-      return NextResponse.json(
-        { error: 'Status must be "approved" or "denied"' },
-        { status: 400 }
-      )
-    }
-
-    const existing = await prisma.approvalRequest.findUnique({
-      where: { id },
-      include: { employee: true },
+    const approval = await prisma.approvalRequest.findUnique({
+      where: { id: params.id },
+      include: {
+        employee: true,
+        comments: { orderBy: { createdAt: 'asc' } },
+        votes: { orderBy: { createdAt: 'asc' } },
+      },
     })
 
-    if (!existing) {
+    if (!approval) {
       return NextResponse.json(
         { error: 'Approval request not found' },
         { status: 404 }
       )
     }
 
-    if (existing.status !== 'pending') {
+    return NextResponse.json({
+      ...approval,
+      approvedDiff: approval.status === 'approved' ? approvedDiff(approval) : null,
+      quorumStatus: await quorumProgress(prisma, approval),
+      signature: verifyDecision(approval),
+    })
+  } catch (error) {
+    console.error('Failed to fetch approval request:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch approval request' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/approvals/:id  { status, approver, justification?, comment?, amendedDiff? }
+ * Approve or deny a pending request. Denials require a justification. The
+ * decision is signed and quoted, with any comment, in its audit entry.
+ *
+ * When the request carries a quorum this records the approver's vote
+ * instead, and the request is only decided once the quorum is met (or an
+ * eligible approver denies it). Approvers outside the quorum are refused.
+ *
+ * An approval may carry `amendedDiff`, the reviewer's edit of the request's
+ * diff. It is stored beside the original and handed to the resumed workflow
+ * step in place of it.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+
+    // An overdue request is denied or escalated before anyone can decide it
+    await expireApprovals()
+
+    const outcome = await reviewApproval(params.id, body)
+    if (!outcome.ok) {
       return NextResponse.json(
-        { error: `Approval request has already been ${existing.status}` },
-        { status: 409 }
+        { error: outcome.error },
+        { status: outcome.status }
       )
     }
 
-    const approval = await prisma.approvalRequest.update({
-      where: { id },
-      data: {
-        status,
-        resolvedAt: new Date(),
-      },
-      include: {
-        employee: true,
-      },
-    })
-
-    await auditLogger.log(
-      `approval_${status}`,
-      `Approval request for "${existing.action}" was ${status} (employee: "${existing.employee.name}")`,
-      existing.employeeId,
-    )
-
-    return NextResponse.json(approval)
+    return NextResponse.json(outcome.approval)
   } catch (error) {
     console.error('Failed to update approval request:', error)
     return NextResponse.json(
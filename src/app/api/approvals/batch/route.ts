@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server'
+import { AuditLogger } from '@/lib/audit'
+import { validateApprovalDecision } from '@/lib/approval-decisions'
+import { reviewApproval, validateBatch } from '@/lib/approval-review'
+import { expireApprovals } from '@/lib/approval-sweep'
+
+const auditLogger = new AuditLogger()
+
+/**
+ * POST /api/approvals/batch  { ids, status, approver, justification?, comment? }
+ * Apply one decision to several pending requests, e.g. a queue of similar
+ * emails. Each request is reviewed as by PUT /api/approvals/:id and succeeds
+ * or fails on its own; the response reports every outcome, in order.
+ */
+export async function POST(request: Request) {
+  try {
+    const { ids, ...decision } = await request.json()
+
+    const errors = validateBatch(ids)
+    if (decision.amendedDiff !== undefined) {
+      errors.push('amendedDiff applies to a single request, not a batch')
+    }
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid batch', issues: errors },
+        { status: 400 }
+      )
+    }
+
+    const invalid = validateApprovalDecision(decision)
+    if (invalid) {
+      return NextResponse.json(invalid, { status: 400 })
+    }
+
+    // An overdue request is denied or escalated before anyone can decide it
+    await expireApprovals()
+
+    const results = []
+    for (const id of ids as string[]) {
+      const outcome = await reviewApproval(id, decision)
+      results.push(
+        outcome.ok
+          ? {
+              id,
+              ok: true,
+              status: outcome.approval.status,
+              ...(outcome.approval.workflowError ? { workflowError: outcome.approval.workflowError } : {}),
+            }
+          : { id, ok: false, error: outcome.error, code: outcome.status }
+      )
+    }
+
+    const succeeded = results.filter((r) => r.ok).length
+    if (succeeded > 0) {
+      await auditLogger.log(
+        'approvals_batch_reviewed',
+        `${decision.approver.trim()} ${decision.status} ${succeeded} of ${ids.length} approval requests in one batch`,
+      )
+    }
+
+    return NextResponse.json({ results, succeeded, failed: results.length - succeeded })
+  } catch (error) {
+    console.error('Failed to review approval batch:', error)
+    return NextResponse.json(
+      { error: 'Failed to review approval batch' },
+      { status: 500 }
+    )
+  }
+}
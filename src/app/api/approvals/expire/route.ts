@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { expireApprovals } from '@/lib/approval-sweep'
+
+/**
+ * POST /api/approvals/expire
+ * Escalate or deny pending requests past their deadline. Called by the
+ * approvals page when a request it shows becomes overdue, or by a scheduler.
+ * Deciding requests sweeps first too; reads never do, so they have no side
+ * effects.
+ */
+export async function POST() {
+  try {
+    const result = await expireApprovals()
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Failed to expire approval requests:', error)
+    return NextResponse.json(
+      { error: 'Failed to expire approval requests' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { approvalMetrics, loadApprovalFilter, parseApprovalQuery } from '@/lib/approval-history'
+
+/**
+ * GET /api/approvals/metrics?status=&employeeId=&capability=&from=&to=&approver=&q=
+ * Counts and time-to-decision figures (overall, per capability and per
+ * approver) for the requests matching the same filters as GET /api/approvals.
+ * Sorting and paging parameters are ignored.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { query, errors } = parseApprovalQuery(searchParams)
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Invalid approvals query', issues: errors },
+        { status: 400 }
+      )
+    }
+
+    const records = await prisma.approvalRequest.findMany({
+      where: await loadApprovalFilter(prisma, query),
+      select: { action: true, status: true, decidedBy: true, createdAt: true, resolvedAt: true },
+    })
+
+    return NextResponse.json(approvalMetrics(records))
+  } catch (error) {
+    console.error('Failed to compute approval metrics:', error)
+    return NextResponse.json(
+      { error: 'Failed to compute approval metrics' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,17 +1,52 @@
 import { NextResponse } from 'next/server'
 import prisma from '@/lib/db'
+import { approvalOrder, loadApprovalFilter, parseApprovalQuery } from '@/lib/approval-history'
+import { quorumProgress } from '@/lib/approval-quorum'
 
-export async function GET() {
+/**
+ * GET /api/approvals?status=&employeeId=&capability=&from=&to=&approver=&q=
+ *   &sort=&order=&page=&pageSize=
+ * One page of approval requests, newest first by default, with their
+ * comments, votes and quorum progress. See approval-history.ts for the
+ * parameters.
+ */
+export async function GET(request: Request) {
   try {
-    const approvals = await prisma.approvalRequest.findMany({
-      where: { status: 'pending' },
-      include: {
-        employee: true,
-      },
-      orderBy: { createdAt: 'desc' },
-    })
+    const { searchParams } = new URL(request.url)
+    const { query, errors } = parseApprovalQuery(searchParams)
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Invalid approvals query', issues: errors },
+        { status: 400 }
+      )
+    }
+
+    const where = await loadApprovalFilter(prisma, query)
 
-    return NextResponse.json(approvals)
+    const [total, approvals] = await Promise.all([
+      prisma.approvalRequest.count({ where }),
+      prisma.approvalRequest.findMany({
+        where,
+        include: {
+          employee: true,
+          comments: { orderBy: { createdAt: 'asc' } },
+          votes: { orderBy: { createdAt: 'asc' } },
+        },
+        orderBy: approvalOrder(query),
+        skip: (query.page - 1) * query.pageSize,
+        take: query.pageSize,
+      }),
+    ])
+
+    return NextResponse.json({
+      approvals: await Promise.all(
+        approvals.map(async (approval) => ({ ...approval, quorumStatus: await quorumProgress(prisma, approval) }))
+      ),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      totalPages: Math.max(1, Math.ceil(total / query.pageSize)),
+    })
   } catch (error) {
     console.error('Failed to fetch approval requests:', error)
     return NextResponse.json(
@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import { parseApproverGroup } from '@/lib/approval-quorum'
+
+const auditLogger = new AuditLogger()
+
+/**
+ * PUT /api/approver-groups/:id  { name?, description?, members? }
+ * Membership changes apply to pending requests too: eligibility is checked
+ * when each vote is cast.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+    const body = await request.json()
+
+    const existing = await prisma.approverGroup.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Approver group not found' },
+        { status: 404 }
+      )
+    }
+
+    const { group, errors } = parseApproverGroup(body, {
+      ...existing,
+      members: JSON.parse(existing.members),
+    })
+    if (!group) {
+      return NextResponse.json(
+        { error: 'Invalid approver group', issues: errors },
+        { status: 400 }
+      )
+    }
+
+    if (group.name !== existing.name) {
+      const duplicate = await prisma.approverGroup.findUnique({ where: { name: group.name } })
+      if (duplicate) {
+        return NextResponse.json(
+          { error: `Approver group "${group.name}" already exists` },
+          { status: 409 }
+        )
+      }
+    }
+
+    const updated = await prisma.approverGroup.update({
+      where: { id },
+      data: { ...group, members: JSON.stringify(group.members) },
+    })
+
+    await auditLogger.log(
+      'approver_group_updated',
+      `Updated approver group "${group.name}": ${JSON.stringify(body)}`,
+    )
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Failed to update approver group:', error)
+    return NextResponse.json(
+      { error: 'Failed to update approver group' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+
+    const group = await prisma.approverGroup.findUnique({ where: { id } })
+    if (!group) {
+      return NextResponse.json(
+        { error: 'Approver group not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.approverGroup.delete({ where: { id } })
+
+    await auditLogger.log(
+      'approver_group_deleted',
+      `Deleted approver group "${group.name}"`,
+    )
+
+    return NextResponse.json({ success: true, message: `Approver group "${group.name}" deleted` })
+  } catch (error) {
+    console.error('Failed to delete approver group:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete approver group' },
+      { status: 500 }
+    )
+  }
+}
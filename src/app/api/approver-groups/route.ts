@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import { parseApproverGroup } from '@/lib/approval-quorum'
+
+const auditLogger = new AuditLogger()
+
+export async function GET() {
+  try {
+    const groups = await prisma.approverGroup.findMany({
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json(groups)
+  } catch (error) {
+    console.error('Failed to fetch approver groups:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch approver groups' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/approver-groups  { name, description?, members? }
+ * Members are approver names, as given when approving requests.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const { group, errors } = parseApproverGroup(body)
+
+    if (!group) {
+      return NextResponse.json(
+        { error: 'Invalid approver group', issues: errors },
+        { status: 400 }
+      )
+    }
+
+    const duplicate = await prisma.approverGroup.findUnique({ where: { name: group.name } })
+    if (duplicate) {
+      return NextResponse.json(
+        { error: `Approver group "${group.name}" already exists` },
+        { status: 409 }
+      )
+    }
+
+    const created = await prisma.approverGroup.create({
+      data: { ...group, members: JSON.stringify(group.members) },
+    })
+
+    await auditLogger.log(
+      'approver_group_created',
+      `Created approver group "${group.name}" with member(s): ${group.members.join(', ') || 'none'}`,
+    )
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create approver group:', error)
+    return NextResponse.json(
+      { error: 'Failed to create approver group' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import {
+  applyBundlePlan,
+  buildBundle,
+  BundlePlan,
+  loadBundleState,
+  parseBundle,
+  planBundle,
+  serializeBundle,
+} from '@/lib/policy-bundle'
+import { policyChangeAuthor } from '@/lib/policy-versions'
+
+const auditLogger = new AuditLogger()
+
+/**
+ * GET /api/bundle?format=yaml|json
+ * Export every team, policy and workflow rule as a policy bundle.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') ?? 'yaml'
+
+    if (format !== 'yaml' && format !== 'json') {
+      return NextResponse.json(
+        { error: 'format must be one of: yaml, json' },
+        { status: 400 }
+      )
+    }
+
+    const bundle = buildBundle(await loadBundleState(prisma))
+
+    return new NextResponse(serializeBundle(bundle, format), {
+      headers: {
+        'Content-Type': format === 'json' ? 'application/json' : 'application/yaml',
+        'Content-Disposition': `attachment; filename="policies.${format}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Failed to export bundle:', error)
+    return NextResponse.json(
+      { error: 'Failed to export bundle' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/bundle?apply=true&prune=true&changedBy=...
+ * Body: a bundle document in YAML or JSON. Returns the plan of changes that
+ * would bring the database in line with it; with `apply=true` the plan is
+ * recomputed and applied in a single transaction. With `prune=true`, rows
+ * missing from the sections the bundle has are deleted.
+ */
+export async function POST(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const apply = searchParams.get('apply') === 'true'
+    const prune = searchParams.get('prune') === 'true'
+    const changedBy = policyChangeAuthor(searchParams.get('changedBy'))
+
+    const { bundle, issues: parseIssues } = parseBundle(await request.text())
+    if (!bundle) {
+      return NextResponse.json(
+        { error: 'Invalid bundle', issues: parseIssues },
+        { status: 400 }
+      )
+    }
+
+    const result = await prisma.$transaction(
+      async (tx): Promise<{ plan: BundlePlan | null; issues: string[] }> => {
+        const state = await loadBundleState(tx)
+        const { plan, issues } = planBundle(bundle, state, { prune })
+        if (plan && apply) {
+          await applyBundlePlan(tx, plan, state, changedBy)
+        }
+        return { plan, issues }
+      },
+      { timeout: 30_000 }
+    )
+
+    if (!result.plan) {
+      return NextResponse.json(
+        { error: 'Invalid bundle', issues: result.issues },
+        { status: 400 }
+      )
+    }
+
+    const { summary } = result.plan
+    if (apply) {
+      await auditLogger.log(
+        'policy_bundle_applied',
+        `Applied policy bundle by ${changedBy}: ${summary.create} created, ${summary.update} updated, ${summary.delete} deleted`,
+      )
+    }
+
+    return NextResponse.json({ applied: apply, prune, ...result.plan })
+  } catch (error) {
+    console.error('Failed to import bundle:', error)
+    return NextResponse.json(
+      { error: 'Failed to import bundle' },
+      { status: 500 }
+    )
+  }
+}
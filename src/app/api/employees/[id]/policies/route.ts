@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { effectivePolicies, inheritedPolicyFilter } from '@/lib/policy-scopes'
+
+// Effective policy view: the employee's own policies plus those inherited from
+// their team and the organization, in precedence order, each annotated with
+// the scope that always overrides it (if any).
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const employee = await prisma.employee.findUnique({
+      where: { id: params.id },
+      include: { team: true },
+    })
+
+    if (!employee) {
+      return NextResponse.json(
+        { error: 'Employee not found' },
+        { status: 404 }
+      )
+    }
+
+    const policies = await prisma.policy.findMany({
+      where: inheritedPolicyFilter(employee),
+      include: { team: true },
+      orderBy: { capability: 'asc' },
+    })
+
+    return NextResponse.json({
+      employeeId: employee.id,
+      autonomyMode: employee.autonomyMode,
+      team: employee.team ? { id: employee.team.id, name: employee.team.name } : null,
+      policies: effectivePolicies(policies),
+    })
+  } catch (error) {
+    console.error('Failed to fetch effective policies:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch effective policies' },
+      { status: 500 }
+    )
+  }
+}
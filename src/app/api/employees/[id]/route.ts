@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server'
 import prisma from '@/lib/db'
 import { AuditLogger } from '@/lib/audit'
 import { generateEvents } from '@/lib/simulation'
+import { isValidTimezone } from '@/lib/schedule'
+import { agentsBrokenByMoves } from '@/lib/workflow-dsl'
 
 const auditLogger = new AuditLogger()
 
@@ -67,6 +69,29 @@ export async function PUT(
       )
     }
 
+    if (body.timezone !== undefined && !isValidTimezone(body.timezone)) {
+      return NextResponse.json(
+        { error: 'timezone must be a valid IANA timezone' },
+        { status: 400 }
+      )
+    }
+
+    // Moving the employee to another team must not leave any team's workflow
+    // rule without its agent
+    if (body.teamId !== undefined && body.teamId !== existing.teamId) {
+      const issues = agentsBrokenByMoves(
+        await prisma.workflowRule.findMany({ include: { team: true } }),
+        await prisma.employee.findMany({ select: { id: true, name: true, teamId: true } }),
+        new Map([[id, body.teamId]]),
+      )
+      if (issues.length > 0) {
+        return NextResponse.json(
+          { error: 'Workflow rules reference agents that the change would leave unresolvable', issues },
+          { status: 409 }
+        )
+      }
+    }
+
     const employee = await prisma.employee.update({
       where: { id },
       data: {
@@ -77,6 +102,7 @@ export async function PUT(
         tools: body.tools ? JSON.stringify(body.tools) : existing.tools,
         autonomyMode: body.autonomyMode ?? existing.autonomyMode,
         instructions: body.instructions ?? existing.instructions,
+        timezone: body.timezone ?? existing.timezone,
         status: body.status ?? existing.status,
         teamId: body.teamId !== undefined ? body.teamId : existing.teamId,
       },
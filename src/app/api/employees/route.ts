@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server'
 import prisma from '@/lib/db'
 import { AuditLogger } from '@/lib/audit'
+import { inheritedPolicyFilter, uncoveredDefaults } from '@/lib/policy-scopes'
+import { isValidTimezone } from '@/lib/schedule'
 
 const auditLogger = new AuditLogger()
 
@@ -73,12 +75,16 @@ export async function GET() {
 export async function POST(request: Request) {
   try {
     const body = await request.json()
-    const { name, role, runtime, modelProvider, tools, autonomyMode, instructions, teamId } = body
+    const { name, role, runtime, modelProvider, tools, autonomyMode, instructions, teamId, timezone } = body
 
     if (!name || !role) {
       return NextResponse.json({ error: 'Name and role are required' }, { status: 400 })
     }
 
+    if (timezone !== undefined && !isValidTimezone(timezone)) {
+      return NextResponse.json({ error: 'timezone must be a valid IANA timezone' }, { status: 400 })
+    }
+
     const employee = await prisma.employee.create({
       data: {
         name,
@@ -88,13 +94,18 @@ export async function POST(request: Request) {
         tools: tools ? JSON.stringify(tools) : '[]',
         autonomyMode: autonomyMode || 'supervised',
         instructions: instructions || '',
+        timezone: timezone || 'UTC',
         teamId: teamId || null,
       },
       include: { team: true },
     })
 
-    // Create default policies based on role
-    const defaultPolicies = getDefaultPolicies(role)
+    // Members inherit their team's and the organization's policies; the role
+    // defaults only fill in the capabilities those leave uncovered
+    const inherited = await prisma.policy.findMany({
+      where: { ...inheritedPolicyFilter(employee), enabled: true },
+    })
+    const defaultPolicies = uncoveredDefaults(getDefaultPolicies(role), inherited)
     for (const policy of defaultPolicies) {
       await prisma.policy.create({
         data: {
@@ -108,7 +119,9 @@ export async function POST(request: Request) {
 
     await auditLogger.log(
       'employee_created',
-      `Created AI employee "${name}" with role "${role}" in ${autonomyMode || 'supervised'} mode`,
+      `Created AI employee "${name}" with role "${role}" in ${autonomyMode || 'supervised'} mode${
+        inherited.length > 0 ? `, inheriting ${inherited.length} team and organization policies` : ''
+      }`,
       employee.id,
     )
 
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import { parseChangeFreeze } from '@/lib/schedule'
+
+const auditLogger = new AuditLogger()
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+    const body = await request.json()
+
+    const existing = await prisma.changeFreeze.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Change freeze not found' },
+        { status: 404 }
+      )
+    }
+
+    const { freeze, errors } = parseChangeFreeze(body, {
+      ...existing,
+      capabilities: JSON.parse(existing.capabilities),
+    })
+    if (!freeze) {
+      return NextResponse.json(
+        { error: 'Invalid change freeze', issues: errors },
+        { status: 400 }
+      )
+    }
+
+    const updated = await prisma.changeFreeze.update({
+      where: { id },
+      data: {
+        ...freeze,
+        capabilities: JSON.stringify(freeze.capabilities),
+      },
+    })
+
+    await auditLogger.log(
+      'change_freeze_updated',
+      `Updated change freeze "${freeze.name}": ${JSON.stringify(body)}`,
+    )
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Failed to update change freeze:', error)
+    return NextResponse.json(
+      { error: 'Failed to update change freeze' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+
+    const freeze = await prisma.changeFreeze.findUnique({ where: { id } })
+    if (!freeze) {
+      return NextResponse.json(
+        { error: 'Change freeze not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.changeFreeze.delete({ where: { id } })
+
+    await auditLogger.log(
+      'change_freeze_deleted',
+      `Lifted change freeze "${freeze.name}"`,
+    )
+
+    return NextResponse.json({ success: true, message: `Change freeze "${freeze.name}" deleted` })
+  } catch (error) {
+    console.error('Failed to delete change freeze:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete change freeze' },
+      { status: 500 }
+    )
+  }
+}
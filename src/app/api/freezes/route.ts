@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import { parseChangeFreeze } from '@/lib/schedule'
+
+const auditLogger = new AuditLogger()
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const active = searchParams.get('active') === 'true'
+    const now = new Date()
+
+    const freezes = await prisma.changeFreeze.findMany({
+      where: active ? { startsAt: { lte: now }, endsAt: { gt: now } } : {},
+      orderBy: { startsAt: 'asc' },
+    })
+
+    return NextResponse.json(freezes)
+  } catch (error) {
+    console.error('Failed to fetch change freezes:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch change freezes' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const { freeze, errors } = parseChangeFreeze(body)
+
+    if (!freeze) {
+      return NextResponse.json(
+        { error: 'Invalid change freeze', issues: errors },
+        { status: 400 }
+      )
+    }
+
+    const created = await prisma.changeFreeze.create({
+      data: {
+        ...freeze,
+        capabilities: JSON.stringify(freeze.capabilities),
+      },
+    })
+
+    await auditLogger.log(
+      'change_freeze_created',
+      `Declared change freeze "${freeze.name}" from ${freeze.startsAt.toISOString()} to ${freeze.endsAt.toISOString()}${
+        freeze.capabilities.length > 0 ? ` covering ${freeze.capabilities.join(', ')}` : ''
+      }`,
+    )
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create change freeze:', error)
+    return NextResponse.json(
+      { error: 'Failed to create change freeze' },
+      { status: 500 }
+    )
+  }
+}
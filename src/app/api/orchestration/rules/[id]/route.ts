@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import {
+  findUnknownAgents,
+  parseWorkflowDefinition,
+  WorkflowDefinitionError,
+} from '@/lib/workflow-dsl'
+
+const auditLogger = new AuditLogger()
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+    const body = await request.json()
+
+    const existing = await prisma.workflowRule.findUnique({
+      where: { id },
+      include: { team: true },
+    })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Workflow rule not found' },
+        { status: 404 }
+      )
+    }
+
+    if (body.trigger !== undefined && (typeof body.trigger !== 'string' || !body.trigger.trim())) {
+      return NextResponse.json(
+        { error: 'trigger must be a non-empty string' },
+        { status: 400 }
+      )
+    }
+
+    let steps = existing.steps
+    if (body.steps !== undefined) {
+      const definition = parseWorkflowDefinition(body.steps)
+      const employees = await prisma.employee.findMany({ select: { name: true, teamId: true } })
+      const unknownAgents = findUnknownAgents(definition, employees, existing.teamId)
+      if (unknownAgents.length > 0) {
+        throw new WorkflowDefinitionError(unknownAgents)
+      }
+      steps = JSON.stringify(definition)
+    }
+
+    const rule = await prisma.workflowRule.update({
+      where: { id },
+      data: {
+        trigger: body.trigger ?? existing.trigger,
+        steps,
+      },
+    })
+
+    await auditLogger.log(
+      'workflow_rule_updated',
+      `Updated workflow rule "${rule.trigger}" for team "${existing.team.name}"`,
+    )
+
+    return NextResponse.json(rule)
+  } catch (error) {
+    if (error instanceof WorkflowDefinitionError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 422 }
+      )
+    }
+    console.error('Failed to update workflow rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to update workflow rule' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+
+    const rule = await prisma.workflowRule.findUnique({
+      where: { id },
+      include: { team: true },
+    })
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Workflow rule not found' },
+        { status: 404 }
+      )
+    }
+
+    // Log deletion before removing the rule; its runs are kept as history
+    await auditLogger.log(
+      'workflow_rule_deleted',
+      `Deleted workflow rule "${rule.trigger}" from team "${rule.team.name}"`,
+    )
+
+    await prisma.workflowRule.delete({ where: { id } })
+
+    return NextResponse.json({ success: true, message: `Workflow rule "${rule.trigger}" deleted` })
+  } catch (error) {
+    console.error('Failed to delete workflow rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete workflow rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import {
+  findUnknownAgents,
+  parseWorkflowDefinition,
+  WorkflowDefinitionError,
+} from '@/lib/workflow-dsl'
+
+const auditLogger = new AuditLogger()
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const { teamId, trigger, steps } = body
+
+    if (!teamId || !trigger || steps === undefined) {
+      return NextResponse.json(
+        { error: 'teamId, trigger and steps are required' },
+        { status: 400 }
+      )
+    }
+
+    const definition = parseWorkflowDefinition(steps)
+
+    const team = await prisma.team.findUnique({ where: { id: teamId } })
+    if (!team) {
+      return NextResponse.json(
+        { error: 'Team not found' },
+        { status: 404 }
+      )
+    }
+
+    const employees = await prisma.employee.findMany({ select: { name: true, teamId: true } })
+    const unknownAgents = findUnknownAgents(definition, employees, teamId)
+    if (unknownAgents.length > 0) {
+      throw new WorkflowDefinitionError(unknownAgents)
+    }
+
+    const rule = await prisma.workflowRule.create({
+      data: {
+        teamId,
+        trigger,
+        steps: JSON.stringify(definition),
+      },
+    })
+
+    await auditLogger.log(
+      'workflow_rule_created',
+      `Created workflow rule "${trigger}" for team "${team.name}" (${definition.length} steps)`,
+    )
+
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error) {
+    if (error instanceof WorkflowDefinitionError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 422 }
+      )
+    }
+    console.error('Failed to create workflow rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to create workflow rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+
+    const run = await prisma.workflowRun.findUnique({
+      where: { id },
+      include: {
+        rule: { include: { team: true } },
+        steps: {
+          include: { employee: true },
+          orderBy: { order: 'asc' },
+        },
+        approvalRequests: true,
+      },
+    })
+
+    if (!run) {
+      return NextResponse.json(
+        { error: 'Workflow run not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(run)
+  } catch (error) {
+    console.error('Failed to fetch workflow run:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch workflow run' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { workflowEngine } from '@/lib/workflow-engine'
+import { WorkflowDefinitionError } from '@/lib/workflow-dsl'
+
+const DEFAULT_RUN_LIMIT = 50
+const MAX_RUN_LIMIT = 200
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const ruleId = searchParams.get('ruleId')
+    const trigger = searchParams.get('trigger')
+    const status = searchParams.get('status')
+    const teamId = searchParams.get('teamId')
+    const rawLimit = searchParams.get('limit')
+    const limit = rawLimit === null || rawLimit === '' ? DEFAULT_RUN_LIMIT : Number(rawLimit)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RUN_LIMIT) {
+      return NextResponse.json(
+        { error: 'Invalid workflow runs query', issues: [`limit must be an integer from 1 to ${MAX_RUN_LIMIT}`] },
+        { status: 400 }
+      )
+    }
+
+    const runs = await prisma.workflowRun.findMany({
+      where: {
+        ...(ruleId ? { ruleId } : {}),
+        ...(trigger ? { trigger } : {}),
+        ...(status ? { status } : {}),
+        ...(teamId ? { teamId } : {}),
+      },
+      include: {
+        rule: { include: { team: true } },
+        steps: { orderBy: { order: 'asc' } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+
+    return NextResponse.json(runs)
+  } catch (error) {
+    console.error('Failed to fetch workflow runs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch workflow runs' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const { trigger, teamId, context } = body
+
+    if (!trigger) {
+      return NextResponse.json(
+        { error: 'trigger is required' },
+        { status: 400 }
+      )
+    }
+
+    const runs = await workflowEngine.trigger(trigger, {
+      teamId: teamId || undefined,
+      context: context ?? {},
+    })
+
+    if (runs.length === 0) {
+      return NextResponse.json(
+        { error: `No workflow rules listen for trigger "${trigger}"` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(runs, { status: 201 })
+  } catch (error) {
+    if (error instanceof WorkflowDefinitionError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 422 }
+      )
+    }
+    console.error('Failed to run workflow:', error)
+    return NextResponse.json(
+      { error: 'Failed to run workflow' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,151 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import { agentsBrokenByMoves } from '@/lib/workflow-dsl'
+
+const auditLogger = new AuditLogger()
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+    const body = await request.json()
+
+    const existing = await prisma.team.findUnique({
+      where: { id },
+      include: { employees: true },
+    })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Team not found' },
+        { status: 404 }
+      )
+    }
+
+    if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+      return NextResponse.json(
+        { error: 'name must be a non-empty string' },
+        { status: 400 }
+      )
+    }
+
+    let memberIds: string[] | undefined
+    if (body.employeeIds !== undefined) {
+      memberIds = Array.isArray(body.employeeIds) ? (body.employeeIds as string[]) : []
+      const members = await prisma.employee.findMany({ where: { id: { in: memberIds } } })
+      if (members.length !== new Set(memberIds).size) {
+        return NextResponse.json(
+          { error: 'One or more employees not found' },
+          { status: 404 }
+        )
+      }
+
+      // Moving employees in or out must not leave any team's workflow rule
+      // without its agent
+      const moves = new Map<string, string | null>(existing.employees.map((e) => [e.id, null]))
+      memberIds.forEach((memberId) => moves.set(memberId, id))
+      const issues = agentsBrokenByMoves(
+        await prisma.workflowRule.findMany({ include: { team: true } }),
+        await prisma.employee.findMany({ select: { id: true, name: true, teamId: true } }),
+        moves,
+      )
+      if (issues.length > 0) {
+        return NextResponse.json(
+          { error: 'Workflow rules reference agents that the change would leave unresolvable', issues },
+          { status: 409 }
+        )
+      }
+    }
+
+    const team = await prisma.team.update({
+      where: { id },
+      data: {
+        name: body.name?.trim() ?? existing.name,
+        description: body.description ?? existing.description,
+        lead: typeof body.lead === 'string' ? body.lead.trim() : existing.lead,
+        ...(memberIds ? { employees: { set: memberIds.map((memberId) => ({ id: memberId })) } } : {}),
+      },
+      include: {
+        employees: true,
+        workflowRules: true,
+      },
+    })
+
+    const before = new Set(existing.employees.map((e) => e.id))
+    const after = new Set(team.employees.map((e) => e.id))
+    const joined = team.employees.filter((e) => !before.has(e.id)).map((e) => e.name)
+    const left = existing.employees.filter((e) => !after.has(e.id)).map((e) => e.name)
+    const changes = [
+      ...(team.name !== existing.name ? [`renamed from "${existing.name}"`] : []),
+      ...(team.description !== existing.description ? ['description changed'] : []),
+      ...(team.lead !== existing.lead ? [`lead set to "${team.lead}"`] : []),
+      ...(joined.length > 0 ? [`added ${joined.join(', ')}`] : []),
+      ...(left.length > 0 ? [`removed ${left.join(', ')}`] : []),
+    ]
+    await auditLogger.log(
+      'team_updated',
+      `Updated team "${team.name}": ${changes.length > 0 ? changes.join('; ') : 'no changes'}`,
+    )
+
+    return NextResponse.json(team)
+  } catch (error) {
+    console.error('Failed to update team:', error)
+    return NextResponse.json(
+      { error: 'Failed to update team' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+
+    const team = await prisma.team.findUnique({
+      where: { id },
+      include: { workflowRules: true, employees: true },
+    })
+    if (!team) {
+      return NextResponse.json(
+        { error: 'Team not found' },
+        { status: 404 }
+      )
+    }
+
+    // Its members are left unassigned, which must not leave another team's
+    // workflow rule without its agent
+    const issues = agentsBrokenByMoves(
+      await prisma.workflowRule.findMany({ where: { teamId: { not: id } }, include: { team: true } }),
+      await prisma.employee.findMany({ select: { id: true, name: true, teamId: true } }),
+      new Map(team.employees.map((e) => [e.id, null])),
+    )
+    if (issues.length > 0) {
+      return NextResponse.json(
+        { error: 'Workflow rules reference agents that deleting the team would leave unresolvable', issues },
+        { status: 409 }
+      )
+    }
+
+    // Log deletion before removing the team (cascade will remove its workflow
+    // rules; members stay on as unassigned employees)
+    await auditLogger.log(
+      'team_deleted',
+      `Deleted team "${team.name}" and ${team.workflowRules.length} workflow rule(s)`,
+    )
+
+    await prisma.team.delete({ where: { id } })
+
+    return NextResponse.json({ success: true, message: `Team "${team.name}" deleted` })
+  } catch (error) {
+    console.error('Failed to delete team:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete team' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import { agentsBrokenByMoves } from '@/lib/workflow-dsl'
+
+const auditLogger = new AuditLogger()
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const { name, description, lead, employeeIds } = body
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { error: 'name is required' },
+        { status: 400 }
+      )
+    }
+
+    const memberIds: string[] = Array.isArray(employeeIds) ? employeeIds : []
+    if (memberIds.length > 0) {
+      const found = await prisma.employee.count({ where: { id: { in: memberIds } } })
+      if (found !== new Set(memberIds).size) {
+        return NextResponse.json(
+          { error: 'One or more employees not found' },
+          { status: 404 }
+        )
+      }
+
+      // Members are taken from their current teams, whose workflow rules must
+      // still find their agents; a new team has no rules, so leaving a team is
+      // all that matters here
+      const issues = agentsBrokenByMoves(
+        await prisma.workflowRule.findMany({ include: { team: true } }),
+        await prisma.employee.findMany({ select: { id: true, name: true, teamId: true } }),
+        new Map(memberIds.map((id): [string, string | null] => [id, null])),
+      )
+      if (issues.length > 0) {
+        return NextResponse.json(
+          { error: 'Workflow rules reference agents that the change would leave unresolvable', issues },
+          { status: 409 }
+        )
+      }
+    }
+
+    const team = await prisma.team.create({
+      data: {
+        name: name.trim(),
+        description: description || '',
+        lead: typeof lead === 'string' ? lead.trim() : '',
+        employees: { connect: memberIds.map((id) => ({ id })) },
+      },
+      include: {
+        employees: true,
+        workflowRules: true,
+      },
+    })
+
+    await auditLogger.log(
+      'team_created',
+      `Created team "${team.name}" with ${team.employees.length} member(s)`,
+    )
+
+    return NextResponse.json(team, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create team:', error)
+    return NextResponse.json(
+      { error: 'Failed to create team' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { checkPolicyQuorum, parseQuorum } from '@/lib/approval-quorum'
+import { AuditLogger } from '@/lib/audit'
+import { describePolicyTarget } from '@/lib/policy-scopes'
+import { diffSnapshots, parseSnapshot, policyChangeAuthor, recordPolicyVersion } from '@/lib/policy-versions'
+
+const auditLogger = new AuditLogger()
+
+/**
+ * POST /api/policies/:id/rollback  { version, changedBy? }
+ * Restore the policy as it was at `version`. The rollback is itself recorded
+ * as a new version.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+    const body = await request.json()
+    const { version, changedBy } = body
+
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json(
+        { error: 'version must be a positive integer' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.policy.findUnique({
+      where: { id },
+      include: { employee: true, team: true },
+    })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Policy not found' },
+        { status: 404 }
+      )
+    }
+
+    const target = await prisma.policyVersion.findUnique({
+      where: { policyId_version: { policyId: id, version } },
+    })
+    const snapshot = target ? parseSnapshot(target.after) : null
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: `Version ${version} not found` },
+        { status: 404 }
+      )
+    }
+
+    const restored = {
+      capability: snapshot.capability,
+      permission: snapshot.permission,
+      rateLimit: snapshot.rateLimit,
+      quotas: snapshot.quotas,
+      conditions: snapshot.conditions,
+      schedule: snapshot.schedule,
+      enabled: snapshot.enabled,
+      approvers: snapshot.approvers,
+      expiry: snapshot.expiry,
+    }
+    if (diffSnapshots(existing, { ...existing, ...restored }).length === 0) {
+      return NextResponse.json(
+        { error: `Policy already matches version ${version}` },
+        { status: 400 }
+      )
+    }
+
+    // The groups or team lead the old quorum named may have changed since
+    const quorumIssues =
+      restored.approvers === existing.approvers
+        ? []
+        : await checkPolicyQuorum(prisma, existing, parseQuorum(restored.approvers))
+    if (quorumIssues.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid approval quorum', issues: quorumIssues },
+        { status: 400 }
+      )
+    }
+
+    const { policy, recorded } = await prisma.$transaction(async (tx) => {
+      const updated = await tx.policy.update({
+        where: { id },
+        data: restored,
+        include: {
+          employee: true,
+          team: true,
+        },
+      })
+      const recorded = await recordPolicyVersion(tx, {
+        policyId: id,
+        before: existing,
+        after: updated,
+        changeType: 'rolled_back',
+        changedBy: policyChangeAuthor(changedBy),
+        note: `Rolled back to version ${version}`,
+      })
+      return { policy: updated, recorded }
+    })
+
+    await auditLogger.log(
+      'policy_rolled_back',
+      `Rolled back policy "${policy.capability}" for ${describePolicyTarget(existing)} to version ${version} (now version ${recorded.version}, by ${recorded.changedBy})`,
+      existing.employeeId ?? undefined,
+    )
+
+    return NextResponse.json({ policy, version: recorded })
+  } catch (error) {
+    console.error('Failed to roll back policy:', error)
+    return NextResponse.json(
+      { error: 'Failed to roll back policy' },
+      { status: 500 }
+    )
+  }
+}
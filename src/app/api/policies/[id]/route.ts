@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { applyPolicyChange, updatePolicy } from '@/lib/policy-changes'
+
+/**
+ * PUT /api/policies/:id  { capability?, permission?, rateLimit?, quotas?,
+ * conditions?, schedule?, enabled?, approvers?, expiry?, changedBy? }
+ * Update a policy; `{ enabled: false }` disables it without deleting it.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+    const body = await request.json()
+    const { changedBy, ...input } = body
+
+    const outcome = await updatePolicy(prisma, id, input, changedBy)
+    if (!outcome.ok) {
+      return NextResponse.json(
+        { error: outcome.error, issues: outcome.issues },
+        { status: outcome.status }
+      )
+    }
+
+    return NextResponse.json(outcome.applied.policy)
+  } catch (error) {
+    console.error('Failed to update policy:', error)
+    return NextResponse.json(
+      { error: 'Failed to update policy' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/policies/:id?changedBy=
+ * Delete a policy. Its version history is kept, ending in a "deleted" version.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+    const { searchParams } = new URL(request.url)
+
+    const existing = await prisma.policy.findUnique({
+      where: { id },
+      include: { employee: true, team: true },
+    })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Policy not found' },
+        { status: 404 }
+      )
+    }
+
+    const applied = await applyPolicyChange(prisma, { action: 'delete', policy: existing }, searchParams.get('changedBy'))
+
+    return NextResponse.json({
+      success: true,
+      message: `Policy "${existing.capability}" deleted`,
+      version: applied.version,
+    })
+  } catch (error) {
+    console.error('Failed to delete policy:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete policy' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { diffSnapshots, parseSnapshot } from '@/lib/policy-versions'
+
+function parseVersion(value: string | null): number | null | undefined {
+  if (value === null) return undefined
+  const version = Number(value)
+  return Number.isInteger(version) && version >= 1 ? version : null
+}
+
+/**
+ * GET /api/policies/:id/versions/diff?from=2&to=5
+ * Fields that changed between two versions. `to` defaults to the latest
+ * version; without `from`, the diff is the change that produced `to`.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+    const { searchParams } = new URL(request.url)
+    const from = parseVersion(searchParams.get('from'))
+    const to = parseVersion(searchParams.get('to'))
+
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: 'from and to must be positive integer version numbers' },
+        { status: 400 }
+      )
+    }
+
+    const target = await prisma.policyVersion.findFirst({
+      where: { policyId: id, ...(to !== undefined ? { version: to } : {}) },
+      orderBy: { version: 'desc' },
+    })
+    if (!target) {
+      return NextResponse.json(
+        { error: to !== undefined ? `Version ${to} not found` : 'Policy has no versions' },
+        { status: 404 }
+      )
+    }
+
+    let base: { version: number; snapshot: string } = { version: target.version - 1, snapshot: target.before }
+    if (from !== undefined) {
+      const found = await prisma.policyVersion.findUnique({
+        where: { policyId_version: { policyId: id, version: from } },
+      })
+      if (!found) {
+        return NextResponse.json(
+          { error: `Version ${from} not found` },
+          { status: 404 }
+        )
+      }
+      base = { version: found.version, snapshot: found.after }
+    }
+
+    return NextResponse.json({
+      policyId: id,
+      from: base.version,
+      to: target.version,
+      changes: diffSnapshots(parseSnapshot(base.snapshot), parseSnapshot(target.after)),
+    })
+  } catch (error) {
+    console.error('Failed to diff policy versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to diff policy versions' },
+      { status: 500 }
+    )
+  }
+}
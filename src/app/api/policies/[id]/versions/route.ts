@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { diffSnapshots, parseSnapshot } from '@/lib/policy-versions'
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+
+    // History outlives the policy, so only 404 when there is neither
+    const versions = await prisma.policyVersion.findMany({
+      where: { policyId: id },
+      orderBy: { version: 'desc' },
+    })
+    if (versions.length === 0 && !(await prisma.policy.findUnique({ where: { id } }))) {
+      return NextResponse.json(
+        { error: 'Policy not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      versions.map(({ before, after, ...version }) => ({
+        ...version,
+        snapshot: parseSnapshot(after),
+        changes: diffSnapshots(parseSnapshot(before), parseSnapshot(after)),
+      }))
+    )
+  } catch (error) {
+    console.error('Failed to fetch policy versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch policy versions' },
+      { status: 500 }
+    )
+  }
+}
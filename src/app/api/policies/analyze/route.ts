@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { analyzePolicies } from '@/lib/policy-analyzer'
+import { isInheritedBy } from '@/lib/policy-scopes'
+
+/**
+ * GET /api/policies/analyze?employeeId=...
+ * Shadowed, redundant and contradictory policies for each employee (or one
+ * employee), judged against everything that employee inherits.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const employeeId = searchParams.get('employeeId')
+
+    const employees = await prisma.employee.findMany({
+      where: employeeId ? { id: employeeId } : {},
+      select: { id: true, name: true, teamId: true },
+      orderBy: { name: 'asc' },
+    })
+    if (employeeId && employees.length === 0) {
+      return NextResponse.json(
+        { error: 'Employee not found' },
+        { status: 404 }
+      )
+    }
+
+    const policies = await prisma.policy.findMany({ where: { enabled: true } })
+
+    const results = employees.map((employee) => ({
+      employeeId: employee.id,
+      name: employee.name,
+      findings: analyzePolicies(policies.filter((policy) => isInheritedBy(policy, employee))),
+    }))
+
+    return NextResponse.json(results.filter((result) => result.findings.length > 0))
+  } catch (error) {
+    console.error('Failed to analyze policies:', error)
+    return NextResponse.json(
+      { error: 'Failed to analyze policies' },
+      { status: 500 }
+    )
+  }
+}
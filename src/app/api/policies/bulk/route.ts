@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import { AppliedPolicyChange, applyPolicyChanges, describeAppliedChange, planBulkChange, unsatisfiableQuorums } from '@/lib/policy-changes'
+import { policyChangeAuthor } from '@/lib/policy-versions'
+
+const auditLogger = new AuditLogger()
+
+/**
+ * POST /api/policies/bulk
+ * { operation: 'update' | 'enable' | 'disable' | 'delete' | 'apply',
+ *   policyIds? | (employeeIds? and capability?), changes?, changedBy? }
+ * Apply one change to many policies in a single transaction. Each affected
+ * policy gets its own version and audit entry; targets already in the
+ * requested state are skipped.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const changedBy = policyChangeAuthor(body.changedBy)
+
+    const result = await prisma.$transaction(
+      async (tx): Promise<{ applied: AppliedPolicyChange[] | null; issues: string[] }> => {
+        const [employees, policies] = await Promise.all([
+          tx.employee.findMany({ select: { id: true } }),
+          tx.policy.findMany({ include: { employee: true, team: true } }),
+        ])
+        const { changes, issues } = planBulkChange(body, { employees, policies })
+        if (!changes) {
+          return { applied: null, issues }
+        }
+        const quorumIssues = await unsatisfiableQuorums(tx, changes)
+        if (quorumIssues.length > 0) {
+          return { applied: null, issues: quorumIssues }
+        }
+        return { applied: await applyPolicyChanges(tx, changes, changedBy, `Bulk ${body.operation}`), issues }
+      },
+      { timeout: 30_000 }
+    )
+
+    if (!result.applied) {
+      return NextResponse.json(
+        { error: 'Invalid bulk policy change', issues: result.issues },
+        { status: 400 }
+      )
+    }
+
+    for (const change of result.applied) {
+      const { action, details } = describeAppliedChange(change)
+      await auditLogger.log(action, details, change.policy.employeeId ?? undefined)
+    }
+
+    return NextResponse.json({
+      operation: body.operation,
+      changed: result.applied.length,
+      changes: result.applied.map(({ changeType, policy, version }) => ({
+        changeType,
+        policyId: policy.id,
+        capability: policy.capability,
+        employeeId: policy.employeeId,
+        teamId: policy.teamId,
+        version: version.version,
+      })),
+    })
+  } catch (error) {
+    console.error('Failed to apply bulk policy change:', error)
+    return NextResponse.json(
+      { error: 'Failed to apply bulk policy change' },
+      { status: 500 }
+    )
+  }
+}
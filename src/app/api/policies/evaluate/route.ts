@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { policyEngine } from '@/lib/policy-engine'
+
+// Evaluate an action for an employee and explain the decision. With
+// `?dryRun=true` nothing is changed: no approval request is created, rate
+// counters are left alone and no audit entries are written.
+export async function POST(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const dryRun = searchParams.get('dryRun') === 'true'
+
+    const body = await request.json()
+    const { employeeId, action, context } = body
+
+    if (!employeeId || typeof action !== 'string' || !action) {
+      return NextResponse.json(
+        { error: 'employeeId and action are required' },
+        { status: 400 }
+      )
+    }
+
+    if (context !== undefined && (typeof context !== 'object' || context === null || Array.isArray(context))) {
+      return NextResponse.json(
+        { error: 'context must be an object' },
+        { status: 400 }
+      )
+    }
+
+    const result = await policyEngine.evaluate(employeeId, action, context, { dryRun, explain: true })
+
+    if (result.explanation?.decidedBy === 'employee_not_found') {
+      return NextResponse.json(
+        { error: 'Employee not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ dryRun, ...result })
+  } catch (error) {
+    console.error('Failed to evaluate policy:', error)
+    return NextResponse.json(
+      { error: 'Failed to evaluate policy' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { policyEngine } from '@/lib/policy-engine'
+import {
+  applyProposal,
+  DECISION_AUDIT_ACTIONS,
+  parseRecordedDecision,
+  RecordedDecision,
+  replayDecisions,
+} from '@/lib/policy-replay'
+
+const MAX_DAYS = 90
+const MAX_DECISIONS = 5000
+
+/**
+ * POST /api/policies/replay
+ * Body: { days?: number, upsert?: [...], remove?: [policyId] }
+ * Replays the last `days` (default 7) of recorded decisions against the
+ * current policies with the proposed changes applied, and reports the
+ * decisions that would change, per employee and action.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const { days = 7, upsert, remove } = body
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { error: `days must be an integer from 1 to ${MAX_DAYS}` },
+        { status: 400 }
+      )
+    }
+    if ((upsert !== undefined && !Array.isArray(upsert)) || (remove !== undefined && !Array.isArray(remove))) {
+      return NextResponse.json(
+        { error: 'upsert and remove must be arrays' },
+        { status: 400 }
+      )
+    }
+
+    const current = await prisma.policy.findMany()
+    const { policies: proposed, issues } = applyProposal(current, { upsert, remove })
+    if (!proposed) {
+      return NextResponse.json(
+        { error: 'Invalid policy proposal', issues },
+        { status: 400 }
+      )
+    }
+
+    const until = new Date()
+    const since = new Date(until.getTime() - days * 86_400_000)
+    const entries = await prisma.auditLog.findMany({
+      where: {
+        action: { in: Object.keys(DECISION_AUDIT_ACTIONS) },
+        timestamp: { gte: since },
+      },
+      orderBy: { timestamp: 'desc' },
+      take: MAX_DECISIONS,
+    })
+    const decisions = entries
+      .reverse()
+      .map(parseRecordedDecision)
+      .filter((d): d is RecordedDecision => d !== null)
+
+    const report = await replayDecisions(policyEngine, decisions, current, proposed)
+
+    const employees = await prisma.employee.findMany({
+      where: { id: { in: report.groups.map((g) => g.employeeId) } },
+      select: { id: true, name: true },
+    })
+    const names = new Map(employees.map((e) => [e.id, e.name]))
+
+    return NextResponse.json({
+      since,
+      until,
+      truncated: entries.length === MAX_DECISIONS,
+      ...report,
+      groups: report.groups.map((g) => ({ ...g, employeeName: names.get(g.employeeId) ?? null })),
+    })
+  } catch (error) {
+    console.error('Failed to replay policy decisions:', error)
+    return NextResponse.json(
+      { error: 'Failed to replay policy decisions' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,11 @@
 import { NextResponse } from 'next/server'
 import prisma from '@/lib/db'
 import { AuditLogger } from '@/lib/audit'
+import { checkPolicyQuorum } from '@/lib/approval-quorum'
+import { updatePolicy } from '@/lib/policy-changes'
+import { describePolicyTarget, isPolicyScope } from '@/lib/policy-scopes'
+import { validatePolicyInput } from '@/lib/policy-validation'
+import { policyChangeAuthor, recordPolicyVersion } from '@/lib/policy-versions'
 
 const auditLogger = new AuditLogger()
 
@@ -8,13 +13,27 @@ export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url)
     const employeeId = searchParams.get('employeeId')
+    const teamId = searchParams.get('teamId')
+    const scope = searchParams.get('scope')
 
-    const where = employeeId ? { employeeId } : {}
+    if (scope && !isPolicyScope(scope)) {
+      return NextResponse.json(
+        { error: 'scope must be one of: employee, team, org' },
+        { status: 400 }
+      )
+    }
+
+    const where = {
+      ...(employeeId ? { employeeId } : {}),
+      ...(teamId ? { teamId } : {}),
+      ...(scope ? { scope } : {}),
+    }
 
     const policies = await prisma.policy.findMany({
       where,
       include: {
         employee: true,
+        team: true,
       },
     })
 
@@ -31,39 +50,71 @@ export async function GET(request: Request) {
 export async function POST(request: Request) {
   try {
     const body = await request.json()
-    const { employeeId, capability, permission, rateLimit } = body
+    const { scope = 'employee', employeeId, teamId, capability, permission, rateLimit, quotas, conditions, schedule, enabled, approvers, expiry, changedBy } = body
 
-    if (!employeeId || !capability) {
-      return NextResponse.json(
-        { error: 'employeeId and capability are required' },
-        { status: 400 }
-      )
+    const invalid = validatePolicyInput({ scope, employeeId, teamId, capability, permission, rateLimit, quotas, conditions, schedule, enabled, approvers, expiry })
+    if (invalid) {
+      return NextResponse.json(invalid, { status: 400 })
     }
 
-    const employee = await prisma.employee.findUnique({ where: { id: employeeId } })
-    if (!employee) {
+    if (scope === 'employee' && !(await prisma.employee.findUnique({ where: { id: employeeId } }))) {
       return NextResponse.json(
         { error: 'Employee not found' },
         { status: 404 }
       )
     }
+    if (scope === 'team' && !(await prisma.team.findUnique({ where: { id: teamId } }))) {
+      return NextResponse.json(
+        { error: 'Team not found' },
+        { status: 404 }
+      )
+    }
 
-    const policy = await prisma.policy.create({
-      data: {
-        employeeId,
-        capability,
-        permission: permission || 'allow',
-        rateLimit: rateLimit || null,
-      },
-      include: {
-        employee: true,
-      },
+    const quorumIssues = await checkPolicyQuorum(prisma, { scope, employeeId, teamId }, approvers ?? [])
+    if (quorumIssues.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid approval quorum', issues: quorumIssues },
+        { status: 400 }
+      )
+    }
+
+    const policy = await prisma.$transaction(async (tx) => {
+      const created = await tx.policy.create({
+        data: {
+          scope,
+          employeeId: scope === 'employee' ? employeeId : null,
+          teamId: scope === 'team' ? teamId : null,
+          capability,
+          permission: permission || 'allow',
+          rateLimit: rateLimit || null,
+          quotas: JSON.stringify(quotas ?? []),
+          conditions: JSON.stringify(conditions ?? []),
+          schedule: schedule ? JSON.stringify(schedule) : '',
+          enabled: enabled ?? true,
+          approvers: JSON.stringify(approvers ?? []),
+          expiry: expiry ? JSON.stringify(expiry) : '',
+        },
+        include: {
+          employee: true,
+          team: true,
+        },
+      })
+      await recordPolicyVersion(tx, {
+        policyId: created.id,
+        before: null,
+        after: created,
+        changeType: 'created',
+        changedBy: policyChangeAuthor(changedBy),
+      })
+      return created
     })
 
     await auditLogger.log(
       'policy_created',
-      `Created policy: "${capability}" set to "${permission || 'allow'}" for employee "${employee.name}"`,
-      employeeId,
+      `Created policy: "${capability}" set to "${permission || 'allow'}" for ${describePolicyTarget(policy)}${
+        conditions?.length ? ` when ${conditions.length} condition(s) hold` : ''
+      }${enabled === false ? ' (disabled)' : ''}`,
+      policy.employeeId ?? undefined,
     )
 
     return NextResponse.json(policy, { status: 201 })
@@ -79,7 +130,7 @@ export async function POST(request: Request) {
 export async function PUT(request: Request) {
   try {
     const body = await request.json()
-    const { id, capability, permission, rateLimit } = body
+    const { id, changedBy, ...input } = body
 
     if (!id) {
       return NextResponse.json(
@@ -88,37 +139,15 @@ export async function PUT(request: Request) {
       )
     }
 
-    const existing = await prisma.policy.findUnique({
-      where: { id },
-      include: { employee: true },
-    })
-
-    if (!existing) {
+    const outcome = await updatePolicy(prisma, id, input, changedBy)
+    if (!outcome.ok) {
       return NextResponse.json(
-        { error: 'Policy not found' },
-        { status: 404 }
+        { error: outcome.error, issues: outcome.issues },
+        { status: outcome.status }
       )
     }
 
-    const policy = await prisma.policy.update({
-      where: { id },
-      data: {
-        capability: capability ?? existing.capability,
-        permission: permission ?? existing.permission,
-        rateLimit: rateLimit !== undefined ? rateLimit : existing.rateLimit,
-      },
-      include: {
-        employee: true,
-      },
-    })
-
-    await auditLogger.log(
-      'policy_updated',
-      `Updated policy "${policy.capability}" to "${policy.permission}" for employee "${existing.employee.name}"`,
-      existing.employeeId,
-    )
-
-    return NextResponse.json(policy)
+    return NextResponse.json(outcome.applied.policy)
   } catch (error) {
     console.error('Failed to update policy:', error)
     return NextResponse.json(
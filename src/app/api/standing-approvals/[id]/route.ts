@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import { describeStandingApproval } from '@/lib/standing-approvals'
+
+const auditLogger = new AuditLogger()
+
+/**
+ * DELETE /api/standing-approvals/:id?revokedBy=...
+ * Revoke a standing approval. It is kept, with its uses, for the record.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params
+    const revokedBy = new URL(request.url).searchParams.get('revokedBy')?.trim()
+
+    if (!revokedBy) {
+      return NextResponse.json(
+        { error: 'revokedBy is required' },
+        { status: 400 }
+      )
+    }
+
+    const standing = await prisma.standingApproval.findUnique({
+      where: { id },
+      include: { employee: true },
+    })
+    if (!standing) {
+      return NextResponse.json(
+        { error: 'Standing approval not found' },
+        { status: 404 }
+      )
+    }
+    if (standing.revokedAt) {
+      return NextResponse.json(
+        { error: `Standing approval was already revoked by ${standing.revokedBy}` },
+        { status: 409 }
+      )
+    }
+
+    const revoked = await prisma.standingApproval.update({
+      where: { id },
+      data: { revokedAt: new Date(), revokedBy },
+    })
+
+    await auditLogger.log(
+      'standing_approval_revoked',
+      `Standing approval ${id} for "${standing.employee.name}" (${describeStandingApproval(standing)}) revoked by ${revokedBy} after ${standing.uses} ${standing.uses === 1 ? 'use' : 'uses'}`,
+      standing.employeeId,
+    )
+
+    return NextResponse.json(revoked)
+  } catch (error) {
+    console.error('Failed to revoke standing approval:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke standing approval' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,126 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import { reviewApproval } from '@/lib/approval-review'
+import { expireApprovals } from '@/lib/approval-sweep'
+import { inheritedPolicyFilter } from '@/lib/policy-scopes'
+import {
+  coversAction,
+  describeStandingApproval,
+  parseStandingApproval,
+  quorumConflicts,
+  requestContext,
+} from '@/lib/standing-approvals'
+
+const auditLogger = new AuditLogger()
+
+/**
+ * GET /api/standing-approvals?active=true&employeeId=...
+ * Standing approvals, newest first; `active` keeps those in force now.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const active = searchParams.get('active') === 'true'
+    const employeeId = searchParams.get('employeeId')
+    const now = new Date()
+
+    const standing = await prisma.standingApproval.findMany({
+      where: {
+        ...(employeeId ? { employeeId } : {}),
+        ...(active ? { revokedAt: null, startsAt: { lte: now }, expiresAt: { gt: now } } : {}),
+      },
+      include: { employee: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json(standing)
+  } catch (error) {
+    console.error('Failed to fetch standing approvals:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch standing approvals' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/standing-approvals
+ *   { employeeId, capability, conditions?, durationMinutes | expiresAt, grantedBy, justification, approvePending? }
+ * Approve an employee's matching actions in advance. Refused (400) when a
+ * policy governing the capability requires a quorum. With `approvePending`
+ * the pending requests it covers are approved by the grantor as well (or
+ * voted on, for requests with a quorum).
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const { standing, errors } = parseStandingApproval(body)
+
+    if (!standing) {
+      return NextResponse.json(
+        { error: 'Invalid standing approval', issues: errors },
+        { status: 400 }
+      )
+    }
+
+    const employee = await prisma.employee.findUnique({ where: { id: standing.employeeId } })
+    if (!employee) {
+      return NextResponse.json(
+        { error: 'Employee not found' },
+        { status: 404 }
+      )
+    }
+
+    // A standing approval cannot stand in for a quorum of approvers
+    const policies = await prisma.policy.findMany({
+      where: { ...inheritedPolicyFilter(employee), enabled: true },
+    })
+    const conflicts = quorumConflicts(standing.capability, policies)
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid standing approval', issues: conflicts },
+        { status: 400 }
+      )
+    }
+
+    const created = await prisma.standingApproval.create({
+      data: { ...standing, conditions: JSON.stringify(standing.conditions) },
+    })
+
+    await auditLogger.log(
+      'standing_approval_granted',
+      `Standing approval ${created.id} granted to "${employee.name}" for ${describeStandingApproval(created)}; justification: ${JSON.stringify(created.justification)}`,
+      employee.id,
+    )
+
+    const covered = []
+    if (body.approvePending === true) {
+      await expireApprovals()
+      const pending = await prisma.approvalRequest.findMany({
+        where: { employeeId: employee.id, status: 'pending' },
+        orderBy: { createdAt: 'asc' },
+      })
+      for (const approval of pending.filter((a) => coversAction(created, a.action, requestContext(a.details)))) {
+        const outcome = await reviewApproval(approval.id, {
+          status: 'approved',
+          approver: created.grantedBy,
+          justification: `Covered by standing approval ${created.id}: ${created.justification}`,
+        })
+        covered.push(
+          outcome.ok
+            ? { id: approval.id, ok: true, status: outcome.approval.status }
+            : { id: approval.id, ok: false, error: outcome.error, code: outcome.status }
+        )
+      }
+    }
+
+    return NextResponse.json({ ...created, covered }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create standing approval:', error)
+    return NextResponse.json(
+      { error: 'Failed to create standing approval' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { validateCapabilityPattern } from '@/lib/capabilities'
+import { rateLimiter, spendKey } from '@/lib/rate-limit'
+
+// Report spend against an employee's budgets. Accepts either
+// { employeeId, amount, capability? } or a simulated `cost_update` event, whose
+// metadata carries the employee and amount. Spend without a capability is
+// charged to "*", i.e. to budgets on catch-all policies.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const report = body?.type === 'cost_update' ? body.metadata ?? {} : body
+    const { employeeId, amount, capability = '*' } = report
+
+    if (!employeeId) {
+      return NextResponse.json(
+        { error: 'employeeId is required' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof amount !== 'number' || !(amount > 0)) {
+      return NextResponse.json(
+        { error: 'amount must be a positive number of dollars' },
+        { status: 400 }
+      )
+    }
+
+    const capabilityError = validateCapabilityPattern(capability)
+    if (capabilityError) {
+      return NextResponse.json(
+        { error: capabilityError },
+        { status: 400 }
+      )
+    }
+
+    const employee = await prisma.employee.findUnique({ where: { id: employeeId } })
+    if (!employee) {
+      return NextResponse.json(
+        { error: 'Employee not found' },
+        { status: 404 }
+      )
+    }
+
+    await rateLimiter.record(spendKey(employeeId, capability), amount)
+
+    return NextResponse.json({ employeeId, capability, amount }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to record cost:', error)
+    return NextResponse.json(
+      { error: 'Failed to record cost' },
+      { status: 500 }
+    )
+  }
+}
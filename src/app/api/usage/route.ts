@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/db'
+import { effectivePolicies, inheritedPolicyFilter } from '@/lib/policy-scopes'
+import { policyEngine } from '@/lib/policy-engine'
+
+// Current usage of each employee against every quota (rate limits, count
+// windows and budgets) of the policies they are subject to, own or
+// inherited. Optionally filtered by employeeId.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const employeeId = searchParams.get('employeeId')
+
+    const employees = await prisma.employee.findMany({
+      where: employeeId ? { id: employeeId } : {},
+      orderBy: { name: 'asc' },
+    })
+
+    if (employeeId && employees.length === 0) {
+      return NextResponse.json(
+        { error: 'Employee not found' },
+        { status: 404 }
+      )
+    }
+
+    const usage = await Promise.all(
+      employees.map(async (employee) => {
+        const policies = effectivePolicies(
+          await prisma.policy.findMany({ where: { ...inheritedPolicyFilter(employee), enabled: true } })
+        )
+        const quotas = await policyEngine.getQuotaUsage(employee.id, policies)
+
+        return {
+          employeeId: employee.id,
+          name: employee.name,
+          quotas: quotas.map((quota) => {
+            const policy = policies.find((p) => p.id === quota.policyId)!
+            return { ...quota, scope: policy.scope, overriddenBy: policy.overriddenBy }
+          }),
+        }
+      })
+    )
+
+    return NextResponse.json(usage)
+  } catch (error) {
+    console.error('Failed to fetch quota usage:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch quota usage' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,38 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import ApprovalMetricsPanel from '@/components/ApprovalMetricsPanel'
+import ApproverGroupsPanel from '@/components/ApproverGroupsPanel'
+import SideBySideDiff from '@/components/SideBySideDiff'
+import StandingApprovalsPanel, { StandingDraft } from '@/components/StandingApprovalsPanel'
+import UnifiedDiffView from '@/components/UnifiedDiffView'
+import { formatMinutes, parseExpiry } from '@/lib/approval-expiry'
+import { LineAnchor, parseUnifiedDiff } from '@/lib/unified-diff'
+
+interface ApprovalComment {
+  id: string
+  author: string
+  body: string
+  /** Set for comments on a line of the diff. */
+  file: string
+  side: string
+  line: number | null
+  createdAt: string
+}
+
+interface ApprovalVote {
+  id: string
+  approver: string
+  decision: string
+  justification: string
+  createdAt: string
+}
+
+interface QuorumStatus {
+  description: string
+  outcome: 'pending' | 'approved' | 'denied'
+  missing: string[]
+}
 
 interface ApprovalRequest {
   id: string
@@ -8,9 +40,23 @@ interface ApprovalRequest {
   action: string
   details: string
   diff: string
+  /** The reviewer's edit of diff, approved in its place. */
+  amendedDiff: string
   status: string
   createdAt: string
   resolvedAt: string | null
+  workflowRunId: string | null
+  decidedBy: string
+  justification: string
+  comments?: ApprovalComment[]
+  votes?: ApprovalVote[]
+  quorumStatus?: QuorumStatus | null
+  expiry: string
+  expiresAt: string | null
+  escalatedTo: string
+  escalatedAt: string | null
+  retryCount: number
+  lastRetryAt: string | null
   employee?: {
     id: string
     name: string
@@ -20,6 +66,45 @@ interface ApprovalRequest {
 
 type FilterStatus = 'all' | 'pending' | 'approved' | 'denied'
 
+type SortField = 'createdAt' | 'resolvedAt' | 'action'
+
+interface Filters {
+  search: string
+  capability: string
+  employeeId: string
+  approver: string
+  /** yyyy-mm-dd, inclusive */
+  from: string
+  to: string
+}
+
+const emptyFilters: Filters = { search: '', capability: '', employeeId: '', approver: '', from: '', to: '' }
+
+const PAGE_SIZE = 20
+
+/** Query parameters for GET /api/approvals, without sorting or paging. */
+function filterQuery(status: FilterStatus, filters: Filters): string {
+  const params = new URLSearchParams()
+  if (status !== 'all') params.set('status', status)
+  if (filters.search) params.set('q', filters.search)
+  if (filters.capability) params.set('capability', filters.capability)
+  if (filters.employeeId) params.set('employeeId', filters.employeeId)
+  if (filters.approver) params.set('approver', filters.approver)
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString())
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString())
+  return params.toString()
+}
+
+/** e.g. `Auto-denies in 3h 12m`; empty for requests that never expire. */
+function describeDeadline(approval: ApprovalRequest, now: number): string {
+  if (approval.status !== 'pending' || !approval.expiresAt) return ''
+  const minutes = Math.max(0, Math.ceil((new Date(approval.expiresAt).getTime() - now) / 60_000))
+  const expiry = parseExpiry(approval.expiry)
+  const next =
+    expiry?.action === 'escalate' && !approval.escalatedTo ? `Escalates to "${expiry.escalateTo}"` : 'Auto-denies'
+  return minutes > 0 ? `${next} in ${formatMinutes(minutes)}` : `${next} now`
+}
+
 const statusBadge: Record<string, { bg: string; text: string; border: string }> = {
   pending: { bg: 'bg-yellow-900/30', text: 'text-yellow-400', border: 'border-yellow-800' },
   approved: { bg: 'bg-green-900/30', text: 'text-green-400', border: 'border-green-800' },
@@ -31,22 +116,96 @@ export default function ApprovalsPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [filter, setFilter] = useState<FilterStatus>('all')
+  const [filters, setFilters] = useState<Filters>(emptyFilters)
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(emptyFilters)
+  const [sort, setSort] = useState<SortField>('createdAt')
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [pendingCount, setPendingCount] = useState(0)
+  const [employees, setEmployees] = useState<Array<{ id: string; name: string }>>([])
+  const [showHistory, setShowHistory] = useState(false)
   const [expandedId, setExpandedId] = useState<string | null>(null)
   const [actionInProgress, setActionInProgress] = useState<string | null>(null)
   const [feedback, setFeedback] = useState<{ id: string; type: 'success' | 'error'; message: string } | null>(null)
+  const [approver, setApprover] = useState('')
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  /** Edited diffs, keyed by request, while a reviewer amends them. */
+  const [amendments, setAmendments] = useState<Record<string, string>>({})
+  const [selected, setSelected] = useState<string[]>([])
+  const [bulkNote, setBulkNote] = useState('')
+  const [bulkInProgress, setBulkInProgress] = useState(false)
+  const [bulkFeedback, setBulkFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+  const [standingDraft, setStandingDraft] = useState<StandingDraft | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  const query = filterQuery(filter, appliedFilters)
+
+  useEffect(() => {
+    setApprover(localStorage.getItem('approver') ?? '')
+    fetch('/api/employees')
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => setEmployees(Array.isArray(data) ? data : []))
+      .catch(() => setEmployees([]))
+  }, [])
 
   useEffect(() => {
     fetchApprovals()
+  }, [query, sort, order, page])
+
+  // Tick the countdowns, and once a request passes its deadline, run the
+  // expiry sweep so it is denied or escalated, then reload
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30_000)
+    return () => clearInterval(timer)
   }, [])
 
+  useEffect(() => {
+    const overdue = approvals.some(
+      (a) => a.status === 'pending' && a.expiresAt && new Date(a.expiresAt).getTime() <= now
+    )
+    if (overdue) {
+      fetch('/api/approvals/expire', { method: 'POST' })
+        .catch(() => undefined)
+        .then(() => fetchApprovals())
+    }
+  }, [now])
+
+  function updateApprover(value: string) {
+    setApprover(value)
+    localStorage.setItem('approver', value)
+  }
+
+  function changeFilter(status: FilterStatus) {
+    setFilter(status)
+    setPage(1)
+  }
+
+  function applyFilters(next: Filters) {
+    setFilters(next)
+    setAppliedFilters(next)
+    setPage(1)
+  }
+
   async function fetchApprovals() {
     try {
-      setLoading(true)
       setError(null)
-      const res = await fetch('/api/approvals')
-      if (!res.ok) throw new Error('Failed to fetch approvals')
-      const data = await res.json()
-      setApprovals(Array.isArray(data) ? data : [])
+      const [listRes, pendingRes] = await Promise.all([
+        fetch(`/api/approvals?${query}&sort=${sort}&order=${order}&page=${page}&pageSize=${PAGE_SIZE}`),
+        fetch('/api/approvals?status=pending&pageSize=1'),
+      ])
+      const data = await listRes.json()
+      if (!listRes.ok) {
+        throw new Error([data.error || 'Failed to fetch approvals', ...(data.issues ?? [])].join(' — '))
+      }
+      setApprovals(data.approvals)
+      setSelected((prev) => prev.filter((id) => data.approvals.some((a: ApprovalRequest) => a.id === id && a.status === 'pending')))
+      setTotal(data.total)
+      setTotalPages(data.totalPages)
+      if (pendingRes.ok) {
+        setPendingCount((await pendingRes.json()).total)
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load approvals')
     } finally {
@@ -54,7 +213,20 @@ export default function ApprovalsPage() {
     }
   }
 
-  async function handleAction(approvalId: string, action: 'approved' | 'denied') {
+  function startAmending(approval: ApprovalRequest) {
+    setAmendments((prev) => ({ ...prev, [approval.id]: approval.diff }))
+    setExpandedId(approval.id)
+  }
+
+  function stopAmending(approvalId: string) {
+    setAmendments((prev) => {
+      const next = { ...prev }
+      delete next[approvalId]
+      return next
+    })
+  }
+
+  async function handleAction(approvalId: string, action: 'approved' | 'denied', amendedDiff?: string) {
     try {
       setActionInProgress(approvalId)
       setFeedback(null)
@@ -62,7 +234,7 @@ export default function ApprovalsPage() {
       const res = await fetch(`/api/approvals/${approvalId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: action }),
+        body: JSON.stringify({ status: action, approver, justification: notes[approvalId] ?? '', amendedDiff }),
       })
 
       if (!res.ok) {
@@ -75,11 +247,22 @@ export default function ApprovalsPage() {
       setApprovals((prev) =>
         prev.map((a) => (a.id === approvalId ? { ...a, ...updated } : a))
       )
+      if (updated.status !== 'pending') {
+        setPendingCount((count) => Math.max(0, count - 1))
+      }
+      setNotes((prev) => ({ ...prev, [approvalId]: '' }))
+      stopAmending(approvalId)
 
       setFeedback({
         id: approvalId,
-        type: 'success',
-        message: `Request ${action === 'approved' ? 'approved' : 'denied'} successfully`,
+        type: updated.workflowError ? 'error' : 'success',
+        message: updated.status === 'pending'
+          ? `Vote recorded. Still needs ${updated.quorumStatus?.missing.join(', ')}`
+          : updated.workflowError
+          ? `Request ${action === 'approved' ? 'approved' : 'denied'}, but its workflow could not be resumed (${updated.workflowError}). It will be retried on the next sweep`
+          : updated.workflowRun
+          ? `Request ${action === 'approved' ? 'approved' : 'denied'}. Workflow "${updated.workflowRun.trigger.replace(/_/g, ' ')}" is now ${updated.workflowRun.status.replace(/_/g, ' ')}`
+          : `Request ${action === 'approved' ? (updated.amendedDiff ? 'approved with changes' : 'approved') : 'denied'} successfully`,
       })
 
       // Clear feedback after 3 seconds
@@ -97,12 +280,93 @@ export default function ApprovalsPage() {
     }
   }
 
-  const filteredApprovals = approvals.filter((a) => {
-    if (filter === 'all') return true
-    return a.status === filter
-  })
+  function toggleSelected(approvalId: string) {
+    setSelected((prev) => (prev.includes(approvalId) ? prev.filter((id) => id !== approvalId) : [...prev, approvalId]))
+  }
+
+  async function handleBulkAction(action: 'approved' | 'denied') {
+    try {
+      setBulkInProgress(true)
+      setBulkFeedback(null)
+      const res = await fetch('/api/approvals/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: selected, status: action, approver, justification: bulkNote }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        throw new Error([data.error || 'Failed to review requests', ...(data.issues ?? [])].join(' — '))
+      }
+      const failures: Array<{ id: string; error: string }> = data.results.filter((r: { ok: boolean }) => !r.ok)
+      setBulkFeedback({
+        type: failures.length > 0 ? 'error' : 'success',
+        message:
+          `${action === 'approved' ? 'Approved' : 'Denied'} ${data.succeeded} of ${selected.length} requests` +
+          (failures.length > 0 ? `. Failed: ${failures.map((f) => f.error).join('; ')}` : ''),
+      })
+      setSelected(failures.map((f) => f.id))
+      setBulkNote('')
+      fetchApprovals()
+    } catch (err) {
+      setBulkFeedback({ type: 'error', message: err instanceof Error ? err.message : 'Bulk action failed' })
+    } finally {
+      setBulkInProgress(false)
+    }
+  }
+
+  async function handleLineComment(approvalId: string, anchor: LineAnchor, body: string): Promise<boolean> {
+    try {
+      setFeedback(null)
+      const res = await fetch(`/api/approvals/${approvalId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ author: approver, body, ...anchor }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || 'Failed to add comment')
+
+      setApprovals((prev) =>
+        prev.map((a) => (a.id === approvalId ? { ...a, comments: [...(a.comments ?? []), data] } : a))
+      )
+      return true
+    } catch (err) {
+      setFeedback({
+        id: approvalId,
+        type: 'error',
+        message: err instanceof Error ? err.message : 'Failed to add comment',
+      })
+      return false
+    }
+  }
+
+  async function handleComment(approvalId: string) {
+    const body = (notes[approvalId] ?? '').trim()
+    if (!body) return
+    try {
+      setActionInProgress(approvalId)
+      setFeedback(null)
+      const res = await fetch(`/api/approvals/${approvalId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ author: approver, body }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || 'Failed to add comment')
 
-  const pendingCount = approvals.filter((a) => a.status === 'pending').length
+      setApprovals((prev) =>
+        prev.map((a) => (a.id === approvalId ? { ...a, comments: [...(a.comments ?? []), data] } : a))
+      )
+      setNotes((prev) => ({ ...prev, [approvalId]: '' }))
+    } catch (err) {
+      setFeedback({
+        id: approvalId,
+        type: 'error',
+        message: err instanceof Error ? err.message : 'Failed to add comment',
+      })
+    } finally {
+      setActionInProgress(null)
+    }
+  }
 
   if (loading) {
     return (
@@ -122,16 +386,18 @@ export default function ApprovalsPage() {
           <p className="text-red-400 text-lg font-medium mb-2">Error</p>
           <p className="text-slate-300">{error}</p>
           <button
-            onClick={() => fetchApprovals()}
+            onClick={() => (appliedFilters === emptyFilters ? fetchApprovals() : applyFilters(emptyFilters))}
             className="mt-4 px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg transition-colors"
           >
-            Retry
+            {appliedFilters === emptyFilters ? 'Retry' : 'Clear filters'}
           </button>
         </div>
       </div>
     )
   }
 
+  const pendingOnPage = approvals.filter((a) => a.status === 'pending')
+
   return (
     <div>
       <div className="flex items-center justify-between mb-8">
@@ -156,12 +422,35 @@ export default function ApprovalsPage() {
         </button>
       </div>
 
+      <div className="mb-6 flex items-center gap-3">
+        <label htmlFor="approver" className="text-sm text-slate-400">
+          Reviewing as
+        </label>
+        <input
+          id="approver"
+          value={approver}
+          onChange={(e) => updateApprover(e.target.value)}
+          placeholder="name or email (recorded with every decision)"
+          className="w-80 px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <ApproverGroupsPanel />
+
+      <StandingApprovalsPanel
+        employees={employees}
+        approver={approver}
+        draft={standingDraft}
+        onDraftDone={() => setStandingDraft(null)}
+        onApproved={() => fetchApprovals()}
+      />
+
       {/* Filter Tabs */}
       <div className="flex gap-2 mb-6">
         {(['all', 'pending', 'approved', 'denied'] as FilterStatus[]).map((f) => (
           <button
             key={f}
-            onClick={() => setFilter(f)}
+            onClick={() => changeFilter(f)}
             className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors capitalize ${
               filter === f
                 ? 'bg-slate-700 text-white'
@@ -178,8 +467,156 @@ export default function ApprovalsPage() {
         ))}
       </div>
 
+      {/* Search and filters */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          applyFilters(filters)
+        }}
+        className="mb-6 grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-2 text-sm"
+      >
+        <input
+          value={filters.search}
+          onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+          placeholder="Search details"
+          className="col-span-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          value={filters.capability}
+          onChange={(e) => setFilters({ ...filters, capability: e.target.value })}
+          placeholder="Capability, e.g. deploy:*"
+          className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <select
+          value={filters.employeeId}
+          onChange={(e) => setFilters({ ...filters, employeeId: e.target.value })}
+          className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All employees</option>
+          {employees.map((emp) => (
+            <option key={emp.id} value={emp.id}>{emp.name}</option>
+          ))}
+        </select>
+        <input
+          value={filters.approver}
+          onChange={(e) => setFilters({ ...filters, approver: e.target.value })}
+          placeholder="Approver"
+          className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+          title="Requested on or after"
+          className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+          title="Requested on or before"
+          className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex gap-2">
+          <button type="submit" className="flex-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-medium transition-colors">
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={() => applyFilters(emptyFilters)}
+            className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+          >
+            Clear
+          </button>
+        </div>
+      </form>
+
+      <div className="mb-4 flex items-center justify-between text-sm">
+        <div className="flex items-center gap-2">
+          <span className="text-slate-400">Sort by</span>
+          <select
+            value={sort}
+            onChange={(e) => {
+              setSort(e.target.value as SortField)
+              setPage(1)
+            }}
+            className="px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="createdAt">Requested</option>
+            <option value="resolvedAt">Resolved</option>
+            <option value="action">Capability</option>
+          </select>
+          <button
+            onClick={() => {
+              setOrder(order === 'desc' ? 'asc' : 'desc')
+              setPage(1)
+            }}
+            className="px-2 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded transition-colors"
+          >
+            {sort === 'action'
+              ? order === 'asc' ? 'A → Z' : 'Z → A'
+              : order === 'desc' ? 'Newest first' : 'Oldest first'}
+          </button>
+          <span className="text-slate-500">
+            {total} request{total !== 1 ? 's' : ''}
+          </span>
+        </div>
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded transition-colors"
+        >
+          {showHistory ? 'Hide History' : 'History & Metrics'}
+        </button>
+      </div>
+
+      {showHistory && <ApprovalMetricsPanel query={query} />}
+
+      {/* Bulk review of the selected pending requests */}
+      {pendingOnPage.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-3 bg-slate-800 rounded-lg border border-slate-700 px-4 py-3 text-sm">
+          <label className="flex items-center gap-2 text-slate-300">
+            <input
+              type="checkbox"
+              checked={selected.length === pendingOnPage.length}
+              onChange={() => setSelected(selected.length === pendingOnPage.length ? [] : pendingOnPage.map((a) => a.id))}
+            />
+            {selected.length > 0 ? `${selected.length} selected` : 'Select all pending'}
+          </label>
+          {selected.length > 0 && (
+            <>
+              <input
+                value={bulkNote}
+                onChange={(e) => setBulkNote(e.target.value)}
+                placeholder="Justification (required to deny)"
+                className="flex-1 min-w-[12rem] px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => handleBulkAction('approved')}
+                disabled={bulkInProgress || !approver.trim()}
+                className="px-4 py-1.5 bg-green-600 hover:bg-green-700 rounded text-sm font-medium transition-colors disabled:opacity-60"
+              >
+                {bulkInProgress ? '...' : 'Approve selected'}
+              </button>
+              <button
+                onClick={() => handleBulkAction('denied')}
+                disabled={bulkInProgress || !approver.trim() || !bulkNote.trim()}
+                title={bulkNote.trim() ? undefined : 'Enter a justification to deny'}
+                className="px-4 py-1.5 bg-red-600 hover:bg-red-700 rounded text-sm font-medium transition-colors disabled:opacity-60"
+              >
+                {bulkInProgress ? '...' : 'Deny selected'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      {bulkFeedback && (
+        <p className={`mb-4 text-sm ${bulkFeedback.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+          {bulkFeedback.message}
+        </p>
+      )}
+
       {/* Approval List */}
-      {filteredApprovals.length === 0 ? (
+      {approvals.length === 0 ? (
         <div className="text-center py-16 bg-slate-800 rounded-lg border border-slate-700">
           <svg className="w-16 h-16 text-slate-600 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -193,9 +630,17 @@ export default function ApprovalsPage() {
         </div>
       ) : (
         <div className="space-y-4">
-          {filteredApprovals.map((approval) => {
+          {approvals.map((approval) => {
             const badge = statusBadge[approval.status] || statusBadge.pending
             const isExpanded = expandedId === approval.id
+            const note = notes[approval.id] ?? ''
+            const amendment = amendments[approval.id]
+            const isAmending = amendment !== undefined
+            // Requests with a quorum are approved as proposed, so every vote is on the same diff
+            const canAmend = approval.status === 'pending' && !!approval.diff && !approval.quorumStatus
+            const requestComments = approval.comments?.filter((c) => !c.file) ?? []
+            const lineComments = approval.comments?.filter((c) => c.file) ?? []
+            const files = isExpanded ? parseUnifiedDiff(approval.diff) : null
 
             return (
               <div
@@ -206,6 +651,14 @@ export default function ApprovalsPage() {
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
                       <div className="flex items-center gap-3 mb-2">
+                        {approval.status === 'pending' && (
+                          <input
+                            type="checkbox"
+                            checked={selected.includes(approval.id)}
+                            onChange={() => toggleSelected(approval.id)}
+                            aria-label="Select for bulk review"
+                          />
+                        )}
                         <span className="font-semibold text-blue-400">
                           {approval.employee?.name || approval.employeeId}
                         </span>
@@ -214,6 +667,32 @@ export default function ApprovalsPage() {
                         >
                           {approval.status}
                         </span>
+                        {approval.workflowRunId && (
+                          <span className="px-2 py-0.5 rounded text-xs font-medium border bg-purple-900/30 text-purple-400 border-purple-800">
+                            workflow step
+                          </span>
+                        )}
+                        {approval.amendedDiff && (
+                          <span className="px-2 py-0.5 rounded text-xs font-medium border bg-blue-900/30 text-blue-400 border-blue-800">
+                            approved with changes
+                          </span>
+                        )}
+                        {approval.escalatedTo && (
+                          <span className="px-2 py-0.5 rounded text-xs font-medium border bg-orange-900/30 text-orange-400 border-orange-800">
+                            escalated to {approval.escalatedTo}
+                          </span>
+                        )}
+                        {approval.retryCount > 0 && (
+                          <span
+                            title={approval.lastRetryAt ? `Last retried ${new Date(approval.lastRetryAt).toLocaleString()}` : undefined}
+                            className="px-2 py-0.5 rounded text-xs font-medium border bg-yellow-900/30 text-yellow-400 border-yellow-800"
+                          >
+                            retried {approval.retryCount}×
+                          </span>
+                        )}
+                        {describeDeadline(approval, now) && (
+                          <span className="text-xs text-orange-300">{describeDeadline(approval, now)}</span>
+                        )}
                       </div>
                       <p className="text-white mb-1">{approval.action}</p>
                       {approval.details && (
@@ -224,7 +703,35 @@ export default function ApprovalsPage() {
                         {approval.resolvedAt && (
                           <> | Resolved: {new Date(approval.resolvedAt).toLocaleString()}</>
                         )}
+                        {approval.decidedBy && <> by {approval.decidedBy}</>}
                       </p>
+                      {approval.justification && (
+                        <p className="text-sm text-slate-300 mt-1">
+                          <span className="text-slate-500">Justification:</span> {approval.justification}
+                        </p>
+                      )}
+                      {approval.quorumStatus && (
+                        <p className="text-sm text-slate-300 mt-1">
+                          <span className="text-slate-500">Needs:</span> {approval.quorumStatus.description}
+                          {approval.status === 'pending' && approval.quorumStatus.missing.length > 0 && (
+                            <span className="text-yellow-400"> (still {approval.quorumStatus.missing.join(', ')})</span>
+                          )}
+                        </p>
+                      )}
+                      {(approval.votes?.length ?? 0) > 0 && (
+                        <ul className="mt-1 space-y-0.5">
+                          {approval.votes!.map((vote) => (
+                            <li key={vote.id} className="text-xs text-slate-400">
+                              <span className={vote.decision === 'approved' ? 'text-green-400' : 'text-red-400'}>
+                                {vote.decision === 'approved' ? '✓' : '✗'}
+                              </span>{' '}
+                              {vote.approver}
+                              <span className="text-slate-500"> · {new Date(vote.createdAt).toLocaleString()}</span>
+                              {vote.justification && <> · {vote.justification}</>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
 
                     <div className="flex items-center gap-2 ml-4">
@@ -234,29 +741,83 @@ export default function ApprovalsPage() {
                           className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
                         >
                           {isExpanded ? 'Hide Diff' : 'View Diff'}
+                          {lineComments.length > 0 && (
+                            <span className="ml-1 text-xs text-slate-400">
+                              ({lineComments.length} line {lineComments.length === 1 ? 'comment' : 'comments'})
+                            </span>
+                          )}
+                        </button>
+                      )}
+                      {canAmend && !isAmending && (
+                        <button
+                          onClick={() => startAmending(approval)}
+                          className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
+                        >
+                          Edit
                         </button>
                       )}
                       {approval.status === 'pending' && (
                         <>
                           <button
                             onClick={() => handleAction(approval.id, 'approved')}
-                            disabled={actionInProgress === approval.id}
+                            disabled={actionInProgress === approval.id || !approver.trim()}
                             className="px-4 py-1.5 bg-green-600 hover:bg-green-700 rounded text-sm font-medium transition-colors disabled:opacity-60"
                           >
                             {actionInProgress === approval.id ? '...' : 'Approve'}
                           </button>
                           <button
                             onClick={() => handleAction(approval.id, 'denied')}
-                            disabled={actionInProgress === approval.id}
+                            disabled={actionInProgress === approval.id || !approver.trim() || !note.trim()}
+                            title={note.trim() ? undefined : 'Enter a justification to deny'}
                             className="px-4 py-1.5 bg-red-600 hover:bg-red-700 rounded text-sm font-medium transition-colors disabled:opacity-60"
                           >
                             {actionInProgress === approval.id ? '...' : 'Deny'}
                           </button>
+                          <button
+                            onClick={() => setStandingDraft({ employeeId: approval.employeeId, capability: approval.action })}
+                            title="Grant a standing approval for requests like this one"
+                            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
+                          >
+                            Approve similar…
+                          </button>
                         </>
                       )}
                     </div>
                   </div>
 
+                  {/* Comments, and the justification or comment being written */}
+                  {requestComments.length > 0 && (
+                    <ul className="mt-3 space-y-1">
+                      {requestComments.map((comment) => (
+                        <li key={comment.id} className="text-sm text-slate-300">
+                          <span className="text-slate-400">{comment.author}</span>
+                          <span className="text-xs text-slate-500"> · {new Date(comment.createdAt).toLocaleString()}</span>
+                          <p className="whitespace-pre-wrap">{comment.body}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="mt-3 flex items-start gap-2">
+                    <textarea
+                      value={note}
+                      onChange={(e) => setNotes((prev) => ({ ...prev, [approval.id]: e.target.value }))}
+                      rows={2}
+                      placeholder={
+                        approval.status === 'pending'
+                          ? 'Justification (required to deny)'
+                          : 'Add a comment'
+                      }
+                      className="flex-1 px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                      onClick={() => handleComment(approval.id)}
+                      disabled={actionInProgress === approval.id || !approver.trim() || !note.trim()}
+                      className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors disabled:opacity-40"
+                    >
+                      Comment
+                    </button>
+                  </div>
+
                   {/* Feedback Message */}
                   {feedback?.id === approval.id && (
                     <div
@@ -274,10 +835,61 @@ export default function ApprovalsPage() {
                 {/* Expandable Diff Panel */}
                 {isExpanded && approval.diff && (
                   <div className="border-t border-slate-700 p-6 bg-slate-900/50">
-                    <h4 className="text-sm font-medium text-slate-300 mb-3">Diff Preview</h4>
-                    <pre className="text-sm text-slate-300 bg-slate-900 rounded-lg p-4 overflow-x-auto font-mono whitespace-pre-wrap">
-                      {approval.diff}
-                    </pre>
+                    {isAmending ? (
+                      <div className="space-y-3">
+                        <h4 className="text-sm font-medium text-slate-300">Edit before approving</h4>
+                        <textarea
+                          value={amendment}
+                          onChange={(e) => setAmendments((prev) => ({ ...prev, [approval.id]: e.target.value }))}
+                          rows={Math.min(20, Math.max(6, amendment.split('\n').length + 1))}
+                          className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-sm text-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        {amendment !== approval.diff && <SideBySideDiff before={approval.diff} after={amendment} />}
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleAction(approval.id, 'approved', amendment)}
+                            disabled={actionInProgress === approval.id || !approver.trim() || amendment === approval.diff}
+                            title={amendment === approval.diff ? 'Edit the diff to approve it with changes' : undefined}
+                            className="px-4 py-1.5 bg-green-600 hover:bg-green-700 rounded text-sm font-medium transition-colors disabled:opacity-60"
+                          >
+                            {actionInProgress === approval.id ? '...' : 'Approve with changes'}
+                          </button>
+                          <button
+                            onClick={() => stopAmending(approval.id)}
+                            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
+                          >
+                            Discard changes
+                          </button>
+                        </div>
+                      </div>
+                    ) : approval.amendedDiff ? (
+                      <>
+                        <h4 className="text-sm font-medium text-slate-300 mb-3">Diff, as amended by {approval.decidedBy}</h4>
+                        <SideBySideDiff before={approval.diff} after={approval.amendedDiff} afterLabel="Approved" />
+                      </>
+                    ) : files ? (
+                      <>
+                        <h4 className="text-sm font-medium text-slate-300 mb-3">
+                          Changes in {files.length} {files.length === 1 ? 'file' : 'files'}
+                        </h4>
+                        <UnifiedDiffView
+                          files={files}
+                          comments={lineComments}
+                          onComment={
+                            approver.trim()
+                              ? (anchor, body) => handleLineComment(approval.id, anchor, body)
+                              : undefined
+                          }
+                        />
+                      </>
+                    ) : (
+                      <>
+                        <h4 className="text-sm font-medium text-slate-300 mb-3">Diff Preview</h4>
+                        <pre className="text-sm text-slate-300 bg-slate-900 rounded-lg p-4 overflow-x-auto font-mono whitespace-pre-wrap">
+                          {approval.diff}
+                        </pre>
+                      </>
+                    )}
                   </div>
                 )}
               </div>
@@ -285,6 +897,31 @@ export default function ApprovalsPage() {
           })}
         </div>
       )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between mt-6">
+          <p className="text-sm text-slate-400">
+            Page {page} of {totalPages}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors disabled:opacity-40"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+              className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors disabled:opacity-40"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
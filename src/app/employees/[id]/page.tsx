@@ -13,12 +13,41 @@ interface Employee {
   tools: string
   autonomyMode: string
   instructions: string
+  timezone: string
   status: string
   teamId: string | null
   createdAt: string
   updatedAt: string
 }
 
+interface EffectivePolicy {
+  id: string
+  scope: 'employee' | 'team' | 'org'
+  capability: string
+  permission: string
+  rateLimit: number | null
+  conditions: string
+  schedule: string
+  enabled: boolean
+  overriddenBy: 'employee' | 'team' | null
+}
+
+interface EffectivePolicies {
+  autonomyMode: string
+  team: { id: string; name: string } | null
+  policies: EffectivePolicy[]
+}
+
+interface QuotaUsage {
+  policyId: string
+  kind: 'count' | 'budget'
+  window: 'minute' | 'hour' | 'day'
+  used: number
+  limit: number
+  exhausted: boolean
+  resetAt: string
+}
+
 interface AuditLog {
   id: string
   employeeId: string | null
@@ -100,8 +129,10 @@ export default function EmployeeDetailPage() {
   const [employee, setEmployee] = useState<Employee | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'overview' | 'activity' | 'inbox' | 'audit'>('overview')
+  const [activeTab, setActiveTab] = useState<'overview' | 'activity' | 'inbox' | 'policies' | 'audit'>('overview')
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([])
+  const [effective, setEffective] = useState<EffectivePolicies | null>(null)
+  const [usage, setUsage] = useState<Record<string, QuotaUsage[]>>({})
   const [activity, setActivity] = useState<ActivityEvent[]>([])
   const [messages, setMessages] = useState<InboxMessage[]>(SIMULATED_MESSAGES)
   const [taskRunning, setTaskRunning] = useState(false)
@@ -137,6 +168,29 @@ export default function EmployeeDetailPage() {
     }
   }, [employeeId])
 
+  const fetchEffectivePolicies = useCallback(async () => {
+    try {
+      const [policiesRes, usageRes] = await Promise.all([
+        fetch(`/api/employees/${employeeId}/policies`),
+        fetch(`/api/usage?employeeId=${employeeId}`),
+      ])
+      if (policiesRes.ok) {
+        setEffective(await policiesRes.json())
+      }
+      if (usageRes.ok) {
+        const [entry] = await usageRes.json()
+        const quotas: QuotaUsage[] = entry?.quotas ?? []
+        const byPolicy: Record<string, QuotaUsage[]> = {}
+        for (const quota of quotas) {
+          byPolicy[quota.policyId] = [...(byPolicy[quota.policyId] ?? []), quota]
+        }
+        setUsage(byPolicy)
+      }
+    } catch {
+      // Non-critical
+    }
+  }, [employeeId])
+
   const fetchActivity = useCallback(async () => {
     try {
       const res = await fetch(`/api/simulation?employeeId=${employeeId}`)
@@ -153,7 +207,8 @@ export default function EmployeeDetailPage() {
     fetchEmployee()
     fetchAuditLogs()
     fetchActivity()
-  }, [fetchEmployee, fetchAuditLogs, fetchActivity])
+    fetchEffectivePolicies()
+  }, [fetchEmployee, fetchAuditLogs, fetchActivity, fetchEffectivePolicies])
 
   const handleRuntimeSwitch = async (newRuntime: string) => {
     if (!employee || newRuntime === employee.runtime) return
@@ -282,6 +337,7 @@ export default function EmployeeDetailPage() {
     { id: 'overview' as const, label: 'Overview' },
     { id: 'activity' as const, label: 'Activity' },
     { id: 'inbox' as const, label: `Inbox (${messages.filter((m) => !m.read).length})` },
+    { id: 'policies' as const, label: 'Policies' },
     { id: 'audit' as const, label: 'Audit Log' },
   ]
 
@@ -473,6 +529,10 @@ export default function EmployeeDetailPage() {
                       {employee.autonomyMode.replace('_', ' ')}
                     </span>
                   </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-slate-400">Timezone</span>
+                    <span className="text-white">{employee.timezone}</span>
+                  </div>
                 </div>
               </div>
 
@@ -603,6 +663,93 @@ export default function EmployeeDetailPage() {
           </div>
         )}
 
+        {/* Effective Policies Tab */}
+        {activeTab === 'policies' && (
+          <div>
+            <h3 className="text-lg font-semibold mb-1">Effective Policies</h3>
+            <p className="text-sm text-slate-400 mb-4">
+              Employee policies override {effective?.team ? `team "${effective.team.name}"` : 'team'} policies,
+              which override organization policies. Actions with no applicable policy fall back to{' '}
+              <span className="capitalize">{(effective?.autonomyMode ?? employee.autonomyMode).replace('_', ' ')}</span> mode.
+            </p>
+            {!effective || effective.policies.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-slate-400">No policies apply to this employee</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-700">
+                      <th className="text-left py-3 px-4 text-slate-400 font-medium">Source</th>
+                      <th className="text-left py-3 px-4 text-slate-400 font-medium">Capability</th>
+                      <th className="text-left py-3 px-4 text-slate-400 font-medium">Permission</th>
+                      <th className="text-left py-3 px-4 text-slate-400 font-medium">Rate Limit</th>
+                      <th className="text-left py-3 px-4 text-slate-400 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {effective.policies.map((policy) => (
+                      <tr
+                        key={policy.id}
+                        className={`border-b border-slate-700/50 hover:bg-slate-700/30 ${policy.overriddenBy || !policy.enabled ? 'opacity-50' : ''}`}
+                      >
+                        <td className="py-3 px-4">
+                          <span className="px-2 py-0.5 rounded text-xs bg-slate-700 text-slate-300">
+                            {policy.scope === 'org' ? 'Organization' : policy.scope === 'team' ? 'Team' : 'Employee'}
+                          </span>
+                        </td>
+                        <td className="py-3 px-4 text-white">
+                          {policy.capability}
+                          {(policy.conditions !== '[]' || policy.schedule !== '') && (
+                            <span className="ml-2 text-xs text-yellow-500/80">conditional</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-slate-300">{policy.permission.replace('_', ' ')}</td>
+                        <td className="py-3 px-4 text-slate-300">
+                          {usage[policy.id]?.length ? (
+                            <div className="space-y-0.5">
+                              {usage[policy.id].map((quota, idx) => (
+                                <div
+                                  key={idx}
+                                  className={quota.exhausted ? 'text-red-400' : ''}
+                                  title={
+                                    quota.exhausted
+                                      ? `Frees up at ${new Date(quota.resetAt).toLocaleTimeString()}`
+                                      : undefined
+                                  }
+                                >
+                                  {quota.kind === 'budget'
+                                    ? `$${quota.used.toFixed(2)}/$${quota.limit.toFixed(2)}`
+                                    : `${quota.used}/${quota.limit}`}{' '}
+                                  per {quota.window}
+                                </div>
+                              ))}
+                            </div>
+                          ) : policy.rateLimit ? (
+                            `${policy.rateLimit}/min`
+                          ) : (
+                            'Unlimited'
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-xs">
+                          {!policy.enabled ? (
+                            <span className="text-slate-400">Disabled</span>
+                          ) : policy.overriddenBy ? (
+                            <span className="text-slate-400">Overridden by {policy.overriddenBy} policy</span>
+                          ) : (
+                            <span className="text-green-400">Effective</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Audit Log Tab */}
         {activeTab === 'audit' && (
           <div>
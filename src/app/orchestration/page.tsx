@@ -1,12 +1,16 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import { WorkflowStep, isParallelStep } from '@/lib/workflow-dsl'
+import WorkflowStepEditor from '@/components/WorkflowStepEditor'
+import { describeConditions } from '@/components/ConditionEditor'
 
 interface Employee {
   id: string
   name: string
   role: string
   status: string
+  teamId: string | null
 }
 
 interface WorkflowRule {
@@ -20,56 +24,41 @@ interface Team {
   id: string
   name: string
   description: string
+  lead: string
   employees: Employee[]
   workflowRules: WorkflowRule[]
 }
 
-interface TimelineStep {
-  id: number
-  title: string
+interface WorkflowStepRun {
+  id: string
+  order: number
+  stepKey: string
+  groupKey: string | null
   agent: string
-  description: string
-  status: 'pending' | 'active' | 'completed'
-  timestamp?: string
+  action: string
+  status: string
+  reason: string
+  attempts: number
+  runtime: string | null
+  output: string
+  metadata: string
+  durationMs: number | null
+  startedAt: string | null
+  completedAt: string | null
 }
 
-const DEMO_TIMELINE: TimelineStep[] = [
-  {
-    id: 1,
-    title: 'Customer Complaint Received',
-    agent: 'System',
-    description: 'Incoming complaint detected via Slack integration: "App crashes on login page"',
-    status: 'pending',
-  },
-  {
-    id: 2,
-    title: 'Support Agent Picks Up',
-    agent: 'Support Agent',
-    description: 'Triages the issue, categorizes as high-priority bug, acknowledges customer',
-    status: 'pending',
-  },
-  {
-    id: 3,
-    title: 'Developer Agent Investigates',
-    agent: 'Developer',
-    description: 'Pulls Sentry logs, identifies null pointer exception in auth module, creates fix branch',
-    status: 'pending',
-  },
-  {
-    id: 4,
-    title: 'Fix Applied & Tested',
-    agent: 'Developer',
-    description: 'Commits fix, runs test suite (47/47 passing), opens PR for review',
-    status: 'pending',
-  },
-  {
-    id: 5,
-    title: 'Reply to Customer',
-    agent: 'Support Agent',
-    description: 'Sends resolution update to customer with fix details and ETA for deployment',
-    status: 'pending',
-  },
-]
+interface WorkflowRun {
+  id: string
+  /** null once the rule has been deleted. */
+  ruleId: string | null
+  trigger: string
+  teamName: string
+  status: string
+  error: string
+  createdAt: string
+  completedAt: string | null
+  steps: WorkflowStepRun[]
+}
 
 const statusColors: Record<string, string> = {
   running: 'bg-green-500',
@@ -77,18 +66,89 @@ const statusColors: Record<string, string> = {
   stopped: 'bg-red-500',
 }
 
+const runStatusBadge: Record<string, { bg: string; text: string; border: string }> = {
+  pending: { bg: 'bg-slate-700/50', text: 'text-slate-300', border: 'border-slate-600' },
+  running: { bg: 'bg-blue-900/30', text: 'text-blue-400', border: 'border-blue-800' },
+  awaiting_approval: { bg: 'bg-yellow-900/30', text: 'text-yellow-400', border: 'border-yellow-800' },
+  completed: { bg: 'bg-green-900/30', text: 'text-green-400', border: 'border-green-800' },
+  failed: { bg: 'bg-red-900/30', text: 'text-red-400', border: 'border-red-800' },
+  denied: { bg: 'bg-red-900/30', text: 'text-red-400', border: 'border-red-800' },
+}
+
+const stepIndicatorColors: Record<string, string> = {
+  pending: 'bg-slate-700',
+  running: 'bg-blue-600 animate-pulse',
+  awaiting_approval: 'bg-yellow-600',
+  approved: 'bg-green-700',
+  completed: 'bg-green-600',
+  skipped: 'bg-slate-600',
+  denied: 'bg-red-600',
+  failed: 'bg-red-600',
+}
+
+const stepCardColors: Record<string, string> = {
+  pending: 'bg-slate-700/30 border-slate-700',
+  running: 'bg-blue-900/20 border-blue-700',
+  awaiting_approval: 'bg-yellow-900/10 border-yellow-800/50',
+  approved: 'bg-green-900/10 border-green-800/50',
+  completed: 'bg-green-900/10 border-green-800/50',
+  skipped: 'bg-slate-800/50 border-slate-700 opacity-60',
+  denied: 'bg-red-900/10 border-red-800/50',
+  failed: 'bg-red-900/10 border-red-800/50',
+}
+
+function formatLabel(value: string): string {
+  return value.replace(/_/g, ' ')
+}
+
+function parseRuleSteps(raw: string): WorkflowStep[] {
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function tokensUsed(step: WorkflowStepRun): number | null {
+  try {
+    const metadata = JSON.parse(step.metadata)
+    return typeof metadata.tokensUsed === 'number' ? metadata.tokensUsed : null
+  } catch {
+    return null
+  }
+}
+
 export default function OrchestrationPage() {
   const [teams, setTeams] = useState<Team[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null)
   const [demoRunning, setDemoRunning] = useState(false)
-  const [demoCompleted, setDemoCompleted] = useState(false)
-  const [timeline, setTimeline] = useState<TimelineStep[]>([])
+  const [runningRuleId, setRunningRuleId] = useState<string | null>(null)
+  const [activeRun, setActiveRun] = useState<WorkflowRun | null>(null)
   const [isTimelineCollapsed, setIsTimelineCollapsed] = useState(false)
+  const [runHistory, setRunHistory] = useState<WorkflowRun[]>([])
+  const [allEmployees, setAllEmployees] = useState<Employee[]>([])
+
+  // Team form state
+  const [showTeamForm, setShowTeamForm] = useState(false)
+  const [editingTeamId, setEditingTeamId] = useState<string | null>(null)
+  const [formTeamName, setFormTeamName] = useState('')
+  const [formTeamDescription, setFormTeamDescription] = useState('')
+  const [formTeamLead, setFormTeamLead] = useState('')
+  const [formMemberIds, setFormMemberIds] = useState<string[]>([])
+  const [savingTeam, setSavingTeam] = useState(false)
+
+  // Rule editor state ('new' while creating, otherwise the rule being edited)
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null)
+  const [savingRule, setSavingRule] = useState(false)
+  const [ruleIssues, setRuleIssues] = useState<string[]>([])
 
   useEffect(() => {
     fetchTeams()
+    fetchRunHistory()
+    fetchEmployees()
   }, [])
 
   async function fetchTeams() {
@@ -110,53 +170,164 @@ export default function OrchestrationPage() {
     }
   }
 
-  async function handleRunDemo() {
+  async function fetchEmployees() {
     try {
-      setDemoRunning(true)
-      setDemoCompleted(false)
-      setIsTimelineCollapsed(false)
-      // Clear timeline first, then reset to initial state to ensure clean slate
-      setTimeline([])
-      await new Promise((resolve) => setTimeout(resolve, 50))
-      setTimeline(DEMO_TIMELINE.map((s) => ({ ...s, status: 'pending', timestamp: undefined })))
-
-      // Try to call the demo API
-      try {
-        await fetch('/api/orchestration/demo', {
-          method: 'POST',
+      const res = await fetch('/api/employees')
+      if (!res.ok) throw new Error('Failed to fetch employees')
+      const data = await res.json()
+      setAllEmployees(Array.isArray(data) ? data : [])
+    } catch {
+      setAllEmployees([])
+    }
+  }
+
+  function resetTeamForm() {
+    setFormTeamName('')
+    setFormTeamDescription('')
+    setFormTeamLead('')
+    setFormMemberIds([])
+    setEditingTeamId(null)
+    setShowTeamForm(false)
+  }
+
+  function startEditTeam(team: Team) {
+    setFormTeamName(team.name)
+    setFormTeamDescription(team.description)
+    setFormTeamLead(team.lead)
+    setFormMemberIds(team.employees.map((e) => e.id))
+    setEditingTeamId(team.id)
+    setShowTeamForm(true)
+  }
+
+  async function handleSaveTeam() {
+    if (!formTeamName.trim()) return
+    try {
+      setSavingTeam(true)
+      setError(null)
+
+      const body = {
+        name: formTeamName,
+        description: formTeamDescription,
+        lead: formTeamLead,
+        employeeIds: formMemberIds,
+      }
+
+      const res = await fetch(
+        editingTeamId ? `/api/orchestration/teams/${editingTeamId}` : '/api/orchestration/teams',
+        {
+          method: editingTeamId ? 'PUT' : 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ teamId: selectedTeamId }),
-        })
-      } catch {
-        // Demo endpoint may not exist yet - continue with simulation
+          body: JSON.stringify(body),
+        },
+      )
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        throw new Error([data.error || 'Failed to save team', ...(data.issues ?? [])].join(' — '))
       }
 
-      // Animate timeline progression
-      for (let i = 0; i < DEMO_TIMELINE.length; i++) {
-        await new Promise((resolve) => setTimeout(resolve, 1500))
-        setTimeline((prev) =>
-          prev.map((step, idx) => ({
-            ...step,
-            status: idx < i ? 'completed' : idx === i ? 'active' : 'pending',
-            timestamp: idx <= i ? new Date().toLocaleTimeString() : undefined,
-          }))
-        )
-        // Small delay for the active step to show before completing
-        await new Promise((resolve) => setTimeout(resolve, 500))
-        setTimeline((prev) =>
-          prev.map((step, idx) => ({
-            ...step,
-            status: idx <= i ? 'completed' : idx === i + 1 ? 'active' : 'pending',
-            timestamp: idx <= i ? step.timestamp || new Date().toLocaleTimeString() : undefined,
-          }))
-        )
+      resetTeamForm()
+      setSelectedTeamId(data.id)
+      fetchTeams()
+      fetchEmployees()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save team')
+    } finally {
+      setSavingTeam(false)
+    }
+  }
+
+  async function handleDeleteTeam(team: Team) {
+    if (!confirm(`Delete team "${team.name}" and its workflow rules?`)) return
+    try {
+      setError(null)
+      const res = await fetch(`/api/orchestration/teams/${team.id}`, { method: 'DELETE' })
+      if (!res.ok) throw new Error('Failed to delete team')
+      setSelectedTeamId(null)
+      fetchTeams()
+      fetchEmployees()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete team')
+    }
+  }
+
+  async function handleSaveRule(trigger: string, steps: WorkflowStep[]) {
+    if (!selectedTeamId || !editingRuleId) return
+    try {
+      setSavingRule(true)
+      setRuleIssues([])
+
+      const isNew = editingRuleId === 'new'
+      const res = await fetch(
+        isNew ? '/api/orchestration/rules' : `/api/orchestration/rules/${editingRuleId}`,
+        {
+          method: isNew ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ teamId: selectedTeamId, trigger, steps }),
+        },
+      )
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setRuleIssues(Array.isArray(data.issues) ? data.issues : [data.error || 'Failed to save rule'])
+        return
       }
 
-      setDemoCompleted(true)
+      setEditingRuleId(null)
+      fetchTeams()
+    } catch (err) {
+      setRuleIssues([err instanceof Error ? err.message : 'Failed to save rule'])
+    } finally {
+      setSavingRule(false)
+    }
+  }
+
+  async function handleDeleteRule(rule: WorkflowRule) {
+    if (!confirm(`Delete workflow rule "${formatLabel(rule.trigger)}"?`)) return
+    try {
+      setError(null)
+      const res = await fetch(`/api/orchestration/rules/${rule.id}`, { method: 'DELETE' })
+      if (!res.ok) throw new Error('Failed to delete workflow rule')
+      fetchTeams()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete workflow rule')
+    }
+  }
 
-      // Auto-collapse after 3 seconds to keep the page organized
-      await new Promise((resolve) => setTimeout(resolve, 3000))
-      setIsTimelineCollapsed(true)
+  async function fetchRunHistory() {
+    try {
+      const res = await fetch('/api/orchestration/runs?limit=10')
+      if (!res.ok) throw new Error('Failed to fetch workflow runs')
+      const data = await res.json()
+      setRunHistory(Array.isArray(data) ? data : [])
+    } catch {
+      setRunHistory([])
+    }
+  }
+
+  async function handleViewRun(runId: string) {
+    try {
+      setError(null)
+      const res = await fetch(`/api/orchestration/runs/${runId}`)
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || 'Failed to load workflow run')
+      setActiveRun(data)
+      setIsTimelineCollapsed(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load workflow run')
+    }
+  }
+
+  async function handleRunDemo() {
+    try {
+      setDemoRunning(true)
+      setError(null)
+      setIsTimelineCollapsed(false)
+
+      const res = await fetch('/api/orchestration/demo', { method: 'POST' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || 'Demo failed')
+
+      setActiveRun(Array.isArray(data.runs) && data.runs.length > 0 ? data.runs[0] : null)
+      fetchRunHistory()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Demo failed')
     } finally {
@@ -164,6 +335,30 @@ export default function OrchestrationPage() {
     }
   }
 
+  async function handleRunRule(rule: WorkflowRule) {
+    try {
+      setRunningRuleId(rule.id)
+      setError(null)
+      setIsTimelineCollapsed(false)
+
+      const res = await fetch('/api/orchestration/runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ trigger: rule.trigger, teamId: rule.teamId }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || 'Failed to run workflow')
+
+      const runs: WorkflowRun[] = Array.isArray(data) ? data : []
+      setActiveRun(runs.find((r) => r.ruleId === rule.id) ?? runs[0] ?? null)
+      fetchRunHistory()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run workflow')
+    } finally {
+      setRunningRuleId(null)
+    }
+  }
+
   const selectedTeam = teams.find((t) => t.id === selectedTeamId)
 
   if (loading) {
@@ -212,34 +407,34 @@ export default function OrchestrationPage() {
         </div>
       )}
 
-      {/* Demo Timeline */}
-      {timeline.length > 0 && (
+      {/* Workflow Run Timeline */}
+      {activeRun && (
         <div className="mb-8 bg-slate-800 rounded-lg shadow-lg border border-slate-700 p-6">
           <div className="flex items-center justify-between mb-6">
             <div className="flex items-center gap-3">
-              <h2 className="text-lg font-semibold">Demo Scenario: Customer Complaint Resolution</h2>
-              {demoCompleted && (
-                <span className="px-3 py-1 bg-green-900/30 text-green-400 border border-green-800 rounded text-sm font-medium">
-                  Completed
-                </span>
-              )}
+              <h2 className="text-lg font-semibold capitalize">Workflow Run: {formatLabel(activeRun.trigger)}</h2>
+              {(() => {
+                const badge = runStatusBadge[activeRun.status] || runStatusBadge.pending
+                return (
+                  <span className={`px-3 py-1 rounded text-sm font-medium border ${badge.bg} ${badge.text} ${badge.border}`}>
+                    {formatLabel(activeRun.status)}
+                  </span>
+                )
+              })()}
             </div>
             <div className="flex items-center gap-2">
-              {demoCompleted && (
-                <button
-                  onClick={() => setIsTimelineCollapsed(!isTimelineCollapsed)}
-                  className="p-2 hover:bg-slate-700 rounded-lg transition-colors"
-                  title={isTimelineCollapsed ? "Expand" : "Collapse"}
-                >
-                  <svg className={`w-5 h-5 transition-transform ${isTimelineCollapsed ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-                  </svg>
-                </button>
-              )}
+              <button
+                onClick={() => setIsTimelineCollapsed(!isTimelineCollapsed)}
+                className="p-2 hover:bg-slate-700 rounded-lg transition-colors"
+                title={isTimelineCollapsed ? "Expand" : "Collapse"}
+              >
+                <svg className={`w-5 h-5 transition-transform ${isTimelineCollapsed ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                </svg>
+              </button>
               <button
                 onClick={() => {
-                  setTimeline([])
-                  setDemoCompleted(false)
+                  setActiveRun(null)
                   setIsTimelineCollapsed(false)
                 }}
                 className="p-2 hover:bg-slate-700 rounded-lg transition-colors"
@@ -252,53 +447,61 @@ export default function OrchestrationPage() {
             </div>
           </div>
 
+          {activeRun.error && (
+            <p className="mb-4 text-sm text-red-400">{activeRun.error}</p>
+          )}
+
           {!isTimelineCollapsed && (
             <div className="relative">
               {/* Vertical line */}
               <div className="absolute left-6 top-0 bottom-0 w-0.5 bg-slate-700" />
 
               <div className="space-y-6">
-                {timeline.map((step) => (
+                {activeRun.steps.map((step) => (
                 <div key={step.id} className="relative flex gap-4">
                   {/* Step indicator */}
                   <div
                     className={`relative z-10 w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0 transition-all duration-500 ${
-                      step.status === 'completed'
-                        ? 'bg-green-600'
-                        : step.status === 'active'
-                        ? 'bg-blue-600 animate-pulse'
-                        : 'bg-slate-700'
+                      stepIndicatorColors[step.status] || stepIndicatorColors.pending
                     }`}
                   >
                     {step.status === 'completed' ? (
                       <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                    ) : step.status === 'active' ? (
-                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    ) : step.status === 'denied' || step.status === 'failed' ? (
+                      <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
                     ) : (
-                      <span className="text-sm text-slate-400">{step.id}</span>
+                      <span className="text-sm text-slate-200">{step.order}</span>
                     )}
                   </div>
 
                   {/* Step content */}
                   <div
                     className={`flex-1 p-4 rounded-lg border transition-all duration-500 ${
-                      step.status === 'completed'
-                        ? 'bg-green-900/10 border-green-800/50'
-                        : step.status === 'active'
-                        ? 'bg-blue-900/20 border-blue-700'
-                        : 'bg-slate-700/30 border-slate-700'
+                      stepCardColors[step.status] || stepCardColors.pending
                     }`}
                   >
                     <div className="flex items-center justify-between mb-1">
-                      <h3 className="font-medium">{step.title}</h3>
-                      {step.timestamp && (
-                        <span className="text-xs text-slate-500">{step.timestamp}</span>
-                      )}
+                      <h3 className="font-medium capitalize">{formatLabel(step.action)}</h3>
+                      <span className="text-xs text-slate-500 capitalize">{formatLabel(step.status)}</span>
                     </div>
-                    <p className="text-xs text-blue-400 mb-1">{step.agent}</p>
-                    <p className="text-sm text-slate-400">{step.description}</p>
+                    <p className="text-xs text-blue-400 mb-1">
+                      {step.agent}
+                      {step.runtime && <span className="text-slate-500"> · {step.runtime}</span>}
+                      {step.durationMs !== null && <span className="text-slate-500"> · {step.durationMs}ms</span>}
+                      {step.attempts > 1 && <span className="text-slate-500"> · {step.attempts} attempts</span>}
+                      {step.groupKey && <span className="text-purple-400"> · parallel ({formatLabel(step.groupKey)})</span>}
+                      {tokensUsed(step) !== null && <span className="text-slate-500"> · {tokensUsed(step)} tokens</span>}
+                    </p>
+                    {step.reason && (
+                      <p className="text-sm text-slate-400">{step.reason}</p>
+                    )}
+                    {step.output && step.output !== step.reason && (
+                      <p className="text-sm text-slate-400">{step.output}</p>
+                    )}
                   </div>
                 </div>
                 ))}
@@ -309,7 +512,7 @@ export default function OrchestrationPage() {
           {isTimelineCollapsed && (
             <div className="text-center py-4">
               <p className="text-slate-400 text-sm">
-                Demo completed with {timeline.filter(s => s.status === 'completed').length} steps
+                {activeRun.steps.filter(s => s.status === 'completed').length} of {activeRun.steps.length} steps completed
               </p>
             </div>
           )}
@@ -320,12 +523,23 @@ export default function OrchestrationPage() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Teams List */}
         <div className="bg-slate-800 rounded-lg shadow-lg border border-slate-700 p-6">
-          <h2 className="text-lg font-semibold mb-4">Teams</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold">Teams</h2>
+            <button
+              onClick={() => {
+                resetTeamForm()
+                setShowTeamForm(true)
+              }}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-xs font-medium transition-colors"
+            >
+              New Team
+            </button>
+          </div>
           {teams.length === 0 ? (
             <div className="text-center py-8">
               <p className="text-slate-400 text-sm">No teams configured</p>
               <p className="text-slate-500 text-xs mt-1">
-                Teams are created via the API
+                Create a team to start building workflows
               </p>
             </div>
           ) : (
@@ -333,7 +547,10 @@ export default function OrchestrationPage() {
               {teams.map((team) => (
                 <button
                   key={team.id}
-                  onClick={() => setSelectedTeamId(team.id)}
+                  onClick={() => {
+                    setSelectedTeamId(team.id)
+                    setEditingRuleId(null)
+                  }}
                   className={`w-full text-left p-3 rounded-lg border transition-colors ${
                     selectedTeamId === team.id
                       ? 'border-blue-500 bg-blue-900/20'
@@ -352,14 +569,108 @@ export default function OrchestrationPage() {
 
         {/* Team Detail */}
         <div className="lg:col-span-2 space-y-6">
+          {showTeamForm && (
+            <div className="bg-slate-800 rounded-lg shadow-lg border border-slate-700 p-6">
+              <h3 className="text-lg font-semibold mb-4">
+                {editingTeamId ? 'Edit Team' : 'New Team'}
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Name</label>
+                  <input
+                    value={formTeamName}
+                    onChange={(e) => setFormTeamName(e.target.value)}
+                    placeholder="e.g. Security"
+                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Description</label>
+                  <input
+                    value={formTeamDescription}
+                    onChange={(e) => setFormTeamDescription(e.target.value)}
+                    placeholder="What this team is responsible for"
+                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Team Lead</label>
+                  <input
+                    value={formTeamLead}
+                    onChange={(e) => setFormTeamLead(e.target.value)}
+                    placeholder="Approver name of the lead, for approval quorums"
+                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <label className="block text-sm font-medium text-slate-300 mt-4 mb-2">Members</label>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {allEmployees.map((emp) => (
+                  <label
+                    key={emp.id}
+                    className="flex items-center gap-2 p-2 bg-slate-700/50 rounded-lg text-sm cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={formMemberIds.includes(emp.id)}
+                      onChange={(e) =>
+                        setFormMemberIds((prev) =>
+                          e.target.checked ? [...prev, emp.id] : prev.filter((id) => id !== emp.id)
+                        )
+                      }
+                    />
+                    <span>{emp.name}</span>
+                    {emp.teamId && emp.teamId !== editingTeamId && (
+                      <span className="text-xs text-slate-500">(moves team)</span>
+                    )}
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-end gap-3 mt-4">
+                <button
+                  onClick={resetTeamForm}
+                  className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSaveTeam}
+                  disabled={savingTeam || !formTeamName.trim()}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors font-medium disabled:opacity-40"
+                >
+                  {savingTeam ? 'Saving...' : editingTeamId ? 'Update Team' : 'Create Team'}
+                </button>
+              </div>
+            </div>
+          )}
+
           {selectedTeam ? (
             <>
               {/* Team Info */}
               <div className="bg-slate-800 rounded-lg shadow-lg border border-slate-700 p-6">
-                <h2 className="text-lg font-semibold mb-2">{selectedTeam.name}</h2>
+                <div className="flex items-center justify-between mb-2">
+                  <h2 className="text-lg font-semibold">{selectedTeam.name}</h2>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => startEditTeam(selectedTeam)}
+                      className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs font-medium transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDeleteTeam(selectedTeam)}
+                      className="px-3 py-1 bg-red-900/40 hover:bg-red-900/60 text-red-400 rounded text-xs font-medium transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
                 {selectedTeam.description && (
                   <p className="text-slate-400 text-sm mb-4">{selectedTeam.description}</p>
                 )}
+                {selectedTeam.lead && (
+                  <p className="text-slate-400 text-sm mb-4">Lead: {selectedTeam.lead}</p>
+                )}
 
                 <h3 className="text-sm font-medium text-slate-300 mb-3">Team Members</h3>
                 {(!selectedTeam.employees || selectedTeam.employees.length === 0) ? (
@@ -388,7 +699,30 @@ export default function OrchestrationPage() {
 
               {/* Workflow Rules */}
               <div className="bg-slate-800 rounded-lg shadow-lg border border-slate-700 p-6">
-                <h3 className="text-lg font-semibold mb-4">Workflow Rules</h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold">Workflow Rules</h3>
+                  <button
+                    onClick={() => {
+                      setRuleIssues([])
+                      setEditingRuleId('new')
+                    }}
+                    disabled={editingRuleId !== null || selectedTeam.employees.length === 0}
+                    className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-xs font-medium transition-colors disabled:opacity-40"
+                  >
+                    Add Rule
+                  </button>
+                </div>
+                {editingRuleId === 'new' && (
+                  <div className="mb-4">
+                    <WorkflowStepEditor
+                      members={selectedTeam.employees.map((e) => e.name)}
+                      saving={savingRule}
+                      issues={ruleIssues}
+                      onSave={handleSaveRule}
+                      onCancel={() => setEditingRuleId(null)}
+                    />
+                  </div>
+                )}
                 {(!selectedTeam.workflowRules || selectedTeam.workflowRules.length === 0) ? (
                   <div className="text-center py-8">
                     <p className="text-slate-400 text-sm">No workflow rules configured</p>
@@ -399,11 +733,21 @@ export default function OrchestrationPage() {
                 ) : (
                   <div className="space-y-3">
                     {selectedTeam.workflowRules.map((rule) => {
-                      let steps: Array<{ agent?: string; action?: string; order?: number }> = []
-                      try {
-                        steps = JSON.parse(rule.steps)
-                      } catch {
-                        steps = []
+                      const steps = parseRuleSteps(rule.steps)
+
+                      if (editingRuleId === rule.id) {
+                        return (
+                          <WorkflowStepEditor
+                            key={rule.id}
+                            members={selectedTeam.employees.map((e) => e.name)}
+                            initialTrigger={rule.trigger}
+                            initialSteps={steps}
+                            saving={savingRule}
+                            issues={ruleIssues}
+                            onSave={handleSaveRule}
+                            onCancel={() => setEditingRuleId(null)}
+                          />
+                        )
                       }
 
                       return (
@@ -411,22 +755,75 @@ export default function OrchestrationPage() {
                           key={rule.id}
                           className="p-4 bg-slate-700/50 rounded-lg border border-slate-700"
                         >
-                          <div className="flex items-center gap-2 mb-2">
-                            <svg className="w-4 h-4 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                            </svg>
-                            <span className="text-sm font-medium">Trigger: {rule.trigger.replace(/_/g, ' ')}</span>
+                          <div className="flex items-center justify-between mb-2">
+                            <div className="flex items-center gap-2">
+                              <svg className="w-4 h-4 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                              </svg>
+                              <span className="text-sm font-medium">Trigger: {rule.trigger.replace(/_/g, ' ')}</span>
+                            </div>
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => {
+                                  setRuleIssues([])
+                                  setEditingRuleId(rule.id)
+                                }}
+                                disabled={editingRuleId !== null}
+                                className="px-3 py-1 bg-slate-600 hover:bg-slate-500 rounded text-xs font-medium transition-colors disabled:opacity-40"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handleDeleteRule(rule)}
+                                className="px-3 py-1 bg-red-900/40 hover:bg-red-900/60 text-red-400 rounded text-xs font-medium transition-colors"
+                              >
+                                Delete
+                              </button>
+                              <button
+                                onClick={() => handleRunRule(rule)}
+                                disabled={runningRuleId === rule.id}
+                                className="px-3 py-1 bg-purple-600 hover:bg-purple-700 rounded text-xs font-medium transition-colors disabled:opacity-60"
+                              >
+                                {runningRuleId === rule.id ? 'Running...' : 'Run'}
+                              </button>
+                            </div>
                           </div>
                           {steps.length > 0 && (
                             <div className="ml-6 space-y-1">
                               {steps.map((s, idx) => (
-                                <div key={idx} className="flex items-center gap-2 text-xs text-slate-400">
-                                  <span className="w-4 h-4 bg-slate-600 rounded-full flex items-center justify-center text-[10px]">
-                                    {idx + 1}
-                                  </span>
-                                  <span className="text-blue-400 font-medium">{s.agent}</span>
-                                  <span className="text-slate-500">→</span>
-                                  <span>{s.action?.replace(/_/g, ' ')}</span>
+                                <div key={idx} className="text-xs text-slate-400">
+                                  <div className="flex items-center gap-2">
+                                    <span className="w-4 h-4 bg-slate-600 rounded-full flex items-center justify-center text-[10px]">
+                                      {idx + 1}
+                                    </span>
+                                    {isParallelStep(s) ? (
+                                      <span className="text-purple-400 font-medium">
+                                        parallel · join {s.join ?? 'all'}
+                                      </span>
+                                    ) : (
+                                      <>
+                                        <span className="text-blue-400 font-medium">{s.agent}</span>
+                                        <span className="text-slate-500">→</span>
+                                        <span>{s.action?.replace(/_/g, ' ')}</span>
+                                        {!!s.retries && <span className="text-slate-500">· {s.retries} retries</span>}
+                                        {s.timeoutMs && <span className="text-slate-500">· {s.timeoutMs}ms timeout</span>}
+                                      </>
+                                    )}
+                                  </div>
+                                  {s.if && s.if.length > 0 && (
+                                    <p className="ml-6 text-yellow-500/80">if {describeConditions(s.if)}</p>
+                                  )}
+                                  {isParallelStep(s) && (
+                                    <div className="ml-6 mt-1 pl-2 border-l border-slate-600 space-y-1">
+                                      {s.parallel.map((b, bIdx) => (
+                                        <div key={bIdx} className="flex items-center gap-2">
+                                          <span className="text-blue-400 font-medium">{b.agent}</span>
+                                          <span className="text-slate-500">→</span>
+                                          <span>{b.action?.replace(/_/g, ' ')}</span>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  )}
                                 </div>
                               ))}
                             </div>
@@ -445,6 +842,60 @@ export default function OrchestrationPage() {
           )}
         </div>
       </div>
+
+      {/* Run History */}
+      <div className="mt-6 bg-slate-800 rounded-lg shadow-lg border border-slate-700 p-6">
+        <h2 className="text-lg font-semibold mb-4">Run History</h2>
+        {runHistory.length === 0 ? (
+          <p className="text-slate-400 text-sm">No workflow runs yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-700">
+                  <th className="text-left py-3 px-4 text-slate-400 font-medium">Trigger</th>
+                  <th className="text-left py-3 px-4 text-slate-400 font-medium">Status</th>
+                  <th className="text-left py-3 px-4 text-slate-400 font-medium">Steps</th>
+                  <th className="text-left py-3 px-4 text-slate-400 font-medium">Started</th>
+                  <th className="text-left py-3 px-4 text-slate-400 font-medium">Finished</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runHistory.map((run) => {
+                  const badge = runStatusBadge[run.status] || runStatusBadge.pending
+                  return (
+                    <tr
+                      key={run.id}
+                      onClick={() => handleViewRun(run.id)}
+                      className={`border-b border-slate-700/50 cursor-pointer hover:bg-slate-700/30 ${
+                        activeRun?.id === run.id ? 'bg-slate-700/30' : ''
+                      }`}
+                    >
+                      <td className="py-3 px-4 text-white">
+                        <span className="capitalize">{formatLabel(run.trigger)}</span>
+                        {run.teamName && <span className="text-xs text-slate-500"> · {run.teamName}</span>}
+                        {!run.ruleId && <span className="text-xs text-slate-500"> (rule deleted)</span>}
+                      </td>
+                      <td className="py-3 px-4">
+                        <span className={`px-2 py-1 rounded text-xs font-medium border ${badge.bg} ${badge.text} ${badge.border}`}>
+                          {formatLabel(run.status)}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 text-slate-300">
+                        {run.steps.filter((s) => s.status === 'completed').length}/{run.steps.length}
+                      </td>
+                      <td className="py-3 px-4 text-slate-400">{new Date(run.createdAt).toLocaleString()}</td>
+                      <td className="py-3 px-4 text-slate-400">
+                        {run.completedAt ? new Date(run.completedAt).toLocaleString() : '—'}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
     </div>
   )
 }
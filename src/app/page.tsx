@@ -62,7 +62,7 @@ export default function DashboardPage() {
         const [employeesRes, approvalsRes, auditRes, activityRes] =
           await Promise.allSettled([
             fetch('/api/employees'),
-            fetch('/api/approvals'),
+            fetch('/api/approvals?status=pending&pageSize=1'),
             fetch('/api/audit'),
             fetch('/api/simulation?employeeId=all'),
           ])
@@ -75,9 +75,7 @@ export default function DashboardPage() {
         let pendingApprovals = 0
         if (approvalsRes.status === 'fulfilled' && approvalsRes.value.ok) {
           const approvals = await approvalsRes.value.json()
-          pendingApprovals = Array.isArray(approvals)
-            ? approvals.filter((a: { status: string }) => a.status === 'pending').length
-            : 0
+          pendingApprovals = typeof approvals.total === 'number' ? approvals.total : 0
         }
 
         let totalAuditEvents = 0
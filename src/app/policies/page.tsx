@@ -1,19 +1,70 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { Fragment, useEffect, useState } from 'react'
+import ConditionEditor, {
+  ConditionDraft,
+  describeConditions,
+  fromConditionDrafts,
+  toConditionDrafts,
+} from '@/components/ConditionEditor'
+import ScheduleEditor, {
+  ScheduleDraft,
+  describeSchedule,
+  emptySchedule,
+  fromScheduleDraft,
+  toScheduleDraft,
+} from '@/components/ScheduleEditor'
+import ChangeFreezePanel from '@/components/ChangeFreezePanel'
+import PolicyBundlePanel from '@/components/PolicyBundlePanel'
+import PolicyHistoryPanel from '@/components/PolicyHistoryPanel'
+import PolicyWarningsPanel from '@/components/PolicyWarningsPanel'
+import QuorumEditor, { QuorumDraft, fromQuorumDrafts, toQuorumDrafts } from '@/components/QuorumEditor'
+import QuotaEditor, { QuotaDraft, fromQuotaDrafts, toQuotaDrafts } from '@/components/QuotaEditor'
+import { ExpiryAction, describeExpiry, parseExpiry } from '@/lib/approval-expiry'
+import { describeQuorum, parseQuorum } from '@/lib/approval-quorum'
+import { Condition } from '@/lib/conditions'
+import { PolicySchedule, parseSchedule } from '@/lib/schedule'
+import { describeQuota, parseQuotas } from '@/lib/quotas'
 
 interface Employee {
   id: string
   name: string
 }
 
+interface Team {
+  id: string
+  name: string
+}
+
 interface Policy {
   id: string
-  employeeId: string
+  scope: 'employee' | 'team' | 'org'
+  employeeId: string | null
+  teamId: string | null
   capability: string
   permission: string
   rateLimit: number | null
-  employee?: Employee
+  quotas: string
+  conditions: string
+  schedule: string
+  enabled: boolean
+  approvers: string
+  expiry: string
+  employee?: Employee | null
+  team?: Team | null
+}
+
+interface ReplayReport {
+  decisions: number
+  changed: number
+  unreproducible: number
+  groups: Array<{
+    employeeId: string
+    employeeName: string | null
+    action: string
+    changed: number
+    transitions: Record<string, number>
+  }>
 }
 
 const CAPABILITIES = [
@@ -24,6 +75,9 @@ const CAPABILITIES = [
   'api_call',
   'file_write',
   'inter_agent_comm',
+  'inter_agent:*',
+  'github.*',
+  'deploy:production',
 ]
 
 const capabilityLabels: Record<string, string> = {
@@ -36,6 +90,19 @@ const capabilityLabels: Record<string, string> = {
   inter_agent_comm: 'Inter-Agent Comm',
 }
 
+function parsePolicyConditions(raw: string): Condition[] {
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function parsePolicySchedule(raw: string): PolicySchedule | undefined {
+  return parseSchedule(raw) ?? undefined
+}
+
 const permissionColors: Record<string, { bg: string; text: string; border: string }> = {
   allow: { bg: 'bg-green-900/30', text: 'text-green-400', border: 'border-green-800' },
   deny: { bg: 'bg-red-900/30', text: 'text-red-400', border: 'border-red-800' },
@@ -45,18 +112,35 @@ const permissionColors: Record<string, { bg: string; text: string; border: strin
 export default function PoliciesPage() {
   const [policies, setPolicies] = useState<Policy[]>([])
   const [employees, setEmployees] = useState<Employee[]>([])
+  const [teams, setTeams] = useState<Team[]>([])
+  const [approverGroups, setApproverGroups] = useState<string[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   // Form state
   const [showForm, setShowForm] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
+  const [formScope, setFormScope] = useState<Policy['scope']>('employee')
   const [formEmployeeId, setFormEmployeeId] = useState('')
+  const [formTeamId, setFormTeamId] = useState('')
   const [formCapability, setFormCapability] = useState('')
   const [formPermission, setFormPermission] = useState('allow')
   const [formRateLimit, setFormRateLimit] = useState<string>('')
+  const [formQuotas, setFormQuotas] = useState<QuotaDraft[]>([])
+  const [formConditions, setFormConditions] = useState<ConditionDraft[]>([])
+  const [formSchedule, setFormSchedule] = useState<ScheduleDraft>(emptySchedule)
+  const [formApprovers, setFormApprovers] = useState<QuorumDraft[]>([])
+  const [formExpiryMinutes, setFormExpiryMinutes] = useState('')
+  const [formExpiryAction, setFormExpiryAction] = useState<ExpiryAction>('deny')
+  const [formEscalateTo, setFormEscalateTo] = useState('')
   const [saving, setSaving] = useState(false)
+  const [replaying, setReplaying] = useState(false)
+  const [replayReport, setReplayReport] = useState<ReplayReport | null>(null)
   const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [historyId, setHistoryId] = useState<string | null>(null)
+  const [togglingId, setTogglingId] = useState<string | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [bulkBusy, setBulkBusy] = useState(false)
 
   useEffect(() => {
     fetchData()
@@ -67,9 +151,11 @@ export default function PoliciesPage() {
       setLoading(true)
       setError(null)
 
-      const [policiesRes, employeesRes] = await Promise.allSettled([
+      const [policiesRes, employeesRes, teamsRes, groupsRes] = await Promise.allSettled([
         fetch('/api/policies'),
         fetch('/api/employees'),
+        fetch('/api/orchestration'),
+        fetch('/api/approver-groups'),
       ])
 
       if (policiesRes.status === 'fulfilled' && policiesRes.value.ok) {
@@ -83,6 +169,16 @@ export default function PoliciesPage() {
         const data = await employeesRes.value.json()
         setEmployees(Array.isArray(data) ? data : [])
       }
+
+      if (teamsRes.status === 'fulfilled' && teamsRes.value.ok) {
+        const data = await teamsRes.value.json()
+        setTeams(Array.isArray(data) ? data : [])
+      }
+
+      if (groupsRes.status === 'fulfilled' && groupsRes.value.ok) {
+        const data = await groupsRes.value.json()
+        setApproverGroups(Array.isArray(data) ? data.map((g: { name: string }) => g.name) : [])
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load policies')
     } finally {
@@ -91,35 +187,96 @@ export default function PoliciesPage() {
   }
 
   function resetForm() {
+    setFormScope('employee')
     setFormEmployeeId('')
+    setFormTeamId('')
     setFormCapability('')
     setFormPermission('allow')
     setFormRateLimit('')
+    setFormQuotas([])
+    setFormConditions([])
+    setFormSchedule(emptySchedule)
+    setFormApprovers([])
+    setFormExpiryMinutes('')
+    setFormExpiryAction('deny')
+    setFormEscalateTo('')
     setEditingId(null)
+    setReplayReport(null)
     setShowForm(false)
   }
 
   function startEdit(policy: Policy) {
-    setFormEmployeeId(policy.employeeId)
+    setFormScope(policy.scope)
+    setFormEmployeeId(policy.employeeId ?? '')
+    setFormTeamId(policy.teamId ?? '')
     setFormCapability(policy.capability)
     setFormPermission(policy.permission)
     setFormRateLimit(policy.rateLimit?.toString() || '')
+    setFormQuotas(toQuotaDrafts(parseQuotas(policy.quotas)))
+    setFormConditions(toConditionDrafts(parsePolicyConditions(policy.conditions)))
+    setFormSchedule(toScheduleDraft(parsePolicySchedule(policy.schedule)))
+    setFormApprovers(toQuorumDrafts(parseQuorum(policy.approvers)))
+    const expiry = parseExpiry(policy.expiry)
+    setFormExpiryMinutes(expiry ? String(expiry.afterMinutes) : '')
+    setFormExpiryAction(expiry?.action ?? 'deny')
+    setFormEscalateTo(expiry?.escalateTo ?? '')
     setEditingId(policy.id)
+    setReplayReport(null)
     setShowForm(true)
   }
 
+  function formBody() {
+    return {
+      scope: formScope,
+      employeeId: formScope === 'employee' ? formEmployeeId : undefined,
+      teamId: formScope === 'team' ? formTeamId : undefined,
+      capability: formCapability,
+      permission: formPermission,
+      rateLimit: formRateLimit ? parseInt(formRateLimit, 10) : null,
+      quotas: fromQuotaDrafts(formQuotas),
+      conditions: fromConditionDrafts(formConditions),
+      schedule: fromScheduleDraft(formSchedule),
+      approvers: formPermission === 'approval_required' ? fromQuorumDrafts(formApprovers) : [],
+      expiry:
+        formPermission === 'approval_required' && formExpiryMinutes
+          ? {
+              afterMinutes: Number(formExpiryMinutes),
+              action: formExpiryAction,
+              ...(formExpiryAction === 'escalate' ? { escalateTo: formEscalateTo } : {}),
+            }
+          : null,
+    }
+  }
+
+  async function handleReplay() {
+    if (!hasTarget || !formCapability) return
+    try {
+      setReplaying(true)
+      setError(null)
+      const res = await fetch('/api/policies/replay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ days: 7, upsert: [{ ...formBody(), id: editingId ?? undefined }] }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error([data.error || 'Failed to replay decisions', ...(data.issues ?? [])].join(' — '))
+      }
+      setReplayReport(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to replay decisions')
+    } finally {
+      setReplaying(false)
+    }
+  }
+
   async function handleSave() {
-    if (!formEmployeeId || !formCapability) return
+    if (!hasTarget || !formCapability) return
     try {
       setSaving(true)
       setError(null)
 
-      const body = {
-        employeeId: formEmployeeId,
-        capability: formCapability,
-        permission: formPermission,
-        rateLimit: formRateLimit ? parseInt(formRateLimit, 10) : null,
-      }
+      const body = formBody()
 
       let res: Response
       if (editingId) {
@@ -138,7 +295,7 @@ export default function PoliciesPage() {
 
       if (!res.ok) {
         const data = await res.json().catch(() => ({}))
-        throw new Error(data.error || 'Failed to save policy')
+        throw new Error([data.error || 'Failed to save policy', ...(data.issues ?? [])].join(' — '))
       }
 
       resetForm()
@@ -156,6 +313,7 @@ export default function PoliciesPage() {
       setError(null)
       const res = await fetch(`/api/policies/${policyId}`, { method: 'DELETE' })
       if (!res.ok) throw new Error('Failed to delete policy')
+      setSelectedIds((ids) => ids.filter((id) => id !== policyId))
       fetchData()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete policy')
@@ -164,14 +322,81 @@ export default function PoliciesPage() {
     }
   }
 
-  // Group policies by employee
+  async function handleToggle(policy: Policy) {
+    try {
+      setTogglingId(policy.id)
+      setError(null)
+      const res = await fetch(`/api/policies/${policy.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !policy.enabled }),
+      })
+      if (!res.ok) throw new Error(`Failed to ${policy.enabled ? 'disable' : 'enable'} policy`)
+      fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update policy')
+    } finally {
+      setTogglingId(null)
+    }
+  }
+
+  async function handleBulk(operation: 'update' | 'enable' | 'disable' | 'delete', changes?: Record<string, unknown>) {
+    if (selectedIds.length === 0) return
+    try {
+      setBulkBusy(true)
+      setError(null)
+      const res = await fetch('/api/policies/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ operation, policyIds: selectedIds, changes }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        throw new Error([data.error || 'Failed to apply bulk change', ...(data.issues ?? [])].join(' — '))
+      }
+      setSelectedIds([])
+      fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply bulk change')
+    } finally {
+      setBulkBusy(false)
+    }
+  }
+
+  function toggleSelected(ids: string[], selected: boolean) {
+    setSelectedIds((current) =>
+      selected ? Array.from(new Set([...current, ...ids])) : current.filter((id) => !ids.includes(id))
+    )
+  }
+
+  const hasTarget =
+    formScope === 'org' || (formScope === 'employee' ? !!formEmployeeId : !!formTeamId)
+
+  // Group policies by owner: the organization first, then teams, then employees
+  const ownerKey = (policy: Policy) =>
+    policy.scope === 'org' ? 'org' : policy.scope === 'team' ? `team:${policy.teamId}` : `employee:${policy.employeeId}`
+  const ownerRank = (key: string) => (key === 'org' ? 0 : key.startsWith('team:') ? 1 : 2)
   const groupedPolicies = policies.reduce<Record<string, Policy[]>>((acc, policy) => {
-    const key = policy.employeeId
+    const key = ownerKey(policy)
     if (!acc[key]) acc[key] = []
     acc[key].push(policy)
     return acc
   }, {})
 
+  function ownerLabel(key: string, group: Policy[]): { title: string; subtitle: string } {
+    if (key === 'org') {
+      return { title: 'Organization', subtitle: 'Inherited by every employee' }
+    }
+    if (key.startsWith('team:')) {
+      const teamId = key.slice('team:'.length)
+      const name = group[0]?.team?.name || teams.find((t) => t.id === teamId)?.name || teamId
+      return { title: `Team: ${name}`, subtitle: 'Inherited by team members' }
+    }
+    const employeeId = key.slice('employee:'.length)
+    const name = group[0]?.employee?.name || employees.find((e) => e.id === employeeId)?.name || employeeId
+    return { title: name, subtitle: 'Employee policies' }
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -220,34 +445,69 @@ export default function PoliciesPage() {
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             <div>
-              <label className="block text-sm font-medium text-slate-300 mb-2">Employee</label>
-              <select
-                value={formEmployeeId}
-                onChange={(e) => setFormEmployeeId(e.target.value)}
-                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="">Select employee...</option>
-                {employees.map((emp) => (
-                  <option key={emp.id} value={emp.id}>
-                    {emp.name}
-                  </option>
-                ))}
-              </select>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Applies to</label>
+              <div className="flex gap-2">
+                <select
+                  value={formScope}
+                  onChange={(e) => setFormScope(e.target.value as Policy['scope'])}
+                  disabled={!!editingId}
+                  className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+                >
+                  <option value="employee">Employee</option>
+                  <option value="team">Team</option>
+                  <option value="org">Organization</option>
+                </select>
+                {formScope === 'employee' && (
+                  <select
+                    value={formEmployeeId}
+                    onChange={(e) => setFormEmployeeId(e.target.value)}
+                    disabled={!!editingId}
+                    className="flex-1 min-w-0 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+                  >
+                    <option value="">Select employee...</option>
+                    {employees.map((emp) => (
+                      <option key={emp.id} value={emp.id}>
+                        {emp.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {formScope === 'team' && (
+                  <select
+                    value={formTeamId}
+                    onChange={(e) => setFormTeamId(e.target.value)}
+                    disabled={!!editingId}
+                    className="flex-1 min-w-0 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+                  >
+                    <option value="">Select team...</option>
+                    {teams.map((team) => (
+                      <option key={team.id} value={team.id}>
+                        {team.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
             </div>
             <div>
               <label className="block text-sm font-medium text-slate-300 mb-2">Capability</label>
-              <select
+              <input
+                list="capability-options"
                 value={formCapability}
                 onChange={(e) => setFormCapability(e.target.value)}
-                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="">Select capability...</option>
+                placeholder="e.g. deploy or inter_agent:*"
+                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <datalist id="capability-options">
                 {CAPABILITIES.map((cap) => (
                   <option key={cap} value={cap}>
                     {capabilityLabels[cap] || cap}
                   </option>
                 ))}
-              </select>
+              </datalist>
+              <p className="text-xs text-slate-500 mt-1">
+                Use * for patterns; the most specific match wins
+              </p>
             </div>
             <div>
               <label className="block text-sm font-medium text-slate-300 mb-2">Permission</label>
@@ -280,7 +540,7 @@ export default function PoliciesPage() {
             </div>
             <div>
               <label className="block text-sm font-medium text-slate-300 mb-2">
-                Rate Limit (per hour)
+                Rate Limit (per minute)
               </label>
               <input
                 type="number"
@@ -292,7 +552,106 @@ export default function PoliciesPage() {
               />
             </div>
           </div>
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Quotas <span className="text-slate-500 font-normal">(hourly and daily caps, and dollar budgets charged with the action&apos;s costUsd)</span>
+            </label>
+            <QuotaEditor quotas={formQuotas} onChange={setFormQuotas} />
+          </div>
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Conditions <span className="text-slate-500 font-normal">(on the action context, e.g. recipient ends_with &quot;@acme.com&quot;)</span>
+            </label>
+            <ConditionEditor
+              conditions={formConditions}
+              onChange={setFormConditions}
+              pathPlaceholder="environment"
+            />
+          </div>
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Schedule <span className="text-slate-500 font-normal">(leave empty to apply at all times)</span>
+            </label>
+            <ScheduleEditor schedule={formSchedule} onChange={setFormSchedule} />
+          </div>
+          {formPermission === 'approval_required' && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Approvers <span className="text-slate-500 font-normal">(leave empty to let any single reviewer decide)</span>
+              </label>
+              <QuorumEditor approvers={formApprovers} groups={approverGroups} onChange={setFormApprovers} />
+            </div>
+          )}
+          {formPermission === 'approval_required' && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Expiry <span className="text-slate-500 font-normal">(leave empty to keep requests pending until someone decides)</span>
+              </label>
+              <div className="flex items-center gap-2 text-xs">
+                <span className="text-slate-400">If undecided after</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={formExpiryMinutes}
+                  onChange={(e) => setFormExpiryMinutes(e.target.value)}
+                  placeholder="240"
+                  className="w-20 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <span className="text-slate-400">minutes,</span>
+                <select
+                  value={formExpiryAction}
+                  onChange={(e) => setFormExpiryAction(e.target.value as ExpiryAction)}
+                  className="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="deny">auto-deny</option>
+                  <option value="escalate">escalate to</option>
+                </select>
+                {formExpiryAction === 'escalate' && (
+                  <select
+                    value={formEscalateTo}
+                    onChange={(e) => setFormEscalateTo(e.target.value)}
+                    className="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Select group...</option>
+                    {approverGroups.map((group) => (
+                      <option key={group} value={group}>{group}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+          )}
+          {replayReport && (
+            <div className="mt-4 p-3 rounded bg-slate-900/60 border border-slate-700 text-xs">
+              <p className="text-slate-300">
+                Over the last 7 days, {replayReport.changed} of {replayReport.decisions} decision
+                {replayReport.decisions !== 1 ? 's' : ''} would change
+                {replayReport.unreproducible > 0 && (
+                  <span className="text-slate-500">
+                    {' '}({replayReport.unreproducible} could not be reproduced from the audit log alone)
+                  </span>
+                )}
+              </p>
+              {replayReport.groups
+                .filter((g) => g.changed > 0)
+                .map((g) => (
+                  <p key={`${g.employeeId}:${g.action}`} className="text-slate-400 mt-1">
+                    {g.employeeName ?? g.employeeId} · <span className="font-mono">{g.action}</span>:{' '}
+                    {Object.entries(g.transitions)
+                      .map(([transition, count]) => `${count}× ${transition.replace(/_/g, ' ')}`)
+                      .join(', ')}
+                  </p>
+                ))}
+            </div>
+          )}
           <div className="flex justify-end gap-3 mt-4">
+            <button
+              onClick={handleReplay}
+              disabled={replaying || !hasTarget || !formCapability}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors disabled:opacity-40"
+            >
+              {replaying ? 'Replaying...' : 'Preview Impact'}
+            </button>
             <button
               onClick={resetForm}
               className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
@@ -301,7 +660,7 @@ export default function PoliciesPage() {
             </button>
             <button
               onClick={handleSave}
-              disabled={saving || !formEmployeeId || !formCapability}
+              disabled={saving || !hasTarget || !formCapability}
               className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors font-medium disabled:opacity-40"
             >
               {saving ? 'Saving...' : editingId ? 'Update Policy' : 'Create Policy'}
@@ -310,6 +669,58 @@ export default function PoliciesPage() {
         </div>
       )}
 
+      <PolicyWarningsPanel refreshKey={policies} />
+      <ChangeFreezePanel />
+      <PolicyBundlePanel onApplied={fetchData} />
+
+      {selectedIds.length > 0 && (
+        <div className="mb-6 px-6 py-3 bg-slate-800 rounded-lg border border-blue-800 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-slate-300">
+            {selectedIds.length} polic{selectedIds.length !== 1 ? 'ies' : 'y'} selected
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => handleBulk('enable')}
+              disabled={bulkBusy}
+              className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors disabled:opacity-40"
+            >
+              Enable
+            </button>
+            <button
+              onClick={() => handleBulk('disable')}
+              disabled={bulkBusy}
+              className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors disabled:opacity-40"
+            >
+              Disable
+            </button>
+            <select
+              value=""
+              onChange={(e) => e.target.value && handleBulk('update', { permission: e.target.value })}
+              disabled={bulkBusy}
+              className="px-3 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm text-white disabled:opacity-40"
+            >
+              <option value="">Set permission...</option>
+              <option value="allow">Allow</option>
+              <option value="deny">Deny</option>
+              <option value="approval_required">Approval Required</option>
+            </select>
+            <button
+              onClick={() => handleBulk('delete')}
+              disabled={bulkBusy}
+              className="px-3 py-1.5 bg-red-900/30 hover:bg-red-900/50 text-red-400 rounded text-sm transition-colors disabled:opacity-40"
+            >
+              Delete
+            </button>
+            <button
+              onClick={() => setSelectedIds([])}
+              className="px-3 py-1.5 text-slate-400 hover:text-white text-sm transition-colors"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Policies grouped by employee */}
       {Object.keys(groupedPolicies).length === 0 ? (
         <div className="text-center py-16 bg-slate-800 rounded-lg border border-slate-700">
@@ -323,79 +734,157 @@ export default function PoliciesPage() {
         </div>
       ) : (
         <div className="space-y-6">
-          {Object.entries(groupedPolicies).map(([employeeId, empPolicies]) => {
-            const employeeName =
-              empPolicies[0]?.employee?.name ||
-              employees.find((e) => e.id === employeeId)?.name ||
-              employeeId
-
-            return (
-              <div
-                key={employeeId}
-                className="bg-slate-800 rounded-lg shadow-lg border border-slate-700 overflow-hidden"
-              >
-                <div className="px-6 py-4 border-b border-slate-700 bg-slate-800/80">
-                  <h3 className="font-semibold">{employeeName}</h3>
-                  <p className="text-xs text-slate-400">
-                    {empPolicies.length} polic{empPolicies.length !== 1 ? 'ies' : 'y'}
-                  </p>
-                </div>
-                <div className="overflow-x-auto">
-                  <table className="w-full text-sm">
-                    <thead>
-                      <tr className="border-b border-slate-700">
-                        <th className="text-left py-3 px-6 text-slate-400 font-medium">Capability</th>
-                        <th className="text-left py-3 px-6 text-slate-400 font-medium">Permission</th>
-                        <th className="text-left py-3 px-6 text-slate-400 font-medium">Rate Limit</th>
-                        <th className="text-right py-3 px-6 text-slate-400 font-medium">Actions</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {empPolicies.map((policy) => {
-                        const colors = permissionColors[policy.permission] || permissionColors.allow
-                        return (
-                          <tr key={policy.id} className="border-b border-slate-700/50 hover:bg-slate-700/30">
-                            <td className="py-3 px-6 text-white">
-                              {capabilityLabels[policy.capability] || policy.capability}
-                            </td>
-                            <td className="py-3 px-6">
-                              <span
-                                className={`px-2 py-1 rounded text-xs font-medium ${colors.bg} ${colors.text} border ${colors.border}`}
+          {Object.entries(groupedPolicies)
+            .sort(([a], [b]) => ownerRank(a) - ownerRank(b))
+            .map(([ownerId, ownerPolicies]) => {
+              const owner = ownerLabel(ownerId, ownerPolicies)
+              const groupIds = ownerPolicies.map((p) => p.id)
+              const allSelected = groupIds.every((id) => selectedIds.includes(id))
+
+              return (
+                <div
+                  key={ownerId}
+                  className="bg-slate-800 rounded-lg shadow-lg border border-slate-700 overflow-hidden"
+                >
+                  <div className="px-6 py-4 border-b border-slate-700 bg-slate-800/80">
+                    <h3 className="font-semibold">{owner.title}</h3>
+                    <p className="text-xs text-slate-400">
+                      {owner.subtitle} · {ownerPolicies.length} polic{ownerPolicies.length !== 1 ? 'ies' : 'y'}
+                    </p>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-slate-700">
+                          <th className="w-10 py-3 pl-6">
+                            <input
+                              type="checkbox"
+                              checked={allSelected}
+                              onChange={(e) => toggleSelected(groupIds, e.target.checked)}
+                              aria-label={`Select all policies for ${owner.title}`}
+                            />
+                          </th>
+                          <th className="text-left py-3 px-6 text-slate-400 font-medium">Capability</th>
+                          <th className="text-left py-3 px-6 text-slate-400 font-medium">Permission</th>
+                          <th className="text-left py-3 px-6 text-slate-400 font-medium">Rate Limit</th>
+                          <th className="text-right py-3 px-6 text-slate-400 font-medium">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {ownerPolicies.map((policy) => {
+                          const colors = permissionColors[policy.permission] || permissionColors.allow
+                          return (
+                            <Fragment key={policy.id}>
+                              <tr
+                                className={`border-b border-slate-700/50 hover:bg-slate-700/30 ${
+                                  policy.enabled ? '' : 'opacity-50'
+                                }`}
                               >
-                                {policy.permission === 'approval_required'
-                                  ? 'Approval Required'
-                                  : policy.permission.charAt(0).toUpperCase() + policy.permission.slice(1)}
-                              </span>
-                            </td>
-                            <td className="py-3 px-6 text-slate-300">
-                              {policy.rateLimit ? `${policy.rateLimit}/hr` : 'Unlimited'}
-                            </td>
-                            <td className="py-3 px-6 text-right">
-                              <div className="flex justify-end gap-2">
-                                <button
-                                  onClick={() => startEdit(policy)}
-                                  className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors"
-                                >
-                                  Edit
-                                </button>
-                                <button
-                                  onClick={() => handleDelete(policy.id)}
-                                  disabled={deletingId === policy.id}
-                                  className="px-3 py-1 bg-red-900/30 hover:bg-red-900/50 text-red-400 rounded text-xs transition-colors disabled:opacity-40"
-                                >
-                                  {deletingId === policy.id ? '...' : 'Delete'}
-                                </button>
-                              </div>
-                            </td>
-                          </tr>
-                        )
-                      })}
-                    </tbody>
-                  </table>
+                                <td className="py-3 pl-6">
+                                  <input
+                                    type="checkbox"
+                                    checked={selectedIds.includes(policy.id)}
+                                    onChange={(e) => toggleSelected([policy.id], e.target.checked)}
+                                    aria-label={`Select policy ${policy.capability}`}
+                                  />
+                                </td>
+                                <td className="py-3 px-6 text-white">
+                                  {capabilityLabels[policy.capability] || policy.capability}
+                                  {!policy.enabled && (
+                                    <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] bg-slate-700 text-slate-300">
+                                      disabled
+                                    </span>
+                                  )}
+                                  {policy.capability.includes('*') && (
+                                    <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] bg-slate-700 text-slate-400">
+                                      pattern
+                                    </span>
+                                  )}
+                                  {parsePolicyConditions(policy.conditions).length > 0 && (
+                                    <p className="text-xs text-yellow-500/80 mt-1">
+                                      if {describeConditions(parsePolicyConditions(policy.conditions))}
+                                    </p>
+                                  )}
+                                  {parsePolicySchedule(policy.schedule) && (
+                                    <p className="text-xs text-blue-400/80 mt-1">
+                                      {describeSchedule(parsePolicySchedule(policy.schedule)!)}
+                                    </p>
+                                  )}
+                                </td>
+                                <td className="py-3 px-6">
+                                  <span
+                                    className={`px-2 py-1 rounded text-xs font-medium ${colors.bg} ${colors.text} border ${colors.border}`}
+                                  >
+                                    {policy.permission === 'approval_required'
+                                      ? 'Approval Required'
+                                      : policy.permission.charAt(0).toUpperCase() + policy.permission.slice(1)}
+                                  </span>
+                                  {policy.permission === 'approval_required' && parseQuorum(policy.approvers).length > 0 && (
+                                    <p className="text-xs text-yellow-500/80 mt-1">
+                                      needs {describeQuorum(parseQuorum(policy.approvers))}
+                                    </p>
+                                  )}
+                                  {policy.permission === 'approval_required' && parseExpiry(policy.expiry) && (
+                                    <p className="text-xs text-yellow-500/80 mt-1">
+                                      {describeExpiry(parseExpiry(policy.expiry)!)}
+                                    </p>
+                                  )}
+                                </td>
+                                <td className="py-3 px-6 text-slate-300">
+                                  {policy.rateLimit || parseQuotas(policy.quotas).length > 0
+                                    ? [
+                                        ...(policy.rateLimit ? [`${policy.rateLimit}/min`] : []),
+                                        ...parseQuotas(policy.quotas).map(describeQuota),
+                                      ].join(', ')
+                                    : 'Unlimited'}
+                                </td>
+                                <td className="py-3 px-6 text-right">
+                                  <div className="flex justify-end gap-2">
+                                    <button
+                                      onClick={() => setHistoryId(historyId === policy.id ? null : policy.id)}
+                                      className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors"
+                                    >
+                                      {historyId === policy.id ? 'Hide History' : 'History'}
+                                    </button>
+                                    <button
+                                      onClick={() => handleToggle(policy)}
+                                      disabled={togglingId === policy.id}
+                                      className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors disabled:opacity-40"
+                                    >
+                                      {togglingId === policy.id ? '...' : policy.enabled ? 'Disable' : 'Enable'}
+                                    </button>
+                                    <button
+                                      onClick={() => startEdit(policy)}
+                                      className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors"
+                                    >
+                                      Edit
+                                    </button>
+                                    <button
+                                      onClick={() => handleDelete(policy.id)}
+                                      disabled={deletingId === policy.id}
+                                      className="px-3 py-1 bg-red-900/30 hover:bg-red-900/50 text-red-400 rounded text-xs transition-colors disabled:opacity-40"
+                                    >
+                                      {deletingId === policy.id ? '...' : 'Delete'}
+                                    </button>
+                                  </div>
+                                </td>
+                              </tr>
+                              {historyId === policy.id && (
+                                <tr className="border-b border-slate-700/50 bg-slate-900/30">
+                                  <td colSpan={5} className="py-3 px-6">
+                                    <PolicyHistoryPanel policyId={policy.id} onRolledBack={fetchData} />
+                                  </td>
+                                </tr>
+                              )}
+                            </Fragment>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
                 </div>
-              </div>
-            )
-          })}
+              )
+            })}
         </div>
       )}
     </div>
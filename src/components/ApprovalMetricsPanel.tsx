@@ -0,0 +1,109 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatMinutes } from '@/lib/approval-expiry'
+import type { ApprovalMetrics, DecisionTimes } from '@/lib/approval-history'
+
+interface ApprovalMetricsPanelProps {
+  /** Filter parameters, as sent to GET /api/approvals. */
+  query: string
+}
+
+function describeTimes(times: DecisionTimes | null): string {
+  return times ? `${formatMinutes(times.medianMinutes)} median · ${formatMinutes(times.p90Minutes)} p90` : '—'
+}
+
+export default function ApprovalMetricsPanel({ query }: ApprovalMetricsPanelProps) {
+  const [metrics, setMetrics] = useState<ApprovalMetrics | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchMetrics() {
+      try {
+        setError(null)
+        const res = await fetch(`/api/approvals/metrics?${query}`)
+        const data = await res.json()
+        if (!res.ok) throw new Error([data.error || 'Failed to fetch approval metrics', ...(data.issues ?? [])].join(' — '))
+        setMetrics(data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch approval metrics')
+      }
+    }
+    fetchMetrics()
+  }, [query])
+
+  return (
+    <div className="mb-6 bg-slate-800 rounded-lg shadow-lg border border-slate-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-700">
+        <h3 className="font-semibold">History</h3>
+        <p className="text-xs text-slate-400">Time to decision for the requests matching the current filters</p>
+      </div>
+
+      {error && <p className="px-6 py-2 text-sm text-red-400 bg-red-900/20">{error}</p>}
+
+      {metrics && (
+        <div className="p-6 space-y-6 text-sm">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              ['Requests', metrics.total],
+              ['Pending', metrics.byStatus.pending],
+              ['Approved', metrics.byStatus.approved],
+              ['Denied', metrics.byStatus.denied],
+              ['Expired', metrics.expired],
+            ].map(([label, value]) => (
+              <div key={label}>
+                <p className="text-xs text-slate-400">{label}</p>
+                <p className="text-2xl font-semibold">{value}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-slate-300">
+            <span className="text-slate-400">Time to decision:</span> {describeTimes(metrics.timeToDecision)}
+            {metrics.timeToDecision && (
+              <span className="text-slate-500"> (mean {formatMinutes(metrics.timeToDecision.meanMinutes)} over {metrics.timeToDecision.decided} decided)</span>
+            )}
+          </p>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-xs text-slate-400">
+                  <th className="pb-2">Capability</th>
+                  <th className="pb-2">Approved / denied</th>
+                  <th className="pb-2">Time to decision</th>
+                </tr>
+              </thead>
+              <tbody>
+                {metrics.byCapability.map((row) => (
+                  <tr key={row.capability} className="border-t border-slate-700">
+                    <td className="py-1.5 font-mono">{row.capability}</td>
+                    <td className="py-1.5">{row.approved} / {row.denied}</td>
+                    <td className="py-1.5 text-slate-300">{describeTimes(row.timeToDecision)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-xs text-slate-400">
+                  <th className="pb-2">Approver</th>
+                  <th className="pb-2">Approved / denied</th>
+                  <th className="pb-2">Time to decision</th>
+                </tr>
+              </thead>
+              <tbody>
+                {metrics.byApprover.map((row) => (
+                  <tr key={row.approver} className="border-t border-slate-700">
+                    <td className="py-1.5">{row.approver}</td>
+                    <td className="py-1.5">{row.approved} / {row.denied}</td>
+                    <td className="py-1.5 text-slate-300">{describeTimes(row.timeToDecision)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
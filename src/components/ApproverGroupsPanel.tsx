@@ -0,0 +1,177 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface ApproverGroup {
+  id: string
+  name: string
+  description: string
+  members: string
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+function parseMembers(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export default function ApproverGroupsPanel() {
+  const [groups, setGroups] = useState<ApproverGroup[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [members, setMembers] = useState('')
+
+  useEffect(() => {
+    fetchGroups()
+  }, [])
+
+  async function fetchGroups() {
+    try {
+      const res = await fetch('/api/approver-groups')
+      if (!res.ok) throw new Error('Failed to fetch approver groups')
+      const data = await res.json()
+      setGroups(Array.isArray(data) ? data : [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch approver groups')
+    }
+  }
+
+  function resetForm() {
+    setEditingId(null)
+    setName('')
+    setDescription('')
+    setMembers('')
+    setShowForm(false)
+  }
+
+  function startEdit(group: ApproverGroup) {
+    setEditingId(group.id)
+    setName(group.name)
+    setDescription(group.description)
+    setMembers(parseMembers(group.members).join(', '))
+    setShowForm(true)
+  }
+
+  async function handleSave() {
+    try {
+      setSaving(true)
+      setError(null)
+      const res = await fetch(editingId ? `/api/approver-groups/${editingId}` : '/api/approver-groups', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          description,
+          members: members
+            .split(',')
+            .map((m) => m.trim())
+            .filter(Boolean),
+        }),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error([data.error || 'Failed to save approver group', ...(data.issues ?? [])].join(' — '))
+      }
+      resetForm()
+      fetchGroups()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save approver group')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDelete(id: string) {
+    try {
+      setError(null)
+      const res = await fetch(`/api/approver-groups/${id}`, { method: 'DELETE' })
+      if (!res.ok) throw new Error('Failed to delete approver group')
+      fetchGroups()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete approver group')
+    }
+  }
+
+  return (
+    <div className="mb-6 bg-slate-800 rounded-lg shadow-lg border border-slate-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-700 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Approver Groups</h3>
+          <p className="text-xs text-slate-400">
+            Approval policies can require votes from these groups before a request is approved
+          </p>
+        </div>
+        <button
+          onClick={() => (showForm ? resetForm() : setShowForm(true))}
+          className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
+        >
+          {showForm ? 'Cancel' : 'New Group'}
+        </button>
+      </div>
+
+      {error && <p className="px-6 py-2 text-sm text-red-400 bg-red-900/20">{error}</p>}
+
+      {showForm && (
+        <div className="p-6 border-b border-slate-700 grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name (e.g. devops)" className={inputClass} />
+          <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Description" className={inputClass} />
+          <input
+            value={members}
+            onChange={(e) => setMembers(e.target.value)}
+            placeholder="Members: alice@acme.com, bob@acme.com"
+            className={inputClass}
+          />
+          <div className="md:col-span-3 flex justify-end">
+            <button
+              onClick={handleSave}
+              disabled={saving || !name}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-40"
+            >
+              {saving ? 'Saving...' : editingId ? 'Save Group' : 'Create Group'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {groups.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-slate-500">No approver groups</p>
+      ) : (
+        <ul className="divide-y divide-slate-700">
+          {groups.map((group) => (
+            <li key={group.id} className="px-6 py-3 flex items-center justify-between text-sm">
+              <div>
+                <span className="font-medium">{group.name}</span>
+                {group.description && <span className="text-slate-400"> · {group.description}</span>}
+                <p className="text-xs text-slate-500">{parseMembers(group.members).join(', ') || 'No members'}</p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => startEdit(group)}
+                  className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(group.id)}
+                  className="px-3 py-1 bg-red-900/40 hover:bg-red-900/60 text-red-400 rounded text-xs transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface ChangeFreeze {
+  id: string
+  name: string
+  reason: string
+  startsAt: string
+  endsAt: string
+  capabilities: string
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+function parseCapabilities(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export default function ChangeFreezePanel() {
+  const [freezes, setFreezes] = useState<ChangeFreeze[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [name, setName] = useState('')
+  const [reason, setReason] = useState('')
+  const [startsAt, setStartsAt] = useState('')
+  const [endsAt, setEndsAt] = useState('')
+  const [capabilities, setCapabilities] = useState('')
+
+  useEffect(() => {
+    fetchFreezes()
+  }, [])
+
+  async function fetchFreezes() {
+    try {
+      const res = await fetch('/api/freezes')
+      if (!res.ok) throw new Error('Failed to fetch change freezes')
+      const data = await res.json()
+      setFreezes(Array.isArray(data) ? data : [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch change freezes')
+    }
+  }
+
+  function resetForm() {
+    setName('')
+    setReason('')
+    setStartsAt('')
+    setEndsAt('')
+    setCapabilities('')
+    setShowForm(false)
+  }
+
+  async function handleCreate() {
+    try {
+      setSaving(true)
+      setError(null)
+      const res = await fetch('/api/freezes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          reason,
+          startsAt: startsAt ? new Date(startsAt).toISOString() : undefined,
+          endsAt: endsAt ? new Date(endsAt).toISOString() : undefined,
+          capabilities: capabilities
+            .split(',')
+            .map((c) => c.trim())
+            .filter(Boolean),
+        }),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error([data.error || 'Failed to create change freeze', ...(data.issues ?? [])].join(' — '))
+      }
+      resetForm()
+      fetchFreezes()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create change freeze')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDelete(id: string) {
+    try {
+      setError(null)
+      const res = await fetch(`/api/freezes/${id}`, { method: 'DELETE' })
+      if (!res.ok) throw new Error('Failed to delete change freeze')
+      fetchFreezes()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete change freeze')
+    }
+  }
+
+  const now = Date.now()
+
+  return (
+    <div className="mb-6 bg-slate-800 rounded-lg shadow-lg border border-slate-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-700 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Change Freezes</h3>
+          <p className="text-xs text-slate-400">
+            Policies scheduled &quot;only during a change freeze&quot; apply while a freeze is active
+          </p>
+        </div>
+        <button
+          onClick={() => (showForm ? resetForm() : setShowForm(true))}
+          className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
+        >
+          {showForm ? 'Cancel' : 'Declare Freeze'}
+        </button>
+      </div>
+
+      {error && <p className="px-6 py-2 text-sm text-red-400 bg-red-900/20">{error}</p>}
+
+      {showForm && (
+        <div className="p-6 border-b border-slate-700 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-3 items-end">
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className={inputClass} />
+          <input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason" className={inputClass} />
+          <input type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} className={inputClass} />
+          <input type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} className={inputClass} />
+          <input
+            value={capabilities}
+            onChange={(e) => setCapabilities(e.target.value)}
+            placeholder="deploy:*, modify_code (blank = all)"
+            className={inputClass}
+          />
+          <div className="lg:col-span-5 flex justify-end">
+            <button
+              onClick={handleCreate}
+              disabled={saving || !name || !startsAt || !endsAt}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-40"
+            >
+              {saving ? 'Saving...' : 'Create Freeze'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {freezes.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-slate-500">No change freezes scheduled</p>
+      ) : (
+        <ul className="divide-y divide-slate-700/50">
+          {freezes.map((freeze) => {
+            const active =
+              new Date(freeze.startsAt).getTime() <= now && new Date(freeze.endsAt).getTime() > now
+            const caps = parseCapabilities(freeze.capabilities)
+            return (
+              <li key={freeze.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                <div>
+                  <span className="font-medium text-white">{freeze.name}</span>
+                  {active && (
+                    <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] bg-red-900/40 text-red-400 border border-red-800">
+                      active
+                    </span>
+                  )}
+                  <p className="text-xs text-slate-400 mt-0.5">
+                    {new Date(freeze.startsAt).toLocaleString()} – {new Date(freeze.endsAt).toLocaleString()}
+                    {' · '}
+                    {caps.length > 0 ? caps.join(', ') : 'all capabilities'}
+                    {freeze.reason && ` · ${freeze.reason}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDelete(freeze.id)}
+                  className="px-3 py-1 bg-red-900/30 hover:bg-red-900/50 text-red-400 rounded text-xs transition-colors"
+                >
+                  Delete
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
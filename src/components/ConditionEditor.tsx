@@ -0,0 +1,100 @@
+'use client'
+
+import { Condition, ConditionOperator, CONDITION_OPERATORS } from '@/lib/conditions'
+
+export interface ConditionDraft {
+  path: string
+  op: ConditionOperator
+  value: string
+}
+
+interface ConditionEditorProps {
+  conditions: ConditionDraft[]
+  onChange: (conditions: ConditionDraft[]) => void
+  pathPlaceholder?: string
+}
+
+const inputClass =
+  'w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export function toConditionDrafts(conditions: Condition[]): ConditionDraft[] {
+  return conditions.map((c) => ({
+    path: c.path,
+    op: c.op,
+    value: c.value === undefined ? '' : typeof c.value === 'string' ? c.value : JSON.stringify(c.value),
+  }))
+}
+
+/** Condition values are typed as JSON when they parse, and as strings otherwise. */
+export function fromConditionDrafts(drafts: ConditionDraft[]): Condition[] {
+  return drafts.map((d) => {
+    if (d.op === 'exists') return { path: d.path, op: d.op }
+    let value: unknown = d.value
+    try {
+      value = JSON.parse(d.value)
+    } catch {
+      // keep as a plain string
+    }
+    return { path: d.path, op: d.op, value }
+  })
+}
+
+export function describeConditions(conditions: Condition[]): string {
+  return conditions
+    .map((c) => (c.op === 'exists' ? `${c.path} exists` : `${c.path} ${c.op} ${JSON.stringify(c.value)}`))
+    .join(' and ')
+}
+
+export default function ConditionEditor({
+  conditions,
+  onChange,
+  pathPlaceholder = 'trigger.severity',
+}: ConditionEditorProps) {
+  function update(idx: number, patch: Partial<ConditionDraft>) {
+    onChange(conditions.map((c, i) => (i === idx ? { ...c, ...patch } : c)))
+  }
+
+  return (
+    <div className="space-y-2">
+      {conditions.map((condition, idx) => (
+        <div key={idx} className="flex items-center gap-2 text-xs">
+          <span className="text-yellow-500/80">{idx === 0 ? 'if' : 'and'}</span>
+          <input
+            value={condition.path}
+            onChange={(e) => update(idx, { path: e.target.value })}
+            placeholder={pathPlaceholder}
+            className={inputClass}
+          />
+          <select
+            value={condition.op}
+            onChange={(e) => update(idx, { op: e.target.value as ConditionOperator })}
+            className={inputClass}
+          >
+            {CONDITION_OPERATORS.map((op) => (
+              <option key={op} value={op}>{op}</option>
+            ))}
+          </select>
+          <input
+            value={condition.value}
+            onChange={(e) => update(idx, { value: e.target.value })}
+            disabled={condition.op === 'exists'}
+            placeholder="value"
+            className={`${inputClass} disabled:opacity-40`}
+          />
+          <button
+            onClick={() => onChange(conditions.filter((_, i) => i !== idx))}
+            className="px-2 text-slate-400 hover:text-red-400"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...conditions, { path: '', op: 'eq', value: '' }])}
+        className="text-xs text-yellow-500/80 hover:text-yellow-400"
+      >
+        + Condition
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useState } from 'react'
+
+interface PlanChange {
+  kind: 'team' | 'policy' | 'workflow_rule'
+  action: 'create' | 'update' | 'delete'
+  key: string
+  fields?: string[]
+}
+
+interface PlanResponse {
+  applied: boolean
+  changes: PlanChange[]
+  summary: Record<PlanChange['action'], number>
+}
+
+interface PolicyBundlePanelProps {
+  /** Called after a bundle is applied so the caller can refresh. */
+  onApplied: () => void
+}
+
+const actionColors: Record<PlanChange['action'], string> = {
+  create: 'text-green-400',
+  update: 'text-yellow-400',
+  delete: 'text-red-400',
+}
+
+const kindLabels: Record<PlanChange['kind'], string> = {
+  team: 'Team',
+  policy: 'Policy',
+  workflow_rule: 'Workflow rule',
+}
+
+export default function PolicyBundlePanel({ onApplied }: PolicyBundlePanelProps) {
+  const [open, setOpen] = useState(false)
+  const [text, setText] = useState('')
+  const [prune, setPrune] = useState(false)
+  const [plan, setPlan] = useState<PlanResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  async function submit(apply: boolean) {
+    try {
+      setBusy(true)
+      setError(null)
+      const res = await fetch(`/api/bundle?apply=${apply}&prune=${prune}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/yaml' },
+        body: text,
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error([data.error || 'Failed to import bundle', ...(data.issues ?? [])].join(' — '))
+      }
+      setPlan(data)
+      if (apply) onApplied()
+    } catch (err) {
+      setPlan(null)
+      setError(err instanceof Error ? err.message : 'Failed to import bundle')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="mb-6 bg-slate-800 rounded-lg shadow-lg border border-slate-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-700 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Policy as Code</h3>
+          <p className="text-xs text-slate-400">Export teams, policies and workflow rules, or import a bundle from git</p>
+        </div>
+        <div className="flex gap-2">
+          <a
+            href="/api/bundle?format=yaml"
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
+          >
+            Export YAML
+          </a>
+          <a
+            href="/api/bundle?format=json"
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
+          >
+            Export JSON
+          </a>
+          <button
+            onClick={() => setOpen(!open)}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
+          >
+            {open ? 'Close' : 'Import'}
+          </button>
+        </div>
+      </div>
+
+      {open && (
+        <div className="p-6 space-y-3">
+          <textarea
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value)
+              setPlan(null)
+            }}
+            rows={12}
+            placeholder="Paste a YAML or JSON bundle"
+            className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-xs font-mono text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              <input
+                type="checkbox"
+                checked={prune}
+                onChange={(e) => {
+                  setPrune(e.target.checked)
+                  setPlan(null)
+                }}
+              />
+              Delete anything missing from the sections in the bundle
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={() => submit(false)}
+                disabled={busy || !text.trim()}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm transition-colors disabled:opacity-40"
+              >
+                Plan
+              </button>
+              <button
+                onClick={() => submit(true)}
+                disabled={busy || !plan || plan.applied || plan.changes.length === 0}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-40"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          {plan && (
+            <div className="p-3 rounded bg-slate-900/60 border border-slate-700">
+              <p className="text-xs text-slate-400 mb-2">
+                {plan.applied ? 'Applied' : 'Plan'}: {plan.summary.create} to create, {plan.summary.update} to update,{' '}
+                {plan.summary.delete} to delete
+              </p>
+              {plan.changes.length === 0 ? (
+                <p className="text-xs text-slate-500">Already up to date</p>
+              ) : (
+                <ul className="space-y-0.5 text-xs font-mono">
+                  {plan.changes.map((change, idx) => (
+                    <li key={idx}>
+                      <span className={actionColors[change.action]}>{change.action}</span>{' '}
+                      <span className="text-slate-400">{kindLabels[change.kind]}</span> {change.key}
+                      {change.fields && <span className="text-slate-500"> ({change.fields.join(', ')})</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+interface FieldChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+interface PolicyVersion {
+  id: string
+  version: number
+  changeType: 'created' | 'updated' | 'rolled_back' | 'enabled' | 'disabled' | 'deleted'
+  changedBy: string
+  note: string
+  createdAt: string
+  changes: FieldChange[]
+}
+
+interface PolicyHistoryPanelProps {
+  policyId: string
+  /** Called after a rollback so the caller can refresh the policy. */
+  onRolledBack: () => void
+}
+
+const changeTypeLabels: Record<PolicyVersion['changeType'], string> = {
+  created: 'Created',
+  updated: 'Updated',
+  rolled_back: 'Rolled back',
+  enabled: 'Enabled',
+  disabled: 'Disabled',
+  deleted: 'Deleted',
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value) && value.length === 0) return 'none'
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function ChangeList({ changes }: { changes: FieldChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-xs text-slate-500">No differences</p>
+  }
+  return (
+    <ul className="space-y-0.5 text-xs font-mono">
+      {changes.map((change) => (
+        <li key={change.field}>
+          <span className="text-slate-400">{change.field}:</span>{' '}
+          <span className="text-red-400 line-through">{formatValue(change.before)}</span>{' '}
+          <span className="text-slate-500">→</span>{' '}
+          <span className="text-green-400">{formatValue(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default function PolicyHistoryPanel({ policyId, onRolledBack }: PolicyHistoryPanelProps) {
+  const [versions, setVersions] = useState<PolicyVersion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [rollingBack, setRollingBack] = useState<number | null>(null)
+  const [compareFrom, setCompareFrom] = useState('')
+  const [compareTo, setCompareTo] = useState('')
+  const [comparison, setComparison] = useState<{ from: number; to: number; changes: FieldChange[] } | null>(null)
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      setError(null)
+      const res = await fetch(`/api/policies/${policyId}/versions`)
+      if (!res.ok) throw new Error('Failed to fetch policy history')
+      const data = await res.json()
+      setVersions(Array.isArray(data) ? data : [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch policy history')
+    } finally {
+      setLoading(false)
+    }
+  }, [policyId])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions])
+
+  async function handleRollback(version: number) {
+    try {
+      setRollingBack(version)
+      setError(null)
+      const res = await fetch(`/api/policies/${policyId}/rollback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version }),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to roll back policy')
+      }
+      setComparison(null)
+      await fetchVersions()
+      onRolledBack()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to roll back policy')
+    } finally {
+      setRollingBack(null)
+    }
+  }
+
+  async function handleCompare() {
+    try {
+      setError(null)
+      const res = await fetch(`/api/policies/${policyId}/versions/diff?from=${compareFrom}&to=${compareTo}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to compare versions')
+      setComparison(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare versions')
+    }
+  }
+
+  if (loading) {
+    return <p className="text-xs text-slate-500">Loading history...</p>
+  }
+
+  const latest = versions[0]?.version
+  const selectClass = 'px-2 py-1 bg-slate-700 border border-slate-600 rounded text-xs text-white'
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {versions.length > 1 && (
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          Compare
+          <select value={compareFrom} onChange={(e) => setCompareFrom(e.target.value)} className={selectClass}>
+            <option value="">from…</option>
+            {versions.map((v) => (
+              <option key={v.id} value={v.version}>v{v.version}</option>
+            ))}
+          </select>
+          with
+          <select value={compareTo} onChange={(e) => setCompareTo(e.target.value)} className={selectClass}>
+            <option value="">to…</option>
+            {versions.map((v) => (
+              <option key={v.id} value={v.version}>v{v.version}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleCompare}
+            disabled={!compareFrom || !compareTo}
+            className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded transition-colors disabled:opacity-40"
+          >
+            Diff
+          </button>
+        </div>
+      )}
+
+      {comparison && (
+        <div className="p-3 rounded bg-slate-900/60 border border-slate-700">
+          <p className="text-xs text-slate-400 mb-1">
+            v{comparison.from} → v{comparison.to}
+          </p>
+          <ChangeList changes={comparison.changes} />
+        </div>
+      )}
+
+      <ol className="space-y-2">
+        {versions.map((version) => (
+          <li key={version.id} className="flex items-start justify-between gap-4">
+            <div>
+              <p className="text-xs text-slate-300">
+                <span className="font-medium text-white">v{version.version}</span>
+                {' · '}
+                {changeTypeLabels[version.changeType] ?? version.changeType} by {version.changedBy}
+                {' · '}
+                {new Date(version.createdAt).toLocaleString()}
+                {version.note && <span className="text-slate-500"> · {version.note}</span>}
+              </p>
+              {version.changeType !== 'created' && <ChangeList changes={version.changes} />}
+            </div>
+            {version.version !== latest && (
+              <button
+                onClick={() => handleRollback(version.version)}
+                disabled={rollingBack !== null}
+                className="shrink-0 px-2 py-1 bg-yellow-900/30 hover:bg-yellow-900/50 text-yellow-400 rounded text-xs transition-colors disabled:opacity-40"
+              >
+                {rollingBack === version.version ? '...' : `Roll back to v${version.version}`}
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
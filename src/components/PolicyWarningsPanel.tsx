@@ -0,0 +1,108 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface PolicyFinding {
+  kind: 'shadowed' | 'redundant' | 'contradictory'
+  policyId: string
+  relatedPolicyIds: string[]
+  capability: string
+  scope: 'employee' | 'team' | 'org'
+  message: string
+}
+
+interface EmployeeFindings {
+  employeeId: string
+  name: string
+  findings: PolicyFinding[]
+}
+
+interface PolicyWarningsPanelProps {
+  /** Re-run the analysis whenever this changes (e.g. the loaded policies). */
+  refreshKey: unknown
+}
+
+const kindStyles: Record<PolicyFinding['kind'], string> = {
+  shadowed: 'bg-red-900/30 text-red-400 border-red-800',
+  redundant: 'bg-slate-700 text-slate-300 border-slate-600',
+  contradictory: 'bg-yellow-900/30 text-yellow-400 border-yellow-800',
+}
+
+export default function PolicyWarningsPanel({ refreshKey }: PolicyWarningsPanelProps) {
+  const [results, setResults] = useState<EmployeeFindings[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch('/api/policies/analyze')
+      .then(async (res) => {
+        if (!res.ok) throw new Error('Failed to analyze policies')
+        const data = await res.json()
+        if (!cancelled) {
+          setResults(Array.isArray(data) ? data : [])
+          setError(null)
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to analyze policies')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [refreshKey])
+
+  const total = results.reduce((sum, r) => sum + r.findings.length, 0)
+
+  return (
+    <div className="mb-6 bg-slate-800 rounded-lg shadow-lg border border-slate-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-700 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Policy Warnings</h3>
+          <p className="text-xs text-slate-400">
+            Shadowed, redundant and contradictory policies, per employee
+          </p>
+        </div>
+        {total > 0 && (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
+          >
+            {expanded ? 'Hide' : `Show ${total} warning${total !== 1 ? 's' : ''}`}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="px-6 py-2 text-sm text-red-400 bg-red-900/20">{error}</p>}
+
+      {!error && total === 0 && (
+        <p className="px-6 py-4 text-sm text-green-400">No conflicting policies found</p>
+      )}
+
+      {expanded && total > 0 && (
+        <div className="divide-y divide-slate-700/50">
+          {results.map((result) => (
+            <div key={result.employeeId} className="px-6 py-3">
+              <p className="text-sm font-medium text-white mb-1">{result.name}</p>
+              <ul className="space-y-1">
+                {result.findings.map((finding, idx) => (
+                  <li key={idx} className="text-xs text-slate-300 flex items-start gap-2">
+                    <span className={`shrink-0 px-1.5 py-0.5 rounded border text-[10px] ${kindStyles[finding.kind]}`}>
+                      {finding.kind}
+                    </span>
+                    <span>
+                      <span className="text-slate-400">
+                        {finding.scope === 'org' ? 'Organization' : finding.scope === 'team' ? 'Team' : 'Employee'}
+                      </span>{' '}
+                      <span className="font-mono">{finding.capability}</span>: {finding.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
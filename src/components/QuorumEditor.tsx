@@ -0,0 +1,92 @@
+'use client'
+
+import { QuorumRequirement } from '@/lib/approval-quorum'
+
+export interface QuorumDraft {
+  kind: 'group' | 'teamLead'
+  group: string
+  count: string
+}
+
+interface QuorumEditorProps {
+  approvers: QuorumDraft[]
+  /** Names of the existing approver groups. */
+  groups: string[]
+  onChange: (approvers: QuorumDraft[]) => void
+}
+
+const inputClass =
+  'px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export function toQuorumDrafts(rule: QuorumRequirement[]): QuorumDraft[] {
+  return rule.map((r) =>
+    r.teamLead
+      ? { kind: 'teamLead', group: '', count: '1' }
+      : { kind: 'group', group: r.group ?? '', count: String(r.count ?? 1) },
+  )
+}
+
+/** Counts are passed through as numbers; the server validates them. */
+export function fromQuorumDrafts(drafts: QuorumDraft[]): QuorumRequirement[] {
+  return drafts.map((d) => (d.kind === 'teamLead' ? { teamLead: true } : { group: d.group, count: Number(d.count) }))
+}
+
+export default function QuorumEditor({ approvers, groups, onChange }: QuorumEditorProps) {
+  function update(idx: number, patch: Partial<QuorumDraft>) {
+    onChange(approvers.map((a, i) => (i === idx ? { ...a, ...patch } : a)))
+  }
+
+  return (
+    <div className="space-y-2">
+      {approvers.map((approver, idx) => (
+        <div key={idx} className="flex items-center gap-2 text-xs">
+          {idx > 0 && <span className="text-slate-400">plus</span>}
+          <select
+            value={approver.kind}
+            onChange={(e) => update(idx, { kind: e.target.value as QuorumDraft['kind'] })}
+            className={inputClass}
+          >
+            <option value="group">Approvals from</option>
+            <option value="teamLead">The requester&apos;s team lead</option>
+          </select>
+          {approver.kind === 'group' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={approver.count}
+                onChange={(e) => update(idx, { count: e.target.value })}
+                className={`${inputClass} w-16`}
+              />
+              <span className="text-slate-400">from</span>
+              <select
+                value={approver.group}
+                onChange={(e) => update(idx, { group: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Select group...</option>
+                {groups.map((group) => (
+                  <option key={group} value={group}>{group}</option>
+                ))}
+              </select>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => onChange(approvers.filter((_, i) => i !== idx))}
+            className="text-red-400 hover:text-red-300"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...approvers, { kind: 'group', group: groups[0] ?? '', count: '1' }])}
+        className="text-xs text-blue-400 hover:text-blue-300"
+      >
+        + Add approver requirement
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { QUOTA_WINDOWS, Quota, QuotaWindow } from '@/lib/quotas'
+
+export interface QuotaDraft {
+  kind: Quota['kind']
+  value: string
+  window: QuotaWindow
+}
+
+interface QuotaEditorProps {
+  quotas: QuotaDraft[]
+  onChange: (quotas: QuotaDraft[]) => void
+}
+
+const inputClass =
+  'px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export function toQuotaDrafts(quotas: Quota[]): QuotaDraft[] {
+  return quotas.map((q) => ({
+    kind: q.kind,
+    value: String(q.kind === 'count' ? q.limit : q.amountUsd),
+    window: q.window,
+  }))
+}
+
+/** Values are passed through as numbers; the server validates them. */
+export function fromQuotaDrafts(drafts: QuotaDraft[]): Quota[] {
+  return drafts.map((d) =>
+    d.kind === 'count'
+      ? { kind: 'count', limit: Number(d.value), window: d.window }
+      : { kind: 'budget', amountUsd: Number(d.value), window: d.window },
+  )
+}
+
+export default function QuotaEditor({ quotas, onChange }: QuotaEditorProps) {
+  function update(idx: number, patch: Partial<QuotaDraft>) {
+    onChange(quotas.map((q, i) => (i === idx ? { ...q, ...patch } : q)))
+  }
+
+  return (
+    <div className="space-y-2">
+      {quotas.map((quota, idx) => (
+        <div key={idx} className="flex items-center gap-2 text-xs">
+          <select
+            value={quota.kind}
+            onChange={(e) => update(idx, { kind: e.target.value as Quota['kind'] })}
+            className={inputClass}
+          >
+            <option value="count">At most</option>
+            <option value="budget">Spend up to $</option>
+          </select>
+          <input
+            type="number"
+            min={0}
+            step={quota.kind === 'budget' ? '0.01' : '1'}
+            value={quota.value}
+            onChange={(e) => update(idx, { value: e.target.value })}
+            placeholder={quota.kind === 'budget' ? '25.00' : '200'}
+            className={`${inputClass} w-28`}
+          />
+          <span className="text-slate-400">{quota.kind === 'count' ? 'uses per' : 'per'}</span>
+          <select
+            value={quota.window}
+            onChange={(e) => update(idx, { window: e.target.value as QuotaWindow })}
+            className={inputClass}
+          >
+            {QUOTA_WINDOWS.map((window) => (
+              <option key={window} value={window}>{window}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => onChange(quotas.filter((_, i) => i !== idx))}
+            className="text-red-400 hover:text-red-300"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...quotas, { kind: 'count', value: '', window: 'day' }])}
+        className="text-xs text-blue-400 hover:text-blue-300"
+      >
+        + Add quota
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+'use client'
+
+import { PolicySchedule, WEEKDAYS, Weekday } from '@/lib/schedule'
+
+export interface ScheduleDraft {
+  days: Weekday[]
+  start: string
+  end: string
+  outside: boolean
+  freeze: boolean
+  timezone: string
+}
+
+interface ScheduleEditorProps {
+  schedule: ScheduleDraft
+  onChange: (schedule: ScheduleDraft) => void
+}
+
+const inputClass =
+  'px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export const emptySchedule: ScheduleDraft = {
+  days: [],
+  start: '',
+  end: '',
+  outside: false,
+  freeze: false,
+  timezone: '',
+}
+
+export function toScheduleDraft(schedule: PolicySchedule | undefined): ScheduleDraft {
+  return {
+    days: schedule?.days ?? [],
+    start: schedule?.start ?? '',
+    end: schedule?.end ?? '',
+    outside: schedule?.outside ?? false,
+    freeze: schedule?.freeze ?? false,
+    timezone: schedule?.timezone ?? '',
+  }
+}
+
+/** Build a schedule from the editor, or null when no field is set. */
+export function fromScheduleDraft(draft: ScheduleDraft): PolicySchedule | null {
+  const schedule: PolicySchedule = {
+    ...(draft.days.length > 0 ? { days: draft.days } : {}),
+    ...(draft.start ? { start: draft.start } : {}),
+    ...(draft.end ? { end: draft.end } : {}),
+    ...(draft.outside ? { outside: true } : {}),
+    ...(draft.freeze ? { freeze: true } : {}),
+    ...(draft.timezone.trim() ? { timezone: draft.timezone.trim() } : {}),
+  }
+  return Object.keys(schedule).length > 0 ? schedule : null
+}
+
+/** One-line summary, e.g. "fri 16:00–24:00" or "outside mon–fri 09:00–17:00 during freezes". */
+export function describeSchedule(schedule: PolicySchedule): string {
+  const parts: string[] = []
+  const hasWindow = schedule.days || schedule.start || schedule.end
+  if (hasWindow) {
+    if (schedule.outside) parts.push('outside')
+    if (schedule.days) parts.push(schedule.days.join(', '))
+    if (schedule.start || schedule.end) {
+      parts.push(`${schedule.start ?? '00:00'}–${schedule.end ?? '24:00'}`)
+    }
+    if (schedule.timezone) parts.push(`(${schedule.timezone})`)
+  }
+  if (schedule.freeze) parts.push(hasWindow ? 'during change freezes' : 'only during change freezes')
+  return parts.join(' ')
+}
+
+export default function ScheduleEditor({ schedule, onChange }: ScheduleEditorProps) {
+  function toggleDay(day: Weekday) {
+    const days = schedule.days.includes(day)
+      ? schedule.days.filter((d) => d !== day)
+      : WEEKDAYS.filter((d) => d === day || schedule.days.includes(d))
+    onChange({ ...schedule, days })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {WEEKDAYS.map((day) => (
+          <button
+            key={day}
+            type="button"
+            onClick={() => toggleDay(day)}
+            className={`px-2 py-1 rounded text-xs font-medium border transition-colors ${
+              schedule.days.includes(day)
+                ? 'bg-blue-900/40 border-blue-700 text-blue-300'
+                : 'bg-slate-700 border-slate-600 text-slate-400 hover:border-slate-500'
+            }`}
+          >
+            {day}
+          </button>
+        ))}
+        <input
+          type="time"
+          value={schedule.start}
+          onChange={(e) => onChange({ ...schedule, start: e.target.value })}
+          className={inputClass}
+        />
+        <span className="text-slate-500 text-sm">to</span>
+        <input
+          type="time"
+          value={schedule.end}
+          onChange={(e) => onChange({ ...schedule, end: e.target.value })}
+          className={inputClass}
+        />
+        <input
+          value={schedule.timezone}
+          onChange={(e) => onChange({ ...schedule, timezone: e.target.value })}
+          placeholder="Employee timezone"
+          className={`${inputClass} w-44`}
+        />
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-slate-300">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={schedule.outside}
+            onChange={(e) => onChange({ ...schedule, outside: e.target.checked })}
+          />
+          Apply outside this window
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={schedule.freeze}
+            onChange={(e) => onChange({ ...schedule, freeze: e.target.checked })}
+          />
+          Only during a change freeze
+        </label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+'use client'
+
+import { DiffCell, diffLines, sideBySide, summarizeDiff } from '@/lib/text-diff'
+
+interface SideBySideDiffProps {
+  before: string
+  after: string
+  beforeLabel?: string
+  afterLabel?: string
+}
+
+const cellStyle: Record<DiffCell['change'], string> = {
+  same: 'text-slate-300',
+  removed: 'bg-red-900/30 text-red-300',
+  added: 'bg-green-900/30 text-green-300',
+}
+
+function Cell({ cell }: { cell: DiffCell | null }) {
+  if (!cell) {
+    return <td colSpan={2} className="bg-slate-800/40" />
+  }
+  return (
+    <>
+      <td className="w-10 pr-2 text-right text-slate-500 select-none align-top">{cell.number}</td>
+      <td className={`px-2 whitespace-pre-wrap break-words align-top ${cellStyle[cell.change]}`}>{cell.text || ' '}</td>
+    </>
+  )
+}
+
+export default function SideBySideDiff({
+  before,
+  after,
+  beforeLabel = 'Proposed',
+  afterLabel = 'Amended',
+}: SideBySideDiffProps) {
+  const lines = diffLines(before, after)
+  const { added, removed } = summarizeDiff(lines)
+
+  return (
+    <div className="bg-slate-900 rounded-lg overflow-x-auto">
+      <table className="w-full table-fixed text-sm font-mono">
+        <thead>
+          <tr className="text-left text-xs text-slate-400 font-sans">
+            <th colSpan={2} className="px-2 py-2">{beforeLabel}</th>
+            <th colSpan={2} className="px-2 py-2">
+              {afterLabel}
+              <span className="ml-2 text-green-400">+{added}</span>
+              <span className="ml-1 text-red-400">−{removed}</span>
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {sideBySide(lines).map((row, idx) => (
+            <tr key={idx}>
+              <Cell cell={row.left} />
+              <Cell cell={row.right} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,266 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import ConditionEditor, { ConditionDraft, describeConditions, fromConditionDrafts } from '@/components/ConditionEditor'
+import { parseConditionList } from '@/lib/conditions'
+
+interface StandingApproval {
+  id: string
+  employeeId: string
+  capability: string
+  conditions: string
+  grantedBy: string
+  justification: string
+  startsAt: string
+  expiresAt: string
+  revokedAt: string | null
+  revokedBy: string
+  uses: number
+  lastUsedAt: string | null
+  employee?: { id: string; name: string }
+}
+
+/** What the form starts from, e.g. the request a reviewer wants to approve the like of. */
+export interface StandingDraft {
+  employeeId: string
+  capability: string
+}
+
+interface StandingApprovalsPanelProps {
+  employees: Array<{ id: string; name: string }>
+  /** Who is granting and revoking, as entered on the approvals page. */
+  approver: string
+  /** Opens the form prefilled when set. */
+  draft: StandingDraft | null
+  onDraftDone: () => void
+  /** Called after pending requests were approved along with a new standing approval. */
+  onApproved: () => void
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const DURATIONS: Array<[string, number]> = [
+  ['1 hour', 60],
+  ['4 hours', 240],
+  ['1 day', 1440],
+  ['1 week', 10080],
+]
+
+function isActive(standing: StandingApproval, now: number): boolean {
+  return !standing.revokedAt && new Date(standing.startsAt).getTime() <= now && now < new Date(standing.expiresAt).getTime()
+}
+
+export default function StandingApprovalsPanel({
+  employees,
+  approver,
+  draft,
+  onDraftDone,
+  onApproved,
+}: StandingApprovalsPanelProps) {
+  const [standing, setStanding] = useState<StandingApproval[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [employeeId, setEmployeeId] = useState('')
+  const [capability, setCapability] = useState('')
+  const [conditions, setConditions] = useState<ConditionDraft[]>([])
+  const [durationMinutes, setDurationMinutes] = useState(240)
+  const [justification, setJustification] = useState('')
+  const [approvePending, setApprovePending] = useState(true)
+
+  useEffect(() => {
+    fetchStanding()
+  }, [])
+
+  useEffect(() => {
+    if (!draft) return
+    setEmployeeId(draft.employeeId)
+    setCapability(draft.capability)
+    setConditions([])
+    setShowForm(true)
+    onDraftDone()
+  }, [draft])
+
+  async function fetchStanding() {
+    try {
+      const res = await fetch('/api/standing-approvals')
+      if (!res.ok) throw new Error('Failed to fetch standing approvals')
+      const data = await res.json()
+      setStanding(Array.isArray(data) ? data : [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch standing approvals')
+    }
+  }
+
+  function resetForm() {
+    setEmployeeId('')
+    setCapability('')
+    setConditions([])
+    setDurationMinutes(240)
+    setJustification('')
+    setShowForm(false)
+  }
+
+  async function handleGrant() {
+    try {
+      setSaving(true)
+      setError(null)
+      setNotice(null)
+      const res = await fetch('/api/standing-approvals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          employeeId,
+          capability,
+          conditions: fromConditionDrafts(conditions),
+          durationMinutes,
+          grantedBy: approver,
+          justification,
+          approvePending,
+        }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        throw new Error([data.error || 'Failed to grant standing approval', ...(data.issues ?? [])].join(' — '))
+      }
+      const covered: Array<{ ok: boolean }> = data.covered ?? []
+      if (covered.length > 0) {
+        const failed = covered.filter((c) => !c.ok).length
+        setNotice(
+          `Approved ${covered.length - failed} pending ${covered.length - failed === 1 ? 'request' : 'requests'} it covers` +
+            (failed > 0 ? ` (${failed} could not be approved)` : '')
+        )
+        onApproved()
+      }
+      resetForm()
+      fetchStanding()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to grant standing approval')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleRevoke(id: string) {
+    try {
+      setError(null)
+      const res = await fetch(`/api/standing-approvals/${id}?revokedBy=${encodeURIComponent(approver)}`, { method: 'DELETE' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || 'Failed to revoke standing approval')
+      fetchStanding()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke standing approval')
+    }
+  }
+
+  const now = Date.now()
+  const active = standing.filter((s) => isActive(s, now))
+  const past = standing.filter((s) => !isActive(s, now)).slice(0, 5)
+
+  return (
+    <div className="mb-6 bg-slate-800 rounded-lg shadow-lg border border-slate-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-700 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Standing Approvals</h3>
+          <p className="text-xs text-slate-400">
+            Matching actions are allowed without a request until the approval expires or is revoked
+          </p>
+        </div>
+        <button
+          onClick={() => (showForm ? resetForm() : setShowForm(true))}
+          className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
+        >
+          {showForm ? 'Cancel' : 'New Standing Approval'}
+        </button>
+      </div>
+
+      {error && <p className="px-6 py-2 text-sm text-red-400 bg-red-900/20">{error}</p>}
+      {notice && <p className="px-6 py-2 text-sm text-green-400 bg-green-900/20">{notice}</p>}
+
+      {showForm && (
+        <div className="p-6 border-b border-slate-700 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select value={employeeId} onChange={(e) => setEmployeeId(e.target.value)} className={inputClass}>
+              <option value="">Employee…</option>
+              {employees.map((emp) => (
+                <option key={emp.id} value={emp.id}>{emp.name}</option>
+              ))}
+            </select>
+            <input
+              value={capability}
+              onChange={(e) => setCapability(e.target.value)}
+              placeholder="Capability, e.g. send_email"
+              className={inputClass}
+            />
+            <select value={durationMinutes} onChange={(e) => setDurationMinutes(Number(e.target.value))} className={inputClass}>
+              {DURATIONS.map(([label, minutes]) => (
+                <option key={minutes} value={minutes}>for {label}</option>
+              ))}
+            </select>
+          </div>
+          <ConditionEditor conditions={conditions} onChange={setConditions} pathPlaceholder="recipient" />
+          <input
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            placeholder="Justification (required)"
+            className={inputClass}
+          />
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input type="checkbox" checked={approvePending} onChange={(e) => setApprovePending(e.target.checked)} />
+              Also approve the pending requests it covers
+            </label>
+            <button
+              onClick={handleGrant}
+              disabled={saving || !employeeId || !capability || !justification.trim() || !approver.trim()}
+              title={approver.trim() ? undefined : 'Enter who you are reviewing as'}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-40"
+            >
+              {saving ? 'Granting...' : 'Grant'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {active.length === 0 && past.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-slate-500">No standing approvals</p>
+      ) : (
+        <ul className="divide-y divide-slate-700">
+          {[...active, ...past].map((s) => {
+            const when = describeConditions(parseConditionList(s.conditions) ?? [])
+            const inForce = isActive(s, now)
+            return (
+              <li key={s.id} className={`px-6 py-3 flex items-center justify-between text-sm ${inForce ? '' : 'opacity-60'}`}>
+                <div>
+                  <span className="font-medium text-blue-400">{s.employee?.name ?? s.employeeId}</span>{' '}
+                  <span className="font-mono">{s.capability}</span>
+                  {when && <span className="text-slate-400"> when {when}</span>}
+                  <p className="text-xs text-slate-500">
+                    {s.revokedAt
+                      ? `Revoked by ${s.revokedBy} ${new Date(s.revokedAt).toLocaleString()}`
+                      : inForce
+                      ? `Until ${new Date(s.expiresAt).toLocaleString()}`
+                      : `Expired ${new Date(s.expiresAt).toLocaleString()}`}
+                    {' · '}granted by {s.grantedBy} · used {s.uses} {s.uses === 1 ? 'time' : 'times'} · {s.justification}
+                  </p>
+                </div>
+                {inForce && (
+                  <button
+                    onClick={() => handleRevoke(s.id)}
+                    disabled={!approver.trim()}
+                    title={approver.trim() ? undefined : 'Enter who you are reviewing as'}
+                    className="px-3 py-1 bg-red-900/40 hover:bg-red-900/60 text-red-400 rounded text-xs transition-colors disabled:opacity-40"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
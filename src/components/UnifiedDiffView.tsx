@@ -0,0 +1,189 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { DiffFile, FileChange, HunkLine, LineAnchor, lineAnchor } from '@/lib/unified-diff'
+
+export interface LineComment {
+  id: string
+  author: string
+  body: string
+  createdAt: string
+  file: string
+  side: string
+  line: number | null
+}
+
+interface UnifiedDiffViewProps {
+  files: DiffFile[]
+  /** Comments anchored to lines of these files. */
+  comments: LineComment[]
+  /** Save a comment on a line, resolving true once saved; omit to make the view read-only. */
+  onComment?: (anchor: LineAnchor, body: string) => Promise<boolean>
+}
+
+const changeBadge: Record<FileChange, string> = {
+  added: 'bg-green-900/30 text-green-400 border-green-800',
+  deleted: 'bg-red-900/30 text-red-400 border-red-800',
+  modified: 'bg-slate-700 text-slate-300 border-slate-600',
+  renamed: 'bg-blue-900/30 text-blue-400 border-blue-800',
+}
+
+const lineStyle: Record<HunkLine['kind'], string> = {
+  context: 'text-slate-300',
+  add: 'bg-green-900/30 text-green-300',
+  delete: 'bg-red-900/30 text-red-300',
+}
+
+const marker: Record<HunkLine['kind'], string> = { context: ' ', add: '+', delete: '-' }
+
+function anchorKey(anchor: { file: string; side: string; line: number | null }): string {
+  return `${anchor.file}:${anchor.side}:${anchor.line}`
+}
+
+export default function UnifiedDiffView({ files, comments, onComment }: UnifiedDiffViewProps) {
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({})
+  const [active, setActive] = useState<LineAnchor | null>(null)
+  const [draft, setDraft] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const commentsByLine = new Map<string, LineComment[]>()
+  for (const comment of comments) {
+    const key = anchorKey(comment)
+    commentsByLine.set(key, [...(commentsByLine.get(key) ?? []), comment])
+  }
+
+  function toggle(key: string) {
+    setCollapsed((prev) => ({ ...prev, [key]: !prev[key] }))
+  }
+
+  function startComment(anchor: LineAnchor) {
+    setActive(anchor)
+    setDraft('')
+  }
+
+  async function saveComment() {
+    if (!active || !onComment || !draft.trim()) return
+    setSaving(true)
+    const saved = await onComment(active, draft.trim())
+    setSaving(false)
+    if (saved) setActive(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      {files.map((file) => (
+        <div key={file.path} className="bg-slate-900 rounded-lg border border-slate-700 overflow-hidden">
+          <button
+            onClick={() => toggle(file.path)}
+            className="w-full flex items-center gap-3 px-4 py-2 bg-slate-800 text-left text-sm hover:bg-slate-700 transition-colors"
+          >
+            <span className="text-slate-500 w-3">{collapsed[file.path] ? '▸' : '▾'}</span>
+            <span className={`px-2 py-0.5 rounded text-xs font-medium border ${changeBadge[file.change]}`}>{file.change}</span>
+            <span className="font-mono text-slate-200 flex-1 truncate">
+              {file.change === 'renamed' ? `${file.oldPath} → ${file.newPath}` : file.path}
+            </span>
+            <span className="text-green-400">+{file.additions}</span>
+            <span className="text-red-400">−{file.deletions}</span>
+          </button>
+
+          {!collapsed[file.path] && (
+            <div className="overflow-x-auto">
+              {file.binary && <p className="px-4 py-2 text-sm text-slate-400">Binary file not shown</p>}
+              <table className="w-full text-sm font-mono">
+                {file.hunks.map((hunk, h) => {
+                  const hunkKey = `${file.path}#${h}`
+                  return (
+                    <tbody key={hunkKey}>
+                      <tr>
+                        <td colSpan={4} className="p-0">
+                          <button
+                            onClick={() => toggle(hunkKey)}
+                            className="w-full px-4 py-1 bg-blue-900/20 text-left text-xs text-blue-300 hover:bg-blue-900/40 transition-colors"
+                          >
+                            {collapsed[hunkKey] ? '▸' : '▾'} {hunk.header}
+                            {collapsed[hunkKey] && <span className="text-slate-500"> ({hunk.lines.length} lines hidden)</span>}
+                          </button>
+                        </td>
+                      </tr>
+                      {!collapsed[hunkKey] &&
+                        hunk.lines.map((line, l) => {
+                          const anchor = lineAnchor(line, file.path)
+                          const key = anchorKey(anchor)
+                          const lineComments = commentsByLine.get(key) ?? []
+                          const isActive = active !== null && anchorKey(active) === key
+                          return (
+                            <Fragment key={l}>
+                              <tr className={`group ${lineStyle[line.kind]}`}>
+                                <td className="w-12 pr-2 text-right text-slate-500 select-none align-top">{line.oldNumber ?? ''}</td>
+                                <td className="w-12 pr-2 text-right text-slate-500 select-none align-top">
+                                  {onComment ? (
+                                    <button
+                                      onClick={() => startComment(anchor)}
+                                      title={`Comment on line ${anchor.line}`}
+                                      className="hover:text-blue-400"
+                                    >
+                                      <span className="group-hover:hidden">{line.newNumber ?? ''}</span>
+                                      <span className="hidden group-hover:inline">+</span>
+                                    </button>
+                                  ) : (
+                                    line.newNumber ?? ''
+                                  )}
+                                </td>
+                                <td className="w-4 select-none align-top">{marker[line.kind]}</td>
+                                <td className="pr-4 whitespace-pre">
+                                  {line.text}
+                                  {line.noNewlineAtEnd && <span className="ml-2 text-xs text-slate-500">no newline at end of file</span>}
+                                </td>
+                              </tr>
+                              {(lineComments.length > 0 || isActive) && (
+                                <tr>
+                                  <td colSpan={4} className="px-4 py-2 bg-slate-800/60 font-sans space-y-2">
+                                    {lineComments.map((comment) => (
+                                      <div key={comment.id} className="text-sm text-slate-300">
+                                        <span className="text-slate-400">{comment.author}</span>
+                                        <span className="text-xs text-slate-500"> · {new Date(comment.createdAt).toLocaleString()}</span>
+                                        <p className="whitespace-pre-wrap">{comment.body}</p>
+                                      </div>
+                                    ))}
+                                    {isActive && (
+                                      <div className="flex items-start gap-2">
+                                        <textarea
+                                          value={draft}
+                                          onChange={(e) => setDraft(e.target.value)}
+                                          rows={2}
+                                          autoFocus
+                                          placeholder={`Comment on line ${anchor.line}`}
+                                          className="flex-1 px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                        <button
+                                          onClick={saveComment}
+                                          disabled={saving || !draft.trim()}
+                                          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded text-sm transition-colors disabled:opacity-40"
+                                        >
+                                          {saving ? '...' : 'Comment'}
+                                        </button>
+                                        <button
+                                          onClick={() => setActive(null)}
+                                          className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
+                                        >
+                                          Cancel
+                                        </button>
+                                      </div>
+                                    )}
+                                  </td>
+                                </tr>
+                              )}
+                            </Fragment>
+                          )
+                        })}
+                    </tbody>
+                  )
+                })}
+              </table>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,310 @@
+'use client'
+
+import { useState } from 'react'
+import { Condition } from '@/lib/conditions'
+import { WorkflowStep, isParallelStep } from '@/lib/workflow-dsl'
+import ConditionEditor, {
+  ConditionDraft,
+  fromConditionDrafts,
+  toConditionDrafts,
+} from '@/components/ConditionEditor'
+
+interface StepDraft {
+  id: string
+  agent: string
+  action: string
+  retries: string
+  timeoutMs: string
+  conditions: ConditionDraft[]
+  /** Run alongside the previous row as part of the same parallel group. */
+  parallelWithPrevious: boolean
+  /** Join mode of the group this row starts (only used by a group's first row). */
+  join: 'all' | 'any'
+  /** Group-level conditions, carried over unchanged from the loaded definition. */
+  groupConditions: Condition[]
+}
+
+interface WorkflowStepEditorProps {
+  members: string[]
+  initialTrigger?: string
+  initialSteps?: WorkflowStep[]
+  saving: boolean
+  issues: string[]
+  onSave: (trigger: string, steps: WorkflowStep[]) => void
+  onCancel: () => void
+}
+
+const inputClass =
+  'w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+function emptyStep(agent = ''): StepDraft {
+  return {
+    id: '',
+    agent,
+    action: '',
+    retries: '',
+    timeoutMs: '',
+    conditions: [],
+    parallelWithPrevious: false,
+    join: 'all',
+    groupConditions: [],
+  }
+}
+
+function toDrafts(steps: WorkflowStep[]): StepDraft[] {
+  return steps.flatMap((step) => {
+    if (!isParallelStep(step)) {
+      return [{
+        ...emptyStep(step.agent),
+        id: step.id ?? '',
+        action: step.action,
+        retries: step.retries ? String(step.retries) : '',
+        timeoutMs: step.timeoutMs ? String(step.timeoutMs) : '',
+        conditions: toConditionDrafts(step.if ?? []),
+      }]
+    }
+    return step.parallel.map((branch, idx) => ({
+      ...emptyStep(branch.agent),
+      id: branch.id ?? '',
+      action: branch.action,
+      retries: branch.retries ? String(branch.retries) : '',
+      timeoutMs: branch.timeoutMs ? String(branch.timeoutMs) : '',
+      conditions: toConditionDrafts(branch.if ?? []),
+      parallelWithPrevious: idx > 0,
+      join: step.join ?? 'all',
+      groupConditions: idx === 0 ? step.if ?? [] : [],
+    }))
+  })
+}
+
+/**
+ * Build a definition from the editor rows. Field values are passed through
+ * as entered; the server validates them and reports any issues.
+ */
+function toDefinition(drafts: StepDraft[]): unknown[] {
+  const toAction = (d: StepDraft) => ({
+    ...(d.id.trim() ? { id: d.id.trim() } : {}),
+    agent: d.agent,
+    action: d.action.trim(),
+    ...(d.retries !== '' ? { retries: Number(d.retries) } : {}),
+    ...(d.timeoutMs !== '' ? { timeoutMs: Number(d.timeoutMs) } : {}),
+    ...(d.conditions.length > 0 ? { if: fromConditionDrafts(d.conditions) } : {}),
+  })
+
+  const groups: StepDraft[][] = []
+  for (const draft of drafts) {
+    if (draft.parallelWithPrevious && groups.length > 0) {
+      groups[groups.length - 1].push(draft)
+    } else {
+      groups.push([draft])
+    }
+  }
+
+  return groups.map((group, idx) => {
+    const order = idx + 1
+    if (group.length === 1) {
+      return { ...toAction(group[0]), order }
+    }
+    return {
+      order,
+      join: group[0].join,
+      ...(group[0].groupConditions.length > 0 ? { if: group[0].groupConditions } : {}),
+      parallel: group.map(toAction),
+    }
+  })
+}
+
+export default function WorkflowStepEditor({
+  members,
+  initialTrigger = '',
+  initialSteps = [],
+  saving,
+  issues,
+  onSave,
+  onCancel,
+}: WorkflowStepEditorProps) {
+  const [trigger, setTrigger] = useState(initialTrigger)
+  const [drafts, setDrafts] = useState<StepDraft[]>(
+    initialSteps.length > 0 ? toDrafts(initialSteps) : [emptyStep(members[0])],
+  )
+
+  function updateDraft(idx: number, patch: Partial<StepDraft>) {
+    setDrafts((prev) => prev.map((d, i) => (i === idx ? { ...d, ...patch } : d)))
+  }
+
+  function moveDraft(idx: number, delta: number) {
+    setDrafts((prev) => {
+      const target = idx + delta
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      ;[next[idx], next[target]] = [next[target], next[idx]]
+      next[0] = { ...next[0], parallelWithPrevious: false }
+      return next
+    })
+  }
+
+  function removeDraft(idx: number) {
+    setDrafts((prev) => {
+      const next = prev.filter((_, i) => i !== idx)
+      if (next.length > 0) next[0] = { ...next[0], parallelWithPrevious: false }
+      return next
+    })
+  }
+
+  const startsGroup = (idx: number) =>
+    !drafts[idx].parallelWithPrevious && drafts[idx + 1]?.parallelWithPrevious === true
+
+  const canSave =
+    trigger.trim() !== '' && drafts.length > 0 && drafts.every((d) => d.agent && d.action.trim())
+
+  return (
+    <div className="p-4 bg-slate-900/50 rounded-lg border border-slate-600 space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-slate-300 mb-2">Trigger</label>
+        <input
+          value={trigger}
+          onChange={(e) => setTrigger(e.target.value)}
+          placeholder="e.g. security_alert"
+          className={inputClass}
+        />
+      </div>
+
+      <div className="space-y-3">
+        {drafts.map((draft, idx) => (
+          <div
+            key={idx}
+            className={`p-3 rounded-lg border ${
+              draft.parallelWithPrevious
+                ? 'ml-6 border-purple-800/60 bg-purple-900/10'
+                : 'border-slate-700 bg-slate-800/60'
+            }`}
+          >
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Agent</label>
+                <select
+                  value={draft.agent}
+                  onChange={(e) => updateDraft(idx, { agent: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Select agent...</option>
+                  {members.map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-xs text-slate-400 mb-1">Action</label>
+                <input
+                  value={draft.action}
+                  onChange={(e) => updateDraft(idx, { action: e.target.value })}
+                  placeholder="e.g. assess_threat"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Retries</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.retries}
+                  onChange={(e) => updateDraft(idx, { retries: e.target.value })}
+                  placeholder="0"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Timeout (ms)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.timeoutMs}
+                  onChange={(e) => updateDraft(idx, { timeoutMs: e.target.value })}
+                  placeholder="None"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Step id</label>
+                <input
+                  value={draft.id}
+                  onChange={(e) => updateDraft(idx, { id: e.target.value })}
+                  placeholder="auto"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="mt-2">
+              <ConditionEditor
+                conditions={draft.conditions}
+                onChange={(conditions) => updateDraft(idx, { conditions })}
+              />
+            </div>
+
+            <div className="mt-2 flex flex-wrap items-center gap-3 text-xs">
+              {idx > 0 && (
+                <label className="flex items-center gap-1 text-purple-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={draft.parallelWithPrevious}
+                    onChange={(e) => updateDraft(idx, { parallelWithPrevious: e.target.checked })}
+                  />
+                  Parallel with previous
+                </label>
+              )}
+              {startsGroup(idx) && (
+                <label className="flex items-center gap-1 text-purple-400">
+                  Join
+                  <select
+                    value={draft.join}
+                    onChange={(e) => updateDraft(idx, { join: e.target.value as 'all' | 'any' })}
+                    className="px-1 py-0.5 bg-slate-700 border border-slate-600 rounded text-white"
+                  >
+                    <option value="all">all</option>
+                    <option value="any">any</option>
+                  </select>
+                </label>
+              )}
+              <span className="flex-1" />
+              <button onClick={() => moveDraft(idx, -1)} className="text-slate-400 hover:text-white">↑</button>
+              <button onClick={() => moveDraft(idx, 1)} className="text-slate-400 hover:text-white">↓</button>
+              <button onClick={() => removeDraft(idx)} className="text-red-400 hover:text-red-300">Remove</button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => setDrafts((prev) => [...prev, emptyStep(members[0])])}
+        className="text-sm text-blue-400 hover:text-blue-300"
+      >
+        + Add step
+      </button>
+
+      {issues.length > 0 && (
+        <ul className="p-3 bg-red-900/30 border border-red-700 rounded-lg text-xs text-red-400 list-disc list-inside space-y-1">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(trigger.trim(), toDefinition(drafts) as WorkflowStep[])}
+          disabled={saving || !canSave}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-40"
+        >
+          {saving ? 'Saving...' : 'Save Rule'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+// ---------------------------------------------------------------------------
+// Approval decisions
+// A reviewer's decision on an approval request records who made it and why,
+// and is signed: its fields are hashed (SHA-256 over a fixed encoding) and
+// the digest is stored on the request and quoted in the audit entry for the
+// decision. The audit chain covers each entry's details, so the approver,
+// justification and digest cannot be rewritten without breaking the chain,
+// and `verifyDecision` catches a request row edited after the fact.
+//
+// Denials must be justified; approvals may be. Comments are a separate,
+// unsigned thread on the request, each one audit-logged as it is added.
+//
+// A reviewer may edit the request's diff (the artifact the agent proposed)
+// before approving it. The amended version is stored beside the original,
+// signed with the decision, and is what the agent goes on to act with.
+// ---------------------------------------------------------------------------
+
+import { createHash } from 'crypto'
+
+export type ApprovalDecisionStatus = 'approved' | 'denied'
+
+export const APPROVAL_DECISIONS: ApprovalDecisionStatus[] = ['approved', 'denied']
+
+/** Longest justification or comment accepted, in characters. */
+export const MAX_APPROVAL_TEXT = 2000
+
+/** Longest amended diff accepted, in characters. */
+export const MAX_AMENDED_DIFF = 100_000
+
+export interface ApprovalDecisionInput {
+  status?: unknown
+  approver?: unknown
+  justification?: unknown
+  comment?: unknown
+  amendedDiff?: unknown
+}
+
+export interface ApprovalDecision {
+  approvalRequestId: string
+  employeeId: string
+  action: string
+  status: ApprovalDecisionStatus
+  decidedBy: string
+  justification: string
+  decidedAt: Date
+  /** The reviewer's edit of the request's diff; empty when approved as proposed. */
+  amendedDiff: string
+}
+
+/** How a stored decision checks out against its digest; requests decided before signing are unsigned. */
+export type DecisionSignature = 'valid' | 'invalid' | 'unsigned'
+
+function validateText(value: unknown, field: string): string | null {
+  if (value === undefined) return null
+  if (typeof value !== 'string') return `${field} must be a string`
+  if (value.length > MAX_APPROVAL_TEXT) return `${field} must be at most ${MAX_APPROVAL_TEXT} characters`
+  return null
+}
+
+/** The first problem with a decision, shaped as an API error body, or null when it is valid. */
+export function validateApprovalDecision(input: ApprovalDecisionInput): { error: string } | null {
+  if (!APPROVAL_DECISIONS.includes(input.status as ApprovalDecisionStatus)) {
+    return { error: 'Status must be "approved" or "denied"' }
+  }
+  if (typeof input.approver !== 'string' || !input.approver.trim()) {
+    return { error: 'approver is required' }
+  }
+  const textError = validateText(input.justification, 'justification') ?? validateText(input.comment, 'comment')
+  if (textError) {
+    return { error: textError }
+  }
+  if (input.status === 'denied' && !(input.justification as string | undefined)?.trim()) {
+    return { error: 'justification is required when denying a request' }
+  }
+  if (input.amendedDiff !== undefined) {
+    if (typeof input.amendedDiff !== 'string') {
+      return { error: 'amendedDiff must be a string' }
+    }
+    if (input.amendedDiff.length > MAX_AMENDED_DIFF) {
+      return { error: `amendedDiff must be at most ${MAX_AMENDED_DIFF} characters` }
+    }
+    if (input.status !== 'approved' && input.amendedDiff !== '') {
+      return { error: 'amendedDiff can only accompany an approval' }
+    }
+  }
+  return null
+}
+
+/**
+ * The amendment to store for a reviewer's edit of `diff`: empty when the
+ * edit leaves the diff unchanged, so an untouched editor approves verbatim.
+ */
+export function amendmentOf(diff: string, amendedDiff: string | undefined): string {
+  return amendedDiff === undefined || amendedDiff === diff ? '' : amendedDiff
+}
+
+/** The artifact an approved request lets the agent act with. */
+export function approvedDiff(request: { diff: string; amendedDiff: string }): string {
+  return request.amendedDiff || request.diff
+}
+
+/** The first problem with a comment, or null when it is valid. */
+export function validateApprovalComment(input: { author?: unknown; body?: unknown }): { error: string } | null {
+  if (typeof input.author !== 'string' || !input.author.trim()) {
+    return { error: 'author is required' }
+  }
+  if (typeof input.body !== 'string' || !input.body.trim()) {
+    return { error: 'body is required' }
+  }
+  const textError = validateText(input.body, 'body')
+  return textError ? { error: textError } : null
+}
+
+/**
+ * SHA-256 over the decision's fields, in a fixed order. An amendment is
+ * covered by its own hash, appended only when there is one so decisions
+ * signed before amendments existed still verify.
+ */
+export function decisionDigest(decision: ApprovalDecision): string {
+  const payload = JSON.stringify([
+    decision.approvalRequestId,
+    decision.employeeId,
+    decision.action,
+    decision.status,
+    decision.decidedBy,
+    decision.justification,
+    decision.decidedAt.toISOString(),
+    ...(decision.amendedDiff ? [createHash('sha256').update(decision.amendedDiff).digest('hex')] : []),
+  ])
+  return createHash('sha256').update(payload).digest('hex')
+}
+
+/** Rebuild the decision stored on a resolved request; null while it is pending. */
+export function storedDecision(request: {
+  id: string
+  employeeId: string
+  action: string
+  status: string
+  decidedBy: string
+  justification: string
+  resolvedAt: Date | null
+  amendedDiff: string
+}): ApprovalDecision | null {
+  if (!APPROVAL_DECISIONS.includes(request.status as ApprovalDecisionStatus) || !request.resolvedAt) {
+    return null
+  }
+  return {
+    approvalRequestId: request.id,
+    employeeId: request.employeeId,
+    action: request.action,
+    status: request.status as ApprovalDecisionStatus,
+    decidedBy: request.decidedBy,
+    justification: request.justification,
+    decidedAt: request.resolvedAt,
+    amendedDiff: request.amendedDiff,
+  }
+}
+
+/** Check a resolved request's fields against the digest recorded when it was decided. */
+export function verifyDecision(
+  request: Parameters<typeof storedDecision>[0] & { decisionHash: string },
+): DecisionSignature {
+  const decision = storedDecision(request)
+  if (!decision || !request.decisionHash) return 'unsigned'
+  return decisionDigest(decision) === request.decisionHash ? 'valid' : 'invalid'
+}
+
+/** Audit log details for a decision, quoting everything the digest covers. */
+export function describeDecision(
+  decision: ApprovalDecision,
+  employeeName: string,
+  digest: string,
+  comment?: string,
+): string {
+  return [
+    `Approval request for "${decision.action}" was ${decision.status}`,
+    ...(decision.amendedDiff ? [' with modifications'] : []),
+    ` by ${decision.decidedBy} (employee: "${employeeName}")`,
+    ...(decision.justification ? [`; justification: ${JSON.stringify(decision.justification)}`] : []),
+    ...(comment ? [`; comment: ${JSON.stringify(comment)}`] : []),
+    ` [decision sha256:${digest}]`,
+  ].join('')
+}
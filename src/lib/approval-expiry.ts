@@ -0,0 +1,111 @@
+// ---------------------------------------------------------------------------
+// Approval expiry
+// An approval_required policy may give its requests a time limit:
+//
+//   { "afterMinutes": 240, "action": "deny" }
+//   { "afterMinutes": 60, "action": "escalate", "escalateTo": "security" }
+//
+// The timeout is copied onto the request when it is created, with the
+// deadline in `expiresAt`. When a pending request passes its deadline it is
+// either denied, signed by "system" like any other decision, or escalated
+// once: the named ApproverGroup takes over (any one member decides it, see
+// `requestQuorum`) and gets a fresh deadline, after which it is denied.
+//
+// Overdue requests are acted on by the sweep in approval-sweep.ts.
+// ---------------------------------------------------------------------------
+
+export type ExpiryAction = 'deny' | 'escalate'
+
+export const EXPIRY_ACTIONS: ExpiryAction[] = ['deny', 'escalate']
+
+export interface ApprovalExpiry {
+  afterMinutes: number
+  action: ExpiryAction
+  /** ApproverGroup to escalate to; required for "escalate". */
+  escalateTo?: string
+}
+
+/** What happens to an overdue request next. */
+export type ExpiryStep =
+  | { kind: 'escalate'; escalateTo: string; expiresAt: Date }
+  | { kind: 'deny'; reason: string }
+
+export function parseExpiry(raw: string | null | undefined): ApprovalExpiry | null {
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw)
+    return typeof parsed === 'object' && parsed !== null && typeof parsed.afterMinutes === 'number' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/** Human-readable problems with a timeout; empty when it is valid or absent. */
+export function validateExpiry(value: unknown): string[] {
+  if (value === null || value === '') return []
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return ['expiry must be an object or null']
+  }
+  const expiry = value as Record<string, unknown>
+  const issues: string[] = []
+  if (!Number.isInteger(expiry.afterMinutes) || (expiry.afterMinutes as number) < 1) {
+    issues.push('expiry.afterMinutes must be a positive integer')
+  }
+  if (!EXPIRY_ACTIONS.includes(expiry.action as ExpiryAction)) {
+    issues.push(`expiry.action must be one of: ${EXPIRY_ACTIONS.join(', ')}`)
+  } else if (expiry.action === 'escalate' && (typeof expiry.escalateTo !== 'string' || !expiry.escalateTo.trim())) {
+    issues.push('expiry.escalateTo must name an approver group when escalating')
+  }
+  return issues
+}
+
+/** e.g. `1h 30m`. */
+export function formatMinutes(minutes: number): string {
+  const days = Math.floor(minutes / 1440)
+  const hours = Math.floor((minutes % 1440) / 60)
+  const mins = Math.round(minutes % 60)
+  const parts = [...(days ? [`${days}d`] : []), ...(hours ? [`${hours}h`] : []), ...(mins ? [`${mins}m`] : [])]
+  return parts.join(' ') || '0m'
+}
+
+/** e.g. `auto-denies after 4h`. */
+export function describeExpiry(expiry: ApprovalExpiry): string {
+  const after = formatMinutes(expiry.afterMinutes)
+  return expiry.action === 'escalate'
+    ? `escalates to "${expiry.escalateTo}" after ${after}, then auto-denies after another ${after}`
+    : `auto-denies after ${after}`
+}
+
+/** When several policies require approval, the shortest timeout applies. */
+export function strictestExpiry(expiries: Array<ApprovalExpiry | null>): ApprovalExpiry | null {
+  return expiries.reduce<ApprovalExpiry | null>(
+    (strictest, expiry) => (expiry && (!strictest || expiry.afterMinutes < strictest.afterMinutes) ? expiry : strictest),
+    null,
+  )
+}
+
+export function expiryDeadline(from: Date, expiry: ApprovalExpiry): Date {
+  return new Date(from.getTime() + expiry.afterMinutes * 60_000)
+}
+
+/**
+ * Decide what an overdue request turns into: escalated once, then denied.
+ * The escalation window runs from the missed deadline, so a late sweep does
+ * not give the request extra time.
+ */
+export function nextExpiryStep(
+  request: { expiry: string; escalatedTo: string; expiresAt: Date | null },
+  now: Date,
+): ExpiryStep {
+  const expiry = parseExpiry(request.expiry)
+  const after = formatMinutes(expiry?.afterMinutes ?? 0)
+  if (expiry?.action === 'escalate' && expiry.escalateTo && !request.escalatedTo) {
+    return { kind: 'escalate', escalateTo: expiry.escalateTo, expiresAt: expiryDeadline(request.expiresAt ?? now, expiry) }
+  }
+  return {
+    kind: 'deny',
+    reason: request.escalatedTo
+      ? `Not decided within ${after} of escalation to "${request.escalatedTo}"`
+      : `Not decided within ${after}`,
+  }
+}
@@ -0,0 +1,38 @@
+// ---------------------------------------------------------------------------
+// Approval request fingerprints
+// An agent that retries an action while its approval request is pending
+// would otherwise queue a new request per attempt. Each request stores a
+// fingerprint of who asked for what, in which context; a retry with the same
+// fingerprint is counted on the pending request instead (see
+// PolicyEngine.createApprovalRequest).
+//
+// Context objects are hashed in a canonical form, so the same context with
+// its keys in a different order is the same request.
+// ---------------------------------------------------------------------------
+
+import { createHash } from 'crypto'
+
+/** JSON with object keys sorted at every level; undefined properties are dropped as JSON.stringify does. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => (v === undefined ? 'null' : canonicalJson(v))).join(',')}]`
+  }
+  if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/** SHA-256 over the employee, action and canonical context of an approval request. */
+export function requestFingerprint(
+  employeeId: string,
+  action: string,
+  context: Record<string, unknown> | undefined,
+): string {
+  const payload = canonicalJson([employeeId, action, context ?? null])
+  return createHash('sha256').update(payload).digest('hex')
+}
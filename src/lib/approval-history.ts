@@ -0,0 +1,261 @@
+// ---------------------------------------------------------------------------
+// Approval history
+// Query parameters for listing approval requests, and the metrics shown
+// alongside the history:
+//
+//   status      pending, approved, denied (comma-separated; default all)
+//   employeeId  requesting employee
+//   capability  exact capability or pattern, as in policies ("deploy:*")
+//   from, to    ISO timestamps bounding createdAt (inclusive)
+//   approver    who decided or voted on the request (substring match)
+//   q           free text searched for in the request details
+//   sort        createdAt | resolvedAt | action, with order asc | desc
+//   page, pageSize
+//
+// Time to decision runs from creation to resolution, so only resolved
+// requests count towards it. Requests denied on expiry are decided by
+// "system" and reported as expired.
+// ---------------------------------------------------------------------------
+
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { isExactCapability, matchesCapability, validateCapabilityPattern } from '@/lib/capabilities'
+
+export type ApprovalStatus = 'pending' | 'approved' | 'denied'
+
+export const APPROVAL_STATUSES: ApprovalStatus[] = ['pending', 'approved', 'denied']
+
+export type ApprovalSortField = 'createdAt' | 'resolvedAt' | 'action'
+
+export const APPROVAL_SORT_FIELDS: ApprovalSortField[] = ['createdAt', 'resolvedAt', 'action']
+
+export const DEFAULT_PAGE_SIZE = 25
+export const MAX_PAGE_SIZE = 100
+
+export interface ApprovalQuery {
+  statuses: ApprovalStatus[]
+  employeeId: string | null
+  capability: string | null
+  from: Date | null
+  to: Date | null
+  approver: string | null
+  search: string | null
+  sort: ApprovalSortField
+  order: 'asc' | 'desc'
+  page: number
+  pageSize: number
+}
+
+export interface DecisionTimes {
+  decided: number
+  meanMinutes: number
+  medianMinutes: number
+  p90Minutes: number
+}
+
+export interface ApprovalMetrics {
+  total: number
+  byStatus: Record<ApprovalStatus, number>
+  /** Denied by the expiry sweep rather than a reviewer. */
+  expired: number
+  timeToDecision: DecisionTimes | null
+  byCapability: Array<{ capability: string; total: number; approved: number; denied: number; timeToDecision: DecisionTimes | null }>
+  byApprover: Array<{ approver: string; approved: number; denied: number; timeToDecision: DecisionTimes | null }>
+}
+
+/** The fields metrics are computed from. */
+export interface ApprovalRecord {
+  action: string
+  status: string
+  decidedBy: string
+  createdAt: Date
+  resolvedAt: Date | null
+}
+
+function parseDate(value: string | null, name: string, errors: string[]): Date | null {
+  if (!value) return null
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    errors.push(`${name} must be an ISO date`)
+    return null
+  }
+  return date
+}
+
+function parsePositiveInt(value: string | null, name: string, fallback: number, errors: string[]): number {
+  if (value === null || value === '') return fallback
+  const n = Number(value)
+  if (!Number.isInteger(n) || n < 1) {
+    errors.push(`${name} must be a positive integer`)
+    return fallback
+  }
+  return n
+}
+
+/** Parse and validate list parameters; every problem is reported at once. */
+export function parseApprovalQuery(params: URLSearchParams): { query: ApprovalQuery | null; errors: string[] } {
+  const errors: string[] = []
+
+  const status = params.get('status')
+  const statuses = status && status !== 'all' ? status.split(',').map((s) => s.trim()) : []
+  const unknown = statuses.filter((s) => !APPROVAL_STATUSES.includes(s as ApprovalStatus))
+  if (unknown.length > 0) {
+    errors.push(`status must be one of: ${APPROVAL_STATUSES.join(', ')} (got ${unknown.join(', ')})`)
+  }
+
+  const capability = params.get('capability')?.trim() || null
+  const capabilityError = capability ? validateCapabilityPattern(capability) : null
+  if (capabilityError) errors.push(capabilityError)
+
+  const from = parseDate(params.get('from'), 'from', errors)
+  const to = parseDate(params.get('to'), 'to', errors)
+  if (from && to && from > to) {
+    errors.push('from must not be after to')
+  }
+
+  const sort = (params.get('sort') ?? 'createdAt') as ApprovalSortField
+  if (!APPROVAL_SORT_FIELDS.includes(sort)) {
+    errors.push(`sort must be one of: ${APPROVAL_SORT_FIELDS.join(', ')}`)
+  }
+  const order = params.get('order') ?? 'desc'
+  if (order !== 'asc' && order !== 'desc') {
+    errors.push('order must be "asc" or "desc"')
+  }
+
+  const page = parsePositiveInt(params.get('page'), 'page', 1, errors)
+  const pageSize = parsePositiveInt(params.get('pageSize'), 'pageSize', DEFAULT_PAGE_SIZE, errors)
+  if (pageSize > MAX_PAGE_SIZE) {
+    errors.push(`pageSize must be at most ${MAX_PAGE_SIZE}`)
+  }
+
+  if (errors.length > 0) {
+    return { query: null, errors }
+  }
+  return {
+    query: {
+      statuses: statuses as ApprovalStatus[],
+      employeeId: params.get('employeeId') || null,
+      capability,
+      from,
+      to,
+      approver: params.get('approver')?.trim() || null,
+      search: params.get('q')?.trim() || null,
+      sort,
+      order: order as 'asc' | 'desc',
+      page,
+      pageSize,
+    },
+    errors,
+  }
+}
+
+/**
+ * The Prisma filter for a query. Capability patterns cannot be expressed in
+ * SQL, so they are resolved against `knownActions` (the distinct actions on
+ * record) with the same matcher the policy engine uses.
+ */
+export function approvalFilter(query: ApprovalQuery, knownActions: string[] = []): Prisma.ApprovalRequestWhereInput {
+  const where: Prisma.ApprovalRequestWhereInput[] = []
+  if (query.statuses.length > 0) where.push({ status: { in: query.statuses } })
+  if (query.employeeId) where.push({ employeeId: query.employeeId })
+  if (query.capability && query.capability !== '*') {
+    where.push(
+      isExactCapability(query.capability)
+        ? { action: query.capability }
+        : { action: { in: knownActions.filter((action) => matchesCapability(query.capability!, action)) } },
+    )
+  }
+  if (query.from || query.to) {
+    where.push({ createdAt: { ...(query.from ? { gte: query.from } : {}), ...(query.to ? { lte: query.to } : {}) } })
+  }
+  if (query.approver) {
+    where.push({
+      OR: [{ decidedBy: { contains: query.approver } }, { votes: { some: { approver: { contains: query.approver } } } }],
+    })
+  }
+  if (query.search) where.push({ details: { contains: query.search } })
+  return where.length > 0 ? { AND: where } : {}
+}
+
+/** `approvalFilter`, looking up the actions on record when the capability is a pattern. */
+export async function loadApprovalFilter(
+  db: PrismaClient | Prisma.TransactionClient,
+  query: ApprovalQuery,
+): Promise<Prisma.ApprovalRequestWhereInput> {
+  const knownActions =
+    query.capability && !isExactCapability(query.capability)
+      ? (await db.approvalRequest.findMany({ distinct: ['action'], select: { action: true } })).map((r) => r.action)
+      : []
+  return approvalFilter(query, knownActions)
+}
+
+export function approvalOrder(query: ApprovalQuery): Prisma.ApprovalRequestOrderByWithRelationInput[] {
+  // Ties (and pending requests when sorting by resolvedAt) fall back to newest first
+  return [{ [query.sort]: query.order }, { createdAt: 'desc' }, { id: 'asc' }]
+}
+
+function decisionTimes(records: ApprovalRecord[]): DecisionTimes | null {
+  const minutes = records
+    .filter((r) => r.resolvedAt && r.status !== 'pending')
+    .map((r) => (r.resolvedAt!.getTime() - r.createdAt.getTime()) / 60_000)
+    .sort((a, b) => a - b)
+  if (minutes.length === 0) return null
+  // Nearest-rank percentiles
+  const percentile = (p: number) => minutes[Math.max(0, Math.ceil((p / 100) * minutes.length) - 1)]
+  return {
+    decided: minutes.length,
+    meanMinutes: minutes.reduce((sum, m) => sum + m, 0) / minutes.length,
+    medianMinutes: percentile(50),
+    p90Minutes: percentile(90),
+  }
+}
+
+function groupBy<T>(items: T[], keysOf: (item: T) => string[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    for (const key of keysOf(item)) {
+      groups.set(key, [...(groups.get(key) ?? []), item])
+    }
+  }
+  return groups
+}
+
+const count = (records: ApprovalRecord[], status: string) => records.filter((r) => r.status === status).length
+
+/**
+ * Counts and time-to-decision figures for a set of requests. A request
+ * decided by a quorum counts once for each approver named in `decidedBy`.
+ */
+export function approvalMetrics(records: ApprovalRecord[]): ApprovalMetrics {
+  const byCapability = Array.from(groupBy(records, (r) => [r.action]))
+    .map(([capability, group]) => ({
+      capability,
+      total: group.length,
+      approved: count(group, 'approved'),
+      denied: count(group, 'denied'),
+      timeToDecision: decisionTimes(group),
+    }))
+    .sort((a, b) => b.total - a.total || a.capability.localeCompare(b.capability))
+
+  const decided = records.filter((r) => r.status !== 'pending' && r.decidedBy)
+  const byApprover = Array.from(groupBy(decided, (r) => r.decidedBy.split(', ')))
+    .map(([approver, group]) => ({
+      approver,
+      approved: count(group, 'approved'),
+      denied: count(group, 'denied'),
+      timeToDecision: decisionTimes(group),
+    }))
+    .sort((a, b) => b.approved + b.denied - (a.approved + a.denied) || a.approver.localeCompare(b.approver))
+
+  return {
+    total: records.length,
+    byStatus: {
+      pending: count(records, 'pending'),
+      approved: count(records, 'approved'),
+      denied: count(records, 'denied'),
+    },
+    expired: records.filter((r) => r.status === 'denied' && r.decidedBy === 'system').length,
+    timeToDecision: decisionTimes(records),
+    byCapability,
+    byApprover,
+  }
+}
@@ -0,0 +1,336 @@
+// ---------------------------------------------------------------------------
+// Approval quorums
+// An approval_required policy may say who has to approve, as a list of
+// requirements that must all be met by distinct approvers:
+//
+//   [{ "group": "devops", "count": 2 }]              2 of the DevOps group
+//   [{ "teamLead": true }, { "group": "security" }]  the requester's team
+//                                                    lead plus one from security
+//
+// Groups are ApproverGroups, referenced by name; the team lead is the `lead`
+// of the requesting employee's team. The rule is copied onto the approval
+// request when it is created, so later policy edits do not move the goal
+// posts for pending requests.
+//
+// Each eligible approver votes once. The request is approved when the
+// approving votes can be assigned to every required seat, one approver per
+// seat, and denied as soon as any eligible approver votes to deny. An empty
+// rule keeps the original behaviour: anyone's single decision settles it.
+// Once a request is escalated (see approval-expiry.ts) any one member of the
+// group it was escalated to decides it instead.
+// ---------------------------------------------------------------------------
+
+import type { Prisma, PrismaClient } from '@prisma/client'
+import type { ApprovalDecision } from '@/lib/approval-decisions'
+
+export interface QuorumRequirement {
+  /** Name of the ApproverGroup to draw from. */
+  group?: string
+  /** The requesting employee's team lead. */
+  teamLead?: boolean
+  /** Distinct approvers needed; defaults to 1. */
+  count?: number
+}
+
+export interface QuorumVote {
+  approver: string
+  decision: string
+}
+
+export interface QuorumStatus {
+  outcome: 'pending' | 'approved' | 'denied'
+  /** Approvers whose votes fill the required seats (or the first denier). */
+  decidedBy: string[]
+  /** Requirements still short of approvals, e.g. `1 more from "devops"`. */
+  missing: string[]
+}
+
+/** Where each requirement draws approvers from. */
+export interface ApproverDirectory {
+  groups: Map<string, string[]>
+  teamLead: string | null
+}
+
+export function parseQuorum(raw: string | null | undefined): QuorumRequirement[] {
+  try {
+    const parsed = JSON.parse(raw || '[]')
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+/** The rule a request is decided by now, taking escalation into account. */
+export function requestQuorum(request: { quorum: string; escalatedTo: string }): QuorumRequirement[] {
+  return request.escalatedTo ? [{ group: request.escalatedTo }] : parseQuorum(request.quorum)
+}
+
+/** Human-readable problems with a quorum rule; empty when it is valid. */
+export function validateQuorum(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return ['approvers must be a list of requirements']
+  }
+  return value.flatMap((item, idx): string[] => {
+    const label = `approvers[${idx}]`
+    if (typeof item !== 'object' || item === null) {
+      return [`${label} must be an object`]
+    }
+    const requirement = item as Record<string, unknown>
+    const hasGroup = typeof requirement.group === 'string' && requirement.group.trim() !== ''
+    if (hasGroup === (requirement.teamLead === true)) {
+      return [`${label} must name either a group or teamLead: true`]
+    }
+    if (requirement.count !== undefined && !(Number.isInteger(requirement.count) && (requirement.count as number) >= 1)) {
+      return [`${label}.count must be a positive integer`]
+    }
+    if (requirement.teamLead && (requirement.count ?? 1) !== 1) {
+      return [`${label}: a team has a single lead, so count must be 1`]
+    }
+    return []
+  })
+}
+
+/** Stands in for the lead of a team that is only known once a request is made. */
+const REQUESTERS_TEAM_LEAD = '\u0000team lead'
+
+/**
+ * Why no votes could ever approve a request under a (well-formed) rule;
+ * empty when some could. `teamLead` is the lead of the team the policy
+ * applies to: null when it has none, undefined when that depends on the
+ * requester, as for organization policies. `approverGroups` are stored rows.
+ */
+export function unsatisfiableQuorum(
+  rule: QuorumRequirement[],
+  approverGroups: Array<{ name: string; members: string }>,
+  teamLead: string | null | undefined,
+): string[] {
+  const groups = new Map(approverGroups.map((g) => [g.name, parseMembers(g.members)]))
+  const issues = rule.flatMap((requirement, idx): string[] => {
+    const label = `approvers[${idx}]`
+    if (requirement.teamLead) {
+      return teamLead === null ? [`${label}: the team has no lead`] : []
+    }
+    const members = groups.get(requirement.group ?? '')
+    if (!members) {
+      return [`${label}: unknown approver group "${requirement.group}"`]
+    }
+    const count = requirement.count ?? 1
+    return count > members.length
+      ? [`${label}: needs ${count} from "${requirement.group}", which has ${members.length} member(s)`]
+      : []
+  })
+  if (issues.length > 0) return issues
+
+  // Each requirement can be met alone; check they can be met together, by
+  // distinct approvers, when everyone eligible approves
+  const directory = { groups, teamLead: teamLead === undefined ? REQUESTERS_TEAM_LEAD : teamLead }
+  const everyone = new Set(rule.flatMap((requirement) => poolOf(requirement, directory)))
+  const status = evaluateQuorum(
+    rule,
+    directory,
+    Array.from(everyone).map((approver) => ({ approver, decision: 'approved' })),
+  )
+  return status.outcome === 'approved'
+    ? []
+    : [`approvers: too few distinct approvers to fill every seat (short ${status.missing.join(', ')})`]
+}
+
+/**
+ * `unsatisfiableQuorum` for a policy about to be saved, against the approver
+ * groups and team leads as they are now.
+ */
+export async function checkPolicyQuorum(
+  db: PrismaClient | Prisma.TransactionClient,
+  policy: { scope?: string | null; employeeId?: string | null; teamId?: string | null },
+  rule: QuorumRequirement[],
+): Promise<string[]> {
+  if (rule.length === 0) return []
+  const groups = await db.approverGroup.findMany({ where: { name: { in: quorumGroups(rule) } } })
+  let teamLead: string | null | undefined
+  if (rule.some((r) => r.teamLead)) {
+    if ((policy.scope ?? 'employee') === 'employee') {
+      const employee = policy.employeeId
+        ? await db.employee.findUnique({ where: { id: policy.employeeId }, include: { team: true } })
+        : null
+      teamLead = employee?.team?.lead || null
+    } else if (policy.scope === 'team') {
+      const team = policy.teamId ? await db.team.findUnique({ where: { id: policy.teamId } }) : null
+      teamLead = team?.lead || null
+    }
+  }
+  return unsatisfiableQuorum(rule, groups, teamLead)
+}
+
+/** e.g. `2 from "devops" + the team lead`; empty for no rule. */
+export function describeQuorum(rule: QuorumRequirement[]): string {
+  return rule
+    .map((requirement) => (requirement.teamLead ? 'the team lead' : `${requirement.count ?? 1} from "${requirement.group}"`))
+    .join(' + ')
+}
+
+export interface ApproverGroupInput {
+  name: string
+  description: string
+  members: string[]
+}
+
+/** Validate an approver group body, filling omitted fields from `existing`. */
+export function parseApproverGroup(
+  body: Record<string, unknown>,
+  existing?: ApproverGroupInput,
+): { group: ApproverGroupInput | null; errors: string[] } {
+  const errors: string[] = []
+  const name = body.name ?? existing?.name
+  const description = body.description ?? existing?.description ?? ''
+  const members = body.members ?? existing?.members ?? []
+
+  if (typeof name !== 'string' || !name.trim()) {
+    errors.push('name is required')
+  }
+  if (typeof description !== 'string') {
+    errors.push('description must be a string')
+  }
+  if (!Array.isArray(members) || members.some((m) => typeof m !== 'string' || !m.trim())) {
+    errors.push('members must be a list of approver names')
+  }
+  if (errors.length > 0) {
+    return { group: null, errors }
+  }
+  return {
+    group: {
+      name: (name as string).trim(),
+      description: description as string,
+      members: Array.from(new Set((members as string[]).map((m) => m.trim()))),
+    },
+    errors,
+  }
+}
+
+/** Names of the groups a rule draws from. */
+export function quorumGroups(rule: QuorumRequirement[]): string[] {
+  return Array.from(new Set(rule.flatMap((r) => (r.group ? [r.group] : []))))
+}
+
+/** Look up the groups and team lead a rule refers to. */
+export async function loadApproverDirectory(
+  db: PrismaClient | Prisma.TransactionClient,
+  rule: QuorumRequirement[],
+  teamId: string | null,
+): Promise<ApproverDirectory> {
+  const [groups, team] = await Promise.all([
+    db.approverGroup.findMany({ where: { name: { in: quorumGroups(rule) } } }),
+    teamId && rule.some((r) => r.teamLead) ? db.team.findUnique({ where: { id: teamId } }) : null,
+  ])
+  return {
+    groups: new Map(groups.map((g) => [g.name, parseMembers(g.members)])),
+    teamLead: team?.lead || null,
+  }
+}
+
+/**
+ * Where a request's quorum stands, for API responses; null when the request
+ * has no quorum.
+ */
+export async function quorumProgress(
+  db: PrismaClient | Prisma.TransactionClient,
+  request: { quorum: string; escalatedTo: string; employee: { teamId: string | null }; votes: QuorumVote[] },
+): Promise<(QuorumStatus & { rule: QuorumRequirement[]; description: string }) | null> {
+  const rule = requestQuorum(request)
+  if (rule.length === 0) return null
+  const directory = await loadApproverDirectory(db, rule, request.employee.teamId)
+  return { rule, description: describeQuorum(rule), ...evaluateQuorum(rule, directory, request.votes) }
+}
+
+function parseMembers(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function poolOf(requirement: QuorumRequirement, directory: ApproverDirectory): string[] {
+  if (requirement.teamLead) {
+    return directory.teamLead ? [directory.teamLead] : []
+  }
+  return directory.groups.get(requirement.group ?? '') ?? []
+}
+
+/** Whether `approver` may vote on a request under `rule`. */
+export function isEligibleApprover(approver: string, rule: QuorumRequirement[], directory: ApproverDirectory): boolean {
+  return rule.some((requirement) => poolOf(requirement, directory).includes(approver))
+}
+
+/**
+ * Decide a request from its votes. Seats are filled by bipartite matching,
+ * so an approver in two pools is counted once, wherever they are needed most.
+ */
+export function evaluateQuorum(
+  rule: QuorumRequirement[],
+  directory: ApproverDirectory,
+  votes: QuorumVote[],
+): QuorumStatus {
+  const eligible = votes.filter((vote) => isEligibleApprover(vote.approver, rule, directory))
+  const denial = eligible.find((vote) => vote.decision === 'denied')
+  if (denial) {
+    return { outcome: 'denied', decidedBy: [denial.approver], missing: [] }
+  }
+
+  // One seat per required approval, each with the pool that can fill it
+  const seats = rule.flatMap((requirement, idx) =>
+    Array.from({ length: requirement.count ?? 1 }, () => ({ requirement: idx, pool: poolOf(requirement, directory) })),
+  )
+  const approvers = eligible.filter((vote) => vote.decision === 'approved').map((vote) => vote.approver)
+  const seatOf = new Map<string, number>()
+
+  const assign = (seat: number, visited: Set<string>): boolean => {
+    for (const approver of seats[seat].pool) {
+      if (!approvers.includes(approver) || visited.has(approver)) continue
+      visited.add(approver)
+      const taken = seatOf.get(approver)
+      if (taken === undefined || assign(taken, visited)) {
+        seatOf.set(approver, seat)
+        return true
+      }
+    }
+    return false
+  }
+
+  const unfilled = seats.filter((_, seat) => !assign(seat, new Set()))
+  if (unfilled.length === 0) {
+    return { outcome: 'approved', decidedBy: Array.from(seatOf.keys()), missing: [] }
+  }
+
+  const short = new Map<number, number>()
+  unfilled.forEach((seat) => short.set(seat.requirement, (short.get(seat.requirement) ?? 0) + 1))
+  return {
+    outcome: 'pending',
+    decidedBy: [],
+    missing: Array.from(short).map(([idx, count]) => {
+      const requirement = rule[idx]
+      return requirement.teamLead
+        ? directory.teamLead
+          ? 'the team lead'
+          : 'the team lead (the team has none)'
+        : `${count} more from "${requirement.group}"`
+    }),
+  }
+}
+
+/** Audit log details for a single vote, quoting everything its digest covers. */
+export function describeVote(
+  vote: ApprovalDecision,
+  employeeName: string,
+  digest: string,
+  status: QuorumStatus,
+  comment?: string,
+): string {
+  return [
+    `${vote.decidedBy} voted ${vote.status === 'approved' ? 'to approve' : 'to deny'} "${vote.action}" (employee: "${employeeName}")`,
+    ...(vote.justification ? [`; justification: ${JSON.stringify(vote.justification)}`] : []),
+    ...(comment ? [`; comment: ${JSON.stringify(comment)}`] : []),
+    status.outcome === 'pending' ? `; still needs ${status.missing.join(', ')}` : `; quorum ${status.outcome}`,
+    ` [vote sha256:${digest}]`,
+  ].join('')
+}
@@ -0,0 +1,272 @@
+// ---------------------------------------------------------------------------
+// Approval review
+// Applies a reviewer's decision to a pending approval request, for
+// PUT /api/approvals/:id and for batches of requests decided together.
+//
+// A request with a quorum records the decision as the reviewer's vote and is
+// only resolved once the quorum is met (or an eligible approver denies it).
+// Resolving a request signs the decision, audit-logs it and resumes or fails
+// the workflow run suspended on it. Once the decision is committed, failures
+// to log it or to resume the run are reported alongside it rather than as
+// errors: the expiry sweep resumes any run left waiting on a decided request.
+// ---------------------------------------------------------------------------
+
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import {
+  amendmentOf,
+  ApprovalDecision,
+  ApprovalDecisionInput,
+  approvedDiff,
+  decisionDigest,
+  describeDecision,
+  validateApprovalDecision,
+} from '@/lib/approval-decisions'
+import {
+  ApproverDirectory,
+  describeQuorum,
+  describeVote,
+  evaluateQuorum,
+  isEligibleApprover,
+  loadApproverDirectory,
+  QuorumRequirement,
+  QuorumStatus,
+  requestQuorum,
+} from '@/lib/approval-quorum'
+import { workflowEngine, WorkflowRunWithSteps } from '@/lib/workflow-engine'
+
+/** Most requests decided by one batch. */
+export const MAX_BATCH_SIZE = 100
+
+export type ReviewedApproval = Prisma.ApprovalRequestGetPayload<{ include: { employee: true; votes: true } }> & {
+  quorumStatus: (QuorumStatus & { rule: QuorumRequirement[]; description: string }) | null
+  /** Set once the request is resolved: the diff the agent may act with, or null when denied. */
+  approvedDiff?: string | null
+  workflowRun?: WorkflowRunWithSteps | null
+  /** Why the decision, though recorded, could not be audit-logged. */
+  auditError?: string
+  /** Why the workflow run could not be resumed (or failed) with the decision. */
+  workflowError?: string
+}
+
+export type ReviewOutcome =
+  | { ok: true; approval: ReviewedApproval }
+  | { ok: false; status: 400 | 403 | 404 | 409; error: string }
+
+const auditLogger = new AuditLogger()
+
+/** Thrown inside the review transaction when the request stopped being pending after it was read. */
+class ReviewConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReviewConflictError'
+    // Keep `instanceof` working when compiled to ES5
+    Object.setPrototypeOf(this, ReviewConflictError.prototype)
+  }
+}
+
+/**
+ * Decide (or vote on) a pending request. Callers run the expiry sweep first,
+ * so an overdue request is denied or escalated before anyone can decide it.
+ */
+export async function reviewApproval(id: string, input: ApprovalDecisionInput): Promise<ReviewOutcome> {
+  const invalid = validateApprovalDecision(input)
+  if (invalid) {
+    return { ok: false, status: 400, ...invalid }
+  }
+
+  const existing = await prisma.approvalRequest.findUnique({
+    where: { id },
+    include: { employee: true, votes: true },
+  })
+  if (!existing) {
+    return { ok: false, status: 404, error: 'Approval request not found' }
+  }
+  if (existing.status !== 'pending') {
+    return { ok: false, status: 409, error: `Approval request has already been ${existing.status}` }
+  }
+
+  const rule = requestQuorum(existing)
+  const amendedDiff = amendmentOf(existing.diff, input.amendedDiff as string | undefined)
+  if (amendedDiff && !existing.diff) {
+    return { ok: false, status: 400, error: 'This request has no diff to amend' }
+  }
+  if (amendedDiff && rule.length > 0) {
+    // Earlier votes approved the diff as proposed, so it cannot change under them
+    return { ok: false, status: 400, error: `Requests decided by a quorum (${describeQuorum(rule)}) cannot be amended` }
+  }
+
+  const vote: ApprovalDecision = {
+    approvalRequestId: id,
+    employeeId: existing.employeeId,
+    action: existing.action,
+    status: input.status as ApprovalDecision['status'],
+    decidedBy: (input.approver as string).trim(),
+    justification: ((input.justification as string | undefined) ?? '').trim(),
+    decidedAt: new Date(),
+    amendedDiff,
+  }
+  const comment = ((input.comment as string | undefined) ?? '').trim()
+
+  // Without a quorum the vote is the decision
+  let directory: ApproverDirectory | null = null
+  if (rule.length > 0) {
+    directory = await loadApproverDirectory(prisma, rule, existing.employee.teamId)
+    if (!isEligibleApprover(vote.decidedBy, rule, directory)) {
+      return {
+        ok: false,
+        status: 403,
+        error: `${vote.decidedBy} is not an approver for this request (needs ${describeQuorum(rule)})`,
+      }
+    }
+    if (existing.votes.some((v) => v.approver === vote.decidedBy)) {
+      return { ok: false, status: 409, error: `${vote.decidedBy} has already voted on this request` }
+    }
+  }
+  const voteHash = decisionDigest(vote)
+
+  const review = prisma.$transaction(async (tx) => {
+    let decision: ApprovalDecision | null = vote
+    let quorum: QuorumStatus | null = null
+    if (directory) {
+      try {
+        await tx.approvalVote.create({
+          data: {
+            approvalRequestId: id,
+            approver: vote.decidedBy,
+            decision: vote.status,
+            justification: vote.justification,
+            voteHash,
+          },
+        })
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          throw new ReviewConflictError(`${vote.decidedBy} has already voted on this request`)
+        }
+        throw error
+      }
+      // Count the votes as they stand with this one, not as they were read:
+      // approvers voting at the same time each see the other's vote here
+      const votes = await tx.approvalVote.findMany({ where: { approvalRequestId: id } })
+      quorum = evaluateQuorum(rule, directory, votes)
+      decision =
+        quorum.outcome === 'pending'
+          ? null
+          : { ...vote, status: quorum.outcome, decidedBy: quorum.decidedBy.join(', ') }
+    }
+    if (comment) {
+      await tx.approvalComment.create({
+        data: { approvalRequestId: id, author: vote.decidedBy, body: comment },
+      })
+    }
+
+    // Claim the request: the expiry sweep or another reviewer may have
+    // resolved it since it was read. A vote that leaves it pending only
+    // checks, under the write lock the vote took.
+    const digest = decision ? decisionDigest(decision) : ''
+    const claimed = decision
+      ? (
+          await tx.approvalRequest.updateMany({
+            where: { id, status: 'pending' },
+            data: {
+              status: decision.status,
+              resolvedAt: decision.decidedAt,
+              decidedBy: decision.decidedBy,
+              justification: decision.justification,
+              decisionHash: digest,
+              amendedDiff: decision.amendedDiff,
+            },
+          })
+        ).count
+      : await tx.approvalRequest.count({ where: { id, status: 'pending' } })
+    if (claimed === 0) {
+      throw new ReviewConflictError('Approval request was resolved while this decision was being made')
+    }
+
+    const approval = await tx.approvalRequest.findUniqueOrThrow({
+      where: { id },
+      include: {
+        employee: true,
+        votes: { orderBy: { createdAt: 'asc' } },
+      },
+    })
+    return { approval, decision, quorum, digest }
+  })
+
+  let reviewed: Awaited<typeof review>
+  try {
+    reviewed = await review
+  } catch (error) {
+    if (error instanceof ReviewConflictError) {
+      return { ok: false, status: 409, error: error.message }
+    }
+    throw error
+  }
+  const { approval, decision, quorum, digest } = reviewed
+
+  const quorumStatus = quorum && { rule, description: describeQuorum(rule), ...quorum }
+  let auditError: string | undefined
+  try {
+    if (quorum) {
+      await auditLogger.log(
+        'approval_vote_cast',
+        describeVote(vote, existing.employee.name, voteHash, quorum, comment),
+        existing.employeeId,
+      )
+    }
+    if (decision) {
+      await auditLogger.log(
+        `approval_${decision.status}`,
+        describeDecision(decision, existing.employee.name, digest, quorum ? undefined : comment),
+        existing.employeeId,
+      )
+    }
+  } catch (error) {
+    console.error(`Failed to audit-log the decision on approval request ${id}:`, error)
+    auditError = error instanceof Error ? error.message : String(error)
+  }
+  if (!decision) {
+    return { ok: true, approval: { ...approval, quorumStatus, ...(auditError ? { auditError } : {}) } }
+  }
+
+  // Only the reviewer whose claim succeeded resumes (or fails) the workflow
+  // run suspended on this request, if any
+  let workflowRun: WorkflowRunWithSteps | null = null
+  let workflowError: string | undefined
+  try {
+    workflowRun = await workflowEngine.resolveApproval(id, decision.status, decision.justification || undefined)
+  } catch (error) {
+    console.error(`Failed to apply the decision on approval request ${id} to its workflow run:`, error)
+    workflowError = error instanceof Error ? error.message : String(error)
+  }
+
+  return {
+    ok: true,
+    approval: {
+      ...approval,
+      approvedDiff: decision.status === 'approved' ? approvedDiff(approval) : null,
+      quorumStatus,
+      workflowRun,
+      ...(auditError ? { auditError } : {}),
+      ...(workflowError ? { workflowError } : {}),
+    },
+  }
+}
+
+/** Problems with a batch's request IDs; empty when it can be reviewed. */
+export function validateBatch(ids: unknown): string[] {
+  if (!Array.isArray(ids) || ids.length === 0) {
+    return ['ids must be a non-empty list of approval request IDs']
+  }
+  const errors: string[] = []
+  if (ids.length > MAX_BATCH_SIZE) {
+    errors.push(`a batch can decide at most ${MAX_BATCH_SIZE} requests`)
+  }
+  if (ids.some((id) => typeof id !== 'string' || !id)) {
+    errors.push('ids must be a non-empty list of approval request IDs')
+  } else if (new Set(ids).size !== ids.length) {
+    errors.push('ids must not repeat')
+  }
+  return errors
+}
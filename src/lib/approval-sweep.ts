@@ -0,0 +1,120 @@
+// ---------------------------------------------------------------------------
+// Approval sweep
+// There is no background worker, so overdue approval requests (see
+// approval-expiry.ts) are escalated or denied by `expireApprovals`. It runs
+// from POST /api/approvals/expire, which the approvals page calls once a
+// request it shows passes its deadline (a scheduler can call it too), and
+// before any request is decided, so an overdue request cannot be approved.
+// Reads do not sweep. The sweep also resumes workflow runs left waiting on a
+// request that was decided, when resuming failed after the decision.
+// ---------------------------------------------------------------------------
+
+import prisma from '@/lib/db'
+import { AuditLogger } from '@/lib/audit'
+import { ApprovalDecision, decisionDigest, describeDecision } from '@/lib/approval-decisions'
+import { nextExpiryStep } from '@/lib/approval-expiry'
+import { workflowEngine } from '@/lib/workflow-engine'
+
+const auditLogger = new AuditLogger()
+
+/**
+ * Escalate or deny every pending request past its deadline. Each request is
+ * claimed with a conditional update on its status, as reviewers claim it in
+ * reviewApproval, so concurrent sweeps and reviewers cannot both act on it.
+ */
+export async function expireApprovals(now: Date = new Date()): Promise<{ escalated: number; denied: number }> {
+  const overdue = await prisma.approvalRequest.findMany({
+    where: { status: 'pending', expiresAt: { lte: now } },
+    include: { employee: true },
+  })
+
+  let escalated = 0
+  let denied = 0
+  for (const request of overdue) {
+    const step = nextExpiryStep(request, now)
+    const claim = { id: request.id, status: 'pending', expiresAt: request.expiresAt }
+
+    if (step.kind === 'escalate') {
+      const { count } = await prisma.approvalRequest.updateMany({
+        where: claim,
+        data: { escalatedTo: step.escalateTo, escalatedAt: now, expiresAt: step.expiresAt },
+      })
+      if (count === 0) continue
+      escalated++
+      await auditLogger.log(
+        'approval_escalated',
+        `Approval request for "${request.action}" escalated to "${step.escalateTo}" after going undecided (employee: "${request.employee.name}"); auto-denies at ${step.expiresAt.toISOString()}`,
+        request.employeeId,
+      )
+      continue
+    }
+
+    const decision: ApprovalDecision = {
+      approvalRequestId: request.id,
+      employeeId: request.employeeId,
+      action: request.action,
+      status: 'denied',
+      decidedBy: 'system',
+      justification: step.reason,
+      decidedAt: now,
+      amendedDiff: '',
+    }
+    const digest = decisionDigest(decision)
+    const { count } = await prisma.approvalRequest.updateMany({
+      where: claim,
+      data: {
+        status: 'denied',
+        resolvedAt: now,
+        decidedBy: decision.decidedBy,
+        justification: decision.justification,
+        decisionHash: digest,
+      },
+    })
+    if (count === 0) continue
+    denied++
+    await auditLogger.log(
+      'approval_expired',
+      describeDecision(decision, request.employee.name, digest),
+      request.employeeId,
+    )
+    await workflowEngine.resolveApproval(request.id, 'denied', decision.justification)
+  }
+
+  await resumeDecidedWorkflows()
+  return { escalated, denied }
+}
+
+/**
+ * Apply decisions that did not reach their workflow run: a step still
+ * waiting on a decided request, or a run still suspended on an approved (or
+ * denied) step it never advanced past. Both are safe to apply again, as
+ * the workflow engine claims the step and the run before acting on them. A
+ * run that fails again is left for the next sweep rather than failing this one.
+ */
+async function resumeDecidedWorkflows(): Promise<void> {
+  const decided = await prisma.approvalRequest.findMany({
+    where: { status: { in: ['approved', 'denied'] }, workflowStepRun: { status: 'awaiting_approval' } },
+  })
+  const stalled = await prisma.workflowRun.findMany({
+    where: { status: 'awaiting_approval', steps: { some: { status: { in: ['approved', 'denied'] } } } },
+    select: { id: true },
+  })
+
+  const resumes = [
+    ...decided.map((request) => () =>
+      workflowEngine.resolveApproval(
+        request.id,
+        request.status as 'approved' | 'denied',
+        request.justification || undefined,
+      ),
+    ),
+    ...stalled.map((run) => () => workflowEngine.advance(run.id)),
+  ]
+  for (const resume of resumes) {
+    try {
+      await resume()
+    } catch (error) {
+      console.error('Failed to resume a workflow run on a decided approval request:', error)
+    }
+  }
+}
@@ -20,6 +20,10 @@ export interface AuditLogEntry {
 
 const GENESIS_HASH = '0000000000000000000000000000000000000000000000000000000000000000'
 
+// Appends are serialised within the process so that concurrent callers (for
+// example parallel workflow branches) never chain onto the same previous hash.
+let appendQueue: Promise<unknown> = Promise.resolve()
+
 /**
  * Compute a SHA-256 hash from the components of an audit entry.
  */
@@ -52,6 +56,17 @@ export class AuditLogger {
     action: string,
     details: string,
     employeeId?: string,
+  ): Promise<AuditLogEntry> {
+    const append = appendQueue.then(() => this.append(action, details, employeeId))
+    appendQueue = append.catch(() => undefined)
+    return append
+  }
+
+  /** Read the current chain head and write the new entry on top of it. */
+  private async append(
+    action: string,
+    details: string,
+    employeeId?: string,
   ): Promise<AuditLogEntry> {
     const previousHash = await this.getLastHash()
     const timestamp = new Date()
@@ -0,0 +1,107 @@
+// ---------------------------------------------------------------------------
+// Capability patterns
+// Policies name the capability they govern either exactly ("deploy:production")
+// or with a pattern covering a family of capabilities:
+//
+//   *                matches every capability
+//   inter_agent:*    matches everything under "inter_agent:", at any depth
+//   github.*         same, for dot-separated namespaces
+//   deploy:prod*     "*" inside a segment matches within that segment only
+//
+// When several patterns match, the most specific one decides (see
+// `compareSpecificity`); the engine applies "deny wins" among equals.
+// ---------------------------------------------------------------------------
+
+const SEPARATOR = /[:.]/
+const PATTERN_CHARS = /^[A-Za-z0-9_\-:.*]+$/
+
+/** Precedence key for a pattern; compared element by element, higher wins. */
+export type Specificity = [exact: number, literalSegments: number, literalChars: number]
+
+/** True when the pattern contains no wildcard. */
+export function isExactCapability(pattern: string): boolean {
+  return !pattern.includes('*')
+}
+
+/**
+ * Validate a capability or capability pattern. Returns a human-readable
+ * problem, or null when the pattern is well-formed.
+ */
+export function validateCapabilityPattern(pattern: unknown): string | null {
+  if (typeof pattern !== 'string' || pattern.trim() === '') {
+    return 'capability must be a non-empty string'
+  }
+  if (!PATTERN_CHARS.test(pattern)) {
+    return 'capability may only contain letters, digits, "_", "-", ":", "." and "*"'
+  }
+  if (pattern.split(SEPARATOR).some((segment) => segment === '')) {
+    return `capability "${pattern}" has an empty segment`
+  }
+  if (pattern.includes('**')) {
+    return `capability "${pattern}" uses "**"; a trailing ":*" or ".*" already matches any depth`
+  }
+  return null
+}
+
+/** Check whether a capability pattern covers a concrete capability. */
+export function matchesCapability(pattern: string, capability: string): boolean {
+  if (pattern === capability || pattern === '*') {
+    return true
+  }
+  if (isExactCapability(pattern)) {
+    return false
+  }
+
+  // A trailing "*" segment covers the whole namespace below its prefix
+  const namespace = pattern.match(/^(.*[:.])\*$/)
+  if (namespace) {
+    return capability.startsWith(namespace[1]) && capability.length > namespace[1].length
+  }
+
+  const regex = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^:.]*')
+  return new RegExp(`^${regex}$`).test(capability)
+}
+
+/**
+ * Rank a pattern: exact capabilities beat any pattern, then patterns with
+ * more wildcard-free segments, then patterns with more literal characters.
+ */
+export function capabilitySpecificity(pattern: string): Specificity {
+  const segments = pattern.split(SEPARATOR)
+  return [
+    isExactCapability(pattern) ? 1 : 0,
+    segments.filter((s) => !s.includes('*')).length,
+    pattern.replace(/\*/g, '').length,
+  ]
+}
+
+/** Negative when `a` is less specific than `b`, positive when more. */
+export function compareSpecificity(a: string, b: string): number {
+  const sa = capabilitySpecificity(a)
+  const sb = capabilitySpecificity(b)
+  for (let i = 0; i < sa.length; i++) {
+    if (sa[i] !== sb[i]) return sa[i] - sb[i]
+  }
+  return 0
+}
+
+/**
+ * From a list of items carrying a capability pattern, keep those matching
+ * `capability` at the highest specificity found (possibly several).
+ */
+export function mostSpecificMatches<T extends { capability: string }>(
+  items: T[],
+  capability: string,
+): T[] {
+  const matching = items.filter((item) => matchesCapability(item.capability, capability))
+  if (matching.length === 0) {
+    return []
+  }
+  const best = matching.reduce((top, item) =>
+    compareSpecificity(item.capability, top.capability) > 0 ? item : top,
+  )
+  return matching.filter((item) => compareSpecificity(item.capability, best.capability) === 0)
+}
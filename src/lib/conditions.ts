@@ -0,0 +1,199 @@
+// ---------------------------------------------------------------------------
+// Condition evaluation
+// Small, JSON-serialisable predicate language used by workflow definitions
+// and conditional policies. A condition compares the value found at a
+// dot-separated path inside a scope object against an operand (e.g.
+// `trigger.severity eq "fatal"` or `recipient ends_with "@acme.com"`).
+// ---------------------------------------------------------------------------
+
+export type ConditionOperator =
+  | 'eq'
+  | 'neq'
+  | 'in'
+  | 'not_in'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'matches'
+  | 'size_gt'
+  | 'size_lte'
+  | 'exists'
+
+export interface Condition {
+  path: string
+  op: ConditionOperator
+  value?: unknown
+}
+
+export const CONDITION_OPERATORS: ConditionOperator[] = [
+  'eq',
+  'neq',
+  'in',
+  'not_in',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'contains',
+  'starts_with',
+  'ends_with',
+  'matches',
+  'size_gt',
+  'size_lte',
+  'exists',
+]
+
+const NUMERIC_OPERATORS = ['gt', 'gte', 'lt', 'lte', 'size_gt', 'size_lte']
+const STRING_OPERATORS = ['starts_with', 'ends_with', 'matches']
+
+/**
+ * Resolve a dot-separated path (e.g. "steps.assess_threat.metadata.level")
+ * against a nested object. Returns undefined if any segment is missing.
+ */
+export function resolvePath(scope: unknown, path: string): unknown {
+  let current: unknown = scope
+  for (const segment of path.split('.')) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[segment]
+  }
+  return current
+}
+
+/**
+ * Size of a value for the size_* operators: string length, array length,
+ * or the length of the JSON encoding for objects and other values.
+ */
+export function sizeOf(value: unknown): number {
+  if (value === undefined || value === null) return 0
+  if (typeof value === 'string' || Array.isArray(value)) return value.length
+  return JSON.stringify(value).length
+}
+
+/** Evaluate a single condition against a scope object. */
+export function evaluateCondition(condition: Condition, scope: unknown): boolean {
+  const actual = resolvePath(scope, condition.path)
+  const expected = condition.value
+
+  switch (condition.op) {
+    case 'eq':
+      return actual === expected
+    case 'neq':
+      return actual !== expected
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual)
+    case 'not_in':
+      return Array.isArray(expected) && !expected.includes(actual)
+    case 'gt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual > expected
+    case 'gte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual >= expected
+    case 'lt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual < expected
+    case 'lte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual <= expected
+    case 'contains':
+      if (typeof actual === 'string') {
+        return typeof expected === 'string' && actual.includes(expected)
+      }
+      return Array.isArray(actual) && actual.includes(expected)
+    case 'starts_with':
+      return typeof actual === 'string' && typeof expected === 'string' && actual.startsWith(expected)
+    case 'ends_with':
+      return typeof actual === 'string' && typeof expected === 'string' && actual.endsWith(expected)
+    case 'matches':
+      try {
+        return typeof actual === 'string' && typeof expected === 'string' && new RegExp(expected).test(actual)
+      } catch {
+        return false
+      }
+    case 'size_gt':
+      return typeof expected === 'number' && sizeOf(actual) > expected
+    case 'size_lte':
+      return typeof expected === 'number' && sizeOf(actual) <= expected
+    case 'exists':
+      return actual !== undefined && actual !== null
+    default:
+      return false
+  }
+}
+
+/** Evaluate a list of conditions; all of them must hold. */
+export function evaluateConditions(conditions: Condition[], scope: unknown): boolean {
+  return conditions.every((c) => evaluateCondition(c, scope))
+}
+
+/**
+ * Validate an untrusted value as a Condition. Returns a list of
+ * human-readable problems (empty when the condition is well-formed).
+ */
+export function validateCondition(input: unknown, label: string): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return [`${label} must be an object with "path" and "op"`]
+  }
+
+  const { path, op, value, ...rest } = input as Record<string, unknown>
+  const errors: string[] = []
+
+  if (typeof path !== 'string' || path.trim() === '') {
+    errors.push(`${label}.path must be a non-empty string`)
+  }
+
+  if (typeof op !== 'string' || !CONDITION_OPERATORS.includes(op as ConditionOperator)) {
+    errors.push(`${label}.op must be one of: ${CONDITION_OPERATORS.join(', ')}`)
+  } else if ((op === 'in' || op === 'not_in') && !Array.isArray(value)) {
+    errors.push(`${label}.value must be an array for "${op}"`)
+  } else if (NUMERIC_OPERATORS.includes(op) && typeof value !== 'number') {
+    errors.push(`${label}.value must be a number for "${op}"`)
+  } else if (STRING_OPERATORS.includes(op) && typeof value !== 'string') {
+    errors.push(`${label}.value must be a string for "${op}"`)
+  } else if (op === 'matches' && !isValidRegex(value as string)) {
+    errors.push(`${label}.value is not a valid regular expression`)
+  } else if (op !== 'exists' && value === undefined) {
+    errors.push(`${label}.value is required for "${op}"`)
+  }
+
+  for (const key of Object.keys(rest)) {
+    errors.push(`${label} has unknown field "${key}"`)
+  }
+
+  return errors
+}
+
+/**
+ * Validate an untrusted list of conditions (as stored on a Policy). Returns
+ * a list of problems, empty when every entry is well-formed.
+ */
+export function validateConditionList(input: unknown, label: string): string[] {
+  if (!Array.isArray(input)) {
+    return [`${label} must be an array`]
+  }
+  return input.flatMap((c, i) => validateCondition(c, `${label}[${i}]`))
+}
+
+/**
+ * Parse a stored JSON list of conditions. Returns null when the data is
+ * malformed (lists are validated on write, so this indicates a corrupt row).
+ */
+export function parseConditionList(raw: string): Condition[] | null {
+  try {
+    const parsed = JSON.parse(raw)
+    return validateConditionList(parsed, 'conditions').length === 0 ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,169 @@
+// ---------------------------------------------------------------------------
+// Policy analyzer
+// Static checks over the policies an employee inherits, flagging rows that
+// cannot do what their author probably intended:
+//
+//   shadowed       never decides anything: a nearer-scope policy always takes
+//                  precedence, or an equally specific, more restrictive policy
+//                  is in force whenever it is ("most restrictive wins")
+//   redundant      an equally specific policy with the same permission is in
+//                  force whenever it is; only their quotas combine, so the
+//                  lowest limit is the one that matters
+//   contradictory  equally specific policies with different permissions that
+//                  are in force at different times, so the outcome depends on
+//                  which conditions or schedules happen to hold
+//
+// Two policies are "equally specific" when the engine would consider both
+// decisive for the same action: same scope, patterns of equal specificity
+// covering one another, and the same number of conditions.
+// ---------------------------------------------------------------------------
+
+import { compareSpecificity, matchesCapability } from '@/lib/capabilities'
+import { POLICY_SCOPES, PolicyScope, policyScope } from '@/lib/policy-scopes'
+import { describeQuota, policyQuotas } from '@/lib/quotas'
+
+export type FindingKind = 'shadowed' | 'redundant' | 'contradictory'
+
+export interface AnalyzedPolicy {
+  id: string
+  scope?: string | null
+  capability: string
+  permission: string
+  rateLimit: number | null
+  quotas?: string
+  conditions: string
+  schedule: string
+}
+
+export interface PolicyFinding {
+  kind: FindingKind
+  /** The policy the finding is about. */
+  policyId: string
+  /** The policies causing it. */
+  relatedPolicyIds: string[]
+  capability: string
+  scope: PolicyScope
+  message: string
+}
+
+const RESTRICTIVENESS: Record<string, number> = { allow: 0, approval_required: 1, deny: 2 }
+
+function parseList(raw: string): unknown[] {
+  try {
+    const parsed = JSON.parse(raw || '[]')
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+/** Conditions and schedule in comparable form. */
+function whenInForce(policy: AnalyzedPolicy): string {
+  return JSON.stringify([parseList(policy.conditions), policy.schedule || ''])
+}
+
+function alwaysInForce(policy: AnalyzedPolicy): boolean {
+  return parseList(policy.conditions).length === 0 && !policy.schedule
+}
+
+/** True when `other` is in force at every moment `policy` is. */
+function coversTimes(other: AnalyzedPolicy, policy: AnalyzedPolicy): boolean {
+  return alwaysInForce(other) || whenInForce(other) === whenInForce(policy)
+}
+
+function equallySpecific(a: AnalyzedPolicy, b: AnalyzedPolicy): boolean {
+  return (
+    policyScope(a) === policyScope(b) &&
+    compareSpecificity(a.capability, b.capability) === 0 &&
+    (matchesCapability(a.capability, b.capability) || matchesCapability(b.capability, a.capability)) &&
+    parseList(a.conditions).length === parseList(b.conditions).length
+  )
+}
+
+function label(policy: AnalyzedPolicy): string {
+  const scope = policyScope(policy)
+  return `${scope === 'org' ? 'organization' : scope} ${policy.permission.replace('_', ' ')} "${policy.capability}"`
+}
+
+function describeLimits(policy: AnalyzedPolicy): string {
+  const quotas = policyQuotas(policy)
+  return quotas.length > 0 ? quotas.map(describeQuota).join(', ') : 'unlimited'
+}
+
+/** Analyze the policies one employee inherits (see `inheritedPolicyFilter`). */
+export function analyzePolicies(policies: AnalyzedPolicy[]): PolicyFinding[] {
+  const findings: PolicyFinding[] = []
+  const report = (kind: FindingKind, policy: AnalyzedPolicy, related: AnalyzedPolicy, message: string) =>
+    findings.push({
+      kind,
+      policyId: policy.id,
+      relatedPolicyIds: [related.id],
+      capability: policy.capability,
+      scope: policyScope(policy),
+      message,
+    })
+
+  policies.forEach((policy, idx) => {
+    // A nearer scope that always has a policy for this pattern always decides
+    const rank = POLICY_SCOPES.indexOf(policyScope(policy))
+    const overriding = policies.find(
+      (other) =>
+        POLICY_SCOPES.indexOf(policyScope(other)) < rank &&
+        alwaysInForce(other) &&
+        matchesCapability(other.capability, policy.capability),
+    )
+    if (overriding) {
+      report('shadowed', policy, overriding, `Never applies: ${label(overriding)} always takes precedence`)
+      return
+    }
+
+    const peers = policies.filter((other, otherIdx) => otherIdx !== idx && equallySpecific(policy, other))
+
+    const stricter = peers.find(
+      (other) =>
+        RESTRICTIVENESS[other.permission] > RESTRICTIVENESS[policy.permission] && coversTimes(other, policy),
+    )
+    if (stricter) {
+      report('shadowed', policy, stricter, `Never decides: ${label(stricter)} applies whenever it does and is more restrictive`)
+      return
+    }
+
+    // Of two identical rows, flag the second only
+    const duplicate = peers.find(
+      (other) =>
+        other.permission === policy.permission &&
+        coversTimes(other, policy) &&
+        !(coversTimes(policy, other) && policies.indexOf(other) > idx),
+    )
+    if (duplicate) {
+      const limits = describeLimits(policy)
+      const otherLimits = describeLimits(duplicate)
+      report(
+        'redundant',
+        policy,
+        duplicate,
+        limits === otherLimits
+          ? `Duplicates ${label(duplicate)}`
+          : `Duplicates ${label(duplicate)}; both sets of limits are enforced (${limits} and ${otherLimits}), so only the lower one has any effect`,
+      )
+      return
+    }
+
+    // Report each conflicting pair once, on the less restrictive policy
+    for (const other of peers) {
+      if (
+        RESTRICTIVENESS[other.permission] > RESTRICTIVENESS[policy.permission] &&
+        !coversTimes(policy, other)
+      ) {
+        report(
+          'contradictory',
+          policy,
+          other,
+          `Conflicts with ${label(other)} when both are in force; the more restrictive ${other.permission.replace('_', ' ')} wins`,
+        )
+      }
+    }
+  })
+
+  return findings
+}
@@ -0,0 +1,716 @@
+// ---------------------------------------------------------------------------
+// Policy bundles (policy-as-code)
+// Teams, policies and workflow rules exported as one declarative YAML/JSON
+// document that can live in git and be imported back. Everything in a bundle
+// is referenced by name rather than database id, so a bundle can be applied
+// to any environment:
+//
+//   version: 1
+//   teams:
+//     - name: Engineering
+//       lead: dana
+//       members: [Alex, Otto]
+//   policies:
+//     - scope: team
+//       team: Engineering
+//       capability: deploy:production
+//       permission: approval_required
+//   workflowRules:
+//     - team: Engineering
+//       trigger: pr_opened
+//       steps: [...]
+//
+// Importing is two-step: `planBundle` compares a bundle with the current state
+// and lists the creates, updates and deletes needed to converge, and
+// `applyBundlePlan` performs them (inside a transaction). Rows missing from
+// the bundle are only deleted when pruning is asked for, and only in the
+// sections the bundle has. Identity is:
+//
+//   team           name
+//   policy         scope, owner, capability, conditions and schedule
+//   workflow rule  team and trigger
+//
+// so changing a policy's permission, quotas, enabled flag, approvers or expiry
+// updates it in place, while changing when it applies replaces it. Employees
+// and approver groups are never created or deleted by a bundle; they are only
+// referenced, and policy quorums are checked against the groups that exist.
+// ---------------------------------------------------------------------------
+
+import type { Policy, Prisma, PrismaClient } from '@prisma/client'
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import { ApprovalExpiry, parseExpiry } from '@/lib/approval-expiry'
+import { canonicalJson } from '@/lib/approval-fingerprint'
+import { parseQuorum, QuorumRequirement, unsatisfiableQuorum } from '@/lib/approval-quorum'
+import type { Condition } from '@/lib/conditions'
+import type { Quota } from '@/lib/quotas'
+import type { PolicySchedule } from '@/lib/schedule'
+import { POLICY_SCOPES, PolicyScope, policyScope } from '@/lib/policy-scopes'
+import { validatePolicyInput } from '@/lib/policy-validation'
+import { recordPolicyVersion } from '@/lib/policy-versions'
+import { findUnknownAgents, parseWorkflowDefinition, WorkflowDefinitionError } from '@/lib/workflow-dsl'
+
+export const BUNDLE_VERSION = 1
+
+export interface BundleTeam {
+  name: string
+  description?: string
+  /** Approver identity of the team lead, for quorum requirements. */
+  lead?: string
+  /** Employee names. When omitted, the team's membership is left as it is. */
+  members?: string[]
+}
+
+export interface BundlePolicy {
+  scope: PolicyScope
+  /** Owning team name, for team policies. */
+  team?: string
+  /** Owning employee name, for employee policies. */
+  employee?: string
+  capability: string
+  permission: string
+  rateLimit?: number | null
+  quotas?: Quota[]
+  conditions?: Condition[]
+  schedule?: PolicySchedule | null
+  /** Omitted for enabled policies. */
+  enabled?: boolean
+  /** Approval quorum, for approval_required policies. */
+  approvers?: QuorumRequirement[]
+  /** Timeout for pending approval requests. */
+  expiry?: ApprovalExpiry | null
+}
+
+export interface BundleWorkflowRule {
+  team: string
+  trigger: string
+  steps: unknown
+}
+
+/**
+ * A section left out of a document is not managed by it: its rows are neither
+ * changed nor pruned.
+ */
+export interface PolicyBundle {
+  version: typeof BUNDLE_VERSION
+  teams?: BundleTeam[]
+  policies?: BundlePolicy[]
+  workflowRules?: BundleWorkflowRule[]
+}
+
+/** The slice of the database a bundle describes. */
+export interface BundleState {
+  employees: Array<{ id: string; name: string; teamId: string | null }>
+  teams: Array<{ id: string; name: string; description: string; lead: string }>
+  policies: Policy[]
+  workflowRules: Array<{ id: string; teamId: string; trigger: string; steps: string }>
+  /** Not part of a bundle; policy quorums are checked against them. */
+  approverGroups: Array<{ name: string; members: string }>
+}
+
+export type BundleFormat = 'yaml' | 'json'
+
+// ---- Plan -------------------------------------------------------------------
+
+export type PlanAction = 'create' | 'update' | 'delete'
+
+interface PlannedTeam {
+  name: string
+  description: string
+  lead: string
+  /** null leaves membership unchanged. */
+  memberIds: string[] | null
+}
+
+interface PlannedPolicy {
+  scope: PolicyScope
+  employeeId: string | null
+  team: string | null
+  capability: string
+  permission: string
+  rateLimit: number | null
+  quotas: string
+  conditions: string
+  schedule: string
+  enabled: boolean
+  approvers: string
+  expiry: string
+}
+
+interface PlannedWorkflowRule {
+  team: string
+  trigger: string
+  steps: string
+}
+
+interface Change<K extends string, D> {
+  kind: K
+  action: PlanAction
+  /** Human-readable identity, e.g. `team "Engineering" deploy:production`. */
+  key: string
+  /** Database id of the existing row, for updates and deletes. */
+  id?: string
+  /** Fields an update changes. */
+  fields?: string[]
+  /** Values written by a create or update. */
+  data?: D
+}
+
+export type PlanChange =
+  | Change<'team', PlannedTeam>
+  | Change<'policy', PlannedPolicy>
+  | Change<'workflow_rule', PlannedWorkflowRule>
+
+export interface BundlePlan {
+  changes: PlanChange[]
+  summary: Record<PlanAction, number>
+}
+
+export interface PlanOptions {
+  /**
+   * Delete teams, policies and rules missing from the sections the bundle
+   * has (default false).
+   */
+  prune?: boolean
+}
+
+// ---- Helpers ----------------------------------------------------------------
+
+function parseJsonColumn(raw: string, fallback: unknown): unknown {
+  if (!raw) return fallback
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return fallback
+  }
+}
+
+function policyKey(p: {
+  scope: PolicyScope
+  owner: string
+  capability: string
+  conditions: unknown
+  schedule: unknown
+}): string {
+  const owner = p.scope === 'org' ? 'organization' : `${p.scope} "${p.owner}"`
+  const conditions = Array.isArray(p.conditions) && p.conditions.length > 0 ? ` if ${canonicalJson(p.conditions)}` : ''
+  const schedule = p.schedule ? ` during ${canonicalJson(p.schedule)}` : ''
+  return `${owner} ${p.capability}${conditions}${schedule}`
+}
+
+function ruleKey(team: string, trigger: string): string {
+  return `team "${team}" ${trigger}`
+}
+
+/**
+ * Index rows by identity. Rows sharing a key (possible in data written before
+ * bundles) map to the first; the rest are only listed in `all`, so pruning
+ * removes the duplicates.
+ */
+function firstByKey<T>(rows: T[], keyOf: (row: T) => string): { first: Map<string, T>; all: Array<[string, T]> } {
+  const all = rows.map((row) => [keyOf(row), row] as [string, T])
+  const first = new Map<string, T>()
+  for (const [key, row] of all) {
+    if (!first.has(key)) first.set(key, row)
+  }
+  return { first, all }
+}
+
+/** Stored workflow steps as `parseWorkflowDefinition` would write them; null if they no longer parse. */
+function normalizedSteps(raw: string): unknown {
+  try {
+    return parseWorkflowDefinition(parseJsonColumn(raw, []))
+  } catch {
+    return null
+  }
+}
+
+function summarize(changes: PlanChange[]): Record<PlanAction, number> {
+  return {
+    create: changes.filter((c) => c.action === 'create').length,
+    update: changes.filter((c) => c.action === 'update').length,
+    delete: changes.filter((c) => c.action === 'delete').length,
+  }
+}
+
+// ---- Export -----------------------------------------------------------------
+
+/** Read everything a bundle describes. */
+export async function loadBundleState(db: PrismaClient | Prisma.TransactionClient): Promise<BundleState> {
+  const [employees, teams, policies, workflowRules, approverGroups] = await Promise.all([
+    db.employee.findMany({ select: { id: true, name: true, teamId: true } }),
+    db.team.findMany({ select: { id: true, name: true, description: true, lead: true } }),
+    db.policy.findMany(),
+    db.workflowRule.findMany(),
+    db.approverGroup.findMany({ select: { name: true, members: true } }),
+  ])
+  return { employees, teams, policies, workflowRules, approverGroups }
+}
+
+/** Describe the current state as a bundle, in a stable order so exports diff cleanly. */
+export function buildBundle(state: BundleState): Required<PolicyBundle> {
+  const employeeName = new Map(state.employees.map((e) => [e.id, e.name]))
+  const teamName = new Map(state.teams.map((t) => [t.id, t.name]))
+  const byName = (a: string, b: string) => a.localeCompare(b)
+
+  const policies = state.policies.map((policy): BundlePolicy => {
+    const scope = policyScope(policy)
+    const quotas = parseJsonColumn(policy.quotas, []) as Quota[]
+    const conditions = parseJsonColumn(policy.conditions, []) as Condition[]
+    const schedule = parseJsonColumn(policy.schedule, null) as PolicySchedule | null
+    const approvers = parseQuorum(policy.approvers)
+    const expiry = parseExpiry(policy.expiry)
+    return {
+      scope,
+      ...(scope === 'team' ? { team: teamName.get(policy.teamId ?? '') ?? policy.teamId ?? '' } : {}),
+      ...(scope === 'employee' ? { employee: employeeName.get(policy.employeeId ?? '') ?? policy.employeeId ?? '' } : {}),
+      capability: policy.capability,
+      permission: policy.permission,
+      ...(policy.rateLimit !== null ? { rateLimit: policy.rateLimit } : {}),
+      ...(quotas.length > 0 ? { quotas } : {}),
+      ...(conditions.length > 0 ? { conditions } : {}),
+      ...(schedule ? { schedule } : {}),
+      ...(policy.enabled ? {} : { enabled: false }),
+      ...(approvers.length > 0 ? { approvers } : {}),
+      ...(expiry ? { expiry } : {}),
+    }
+  })
+
+  const owner = (p: BundlePolicy) => p.team ?? p.employee ?? ''
+  policies.sort(
+    (a, b) =>
+      POLICY_SCOPES.indexOf(b.scope) - POLICY_SCOPES.indexOf(a.scope) ||
+      byName(owner(a), owner(b)) ||
+      byName(a.capability, b.capability),
+  )
+
+  return {
+    version: BUNDLE_VERSION,
+    teams: state.teams
+      .map((team) => ({
+        name: team.name,
+        description: team.description,
+        ...(team.lead ? { lead: team.lead } : {}),
+        members: state.employees
+          .filter((e) => e.teamId === team.id)
+          .map((e) => e.name)
+          .sort(byName),
+      }))
+      .sort((a, b) => byName(a.name, b.name)),
+    policies,
+    workflowRules: state.workflowRules
+      .map((rule) => ({
+        team: teamName.get(rule.teamId) ?? rule.teamId,
+        trigger: rule.trigger,
+        steps: parseJsonColumn(rule.steps, []),
+      }))
+      .sort((a, b) => byName(a.team, b.team) || byName(a.trigger, b.trigger)),
+  }
+}
+
+export function serializeBundle(bundle: PolicyBundle, format: BundleFormat): string {
+  return format === 'json' ? JSON.stringify(bundle, null, 2) + '\n' : stringifyYaml(bundle)
+}
+
+// ---- Import -----------------------------------------------------------------
+
+/**
+ * Parse a bundle document (YAML, or JSON, which YAML accepts too) and check
+ * its shape. Returns the bundle, or the problems found.
+ */
+export function parseBundle(text: string): { bundle: PolicyBundle | null; issues: string[] } {
+  let raw: unknown
+  try {
+    raw = parseYaml(text)
+  } catch (error) {
+    return { bundle: null, issues: [`Bundle is not valid YAML or JSON: ${(error as Error).message}`] }
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { bundle: null, issues: ['Bundle must be an object'] }
+  }
+  const doc = raw as Record<string, unknown>
+  const issues: string[] = []
+
+  if (doc.version !== BUNDLE_VERSION) {
+    issues.push(`version must be ${BUNDLE_VERSION}`)
+  }
+  for (const section of ['teams', 'policies', 'workflowRules']) {
+    if (doc[section] !== undefined && !Array.isArray(doc[section])) {
+      issues.push(`${section} must be an array`)
+    }
+  }
+  const list = (section: string) => (Array.isArray(doc[section]) ? (doc[section] as unknown[]) : [])
+  const isObject = (item: unknown): item is Record<string, unknown> =>
+    typeof item === 'object' && item !== null && !Array.isArray(item)
+
+  list('teams').forEach((team, idx) => {
+    if (!isObject(team) || typeof team.name !== 'string' || !team.name.trim()) {
+      issues.push(`teams[${idx}].name is required`)
+    } else if (team.lead !== undefined && typeof team.lead !== 'string') {
+      issues.push(`teams[${idx}].lead must be an approver name`)
+    } else if (team.members !== undefined && !(Array.isArray(team.members) && team.members.every((m) => typeof m === 'string'))) {
+      issues.push(`teams[${idx}].members must be a list of employee names`)
+    }
+  })
+  list('policies').forEach((policy, idx) => {
+    if (!isObject(policy)) issues.push(`policies[${idx}] must be an object`)
+  })
+  list('workflowRules').forEach((rule, idx) => {
+    if (!isObject(rule) || typeof rule.team !== 'string' || typeof rule.trigger !== 'string' || !rule.trigger) {
+      issues.push(`workflowRules[${idx}] requires team and trigger`)
+    }
+  })
+
+  if (issues.length > 0) {
+    return { bundle: null, issues }
+  }
+  return {
+    bundle: {
+      version: BUNDLE_VERSION,
+      ...(doc.teams !== undefined ? { teams: list('teams') as BundleTeam[] } : {}),
+      ...(doc.policies !== undefined ? { policies: list('policies') as BundlePolicy[] } : {}),
+      ...(doc.workflowRules !== undefined ? { workflowRules: list('workflowRules') as BundleWorkflowRule[] } : {}),
+    },
+    issues: [],
+  }
+}
+
+/**
+ * Compare a bundle with the current state. Returns the changes that would make
+ * the database match the bundle, or the problems that prevent applying it.
+ */
+export function planBundle(
+  bundle: PolicyBundle,
+  state: BundleState,
+  options: PlanOptions = {},
+): { plan: BundlePlan | null; issues: string[] } {
+  const prune = options.prune ?? false
+  const teams = bundle.teams ?? []
+  const policies = bundle.policies ?? []
+  const workflowRules = bundle.workflowRules ?? []
+  const issues: string[] = []
+  const changes: PlanChange[] = []
+
+  // Employees are referenced by name, which must be unambiguous
+  const resolveEmployee = (name: string, label: string): string | null => {
+    const matches = state.employees.filter((e) => e.name === name)
+    if (matches.length !== 1) {
+      issues.push(`${label}: ${matches.length === 0 ? 'unknown' : 'ambiguous'} employee "${name}"`)
+      return null
+    }
+    return matches[0].id
+  }
+  const employeeName = new Map(state.employees.map((e) => [e.id, e.name]))
+  const existingTeamName = new Map(state.teams.map((t) => [t.id, t.name]))
+
+  // ---- Teams
+  const bundleTeams = new Map<string, BundleTeam>()
+  const memberOf = new Map<string, string>()
+  teams.forEach((team, idx) => {
+    const name = team.name.trim()
+    if (bundleTeams.has(name)) {
+      issues.push(`teams[${idx}]: duplicate team "${name}"`)
+      return
+    }
+    bundleTeams.set(name, team)
+
+    const existing = state.teams.filter((t) => t.name === name)
+    if (existing.length > 1) {
+      issues.push(`teams[${idx}]: team name "${name}" matches ${existing.length} existing teams`)
+      return
+    }
+
+    let memberIds: string[] | null = null
+    if (team.members) {
+      memberIds = []
+      for (const member of team.members) {
+        const id = resolveEmployee(member, `teams[${idx}].members`)
+        if (!id) continue
+        if (memberOf.has(id)) {
+          issues.push(`teams[${idx}].members: "${member}" is also a member of team "${memberOf.get(id)}"`)
+          continue
+        }
+        memberOf.set(id, name)
+        memberIds.push(id)
+      }
+    }
+
+    const data: PlannedTeam = { name, description: team.description ?? '', lead: team.lead?.trim() ?? '', memberIds }
+    const current = existing[0]
+    if (!current) {
+      changes.push({ kind: 'team', action: 'create', key: `team "${name}"`, data })
+      return
+    }
+    const fields: string[] = []
+    if (current.description !== data.description) fields.push('description')
+    if (current.lead !== data.lead) fields.push('lead')
+    if (memberIds) {
+      const currentMembers = state.employees.filter((e) => e.teamId === current.id).map((e) => e.id).sort()
+      if (canonicalJson(currentMembers) !== canonicalJson([...memberIds].sort())) fields.push('members')
+    }
+    if (fields.length > 0) {
+      changes.push({ kind: 'team', action: 'update', key: `team "${name}"`, id: current.id, fields, data })
+    }
+  })
+
+  const deletedTeams = prune && bundle.teams ? state.teams.filter((t) => !bundleTeams.has(t.name)) : []
+  const knownTeams = new Set([
+    ...Array.from(bundleTeams.keys()),
+    ...state.teams.filter((t) => !deletedTeams.includes(t)).map((t) => t.name),
+  ])
+
+  // Each employee's team, and each team's lead, as they will be after the import
+  const plannedTeamOf = (employee: BundleState['employees'][number]): string | null => {
+    const current = existingTeamName.get(employee.teamId ?? '')
+    const leaves = current !== undefined && bundleTeams.get(current)?.members !== undefined
+    return memberOf.get(employee.id) ?? (leaves ? null : current ?? null)
+  }
+  const plannedLead = new Map(state.teams.map((t) => [t.name, t.lead]))
+  bundleTeams.forEach((team, name) => plannedLead.set(name, team.lead?.trim() ?? ''))
+
+  // ---- Policies
+  const existingPolicies = firstByKey(
+    state.policies,
+    (policy) => {
+      const scope = policyScope(policy)
+      const owner =
+        scope === 'team'
+          ? existingTeamName.get(policy.teamId ?? '') ?? ''
+          : scope === 'employee'
+            ? employeeName.get(policy.employeeId ?? '') ?? ''
+            : ''
+      return policyKey({
+        scope,
+        owner,
+        capability: policy.capability,
+        conditions: parseJsonColumn(policy.conditions, []),
+        schedule: parseJsonColumn(policy.schedule, null),
+      })
+    },
+  )
+  const bundlePolicyKeys = new Set<string>()
+
+  policies.forEach((policy, idx) => {
+    const label = `policies[${idx}]`
+    const scope = policy.scope ?? 'employee'
+    const invalid = validatePolicyInput({
+      scope,
+      employeeId: policy.employee,
+      teamId: policy.team,
+      capability: policy.capability,
+      permission: policy.permission,
+      rateLimit: policy.rateLimit,
+      quotas: policy.quotas,
+      conditions: policy.conditions,
+      schedule: policy.schedule,
+      enabled: policy.enabled,
+      approvers: policy.approvers,
+      expiry: policy.expiry,
+    })
+    if (invalid) {
+      issues.push(...[invalid.error, ...(invalid.issues ?? [])].map((issue) => `${label}: ${issue}`))
+      return
+    }
+
+    let employeeId: string | null = null
+    if (scope === 'employee') {
+      employeeId = resolveEmployee(policy.employee!, label)
+      if (!employeeId) return
+    }
+    if (scope === 'team' && !knownTeams.has(policy.team!)) {
+      issues.push(`${label}: unknown team "${policy.team}"`)
+      return
+    }
+
+    // An organization policy's team lead is the requester's, so it stays undefined
+    let teamLead: string | null | undefined
+    if (scope !== 'org') {
+      const team = scope === 'team' ? policy.team! : plannedTeamOf(state.employees.find((e) => e.id === employeeId)!)
+      teamLead = (team && plannedLead.get(team)) || null
+    }
+    const unsatisfiable = unsatisfiableQuorum(policy.approvers ?? [], state.approverGroups, teamLead)
+    if (unsatisfiable.length > 0) {
+      issues.push(...unsatisfiable.map((issue) => `${label}: ${issue}`))
+      return
+    }
+
+    const key = policyKey({
+      scope,
+      owner: policy.team ?? policy.employee ?? '',
+      capability: policy.capability,
+      conditions: policy.conditions ?? [],
+      schedule: policy.schedule ?? null,
+    })
+    if (bundlePolicyKeys.has(key)) {
+      issues.push(`${label}: duplicate policy ${key}`)
+      return
+    }
+    bundlePolicyKeys.add(key)
+
+    const data: PlannedPolicy = {
+      scope,
+      employeeId,
+      team: scope === 'team' ? policy.team! : null,
+      capability: policy.capability,
+      permission: policy.permission ?? 'allow',
+      rateLimit: policy.rateLimit || null,
+      quotas: JSON.stringify(policy.quotas ?? []),
+      conditions: JSON.stringify(policy.conditions ?? []),
+      schedule: policy.schedule ? JSON.stringify(policy.schedule) : '',
+      enabled: policy.enabled ?? true,
+      approvers: JSON.stringify(policy.approvers ?? []),
+      expiry: policy.expiry ? JSON.stringify(policy.expiry) : '',
+    }
+    const current = existingPolicies.first.get(key)
+    if (!current) {
+      changes.push({ kind: 'policy', action: 'create', key, data })
+      return
+    }
+    const fields: string[] = []
+    if (current.permission !== data.permission) fields.push('permission')
+    if (current.rateLimit !== data.rateLimit) fields.push('rateLimit')
+    if (canonicalJson(parseJsonColumn(current.quotas, [])) !== canonicalJson(policy.quotas ?? [])) fields.push('quotas')
+    if (current.enabled !== data.enabled) fields.push('enabled')
+    if (canonicalJson(parseQuorum(current.approvers)) !== canonicalJson(policy.approvers ?? [])) fields.push('approvers')
+    if (canonicalJson(parseExpiry(current.expiry)) !== canonicalJson(policy.expiry ?? null)) fields.push('expiry')
+    if (fields.length > 0) {
+      changes.push({ kind: 'policy', action: 'update', key, id: current.id, fields, data })
+    }
+  })
+
+  // ---- Workflow rules
+  const plannedEmployees = state.employees.map((e) => ({ name: e.name, teamId: plannedTeamOf(e) }))
+  const existingRules = firstByKey(state.workflowRules, (rule) =>
+    ruleKey(existingTeamName.get(rule.teamId) ?? '', rule.trigger),
+  )
+  const bundleRuleKeys = new Set<string>()
+
+  workflowRules.forEach((rule, idx) => {
+    const label = `workflowRules[${idx}]`
+    if (!knownTeams.has(rule.team)) {
+      issues.push(`${label}: unknown team "${rule.team}"`)
+      return
+    }
+
+    let steps
+    try {
+      steps = parseWorkflowDefinition(rule.steps)
+    } catch (error) {
+      if (!(error instanceof WorkflowDefinitionError)) throw error
+      issues.push(...error.issues.map((issue) => `${label}: ${issue}`))
+      return
+    }
+
+    // Agents must resolve against the teams as they will be after the import
+    const unknownAgents = findUnknownAgents(steps, plannedEmployees, rule.team)
+    if (unknownAgents.length > 0) {
+      issues.push(...unknownAgents.map((issue) => `${label}: ${issue}`))
+      return
+    }
+
+    const key = ruleKey(rule.team, rule.trigger)
+    if (bundleRuleKeys.has(key)) {
+      issues.push(`${label}: duplicate workflow rule ${key}`)
+      return
+    }
+    bundleRuleKeys.add(key)
+
+    const data: PlannedWorkflowRule = { team: rule.team, trigger: rule.trigger, steps: JSON.stringify(steps) }
+    const current = existingRules.first.get(key)
+    if (!current) {
+      changes.push({ kind: 'workflow_rule', action: 'create', key, data })
+    } else if (canonicalJson(normalizedSteps(current.steps)) !== canonicalJson(steps)) {
+      changes.push({ kind: 'workflow_rule', action: 'update', key, id: current.id, fields: ['steps'], data })
+    }
+  })
+
+  // ---- Deletes
+  if (prune && bundle.policies) {
+    for (const [key, policy] of existingPolicies.all) {
+      if (!bundlePolicyKeys.has(key) || existingPolicies.first.get(key) !== policy) {
+        changes.push({ kind: 'policy', action: 'delete', key, id: policy.id })
+      }
+    }
+  }
+  if (prune && bundle.workflowRules) {
+    for (const [key, rule] of existingRules.all) {
+      if (!bundleRuleKeys.has(key) || existingRules.first.get(key) !== rule) {
+        changes.push({ kind: 'workflow_rule', action: 'delete', key, id: rule.id })
+      }
+    }
+  }
+  for (const team of deletedTeams) {
+    changes.push({ kind: 'team', action: 'delete', key: `team "${team.name}"`, id: team.id })
+  }
+
+  if (issues.length > 0) {
+    return { plan: null, issues }
+  }
+  return { plan: { changes, summary: summarize(changes) }, issues: [] }
+}
+
+/**
+ * Perform a plan's changes. Call inside a transaction, with the state the plan
+ * was computed from, so a failure leaves the database untouched.
+ */
+export async function applyBundlePlan(
+  tx: Prisma.TransactionClient,
+  plan: BundlePlan,
+  state: BundleState,
+  changedBy: string,
+): Promise<void> {
+  const teamIds = new Map(state.teams.map((t) => [t.name, t.id]))
+  const of = <K extends PlanChange['kind']>(kind: K, action: PlanAction) =>
+    plan.changes.filter((c): c is Extract<PlanChange, { kind: K }> => c.kind === kind && c.action === action)
+
+  // Teams first, so policies and rules can reference new teams
+  for (const change of [...of('team', 'create'), ...of('team', 'update')]) {
+    const { name, description, lead, memberIds } = change.data!
+    const team = change.id
+      ? await tx.team.update({ where: { id: change.id }, data: { description, lead } })
+      : await tx.team.create({ data: { name, description, lead } })
+    teamIds.set(name, team.id)
+    if (memberIds) {
+      await tx.employee.updateMany({ where: { teamId: team.id, id: { notIn: memberIds } }, data: { teamId: null } })
+      await tx.employee.updateMany({ where: { id: { in: memberIds } }, data: { teamId: team.id } })
+    }
+  }
+
+  for (const change of of('policy', 'delete')) {
+    const before = state.policies.find((p) => p.id === change.id)!
+    await tx.policy.delete({ where: { id: change.id } })
+    await recordPolicyVersion(tx, { policyId: before.id, before, after: null, changeType: 'deleted', changedBy, note: 'Bundle import' })
+  }
+  for (const change of of('workflow_rule', 'delete')) {
+    await tx.workflowRule.delete({ where: { id: change.id } })
+  }
+
+  for (const change of [...of('policy', 'create'), ...of('policy', 'update')]) {
+    const { team, ...data } = change.data!
+    if (change.id) {
+      const before = state.policies.find((p) => p.id === change.id)!
+      const policy = await tx.policy.update({
+        where: { id: change.id },
+        data: { permission: data.permission, rateLimit: data.rateLimit, quotas: data.quotas, enabled: data.enabled, approvers: data.approvers, expiry: data.expiry },
+      })
+      await recordPolicyVersion(tx, { policyId: policy.id, before, after: policy, changeType: 'updated', changedBy, note: 'Bundle import' })
+    } else {
+      const policy = await tx.policy.create({ data: { ...data, teamId: team ? teamIds.get(team)! : null } })
+      await recordPolicyVersion(tx, { policyId: policy.id, before: null, after: policy, changeType: 'created', changedBy, note: 'Bundle import' })
+    }
+  }
+
+  for (const change of [...of('workflow_rule', 'create'), ...of('workflow_rule', 'update')]) {
+    const { team, trigger, steps } = change.data!
+    if (change.id) {
+      await tx.workflowRule.update({ where: { id: change.id }, data: { steps } })
+    } else {
+      await tx.workflowRule.create({ data: { teamId: teamIds.get(team)!, trigger, steps } })
+    }
+  }
+
+  // Teams last: deleting a team cascades to anything still attached to it
+  for (const change of of('team', 'delete')) {
+    await tx.team.delete({ where: { id: change.id } })
+  }
+}
@@ -0,0 +1,355 @@
+// ---------------------------------------------------------------------------
+// Policy changes
+// Updates, enabling, disabling and deletion of existing policies, one at a
+// time (`/api/policies/:id`) or in bulk (`/api/policies/bulk`). Changes are
+// planned first, so a bulk request is checked as a whole before anything is
+// written, and then applied inside a transaction that records a policy
+// version for each one (see policy-versions.ts).
+//
+// A bulk request applies one operation to many policies:
+//
+//   update   change permission, limits, conditions, schedule, approvers or expiry
+//   enable   put disabled policies back in force
+//   disable  keep the policies, but have the engine ignore them
+//   delete   remove the policies (their version history is kept)
+//   apply    give each listed employee the same policy for a capability,
+//            updating the one they have or creating it
+//
+// Targets are named by `policyIds`, or by `employeeIds` and a `capability`
+// (the employees' own policies for exactly that capability). `apply` always
+// takes employees.
+//
+// `updatePolicy` and `applyPolicyChange` are the single-policy paths shared
+// by PUT /api/policies and /api/policies/:id.
+// ---------------------------------------------------------------------------
+
+import type { Policy, Prisma, PrismaClient } from '@prisma/client'
+import { AuditLogger } from '@/lib/audit'
+import { checkPolicyQuorum, parseQuorum } from '@/lib/approval-quorum'
+import { describePolicyTarget, policyScope } from '@/lib/policy-scopes'
+import { PolicyInput, validatePolicyUpdate } from '@/lib/policy-validation'
+import { diffSnapshots, PolicyChangeType, policyChangeAuthor, recordPolicyVersion } from '@/lib/policy-versions'
+
+export type BulkOperation = 'update' | 'enable' | 'disable' | 'delete' | 'apply'
+
+export const BULK_OPERATIONS: BulkOperation[] = ['update', 'enable', 'disable', 'delete', 'apply']
+
+export interface BulkPolicyRequest {
+  operation?: unknown
+  policyIds?: unknown
+  employeeIds?: unknown
+  capability?: unknown
+  /** Fields to write, for `update` and `apply`. */
+  changes?: unknown
+}
+
+/** A policy with the owner names used to describe it. */
+export type TargetPolicy = Policy & {
+  employee?: { name: string } | null
+  team?: { name: string } | null
+}
+
+type PolicyFields = Pick<
+  Policy,
+  'capability' | 'permission' | 'rateLimit' | 'quotas' | 'conditions' | 'schedule' | 'enabled' | 'approvers' | 'expiry'
+>
+
+export type PlannedPolicyChange =
+  | { action: 'create'; employeeId: string; data: PolicyFields }
+  | { action: 'update'; policy: TargetPolicy; data: Partial<PolicyFields> }
+  | { action: 'delete'; policy: TargetPolicy }
+
+export interface AppliedPolicyChange {
+  changeType: PolicyChangeType
+  /** The policy after the change; as it was, for deletes. */
+  policy: TargetPolicy
+  version: { version: number; changedBy: string }
+}
+
+/** Columns written by an update, with the JSON fields encoded; undefined fields are left out. */
+export function policyUpdateData(input: PolicyInput): Partial<PolicyFields> {
+  return {
+    ...(input.capability !== undefined ? { capability: input.capability as string } : {}),
+    ...(input.permission !== undefined ? { permission: input.permission as string } : {}),
+    ...(input.rateLimit !== undefined ? { rateLimit: input.rateLimit as number | null } : {}),
+    ...(input.quotas !== undefined ? { quotas: JSON.stringify(input.quotas) } : {}),
+    ...(input.conditions !== undefined ? { conditions: JSON.stringify(input.conditions) } : {}),
+    // A null schedule clears it (the policy is always in force)
+    ...(input.schedule !== undefined ? { schedule: input.schedule ? JSON.stringify(input.schedule) : '' } : {}),
+    ...(input.enabled !== undefined ? { enabled: input.enabled as boolean } : {}),
+    ...(input.approvers !== undefined ? { approvers: JSON.stringify(input.approvers) } : {}),
+    ...(input.expiry !== undefined ? { expiry: input.expiry ? JSON.stringify(input.expiry) : '' } : {}),
+  }
+}
+
+function isUnchanged(policy: Policy, data: Partial<PolicyFields>): boolean {
+  return diffSnapshots(policy, { ...policy, ...data }).length === 0
+}
+
+function stringList(value: unknown, label: string, issues: string[]): string[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.some((item) => typeof item !== 'string' || !item)) {
+    issues.push(`${label} must be a non-empty list of ids`)
+    return null
+  }
+  return Array.from(new Set(value as string[]))
+}
+
+/**
+ * Plan a bulk request against the current employees and policies. Returns the
+ * changes to apply (targets already in the requested state are left out), or
+ * the problems found.
+ */
+export function planBulkChange(
+  request: BulkPolicyRequest,
+  state: { employees: Array<{ id: string }>; policies: TargetPolicy[] },
+): { changes: PlannedPolicyChange[] | null; issues: string[] } {
+  const issues: string[] = []
+  const operation = request.operation as BulkOperation
+  if (!BULK_OPERATIONS.includes(operation)) {
+    return { changes: null, issues: [`operation must be one of: ${BULK_OPERATIONS.join(', ')}`] }
+  }
+
+  const fields = (request.changes ?? {}) as PolicyInput
+  if (operation === 'update' || operation === 'apply') {
+    if (typeof request.changes !== 'object' || request.changes === null || Array.isArray(request.changes)) {
+      return { changes: null, issues: ['changes must be an object'] }
+    }
+    if (operation === 'update' && Object.keys(fields).length === 0) {
+      return { changes: null, issues: ['changes must set at least one field'] }
+    }
+    // Scope and owner come from the targets, so they cannot be changed here
+    const invalid = validatePolicyUpdate(operation === 'apply' ? { ...fields, capability: request.capability } : fields)
+    if (invalid) {
+      issues.push(`changes: ${invalid.error}`, ...(invalid.issues ?? []).map((issue) => `changes: ${issue}`))
+    }
+    if ('scope' in fields || 'employeeId' in fields || 'teamId' in fields) {
+      issues.push('changes cannot move policies to another owner')
+    }
+    if (operation === 'apply' && 'capability' in fields) {
+      issues.push('apply takes the capability from the request, not from changes')
+    }
+  }
+
+  // ---- Targets
+  let targets: TargetPolicy[] = []
+  let employeeIds: string[] = []
+  if (request.policyIds !== undefined && operation !== 'apply') {
+    const ids = stringList(request.policyIds, 'policyIds', issues) ?? []
+    const byId = new Map(state.policies.map((p) => [p.id, p]))
+    ids.forEach((id, idx) => {
+      const policy = byId.get(id)
+      if (policy) {
+        targets.push(policy)
+      } else {
+        issues.push(`policyIds[${idx}]: unknown policy "${id}"`)
+      }
+    })
+  } else if (request.employeeIds !== undefined && typeof request.capability === 'string' && request.capability) {
+    employeeIds = stringList(request.employeeIds, 'employeeIds', issues) ?? []
+    const known = new Set(state.employees.map((e) => e.id))
+    employeeIds.forEach((id, idx) => {
+      if (!known.has(id)) issues.push(`employeeIds[${idx}]: unknown employee "${id}"`)
+    })
+    const wanted = new Set(employeeIds)
+    targets = state.policies.filter(
+      (p) => policyScope(p) === 'employee' && wanted.has(p.employeeId ?? '') && p.capability === request.capability,
+    )
+  } else {
+    issues.push(
+      operation === 'apply'
+        ? 'apply requires employeeIds and capability'
+        : 'policyIds, or employeeIds and capability, are required',
+    )
+  }
+
+  if (issues.length > 0) {
+    return { changes: null, issues }
+  }
+
+  const data = policyUpdateData(fields)
+  const changes: PlannedPolicyChange[] = []
+  const update = (policy: TargetPolicy, patch: Partial<PolicyFields>) => {
+    if (!isUnchanged(policy, patch)) changes.push({ action: 'update', policy, data: patch })
+  }
+
+  switch (operation) {
+    case 'enable':
+    case 'disable':
+      targets.forEach((policy) => update(policy, { enabled: operation === 'enable' }))
+      break
+    case 'delete':
+      targets.forEach((policy) => changes.push({ action: 'delete', policy }))
+      break
+    case 'update':
+      targets.forEach((policy) => update(policy, data))
+      break
+    case 'apply': {
+      // An employee's existing policy is the one in force at the same times
+      const conditions = data.conditions ?? '[]'
+      const schedule = data.schedule ?? ''
+      for (const employeeId of employeeIds) {
+        const existing = targets.find(
+          (p) => p.employeeId === employeeId && (p.conditions || '[]') === conditions && p.schedule === schedule,
+        )
+        if (existing) {
+          update(existing, data)
+        } else {
+          changes.push({
+            action: 'create',
+            employeeId,
+            data: {
+              capability: request.capability as string,
+              permission: 'allow',
+              rateLimit: null,
+              quotas: '[]',
+              conditions,
+              schedule,
+              enabled: true,
+              approvers: '[]',
+              expiry: '',
+              ...data,
+            },
+          })
+        }
+      }
+      break
+    }
+  }
+
+  return { changes, issues: [] }
+}
+
+/**
+ * Approver quorums set by planned changes that no votes could satisfy with the
+ * approver groups and team leads as they are now.
+ */
+export async function unsatisfiableQuorums(
+  db: PrismaClient | Prisma.TransactionClient,
+  changes: PlannedPolicyChange[],
+): Promise<string[]> {
+  const issues: string[] = []
+  for (const change of changes) {
+    if (change.action === 'delete' || change.data.approvers === undefined) continue
+    const [owner, label] =
+      change.action === 'create'
+        ? [{ scope: 'employee', employeeId: change.employeeId }, `employee ${change.employeeId}`]
+        : [change.policy, describePolicyTarget(change.policy)]
+    const found = await checkPolicyQuorum(db, owner, parseQuorum(change.data.approvers))
+    issues.push(...found.map((issue) => `${label}: ${issue}`))
+  }
+  return issues
+}
+
+/** Version change type for an update: enabling or disabling alone gets its own. */
+function updateChangeType(policy: Policy, data: Partial<PolicyFields>): PolicyChangeType {
+  const changed = diffSnapshots(policy, { ...policy, ...data }).map((c) => c.field)
+  if (changed.length === 1 && changed[0] === 'enabled') {
+    return data.enabled ? 'enabled' : 'disabled'
+  }
+  return 'updated'
+}
+
+/** Perform planned changes inside a transaction, recording a version for each. */
+export async function applyPolicyChanges(
+  tx: Prisma.TransactionClient,
+  changes: PlannedPolicyChange[],
+  changedBy: string,
+  note?: string,
+): Promise<AppliedPolicyChange[]> {
+  const include = { employee: true, team: true }
+  const applied: AppliedPolicyChange[] = []
+
+  for (const change of changes) {
+    if (change.action === 'create') {
+      const policy = await tx.policy.create({
+        data: { ...change.data, scope: 'employee', employeeId: change.employeeId },
+        include,
+      })
+      const version = await recordPolicyVersion(tx, { policyId: policy.id, before: null, after: policy, changeType: 'created', changedBy, note })
+      applied.push({ changeType: 'created', policy, version })
+    } else if (change.action === 'update') {
+      const changeType = updateChangeType(change.policy, change.data)
+      const policy = await tx.policy.update({ where: { id: change.policy.id }, data: change.data, include })
+      const version = await recordPolicyVersion(tx, { policyId: policy.id, before: change.policy, after: policy, changeType, changedBy, note })
+      applied.push({ changeType, policy, version })
+    } else {
+      await tx.policy.delete({ where: { id: change.policy.id } })
+      const version = await recordPolicyVersion(tx, { policyId: change.policy.id, before: change.policy, after: null, changeType: 'deleted', changedBy, note })
+      applied.push({ changeType: 'deleted', policy: change.policy, version })
+    }
+  }
+
+  return applied
+}
+
+const AUDIT_ACTIONS: Record<PolicyChangeType, string> = {
+  created: 'policy_created',
+  updated: 'policy_updated',
+  rolled_back: 'policy_rolled_back',
+  enabled: 'policy_enabled',
+  disabled: 'policy_disabled',
+  deleted: 'policy_deleted',
+}
+
+/** Audit log action and message for an applied change. */
+export function describeAppliedChange(change: AppliedPolicyChange): { action: string; details: string } {
+  const { policy, version } = change
+  const target = describePolicyTarget(policy)
+  const suffix = `(version ${version.version}, by ${version.changedBy})`
+  const details = {
+    created: `Created policy: "${policy.capability}" set to "${policy.permission}" for ${target} ${suffix}`,
+    updated: `Updated policy "${policy.capability}" to "${policy.permission}" for ${target} ${suffix}`,
+    rolled_back: `Rolled back policy "${policy.capability}" for ${target} ${suffix}`,
+    enabled: `Enabled policy "${policy.capability}" for ${target} ${suffix}`,
+    disabled: `Disabled policy "${policy.capability}" for ${target}; the engine ignores it until re-enabled ${suffix}`,
+    deleted: `Deleted policy "${policy.capability}" (${policy.permission}) for ${target} ${suffix}`,
+  }[change.changeType]
+  return { action: AUDIT_ACTIONS[change.changeType], details }
+}
+
+export type PolicyUpdateOutcome =
+  | { ok: true; applied: AppliedPolicyChange }
+  | { ok: false; status: 400 | 404; error: string; issues?: string[] }
+
+const auditLogger = new AuditLogger()
+
+/** Apply one planned change in its own transaction, then audit-log it. */
+export async function applyPolicyChange(
+  db: PrismaClient,
+  change: PlannedPolicyChange,
+  changedBy: unknown,
+): Promise<AppliedPolicyChange> {
+  const [applied] = await db.$transaction((tx) => applyPolicyChanges(tx, [change], policyChangeAuthor(changedBy)))
+  const { action, details } = describeAppliedChange(applied)
+  await auditLogger.log(action, details, applied.policy.employeeId ?? undefined)
+  return applied
+}
+
+/** Validate and apply an update to one policy. */
+export async function updatePolicy(
+  db: PrismaClient,
+  id: string,
+  input: PolicyInput,
+  changedBy: unknown,
+): Promise<PolicyUpdateOutcome> {
+  const invalid = validatePolicyUpdate(input)
+  if (invalid) {
+    return { ok: false, status: 400, ...invalid }
+  }
+
+  const existing = await db.policy.findUnique({
+    where: { id },
+    include: { employee: true, team: true },
+  })
+  if (!existing) {
+    return { ok: false, status: 404, error: 'Policy not found' }
+  }
+
+  const change: PlannedPolicyChange = { action: 'update', policy: existing, data: policyUpdateData(input) }
+  const issues = await unsatisfiableQuorums(db, [change])
+  if (issues.length > 0) {
+    return { ok: false, status: 400, error: 'Invalid approval quorum', issues }
+  }
+
+  return { ok: true, applied: await applyPolicyChange(db, change, changedBy) }
+}
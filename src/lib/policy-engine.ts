@@ -1,29 +1,146 @@
 // ---------------------------------------------------------------------------
 // Policy enforcement engine
-// Evaluates actions against stored policies, enforces rate limits, checks
-// inter-agent permissions, and creates approval requests when required.
+// Evaluates actions against stored policies, enforces rate limits (see
+// rate-limit.ts), checks inter-agent permissions, and creates approval
+// requests when required. Policy capabilities may be patterns (see
+// capabilities.ts), and policies may carry conditions over the evaluation
+// context and a schedule limiting when they are in force (see schedule.ts).
+// Employees inherit team and organization policies (see policy-scopes.ts);
+// the nearest scope with an applicable policy decides, and within it the most
+// specific policies do. Evaluations can run as side-effect-free dry runs that
+// explain the decision. An action that would need approval is allowed instead
+// when a reviewer's standing approval covers it (see standing-approvals.ts),
+// and retrying an action whose approval request is still pending counts a
+// retry on that request rather than queueing another (see
+// approval-fingerprint.ts).
 // ---------------------------------------------------------------------------
 
 import prisma from '@/lib/db'
+import { requestFingerprint } from '@/lib/approval-fingerprint'
+import { ApprovalExpiry, describeExpiry, expiryDeadline, parseExpiry, strictestExpiry } from '@/lib/approval-expiry'
+import { describeQuorum, parseQuorum, QuorumRequirement } from '@/lib/approval-quorum'
+import { matchesCapability, mostSpecificMatches } from '@/lib/capabilities'
+import { evaluateConditions, parseConditionList } from '@/lib/conditions'
+import { isScheduleActive, parseSchedule } from '@/lib/schedule'
+import { describeStandingApproval, findStandingApproval } from '@/lib/standing-approvals'
+import { POLICY_SCOPES, PolicyScope, inheritedPolicyFilter, isInheritedBy, policyScope } from '@/lib/policy-scopes'
+import { LimitCheck, RateLimiter, RateLimitUsage, rateLimitKey, spendKey, rateLimiter as defaultRateLimiter } from '@/lib/rate-limit'
+import { QUOTA_WINDOW_MS, Quota, QuotaWindow, policyQuotas, quotaLimit } from '@/lib/quotas'
+import type { Policy, StandingApproval } from '@prisma/client'
 
 export interface PolicyResult {
   allowed: boolean
   reason: string
   requiresApproval: boolean
+  /** ID of the ApprovalRequest created when `requiresApproval` is true. */
+  approvalRequestId?: string
+  /** ID of the standing approval that allowed an action which would otherwise need approval. */
+  standingApprovalId?: string
+  /** The quota that blocked the action, when one did. */
+  exhaustedQuota?: QuotaStatus
+  /** How the decision was reached; present for dry runs and when requested. */
+  explanation?: PolicyExplanation
 }
 
-interface RateLimitEntry {
-  count: number
-  windowStart: number
+export interface EvaluateOptions {
+  /**
+   * Decide without side effects: no approval request is created, rate-limit
+   * counters are left untouched and nothing is written to the audit log.
+   */
+  dryRun?: boolean
+  /** Attach an explanation of the decision to the result. */
+  explain?: boolean
+  /**
+   * Decide against this policy set instead of the stored policies, e.g. a
+   * proposed change. Implies `dryRun`.
+   */
+  policies?: Policy[]
+  /** Decide as of this moment, for schedules and change freezes (default: now). */
+  at?: Date
+  /** Skip quota checks, e.g. when replaying past traffic whose counters are gone. */
+  ignoreQuotas?: boolean
+}
+
+/** Usage of one policy quota, as of an evaluation. */
+export interface QuotaStatus {
+  policyId: string
+  capability: string
+  kind: Quota['kind']
+  window: QuotaWindow
+  /** Uses, or dollars for budgets. */
+  limit: number
+  used: number
+  remaining: number
+  exhausted: boolean
+  /** When the action would fit the quota again. */
+  resetAt: Date
+}
+
+/** A policy whose capability pattern covers the evaluated action. */
+export interface ConsideredPolicy {
+  id: string
+  scope: PolicyScope
+  capability: string
+  permission: string
+  rateLimit: number | null
+  /**
+   * decisive:   took part in the decision
+   * overridden: in force, but lost to a higher-precedence policy
+   * inactive:   its conditions or schedule did not apply
+   */
+  status: 'decisive' | 'overridden' | 'inactive'
+  note: string
+}
+
+export interface PolicyExplanation {
+  employeeId: string
+  action: string
+  outcome: 'allow' | 'deny' | 'approval_required'
+  /** What settled the outcome. */
+  decidedBy: 'policy' | 'quota' | 'autonomy_mode' | 'standing_approval' | 'employee_not_found'
+  /** Scope of the decisive policies, when policies decided. */
+  scope?: PolicyScope
+  autonomyMode?: string
+  /** Quotas of the decisive policies and their usage. */
+  quotas?: QuotaStatus[]
+  policies: ConsideredPolicy[]
+}
+
+interface Consideration {
+  policy: Policy
+  conditionCount: number
+  status: ConsideredPolicy['status']
+  note: string
 }
 
-// In-memory rate-limit tracking (per process). In production this would use
-// Redis or a similar distributed store; for the demo an in-memory map suffices.
-const rateLimitMap = new Map<string, RateLimitEntry>()
+/** How a non-dry-run evaluation left the approval queue. */
+function describeRequest(retryCount: number): string {
+  return retryCount > 0
+    ? `An equivalent approval request is already pending (retry ${retryCount}).`
+    : 'An approval request has been created.'
+}
 
-const RATE_LIMIT_WINDOW_MS = 60_000 // 1-minute sliding window
+function quotaStatus(
+  policy: Pick<Policy, 'id' | 'capability'>,
+  quota: Quota,
+  usage: RateLimitUsage,
+): QuotaStatus {
+  return {
+    policyId: policy.id,
+    capability: policy.capability,
+    kind: quota.kind,
+    window: quota.window,
+    limit: usage.limit,
+    used: usage.used,
+    remaining: usage.remaining,
+    exhausted: !usage.allowed,
+    resetAt: usage.resetAt,
+  }
+}
 
 export class PolicyEngine {
+  constructor(private readonly rateLimiter: RateLimiter = defaultRateLimiter) {}
+
   // --------------------------------------------------------------------------
   // evaluate – main entry point
   // --------------------------------------------------------------------------
@@ -37,45 +154,79 @@ export class PolicyEngine {
    * @param employeeId  The ID of the employee (agent) attempting the action.
    * @param action      The capability / action string to check (e.g. "deploy",
    *                    "access_crm", "send_email").
-   * @param context     Optional context object stored alongside approval
-   *                    requests for auditing purposes.
+   * @param context     Optional context object. Conditional policies are
+   *                    evaluated against it, and it is stored alongside
+   *                    approval requests for auditing purposes.
+   * @param options     `dryRun` decides without side effects; `explain`
+   *                    (implied by `dryRun`) attaches an explanation; see
+   *                    `EvaluateOptions` for evaluating hypothetical policy
+   *                    sets and past moments.
    */
   async evaluate(
     employeeId: string,
     action: string,
     context?: Record<string, unknown>,
+    options: EvaluateOptions = {},
   ): Promise<PolicyResult> {
+    const dryRun = (options.dryRun ?? false) || options.policies !== undefined
+    const explain = (
+      result: PolicyResult,
+      details: Omit<PolicyExplanation, 'employeeId' | 'action' | 'outcome'>,
+    ): PolicyResult => {
+      if (!dryRun && !options.explain) return result
+      const outcome = result.allowed ? 'allow' : result.requiresApproval ? 'approval_required' : 'deny'
+      return { ...result, explanation: { employeeId, action, outcome, ...details } }
+    }
+
     // 1. Verify the employee exists
     const employee = await prisma.employee.findUnique({
       where: { id: employeeId },
     })
 
     if (!employee) {
-      return {
-        allowed: false,
-        reason: `Employee ${employeeId} not found`,
-        requiresApproval: false,
-      }
+      return explain(
+        {
+          allowed: false,
+          reason: `Employee ${employeeId} not found`,
+          requiresApproval: false,
+        },
+        { decidedBy: 'employee_not_found', policies: [] },
+      )
     }
 
-    // 2. Look up policies that match this employee + capability
-    const policies = await prisma.policy.findMany({
-      where: {
-        employeeId,
-        capability: action,
-      },
-    })
+    // 2. Look up the most specific policies matching this employee + capability
+    const considered = await this.considerPolicies(employee, action, context, options)
+    const policies = considered.filter((c) => c.status === 'decisive').map((c) => c.policy)
+    const trace = considered.map((c) => this.describeConsideration(c))
 
     // 3. If no explicit policy exists, fall back to the employee's autonomy mode
     if (policies.length === 0) {
-      return this.evaluateAutonomyFallback(employee.autonomyMode, employeeId, action, context)
+      const standing =
+        employee.autonomyMode === 'supervised'
+          ? await this.standingApprovalFor(employeeId, action, context, options)
+          : null
+      const result = standing
+        ? await this.allowByStandingApproval(standing, employeeId, action, dryRun, options.at)
+        : await this.evaluateAutonomyFallback(
+            employee.autonomyMode,
+            employeeId,
+            action,
+            context,
+            dryRun,
+          )
+      return explain(result, {
+        decidedBy: standing ? 'standing_approval' : 'autonomy_mode',
+        autonomyMode: employee.autonomyMode,
+        policies: trace,
+      })
     }
 
-    // 4. Process matching policies (most restrictive wins)
+    // 4. Process equally specific policies (most restrictive wins)
+    const source = this.inheritedFrom(policies)
+    const scope = policyScope(policies[0])
     let hasDeny = false
     let hasApprovalRequired = false
     let hasAllow = false
-    let applicableRateLimit: number | null = null
 
     for (const policy of policies) {
       switch (policy.permission) {
@@ -89,82 +240,135 @@ export class PolicyEngine {
           hasAllow = true
           break
       }
-      if (policy.rateLimit !== null) {
-        applicableRateLimit =
-          applicableRateLimit === null
-            ? policy.rateLimit
-            : Math.min(applicableRateLimit, policy.rateLimit)
-      }
     }
 
     // Deny takes precedence
     if (hasDeny) {
-      await this.logAudit(
-        `policy_denied`,
-        `Action "${action}" denied by explicit policy`,
-        employeeId,
-      )
-      return {
-        allowed: false,
-        reason: `Action "${action}" is explicitly denied by policy`,
-        requiresApproval: false,
-      }
-    }
-
-    // Rate-limit check (if any policy has one configured)
-    if (applicableRateLimit !== null) {
-      const withinLimit = await this.checkRateLimit(employeeId, action, applicableRateLimit)
-      if (!withinLimit) {
+      if (!dryRun) {
         await this.logAudit(
-          'rate_limit_exceeded',
-          `Rate limit exceeded for "${action}" (limit: ${applicableRateLimit}/min)`,
+          `policy_denied`,
+          `Action "${action}" denied by explicit policy${source}`,
           employeeId,
         )
-        return {
+      }
+      return explain(
+        {
           allowed: false,
-          reason: `Rate limit exceeded for "${action}" (max ${applicableRateLimit} per minute)`,
+          reason: `Action "${action}" is explicitly denied by policy${source}`,
           requiresApproval: false,
-        }
-      }
+        },
+        { decidedBy: 'policy', scope, policies: trace },
+      )
+    }
+
+    // Quota check: each decisive policy counts its own uses and spend. The
+    // action's cost, if known, is passed as `costUsd` in the context
+    const costUsd = typeof context?.costUsd === 'number' && context.costUsd > 0 ? context.costUsd : 0
+    const quotas = options.ignoreQuotas ? [] : await this.getQuotaUsage(employeeId, policies, costUsd)
+    const exhausted = quotas.find((q) => q.exhausted)
+    if (exhausted) {
+      return explain(await this.denyForQuota(exhausted, action, employeeId, dryRun), {
+        decidedBy: 'quota',
+        scope,
+        quotas,
+        policies: trace,
+      })
     }
 
-    // Approval-required path
+    // Charge an allowed action to the quotas, checking them again in the same
+    // step: another worker may have used up what was left since the check above
+    const charge = async (): Promise<PolicyResult | null> => {
+      if (dryRun) return null
+      const charged = await this.consumeQuotas(employeeId, policies, costUsd, options.ignoreQuotas)
+      const taken = charged.find((q) => q.exhausted)
+      if (!taken) return null
+      return explain(await this.denyForQuota(taken, action, employeeId, dryRun), {
+        decidedBy: 'quota',
+        scope,
+        quotas: charged,
+        policies: trace,
+      })
+    }
+
+    // Approval-required path, unless a reviewer has approved such actions in
+    // advance. Every approval_required policy in force contributes its
+    // approvers, and a standing approval cannot stand in for a quorum; the
+    // shortest timeout among them applies.
     if (hasApprovalRequired) {
-      await this.createApprovalRequest(employeeId, action, context)
-      await this.logAudit(
-        'approval_requested',
-        `Approval requested for "${action}"`,
-        employeeId,
-      )
-      return {
-        allowed: false,
-        reason: `Action "${action}" requires human approval. An approval request has been created.`,
-        requiresApproval: true,
+      const requiring = policies.filter((p) => p.permission === 'approval_required')
+      const quorum = requiring.flatMap((p) => parseQuorum(p.approvers))
+      const standing = quorum.length === 0 ? await this.standingApprovalFor(employeeId, action, context, options) : null
+      if (standing) {
+        const denied = await charge()
+        if (denied) return denied
+        const result = await this.allowByStandingApproval(standing, employeeId, action, dryRun, options.at, source)
+        return explain(result, { decidedBy: 'standing_approval', scope, quotas, policies: trace })
+      }
+
+      let approvalRequestId: string | undefined
+      let retryCount = 0
+      if (!dryRun) {
+        const expiry = strictestExpiry(requiring.map((p) => parseExpiry(p.expiry)))
+        const request = await this.createApprovalRequest(employeeId, action, context, quorum, expiry)
+        approvalRequestId = request.id
+        retryCount = request.retryCount
+        if (retryCount > 0) {
+          await this.logRetry(request.id, retryCount, action, employeeId)
+        } else {
+          const terms = [
+            ...(quorum.length > 0 ? [`needs ${describeQuorum(quorum)}`] : []),
+            ...(expiry ? [describeExpiry(expiry)] : []),
+          ]
+          await this.logAudit(
+            'approval_requested',
+            `Approval requested for "${action}"${terms.length > 0 ? ` (${terms.join('; ')})` : ''}`,
+            employeeId,
+          )
+        }
       }
+      return explain(
+        {
+          allowed: false,
+          reason: dryRun
+            ? `Action "${action}" requires human approval${source}`
+            : `Action "${action}" requires human approval${source}. ${describeRequest(retryCount)}`,
+          requiresApproval: true,
+          approvalRequestId,
+        },
+        { decidedBy: 'policy', scope, quotas, policies: trace },
+      )
     }
 
     // Allowed
     if (hasAllow) {
-      await this.logAudit(
-        'policy_allowed',
-        `Action "${action}" allowed by policy`,
-        employeeId,
-      )
-      // Bump the rate-limit counter
-      this.incrementRateCounter(employeeId, action)
-      return {
-        allowed: true,
-        reason: `Action "${action}" is allowed by policy`,
-        requiresApproval: false,
+      const denied = await charge()
+      if (denied) return denied
+      if (!dryRun) {
+        await this.logAudit(
+          'policy_allowed',
+          `Action "${action}" allowed by policy${source}`,
+          employeeId,
+        )
       }
+      return explain(
+        {
+          allowed: true,
+          reason: `Action "${action}" is allowed by policy${source}`,
+          requiresApproval: false,
+        },
+        { decidedBy: 'policy', scope, quotas, policies: trace },
+      )
     }
 
     // Should not reach here, but default to deny for safety
-    return {
-      allowed: false,
-      reason: 'No matching permission found; defaulting to deny',
-      requiresApproval: false,
-    }
+    return explain(
+      {
+        allowed: false,
+        reason: 'No matching permission found; defaulting to deny',
+        requiresApproval: false,
+      },
+      { decidedBy: 'policy', scope, policies: trace },
+    )
   }
 
   // --------------------------------------------------------------------------
@@ -173,9 +377,10 @@ export class PolicyEngine {
 
   /**
    * Check whether the employee has remaining capacity for the action within
-   * the current rate-limit window. When called from `evaluate`, the limit
-   * parameter is pulled from the matching policy.  External callers can
-   * supply a custom limit or omit it to use a sensible default.
+   * the sliding rate-limit window. Hits are counted per policy capability, so
+   * pass the capability of the limiting policy (for exact policies, the
+   * action itself). Callers can supply a custom limit or omit it to use a
+   * sensible default. Has no side effects.
    */
   async checkRateLimit(
     employeeId: string,
@@ -183,17 +388,28 @@ export class PolicyEngine {
     limit?: number,
   ): Promise<boolean> {
     const effectiveLimit = limit ?? 60 // default: 60 per minute
-    const key = `${employeeId}:${action}`
-    const now = Date.now()
-    const entry = rateLimitMap.get(key)
-
-    if (!entry || now - entry.windowStart > RATE_LIMIT_WINDOW_MS) {
-      // Window expired or first request – reset
-      rateLimitMap.set(key, { count: 1, windowStart: now })
-      return true
-    }
+    const usage = await this.rateLimiter.check(rateLimitKey(employeeId, action), effectiveLimit)
+    return usage.allowed
+  }
 
-    return entry.count < effectiveLimit
+  /**
+   * Usage of every quota the given policies impose on the employee. Budgets
+   * are checked as if `costUsd` more were about to be spent.
+   */
+  async getQuotaUsage(
+    employeeId: string,
+    policies: Array<Pick<Policy, 'id' | 'capability' | 'rateLimit' | 'quotas'>>,
+    costUsd = 0,
+  ): Promise<QuotaStatus[]> {
+    return Promise.all(
+      this.quotaChecks(employeeId, policies, costUsd).map(async ({ policy, quota, check }) =>
+        quotaStatus(
+          policy,
+          quota,
+          await this.rateLimiter.check(check.key, check.limit, { windowMs: check.windowMs, cost: check.cost }),
+        ),
+      ),
+    )
   }
 
   // --------------------------------------------------------------------------
@@ -205,8 +421,9 @@ export class PolicyEngine {
    * another agent (toId). The logic checks:
    *   1. Both agents exist.
    *   2. Both agents are on the same team (team-level trust boundary).
-   *   3. The *source* agent has an "allow" policy for the capability
-   *      "inter_agent:<action>".
+   *   3. The *source* agent's most specific policies for the capability
+   *      "inter_agent:<action>" (e.g. "inter_agent:*") allow it and none
+   *      of them deny it.
    */
   async checkInterAgentPermission(
     fromId: string,
@@ -229,14 +446,10 @@ export class PolicyEngine {
       fromEmployee.teamId !== toEmployee.teamId
     ) {
       // Check for an explicit cross-team policy override
-      const crossTeamPolicy = await prisma.policy.findFirst({
-        where: {
-          employeeId: fromId,
-          capability: `cross_team:${action}`,
-          permission: 'allow',
-        },
-      })
-      if (!crossTeamPolicy) {
+      const crossTeamAllowed = this.permits(
+        await this.resolvePolicies(fromEmployee, `cross_team:${action}`),
+      )
+      if (!crossTeamAllowed) {
         await this.logAudit(
           'inter_agent_denied',
           `Cross-team action "${action}" from ${fromId} to ${toId} denied`,
@@ -247,15 +460,11 @@ export class PolicyEngine {
     }
 
     // Check for an explicit inter-agent policy
-    const policy = await prisma.policy.findFirst({
-      where: {
-        employeeId: fromId,
-        capability: `inter_agent:${action}`,
-        permission: 'allow',
-      },
-    })
+    const interAgentAllowed = this.permits(
+      await this.resolvePolicies(fromEmployee, `inter_agent:${action}`),
+    )
 
-    if (!policy) {
+    if (!interAgentAllowed) {
       await this.logAudit(
         'inter_agent_denied',
         `Inter-agent action "${action}" from ${fromId} to ${toId} denied (no policy)`,
@@ -276,49 +485,261 @@ export class PolicyEngine {
   // Private helpers
   // --------------------------------------------------------------------------
 
+  /**
+   * Load the employee's own and inherited policies and keep the ones that
+   * apply to `capability` in the given context, at the highest precedence.
+   * See `considerPolicies` for the precedence rules.
+   */
+  private async resolvePolicies(
+    employee: { id: string; teamId?: string | null; timezone?: string },
+    capability: string,
+    context: Record<string, unknown> = {},
+  ) {
+    const considered = await this.considerPolicies(employee, capability, context)
+    return considered.filter((c) => c.status === 'decisive').map((c) => c.policy)
+  }
+
+  /**
+   * Classify every policy (own or inherited) whose capability pattern
+   * covers `capability`:
+   *   1. Policies whose conditions do not hold, or whose schedule is not
+   *      in force right now, are inactive.
+   *   2. Employee policies override team policies, which override
+   *      organization policies.
+   *   3. Within a scope, narrower capability patterns override broader ones.
+   *   4. At equal capability specificity, policies with more conditions
+   *      override those with fewer (an unconditional rule is the default).
+   * The remaining, equally specific policies are decisive.
+   */
+  private async considerPolicies(
+    employee: { id: string; teamId?: string | null; timezone?: string },
+    capability: string,
+    context: Record<string, unknown> = {},
+    options: Pick<EvaluateOptions, 'policies' | 'at'> = {},
+  ): Promise<Consideration[]> {
+    // Disabled policies are kept for the record but never decide anything
+    const policies = options.policies
+      ? options.policies.filter((policy) => policy.enabled && isInheritedBy(policy, employee))
+      : await prisma.policy.findMany({
+          where: { ...inheritedPolicyFilter(employee), enabled: true },
+        })
+
+    const now = options.at ?? new Date()
+    const candidates = policies
+      .filter((policy) => matchesCapability(policy.capability, capability))
+      .map((policy) => ({
+        policy,
+        conditions: parseConditionList(policy.conditions ?? '[]'),
+        schedule: parseSchedule(policy.schedule ?? ''),
+      }))
+    const frozen = candidates.some(({ schedule }) => schedule?.freeze)
+      ? await this.isFrozen(capability, now)
+      : false
+
+    const considered: Consideration[] = candidates.map(({ policy, conditions, schedule }) => {
+      const inactive =
+        conditions === null
+          ? 'Malformed conditions'
+          : schedule === null
+            ? 'Malformed schedule'
+            : !evaluateConditions(conditions, context)
+              ? 'Conditions not met'
+              : schedule && !isScheduleActive(schedule, now, employee.timezone ?? 'UTC', frozen)
+                ? 'Schedule not in force'
+                : null
+      return {
+        policy,
+        conditionCount: conditions?.length ?? 0,
+        status: inactive ? 'inactive' : 'decisive',
+        note: inactive ?? '',
+      }
+    })
+
+    const applicable = considered
+      .filter((c) => c.status === 'decisive')
+      .map((c) => ({ ...c, capability: c.policy.capability }))
+    const overrule = (c: Consideration, note: string) => {
+      c.status = 'overridden'
+      c.note = note
+    }
+
+    const scope = POLICY_SCOPES.find((s) => applicable.some((c) => policyScope(c.policy) === s))
+    if (!scope) {
+      return considered
+    }
+
+    const inScope = applicable.filter((c) => policyScope(c.policy) === scope)
+    const mostSpecific = mostSpecificMatches(inScope, capability)
+    const maxConditions = Math.max(...mostSpecific.map((c) => c.conditionCount))
+
+    for (const item of considered.filter((c) => c.status === 'decisive')) {
+      if (policyScope(item.policy) !== scope) {
+        overrule(item, `Overridden by ${scope === 'org' ? 'organization' : scope} policy`)
+      } else if (!mostSpecific.some((c) => c.policy === item.policy)) {
+        overrule(item, `Less specific than "${mostSpecific[0].capability}"`)
+      } else if (item.conditionCount < maxConditions) {
+        overrule(item, 'Overridden by a policy with more conditions')
+      } else {
+        item.note = `Most specific ${scope === 'org' ? 'organization' : scope} policy`
+      }
+    }
+    return considered
+  }
+
+  /** Public view of a consideration, for explanations. */
+  private describeConsideration({ policy, status, note }: Consideration): ConsideredPolicy {
+    return {
+      id: policy.id,
+      scope: policyScope(policy),
+      capability: policy.capability,
+      permission: policy.permission,
+      rateLimit: policy.rateLimit,
+      status,
+      note,
+    }
+  }
+
+  /** True when a change freeze covering `capability` is active at `at`. */
+  private async isFrozen(capability: string, at: Date): Promise<boolean> {
+    const freezes = await prisma.changeFreeze.findMany({
+      where: { startsAt: { lte: at }, endsAt: { gt: at } },
+    })
+    return freezes.some((freeze) => {
+      let patterns: unknown = []
+      try {
+        patterns = JSON.parse(freeze.capabilities)
+      } catch {
+        // a malformed list freezes everything, erring on the side of caution
+      }
+      return (
+        !Array.isArray(patterns) ||
+        patterns.length === 0 ||
+        patterns.some((p) => typeof p === 'string' && matchesCapability(p, capability))
+      )
+    })
+  }
+
+  /** Note naming the scope a decision was inherited from, if not the employee's own. */
+  private inheritedFrom(policies: Array<{ scope?: string | null }>): string {
+    const scope = policies.length > 0 ? policyScope(policies[0]) : 'employee'
+    if (scope === 'employee') return ''
+    return ` (inherited from ${scope === 'team' ? 'team' : 'organization'} policy)`
+  }
+
+  /** True when the policies grant the capability outright (deny wins). */
+  private permits(policies: Array<{ permission: string }>): boolean {
+    return (
+      policies.some((p) => p.permission === 'allow') &&
+      !policies.some((p) => p.permission === 'deny')
+    )
+  }
+
+  /**
+   * The standing approval covering the action, if any. Evaluations against a
+   * hypothetical policy set leave standing approvals out, so they compare
+   * policies alone.
+   */
+  private async standingApprovalFor(
+    employeeId: string,
+    action: string,
+    context: Record<string, unknown> | undefined,
+    options: EvaluateOptions,
+  ): Promise<StandingApproval | null> {
+    if (options.policies !== undefined) return null
+    return findStandingApproval(prisma, employeeId, action, context, options.at ?? new Date())
+  }
+
+  /** Allow an action under a standing approval, counting and logging the use unless dry-running. */
+  private async allowByStandingApproval(
+    standing: StandingApproval,
+    employeeId: string,
+    action: string,
+    dryRun: boolean,
+    at = new Date(),
+    source = '',
+  ): Promise<PolicyResult> {
+    const description = describeStandingApproval(standing)
+    if (!dryRun) {
+      await prisma.standingApproval.update({
+        where: { id: standing.id },
+        data: { uses: { increment: 1 }, lastUsedAt: at },
+      })
+      await this.logAudit(
+        'standing_approval_used',
+        `Action "${action}" allowed by standing approval ${standing.id} for ${description}${source}`,
+        employeeId,
+      )
+    }
+    return {
+      allowed: true,
+      reason: `Action "${action}" would require approval${source}, but is covered by a standing approval for ${description}`,
+      requiresApproval: false,
+      standingApprovalId: standing.id,
+    }
+  }
+
   /**
    * Fallback evaluation based on the employee's autonomy mode when there is
-   * no explicit policy for the action.
+   * no explicit policy for the action. A dry run skips the side effects.
    */
   private async evaluateAutonomyFallback(
     autonomyMode: string,
     employeeId: string,
     action: string,
     context?: Record<string, unknown>,
+    dryRun = false,
   ): Promise<PolicyResult> {
     switch (autonomyMode) {
       case 'full':
-        await this.logAudit(
-          'autonomy_allowed',
-          `No explicit policy for "${action}"; full autonomy mode allows by default`,
-          employeeId,
-        )
+        if (!dryRun) {
+          await this.logAudit(
+            'autonomy_allowed',
+            `No explicit policy for "${action}"; full autonomy mode allows by default`,
+            employeeId,
+          )
+        }
         return {
           allowed: true,
           reason: `No explicit policy for "${action}"; allowed under full autonomy mode`,
           requiresApproval: false,
         }
 
-      case 'supervised':
-        await this.createApprovalRequest(employeeId, action, context)
-        await this.logAudit(
-          'autonomy_approval',
-          `No explicit policy for "${action}"; supervised mode requires approval`,
-          employeeId,
-        )
+      case 'supervised': {
+        let approvalRequestId: string | undefined
+        let retryCount = 0
+        if (!dryRun) {
+          const request = await this.createApprovalRequest(employeeId, action, context)
+          approvalRequestId = request.id
+          retryCount = request.retryCount
+          if (retryCount > 0) {
+            await this.logRetry(request.id, retryCount, action, employeeId)
+          } else {
+            await this.logAudit(
+              'autonomy_approval',
+              `No explicit policy for "${action}"; supervised mode requires approval`,
+              employeeId,
+            )
+          }
+        }
         return {
           allowed: false,
-          reason: `No explicit policy for "${action}"; supervised mode requires approval`,
+          reason:
+            `No explicit policy for "${action}"; supervised mode requires approval` +
+            (retryCount > 0 ? `. ${describeRequest(retryCount)}` : ''),
           requiresApproval: true,
+          approvalRequestId,
         }
+      }
 
       case 'restricted':
       default:
-        await this.logAudit(
-          'autonomy_denied',
-          `No explicit policy for "${action}"; restricted mode denies by default`,
-          employeeId,
-        )
+        if (!dryRun) {
+          await this.logAudit(
+            'autonomy_denied',
+            `No explicit policy for "${action}"; restricted mode denies by default`,
+            employeeId,
+          )
+        }
         return {
           allowed: false,
           reason: `No explicit policy for "${action}"; denied under restricted autonomy mode`,
@@ -327,33 +748,141 @@ export class PolicyEngine {
     }
   }
 
-  /** Create an ApprovalRequest record in the database. */
+  /** Deny an action over a quota, logging it unless dry-running. */
+  private async denyForQuota(
+    exhausted: QuotaStatus,
+    action: string,
+    employeeId: string,
+    dryRun: boolean,
+  ): Promise<PolicyResult> {
+    const resets = `resets at ${exhausted.resetAt.toISOString()}`
+    const reason =
+      exhausted.kind === 'count'
+        ? `Rate limit exceeded for "${action}" (max ${exhausted.limit} per ${exhausted.window}, ${resets})`
+        : `Budget exceeded for "${action}" ($${exhausted.used.toFixed(2)} of $${exhausted.limit.toFixed(2)} per ${exhausted.window} spent, ${resets})`
+    if (!dryRun) {
+      await this.logAudit(
+        exhausted.kind === 'count' ? 'rate_limit_exceeded' : 'budget_exceeded',
+        reason,
+        employeeId,
+      )
+    }
+    return {
+      allowed: false,
+      reason,
+      requiresApproval: false,
+      exhaustedQuota: exhausted,
+    }
+  }
+
+  /** The counter key, limit and window of every quota the policies impose. */
+  private quotaChecks<P extends Pick<Policy, 'capability' | 'rateLimit' | 'quotas'>>(
+    employeeId: string,
+    policies: P[],
+    costUsd: number,
+  ): Array<{ policy: P; quota: Quota; check: LimitCheck }> {
+    return policies.flatMap((policy) =>
+      policyQuotas(policy).map((quota) => ({
+        policy,
+        quota,
+        check: {
+          key:
+            quota.kind === 'count'
+              ? rateLimitKey(employeeId, policy.capability)
+              : spendKey(employeeId, policy.capability),
+          limit: quotaLimit(quota),
+          windowMs: QUOTA_WINDOW_MS[quota.window],
+          cost: quota.kind === 'count' ? 1 : costUsd,
+        },
+      })),
+    )
+  }
+
+  /**
+   * Charge an allowed action to the quotas of the policies that allowed it:
+   * one use per policy capability with count quotas, and `costUsd` per
+   * policy capability with budgets. Windows share a counter, so each key is
+   * charged once. Nothing is charged if any quota (unless ignored) is
+   * exhausted by now; returns the usage of each quota before the charge.
+   */
+  private async consumeQuotas(
+    employeeId: string,
+    policies: Array<Pick<Policy, 'id' | 'capability' | 'rateLimit' | 'quotas'>>,
+    costUsd: number,
+    ignoreQuotas = false,
+  ): Promise<QuotaStatus[]> {
+    const checks = this.quotaChecks(employeeId, policies, costUsd)
+    const charges = new Map<string, number>()
+    for (const { check } of checks) {
+      if (check.cost > 0) charges.set(check.key, check.cost)
+    }
+    const enforced = ignoreQuotas ? [] : checks
+    const usages = await this.rateLimiter.consume(
+      enforced.map(({ check }) => check),
+      charges,
+    )
+    return enforced.map(({ policy, quota }, i) => quotaStatus(policy, quota, usages[i]))
+  }
+
+  /**
+   * Create an ApprovalRequest record in the database, or count a retry on an
+   * equivalent one that is still pending: same fingerprint and the same
+   * approval terms, not yet overdue, and not already holding a workflow step.
+   * Returns the request's ID and how many retries it has had.
+   */
   private async createApprovalRequest(
     employeeId: string,
     action: string,
     context?: Record<string, unknown>,
-  ): Promise<void> {
-    await prisma.approvalRequest.create({
-      data: {
-        employeeId,
-        action,
-        details: context ? JSON.stringify(context) : '',
-        status: 'pending',
-      },
+    quorum: QuorumRequirement[] = [],
+    expiry: ApprovalExpiry | null = null,
+  ): Promise<{ id: string; retryCount: number }> {
+    const now = new Date()
+    const fingerprint = requestFingerprint(employeeId, action, context)
+    const terms = { quorum: JSON.stringify(quorum), expiry: expiry ? JSON.stringify(expiry) : '' }
+
+    const duplicate = {
+      employeeId,
+      fingerprint,
+      status: 'pending',
+      workflowRunId: null,
+      ...terms,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    }
+
+    // The oldest equivalent request takes the retry, should there be several
+    // (as there can be from before retries were counted)
+    return prisma.$transaction(async (tx) => {
+      const pending = await tx.approvalRequest.findFirst({ where: duplicate, orderBy: { createdAt: 'asc' } })
+      if (pending) {
+        const retried = await tx.approvalRequest.update({
+          where: { id: pending.id },
+          data: { retryCount: { increment: 1 }, lastRetryAt: now },
+        })
+        return { id: retried.id, retryCount: retried.retryCount }
+      }
+
+      const request = await tx.approvalRequest.create({
+        data: {
+          employeeId,
+          action,
+          details: context ? JSON.stringify(context) : '',
+          status: 'pending',
+          ...terms,
+          expiresAt: expiry ? expiryDeadline(now, expiry) : null,
+          fingerprint,
+        },
+      })
+      return { id: request.id, retryCount: 0 }
     })
   }
 
-  /** Increment the in-memory rate-limit counter for an employee + action. */
-  private incrementRateCounter(employeeId: string, action: string): void {
-    const key = `${employeeId}:${action}`
-    const now = Date.now()
-    const entry = rateLimitMap.get(key)
-
-    if (!entry || now - entry.windowStart > RATE_LIMIT_WINDOW_MS) {
-      rateLimitMap.set(key, { count: 1, windowStart: now })
-    } else {
-      entry.count++
-    }
+  private async logRetry(id: string, retryCount: number, action: string, employeeId: string): Promise<void> {
+    await this.logAudit(
+      'approval_request_retried',
+      `"${action}" requested again while approval request ${id} is pending (retry ${retryCount})`,
+      employeeId,
+    )
   }
 
   /** Convenience wrapper to log an audit event via the database. */
@@ -0,0 +1,253 @@
+// ---------------------------------------------------------------------------
+// Policy replay
+// Re-decides past actions, reconstructed from the audit log, against the
+// current policies and against a proposed change to them, and reports which
+// decisions the change would flip.
+//
+// Replay is approximate: the audit log keeps the employee, action and time of
+// each decision but not its context, so conditions are evaluated against an
+// empty context, quotas are not checked (their counters are long gone) and
+// employees are taken as they are now. Comparing the proposal with a replay
+// of the current policies, rather than with the recorded outcome, keeps those
+// gaps from showing up as changes; decisions the current policies no longer
+// reproduce are counted separately as `unreproducible`.
+// ---------------------------------------------------------------------------
+
+import type { Policy } from '@prisma/client'
+import { parseExpiry } from '@/lib/approval-expiry'
+import { parseQuorum } from '@/lib/approval-quorum'
+import type { PolicyEngine } from '@/lib/policy-engine'
+import { validatePolicyInput } from '@/lib/policy-validation'
+
+export type DecisionOutcome = 'allow' | 'deny' | 'approval_required'
+
+/** Audit actions that record a policy decision, and the outcome each one means. */
+export const DECISION_AUDIT_ACTIONS: Record<string, DecisionOutcome> = {
+  policy_allowed: 'allow',
+  policy_denied: 'deny',
+  approval_requested: 'approval_required',
+  approval_request_retried: 'approval_required',
+  autonomy_allowed: 'allow',
+  autonomy_approval: 'approval_required',
+  autonomy_denied: 'deny',
+}
+
+export interface RecordedDecision {
+  auditLogId: string
+  employeeId: string
+  action: string
+  outcome: DecisionOutcome
+  at: Date
+}
+
+/** A change to the current policies: rows to add or modify (by id), and rows to drop. */
+export interface PolicyProposal {
+  upsert?: unknown[]
+  remove?: unknown[]
+}
+
+export interface ChangedDecision extends RecordedDecision {
+  current: DecisionOutcome
+  proposed: DecisionOutcome
+  reason: string
+}
+
+export interface ReplayGroup {
+  employeeId: string
+  action: string
+  total: number
+  changed: number
+  unreproducible: number
+  /** Counts of flips, e.g. `{ "allow → deny": 3 }`. */
+  transitions: Record<string, number>
+}
+
+export interface ReplayReport {
+  decisions: number
+  changed: number
+  unreproducible: number
+  /** Decisions for employees that no longer exist. */
+  skipped: number
+  groups: ReplayGroup[]
+  /** The first changed decisions, oldest first. */
+  samples: ChangedDecision[]
+}
+
+const MAX_SAMPLES = 50
+
+/** Rebuild a decision from its audit entry; null for entries that are not decisions. */
+export function parseRecordedDecision(entry: {
+  id: string
+  employeeId: string | null
+  action: string
+  details: string
+  timestamp: Date
+}): RecordedDecision | null {
+  const outcome = DECISION_AUDIT_ACTIONS[entry.action]
+  // Every decision message quotes the action first, e.g. `Action "deploy" denied ...`
+  const action = entry.details.match(/"([^"]+)"/)?.[1]
+  if (!outcome || !action || !entry.employeeId) return null
+  return { auditLogId: entry.id, employeeId: entry.employeeId, action, outcome, at: entry.timestamp }
+}
+
+function encodeJson(value: unknown, fallback: string): string {
+  return value === undefined ? fallback : value ? JSON.stringify(value) : ''
+}
+
+function decodeJson(raw: string, fallback: unknown): unknown {
+  try {
+    return raw ? JSON.parse(raw) : fallback
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * Apply a proposal to the current policies in memory. Added and modified rows
+ * pass the same validation as `POST /api/policies`. Returns the proposed set,
+ * or the problems found.
+ */
+export function applyProposal(
+  current: Policy[],
+  proposal: PolicyProposal,
+): { policies: Policy[] | null; issues: string[] } {
+  const issues: string[] = []
+  const byId = new Map(current.map((p) => [p.id, p]))
+  const removed = new Set<string>()
+  const replaced = new Map<string, Policy>()
+  const added: Policy[] = []
+
+  const removals = proposal.remove ?? []
+  removals.forEach((id, idx) => {
+    if (typeof id !== 'string' || !byId.has(id)) {
+      issues.push(`remove[${idx}]: unknown policy ${JSON.stringify(id)}`)
+    } else {
+      removed.add(id)
+    }
+  })
+
+  const upserts = proposal.upsert ?? []
+  upserts.forEach((item, idx) => {
+    const label = `upsert[${idx}]`
+    if (typeof item !== 'object' || item === null) {
+      issues.push(`${label} must be an object`)
+      return
+    }
+    const input = item as Record<string, unknown>
+    const base = typeof input.id === 'string' ? byId.get(input.id) : undefined
+    if (input.id !== undefined && !base) {
+      issues.push(`${label}: unknown policy ${JSON.stringify(input.id)}`)
+      return
+    }
+
+    // Validate the policy as it would be written, in the API's shape
+    const merged = {
+      scope: input.scope ?? base?.scope ?? 'employee',
+      employeeId: input.employeeId ?? base?.employeeId ?? undefined,
+      teamId: input.teamId ?? base?.teamId ?? undefined,
+      capability: input.capability ?? base?.capability,
+      permission: input.permission ?? base?.permission ?? 'allow',
+      rateLimit: input.rateLimit !== undefined ? input.rateLimit : base?.rateLimit ?? null,
+      quotas: input.quotas ?? decodeJson(base?.quotas ?? '', []),
+      conditions: input.conditions ?? decodeJson(base?.conditions ?? '', []),
+      schedule: input.schedule !== undefined ? input.schedule : decodeJson(base?.schedule ?? '', null),
+      enabled: input.enabled ?? base?.enabled ?? true,
+      approvers: input.approvers ?? parseQuorum(base?.approvers),
+      expiry: input.expiry !== undefined ? input.expiry : parseExpiry(base?.expiry),
+    }
+    const invalid = validatePolicyInput(merged)
+    if (invalid) {
+      issues.push(...[invalid.error, ...(invalid.issues ?? [])].map((issue) => `${label}: ${issue}`))
+      return
+    }
+
+    const policy: Policy = {
+      id: base?.id ?? `proposed-${idx + 1}`,
+      scope: merged.scope as string,
+      employeeId: merged.scope === 'employee' ? (merged.employeeId as string) : null,
+      teamId: merged.scope === 'team' ? (merged.teamId as string) : null,
+      capability: merged.capability as string,
+      permission: merged.permission as string,
+      rateLimit: (merged.rateLimit as number | null) || null,
+      quotas: encodeJson(input.quotas, base?.quotas ?? '[]'),
+      conditions: encodeJson(input.conditions, base?.conditions ?? '[]'),
+      schedule: encodeJson(input.schedule, base?.schedule ?? ''),
+      enabled: merged.enabled as boolean,
+      approvers: encodeJson(input.approvers, base?.approvers ?? '[]'),
+      expiry: encodeJson(input.expiry, base?.expiry ?? ''),
+    }
+    if (base) {
+      replaced.set(base.id, policy)
+    } else {
+      added.push(policy)
+    }
+  })
+
+  if (issues.length > 0) {
+    return { policies: null, issues }
+  }
+  return {
+    policies: [
+      ...current.filter((p) => !removed.has(p.id)).map((p) => replaced.get(p.id) ?? p),
+      ...added,
+    ],
+    issues: [],
+  }
+}
+
+function outcomeOf(result: { allowed: boolean; requiresApproval: boolean }): DecisionOutcome {
+  return result.allowed ? 'allow' : result.requiresApproval ? 'approval_required' : 'deny'
+}
+
+/** Re-decide each recorded decision under both policy sets and summarize the differences. */
+export async function replayDecisions(
+  engine: PolicyEngine,
+  decisions: RecordedDecision[],
+  current: Policy[],
+  proposed: Policy[],
+): Promise<ReplayReport> {
+  const report: ReplayReport = { decisions: 0, changed: 0, unreproducible: 0, skipped: 0, groups: [], samples: [] }
+  const groups = new Map<string, ReplayGroup>()
+
+  for (const decision of decisions) {
+    const options = { dryRun: true, at: decision.at, ignoreQuotas: true }
+    const before = await engine.evaluate(decision.employeeId, decision.action, {}, { ...options, policies: current })
+    if (before.explanation?.decidedBy === 'employee_not_found') {
+      report.skipped++
+      continue
+    }
+    const after = await engine.evaluate(decision.employeeId, decision.action, {}, { ...options, policies: proposed })
+
+    const key = `${decision.employeeId}\u0000${decision.action}`
+    const group = groups.get(key) ?? {
+      employeeId: decision.employeeId,
+      action: decision.action,
+      total: 0,
+      changed: 0,
+      unreproducible: 0,
+      transitions: {},
+    }
+    groups.set(key, group)
+
+    const currentOutcome = outcomeOf(before)
+    const proposedOutcome = outcomeOf(after)
+    report.decisions++
+    group.total++
+    if (currentOutcome !== decision.outcome) {
+      report.unreproducible++
+      group.unreproducible++
+    }
+    if (proposedOutcome !== currentOutcome) {
+      const transition = `${currentOutcome} → ${proposedOutcome}`
+      report.changed++
+      group.changed++
+      group.transitions[transition] = (group.transitions[transition] ?? 0) + 1
+      if (report.samples.length < MAX_SAMPLES) {
+        report.samples.push({ ...decision, current: currentOutcome, proposed: proposedOutcome, reason: after.reason })
+      }
+    }
+  }
+
+  report.groups = Array.from(groups.values()).sort((a, b) => b.changed - a.changed || b.total - a.total)
+  return report
+}
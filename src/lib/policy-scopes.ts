@@ -0,0 +1,156 @@
+// ---------------------------------------------------------------------------
+// Policy scopes
+// Policies are attached to a single employee, to a team (inherited by every
+// member) or to the whole organization (inherited by everyone). For a given
+// capability the engine consults the scopes in precedence order and the
+// first scope with an applicable policy decides:
+//
+//   employee  >  team  >  org  >  autonomy-mode fallback
+//
+// Within a scope, the usual specificity rules apply (see capabilities.ts).
+// ---------------------------------------------------------------------------
+
+import { matchesCapability } from '@/lib/capabilities'
+
+export type PolicyScope = 'employee' | 'team' | 'org'
+
+/** Scopes in precedence order, highest first. */
+export const POLICY_SCOPES: PolicyScope[] = ['employee', 'team', 'org']
+
+export function isPolicyScope(value: unknown): value is PolicyScope {
+  return POLICY_SCOPES.includes(value as PolicyScope)
+}
+
+/** Scope of a stored policy; rows predating scopes are employee policies. */
+export function policyScope(policy: { scope?: string | null }): PolicyScope {
+  return isPolicyScope(policy.scope) ? policy.scope : 'employee'
+}
+
+/** Prisma filter selecting every policy an employee is subject to. */
+export function inheritedPolicyFilter(employee: { id: string; teamId?: string | null }) {
+  return {
+    OR: [
+      { scope: 'employee', employeeId: employee.id },
+      ...(employee.teamId ? [{ scope: 'team', teamId: employee.teamId }] : []),
+      { scope: 'org' },
+    ],
+  }
+}
+
+/** In-memory counterpart of `inheritedPolicyFilter`. */
+export function isInheritedBy(
+  policy: { scope?: string | null; employeeId?: string | null; teamId?: string | null },
+  employee: { id: string; teamId?: string | null },
+): boolean {
+  switch (policyScope(policy)) {
+    case 'org':
+      return true
+    case 'team':
+      return !!employee.teamId && policy.teamId === employee.teamId
+    default:
+      return policy.employeeId === employee.id
+  }
+}
+
+/**
+ * The role defaults a new employee still needs: those for capabilities that
+ * none of the enabled team and organization policies they inherit cover. A
+ * covered default is left out, since as an employee policy it would take
+ * precedence over the inherited one.
+ */
+export function uncoveredDefaults<T extends { capability: string }>(
+  defaults: T[],
+  inherited: Array<{ capability: string; enabled?: boolean }>,
+): T[] {
+  return defaults.filter(
+    (policy) => !inherited.some((p) => p.enabled !== false && matchesCapability(p.capability, policy.capability)),
+  )
+}
+
+/**
+ * Check that a policy names the owner its scope requires. Returns a
+ * human-readable problem, or null when the target is consistent.
+ */
+export function validatePolicyTarget(input: {
+  scope?: unknown
+  employeeId?: unknown
+  teamId?: unknown
+}): string | null {
+  const scope = input.scope ?? 'employee'
+  if (!isPolicyScope(scope)) {
+    return `scope must be one of: ${POLICY_SCOPES.join(', ')}`
+  }
+  if (scope === 'employee' && !input.employeeId) {
+    return 'employeeId is required for employee policies'
+  }
+  if (scope === 'team' && !input.teamId) {
+    return 'teamId is required for team policies'
+  }
+  if ((scope === 'org' && (input.employeeId || input.teamId)) || (scope === 'team' && input.employeeId)) {
+    return `${scope} policies cannot target a single employee${scope === 'org' ? ' or team' : ''}`
+  }
+  return null
+}
+
+// ---- Effective policy view --------------------------------------------------
+
+interface ScopedPolicy {
+  scope?: string | null
+  capability: string
+  conditions?: string
+  schedule?: string
+  enabled?: boolean
+}
+
+export type EffectivePolicy<T> = T & {
+  scope: PolicyScope
+  /** Scope of an unconditional policy that always takes precedence, if any. */
+  overriddenBy: PolicyScope | null
+}
+
+/**
+ * Annotate the policies an employee inherits with whether they can ever take
+ * effect. A policy is overridden when a higher-precedence scope has an
+ * enabled, unconditional, unscheduled policy covering its whole capability
+ * pattern; conditional or scheduled overrides only apply some of the time, so
+ * the policy below them stays effective.
+ */
+export function effectivePolicies<T extends ScopedPolicy>(policies: T[]): EffectivePolicy<T>[] {
+  const alwaysInForce = (p: ScopedPolicy) =>
+    p.enabled !== false && (p.conditions ?? '[]') === '[]' && (p.schedule ?? '') === ''
+
+  return [...policies]
+    .sort((a, b) => POLICY_SCOPES.indexOf(policyScope(a)) - POLICY_SCOPES.indexOf(policyScope(b)))
+    .map((policy) => {
+      const rank = POLICY_SCOPES.indexOf(policyScope(policy))
+      const overridingScope = POLICY_SCOPES.slice(0, rank).find((scope) =>
+        policies.some(
+          (other) =>
+            policyScope(other) === scope &&
+            alwaysInForce(other) &&
+            matchesCapability(other.capability, policy.capability),
+        ),
+      )
+      return {
+        ...policy,
+        scope: policyScope(policy),
+        overriddenBy: overridingScope ?? null,
+      }
+    })
+}
+
+/** Human-readable owner of a policy, e.g. `team "Engineering"`. */
+export function describePolicyTarget(policy: {
+  scope?: string | null
+  employee?: { name: string } | null
+  team?: { name: string } | null
+}): string {
+  switch (policyScope(policy)) {
+    case 'org':
+      return 'the organization'
+    case 'team':
+      return `team "${policy.team?.name ?? 'unknown'}"`
+    default:
+      return `employee "${policy.employee?.name ?? 'unknown'}"`
+  }
+}
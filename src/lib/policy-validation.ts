@@ -0,0 +1,107 @@
+// ---------------------------------------------------------------------------
+// Policy input validation
+// The checks applied to a new policy, shared by `POST /api/policies` and
+// bundle import so a policy is accepted or rejected the same way whichever
+// path writes it, and the same checks for updates to an existing policy.
+// Existence of the owning team or employee is checked by the caller, which
+// knows how the owner is referenced.
+// ---------------------------------------------------------------------------
+
+import { validateExpiry } from '@/lib/approval-expiry'
+import { validateQuorum } from '@/lib/approval-quorum'
+import { validateCapabilityPattern } from '@/lib/capabilities'
+import { validateConditionList } from '@/lib/conditions'
+import { validatePolicyTarget } from '@/lib/policy-scopes'
+import { validateQuotas } from '@/lib/quotas'
+import { validateSchedule } from '@/lib/schedule'
+
+export const POLICY_PERMISSIONS = ['allow', 'deny', 'approval_required']
+
+export interface PolicyInput {
+  scope?: unknown
+  employeeId?: unknown
+  teamId?: unknown
+  capability?: unknown
+  permission?: unknown
+  rateLimit?: unknown
+  quotas?: unknown
+  conditions?: unknown
+  schedule?: unknown
+  enabled?: unknown
+  approvers?: unknown
+  expiry?: unknown
+}
+
+export interface PolicyInputError {
+  error: string
+  issues?: string[]
+}
+
+/** The first problem with a policy, shaped as an API error body, or null when it is valid. */
+export function validatePolicyInput(input: PolicyInput): PolicyInputError | null {
+  const targetError = validatePolicyTarget(input)
+  if (targetError) {
+    return { error: targetError }
+  }
+
+  if (!input.capability) {
+    return { error: 'capability is required' }
+  }
+
+  return validatePolicyUpdate(input)
+}
+
+/**
+ * Check the fields of an update to an existing policy; fields left undefined
+ * are unchanged and not checked. Same result shape as `validatePolicyInput`.
+ */
+export function validatePolicyUpdate(input: PolicyInput): PolicyInputError | null {
+  const capabilityError = input.capability !== undefined ? validateCapabilityPattern(input.capability) : null
+  if (capabilityError) {
+    return { error: capabilityError }
+  }
+
+  if (input.permission !== undefined && !POLICY_PERMISSIONS.includes(input.permission as string)) {
+    return { error: `permission must be one of: ${POLICY_PERMISSIONS.join(', ')}` }
+  }
+
+  if (
+    input.rateLimit !== undefined &&
+    input.rateLimit !== null &&
+    !(Number.isInteger(input.rateLimit) && (input.rateLimit as number) >= 0)
+  ) {
+    return { error: 'rateLimit must be a non-negative integer or null' }
+  }
+
+  const conditionIssues = input.conditions !== undefined ? validateConditionList(input.conditions, 'conditions') : []
+  if (conditionIssues.length > 0) {
+    return { error: 'Invalid policy conditions', issues: conditionIssues }
+  }
+
+  const quotaIssues = input.quotas !== undefined ? validateQuotas(input.quotas) : []
+  if (quotaIssues.length > 0) {
+    return { error: 'Invalid policy quotas', issues: quotaIssues }
+  }
+
+  // A null schedule clears it (the policy is always in force)
+  const scheduleIssues = input.schedule ? validateSchedule(input.schedule) : []
+  if (scheduleIssues.length > 0) {
+    return { error: 'Invalid policy schedule', issues: scheduleIssues }
+  }
+
+  const quorumIssues = input.approvers !== undefined ? validateQuorum(input.approvers) : []
+  if (quorumIssues.length > 0) {
+    return { error: 'Invalid approval quorum', issues: quorumIssues }
+  }
+
+  const expiryIssues = input.expiry !== undefined ? validateExpiry(input.expiry) : []
+  if (expiryIssues.length > 0) {
+    return { error: 'Invalid approval expiry', issues: expiryIssues }
+  }
+
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    return { error: 'enabled must be true or false' }
+  }
+
+  return null
+}
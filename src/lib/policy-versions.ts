@@ -0,0 +1,115 @@
+// ---------------------------------------------------------------------------
+// Policy versions
+// Every change to a policy is stored as an immutable PolicyVersion row with
+// full snapshots of the policy before and after the change. Any two versions
+// can be diffed, and rolling back restores an old snapshot as a new version
+// on top of the history, so the history itself is never rewritten.
+// ---------------------------------------------------------------------------
+
+import type { Policy, PrismaClient, Prisma } from '@prisma/client'
+
+export const POLICY_SNAPSHOT_FIELDS = [
+  'scope',
+  'employeeId',
+  'teamId',
+  'capability',
+  'permission',
+  'rateLimit',
+  'quotas',
+  'conditions',
+  'schedule',
+  'enabled',
+  'approvers',
+  'expiry',
+] as const
+
+export type PolicySnapshotField = (typeof POLICY_SNAPSHOT_FIELDS)[number]
+
+export type PolicySnapshot = Pick<Policy, PolicySnapshotField>
+
+export type PolicyChangeType = 'created' | 'updated' | 'rolled_back' | 'enabled' | 'disabled' | 'deleted'
+
+export interface PolicyFieldChange {
+  field: PolicySnapshotField
+  before: unknown
+  after: unknown
+}
+
+/** JSON-encoded columns, decoded in diffs so they read as structured values. */
+const JSON_FIELDS: PolicySnapshotField[] = ['quotas', 'conditions', 'schedule', 'approvers', 'expiry']
+
+export function snapshotPolicy(policy: PolicySnapshot): PolicySnapshot {
+  return Object.fromEntries(POLICY_SNAPSHOT_FIELDS.map((field) => [field, policy[field]])) as PolicySnapshot
+}
+
+/**
+ * Parse a stored snapshot; an empty string (no "before" for a created policy,
+ * no "after" for a deleted one) is null.
+ */
+export function parseSnapshot(raw: string): PolicySnapshot | null {
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw)
+    // Fill in fields added since older snapshots were taken
+    return typeof parsed === 'object' && parsed !== null ? { enabled: true, approvers: '[]', expiry: '', ...parsed } : null
+  } catch {
+    return null
+  }
+}
+
+function decodeField(field: PolicySnapshotField, value: unknown): unknown {
+  if (!JSON_FIELDS.includes(field) || typeof value !== 'string') return value ?? null
+  if (value === '') return null
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+/** Fields that differ between two snapshots; a null snapshot has no fields. */
+export function diffSnapshots(before: PolicySnapshot | null, after: PolicySnapshot | null): PolicyFieldChange[] {
+  return POLICY_SNAPSHOT_FIELDS.flatMap((field) => {
+    const from = before ? decodeField(field, before[field]) : null
+    const to = after ? decodeField(field, after[field]) : null
+    return JSON.stringify(from) === JSON.stringify(to) ? [] : [{ field, before: from, after: to }]
+  })
+}
+
+/** Who made a change, as given by the caller; anonymous changes are attributed to "system". */
+export function policyChangeAuthor(value: unknown): string {
+  return typeof value === 'string' && value.trim() ? value.trim() : 'system'
+}
+
+/**
+ * Append a version to a policy's history. Pass the transaction client the
+ * policy was written with, so the policy and its history change together.
+ */
+export async function recordPolicyVersion(
+  db: PrismaClient | Prisma.TransactionClient,
+  change: {
+    policyId: string
+    before: PolicySnapshot | null
+    after: PolicySnapshot | null
+    changeType: PolicyChangeType
+    changedBy: string
+    note?: string
+  },
+) {
+  const latest = await db.policyVersion.findFirst({
+    where: { policyId: change.policyId },
+    orderBy: { version: 'desc' },
+  })
+
+  return db.policyVersion.create({
+    data: {
+      policyId: change.policyId,
+      version: (latest?.version ?? 0) + 1,
+      changeType: change.changeType,
+      changedBy: change.changedBy,
+      note: change.note ?? '',
+      before: change.before ? JSON.stringify(snapshotPolicy(change.before)) : '',
+      after: change.after ? JSON.stringify(snapshotPolicy(change.after)) : '',
+    },
+  })
+}
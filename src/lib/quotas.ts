@@ -0,0 +1,101 @@
+// ---------------------------------------------------------------------------
+// Policy quotas
+// Besides the legacy per-minute `rateLimit`, a policy may carry any number of
+// quotas, each over a sliding window:
+//
+//   { "kind": "count",  "limit": 200, "window": "day" }        200 uses a day
+//   { "kind": "budget", "amountUsd": 25, "window": "day" }     $25 spend a day
+//
+// Counts are charged one per allowed action. Budgets are charged with the
+// action's `costUsd` (from the evaluation context) and with reported
+// `cost_update` amounts (see /api/usage/costs).
+// ---------------------------------------------------------------------------
+
+export type QuotaWindow = 'minute' | 'hour' | 'day'
+
+export const QUOTA_WINDOWS: QuotaWindow[] = ['minute', 'hour', 'day']
+
+export const QUOTA_WINDOW_MS: Record<QuotaWindow, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+}
+
+export interface CountQuota {
+  kind: 'count'
+  limit: number
+  window: QuotaWindow
+}
+
+export interface BudgetQuota {
+  kind: 'budget'
+  amountUsd: number
+  window: QuotaWindow
+}
+
+export type Quota = CountQuota | BudgetQuota
+
+/**
+ * Validate an untrusted quota list. Returns a list of problems (empty when
+ * every quota is well-formed).
+ */
+export function validateQuotas(input: unknown): string[] {
+  if (!Array.isArray(input)) {
+    return ['quotas must be an array']
+  }
+
+  const errors: string[] = []
+  input.forEach((quota, idx) => {
+    const label = `quotas[${idx}]`
+    if (typeof quota !== 'object' || quota === null) {
+      errors.push(`${label} must be an object`)
+      return
+    }
+    const q = quota as Record<string, unknown>
+    if (!QUOTA_WINDOWS.includes(q.window as QuotaWindow)) {
+      errors.push(`${label}.window must be one of: ${QUOTA_WINDOWS.join(', ')}`)
+    }
+    if (q.kind === 'count') {
+      if (typeof q.limit !== 'number' || !Number.isInteger(q.limit) || q.limit < 1) {
+        errors.push(`${label}.limit must be a positive integer`)
+      }
+    } else if (q.kind === 'budget') {
+      if (typeof q.amountUsd !== 'number' || !(q.amountUsd > 0)) {
+        errors.push(`${label}.amountUsd must be a positive number`)
+      }
+    } else {
+      errors.push(`${label}.kind must be "count" or "budget"`)
+    }
+  })
+  return errors
+}
+
+/** Parse a stored quota list; malformed data yields no quotas (they are validated on write). */
+export function parseQuotas(raw: string): Quota[] {
+  try {
+    const parsed = JSON.parse(raw)
+    return validateQuotas(parsed).length === 0 ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+/** Every quota a policy imposes, including its legacy per-minute `rateLimit`. */
+export function policyQuotas(policy: { rateLimit: number | null; quotas?: string }): Quota[] {
+  return [
+    ...(policy.rateLimit !== null ? [{ kind: 'count' as const, limit: policy.rateLimit, window: 'minute' as const }] : []),
+    ...parseQuotas(policy.quotas ?? '[]'),
+  ]
+}
+
+/** Limit of a quota in its own unit (uses or dollars). */
+export function quotaLimit(quota: Quota): number {
+  return quota.kind === 'count' ? quota.limit : quota.amountUsd
+}
+
+/** e.g. "200/day" or "$25.00/day". */
+export function describeQuota(quota: Quota): string {
+  return quota.kind === 'count'
+    ? `${quota.limit}/${quota.window}`
+    : `$${quota.amountUsd.toFixed(2)}/${quota.window}`
+}
@@ -0,0 +1,224 @@
+// ---------------------------------------------------------------------------
+// Rate limiting
+// Sliding-window limiter over a pluggable store of timestamped hits. Each hit
+// carries an amount: 1 for a use, or the dollars spent. A key is within a
+// limit when the amounts recorded during the last `windowMs` milliseconds,
+// plus the cost of the next hit, stay within it; there is no fixed window
+// boundary to reset. `consume` checks limits and records hits as one step,
+// so concurrent workers cannot both take the last of a limit.
+//
+// Two stores are provided: `PrismaRateLimitStore` persists hits in the app
+// database (SQLite), so limits survive restarts and are shared by every
+// worker; `MemoryRateLimitStore` keeps them in process, for tests.
+// ---------------------------------------------------------------------------
+
+import type { Prisma, PrismaClient } from '@prisma/client'
+import prisma from '@/lib/db'
+import { QUOTA_WINDOW_MS } from '@/lib/quotas'
+
+export interface RateLimitHit {
+  /** Timestamp in ms. */
+  at: number
+  amount: number
+}
+
+export interface RateLimitStore {
+  /** Hits recorded for `key` after `since` (ms), oldest first. */
+  hits(key: string, since: number): Promise<RateLimitHit[]>
+  /** Record a hit for `key`. */
+  record(key: string, hit: RateLimitHit): Promise<void>
+  /** Forget hits for `key` recorded before `before` (ms). */
+  prune(key: string, before: number): Promise<void>
+  /**
+   * Run `fn` against the store such that no other hit is recorded between
+   * what it reads and what it records.
+   */
+  atomically<T>(fn: (store: RateLimitStore) => Promise<T>): Promise<T>
+}
+
+export interface RateLimitUsage {
+  limit: number
+  windowMs: number
+  used: number
+  remaining: number
+  /** False when the next hit (of the checked cost) would exceed the limit. */
+  allowed: boolean
+  /** When enough hits leave the window for the next one to be allowed. */
+  resetAt: Date
+}
+
+export interface CheckOptions {
+  windowMs?: number
+  /** Amount the next hit would add (default 1). */
+  cost?: number
+  now?: number
+}
+
+/** A limit checked by `RateLimiter.consume`. */
+export interface LimitCheck {
+  key: string
+  limit: number
+  windowMs: number
+  /** Amount the hit being consumed adds to `key`. */
+  cost: number
+}
+
+export const RATE_LIMIT_WINDOW_MS = QUOTA_WINDOW_MS.minute // `Policy.rateLimit` is per minute
+
+/** Counter key for a policy's use quotas: counted per employee and policy capability. */
+export function rateLimitKey(employeeId: string, capability: string): string {
+  return `${employeeId}:${capability}`
+}
+
+/** Counter key for a policy's budgets; `*` collects spend not tied to a capability. */
+export function spendKey(employeeId: string, capability: string): string {
+  return `spend:${employeeId}:${capability}`
+}
+
+export class RateLimiter {
+  /**
+   * @param retentionMs  How long hits are kept; at least the longest window
+   *                     checked against this limiter.
+   */
+  constructor(
+    private readonly store: RateLimitStore,
+    private readonly retentionMs: number = QUOTA_WINDOW_MS.day,
+  ) {}
+
+  /** Usage of `key` against `limit` over the window. Has no side effects. */
+  async check(key: string, limit: number, options: CheckOptions = {}): Promise<RateLimitUsage> {
+    return this.usage(this.store, key, limit, options)
+  }
+
+  /** Record a hit for `key` and drop hits older than the retention period. */
+  async record(key: string, amount = 1, now: number = Date.now()): Promise<void> {
+    await this.store.record(key, { at: now, amount })
+    await this.store.prune(key, now - this.retentionMs)
+  }
+
+  /**
+   * Check every limit in `checks` and, only if all of them allow it, record
+   * `charges` (an amount per key), in one atomic step of the store. Returns
+   * the usage of each check as it stood before the charge.
+   */
+  async consume(
+    checks: LimitCheck[],
+    charges: Map<string, number>,
+    now: number = Date.now(),
+  ): Promise<RateLimitUsage[]> {
+    if (checks.length === 0 && charges.size === 0) return []
+    return this.store.atomically(async (store) => {
+      // Prune before reading: for the database store, writing first takes
+      // the write lock, so concurrent consumers queue instead of both reading
+      for (const key of Array.from(charges.keys())) {
+        await store.prune(key, now - this.retentionMs)
+      }
+      const usages: RateLimitUsage[] = []
+      for (const { key, limit, windowMs, cost } of checks) {
+        usages.push(await this.usage(store, key, limit, { windowMs, cost, now }))
+      }
+      if (usages.every((usage) => usage.allowed)) {
+        for (const [key, amount] of Array.from(charges)) {
+          await store.record(key, { at: now, amount })
+        }
+      }
+      return usages
+    })
+  }
+
+  private async usage(
+    store: RateLimitStore,
+    key: string,
+    limit: number,
+    options: CheckOptions,
+  ): Promise<RateLimitUsage> {
+    const { windowMs = RATE_LIMIT_WINDOW_MS, cost = 1, now = Date.now() } = options
+    const hits = await store.hits(key, now - windowMs)
+    const used = hits.reduce((sum, hit) => sum + hit.amount, 0)
+    const fits = (total: number) => total < limit && total + cost <= limit
+
+    // Walk the hits oldest first until enough have left the window
+    let resetAt = now
+    if (!fits(used)) {
+      let remaining = used
+      for (const hit of hits) {
+        remaining -= hit.amount
+        resetAt = hit.at + windowMs
+        if (fits(remaining)) break
+      }
+    }
+
+    return {
+      limit,
+      windowMs,
+      used,
+      remaining: Math.max(0, limit - used),
+      allowed: fits(used),
+      resetAt: new Date(resetAt),
+    }
+  }
+}
+
+// ---- Stores -----------------------------------------------------------------
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, RateLimitHit[]>()
+  private queue: Promise<unknown> = Promise.resolve()
+
+  async hits(key: string, since: number): Promise<RateLimitHit[]> {
+    return (this.entries.get(key) ?? []).filter((hit) => hit.at > since)
+  }
+
+  async record(key: string, hit: RateLimitHit): Promise<void> {
+    const hits = this.entries.get(key) ?? []
+    hits.push(hit)
+    hits.sort((a, b) => a.at - b.at)
+    this.entries.set(key, hits)
+  }
+
+  async prune(key: string, before: number): Promise<void> {
+    const hits = (this.entries.get(key) ?? []).filter((hit) => hit.at >= before)
+    if (hits.length > 0) {
+      this.entries.set(key, hits)
+    } else {
+      this.entries.delete(key)
+    }
+  }
+
+  /** Runs one `fn` at a time, in call order. */
+  async atomically<T>(fn: (store: RateLimitStore) => Promise<T>): Promise<T> {
+    const run = this.queue.then(() => fn(this))
+    this.queue = run.catch(() => undefined)
+    return run
+  }
+}
+
+export class PrismaRateLimitStore implements RateLimitStore {
+  /** @param db  The client, or the transaction `atomically` runs in. */
+  constructor(private readonly db: PrismaClient | Prisma.TransactionClient = prisma) {}
+
+  async hits(key: string, since: number): Promise<RateLimitHit[]> {
+    const rows = await this.db.rateLimitHit.findMany({
+      where: { key, at: { gt: new Date(since) } },
+      orderBy: { at: 'asc' },
+      select: { at: true, amount: true },
+    })
+    return rows.map((row) => ({ at: row.at.getTime(), amount: row.amount }))
+  }
+
+  async record(key: string, hit: RateLimitHit): Promise<void> {
+    await this.db.rateLimitHit.create({ data: { key, at: new Date(hit.at), amount: hit.amount } })
+  }
+
+  async prune(key: string, before: number): Promise<void> {
+    await this.db.rateLimitHit.deleteMany({ where: { key, at: { lt: new Date(before) } } })
+  }
+
+  async atomically<T>(fn: (store: RateLimitStore) => Promise<T>): Promise<T> {
+    if (this.db !== prisma) return fn(this)
+    return prisma.$transaction((tx) => fn(new PrismaRateLimitStore(tx)))
+  }
+}
+
+// Singleton for convenience
+export const rateLimiter = new RateLimiter(new PrismaRateLimitStore())
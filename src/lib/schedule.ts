@@ -0,0 +1,244 @@
+// ---------------------------------------------------------------------------
+// Policy schedules
+// A policy may carry a schedule that limits when it is in force, e.g.
+//
+//   { "days": ["fri"], "start": "16:00" }                    Friday afternoons
+//   { "days": ["mon","tue","wed","thu","fri"],
+//     "start": "09:00", "end": "17:00", "outside": true }     outside office hours
+//   { "freeze": true }                                      during change freezes
+//
+// Times are wall-clock times in the employee's timezone unless the schedule
+// names its own. A window whose end is before its start wraps past midnight.
+// ---------------------------------------------------------------------------
+
+import { validateCapabilityPattern } from '@/lib/capabilities'
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun'
+
+export interface PolicySchedule {
+  /** Days the window applies to (default: every day). */
+  days?: Weekday[]
+  /** Window start, "HH:MM" (default "00:00"); "24:00" is only an end. */
+  start?: string
+  /** Window end, "HH:MM" (default "24:00"). */
+  end?: string
+  /** Invert the window: the policy is in force when outside it. */
+  outside?: boolean
+  /** Only in force while a change freeze covering the capability is active. */
+  freeze?: boolean
+  /** IANA timezone overriding the employee's (e.g. "Europe/Berlin"). */
+  timezone?: string
+}
+
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/
+const SCHEDULE_KEYS = ['days', 'start', 'end', 'outside', 'freeze', 'timezone']
+
+/** True when `timezone` is an IANA zone name the runtime understands. */
+export function isValidTimezone(timezone: unknown): boolean {
+  if (typeof timezone !== 'string' || timezone === '') return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate an untrusted schedule object. Returns a list of problems (empty
+ * when the schedule is well-formed).
+ */
+export function validateSchedule(input: unknown): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return ['schedule must be an object']
+  }
+
+  const schedule = input as Record<string, unknown>
+  const errors = Object.keys(schedule)
+    .filter((k) => !SCHEDULE_KEYS.includes(k))
+    .map((k) => `schedule has unknown field "${k}"`)
+
+  if (schedule.days !== undefined) {
+    if (
+      !Array.isArray(schedule.days) ||
+      schedule.days.length === 0 ||
+      schedule.days.some((d) => !WEEKDAYS.includes(d as Weekday))
+    ) {
+      errors.push(`schedule.days must be a non-empty list of: ${WEEKDAYS.join(', ')}`)
+    }
+  }
+  let timesValid = true
+  for (const key of ['start', 'end']) {
+    if (schedule[key] !== undefined && (typeof schedule[key] !== 'string' || !TIME_PATTERN.test(schedule[key] as string))) {
+      errors.push(`schedule.${key} must be a time in HH:MM format`)
+      timesValid = false
+    }
+  }
+  if (timesValid) {
+    const start = (schedule.start as string | undefined) ?? '00:00'
+    const end = (schedule.end as string | undefined) ?? '24:00'
+    if (start === '24:00') {
+      errors.push('schedule.start cannot be 24:00; use 00:00')
+    } else if (toMinutes(start) === toMinutes(end)) {
+      // Such a window would never be open; a whole day is written without start and end
+      errors.push('schedule.start and schedule.end must differ')
+    }
+  }
+  for (const key of ['outside', 'freeze']) {
+    if (schedule[key] !== undefined && typeof schedule[key] !== 'boolean') {
+      errors.push(`schedule.${key} must be a boolean`)
+    }
+  }
+  if (schedule.timezone !== undefined && !isValidTimezone(schedule.timezone)) {
+    errors.push('schedule.timezone must be a valid IANA timezone')
+  }
+
+  return errors
+}
+
+/**
+ * Parse a stored schedule. An empty string means "always in force"; null is
+ * returned for malformed data (schedules are validated on write).
+ */
+export function parseSchedule(raw: string): PolicySchedule | null | undefined {
+  if (!raw) return undefined
+  try {
+    const parsed = JSON.parse(raw)
+    return validateSchedule(parsed).length === 0 ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/** Weekday and minutes since midnight of `at`, as seen in `timezone`. */
+export function localTime(at: Date, timezone: string): { day: Weekday; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at)
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? ''
+  return {
+    day: get('weekday').toLowerCase().slice(0, 3) as Weekday,
+    minutes: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10),
+  }
+}
+
+/**
+ * Decide whether a schedule is in force at `at`.
+ *
+ * @param timezone      Fallback timezone (the employee's) when the schedule
+ *                      does not name one.
+ * @param freezeActive  Whether a change freeze covering the capability is
+ *                      active at `at`.
+ */
+export function isScheduleActive(
+  schedule: PolicySchedule,
+  at: Date,
+  timezone: string,
+  freezeActive: boolean,
+): boolean {
+  if (schedule.freeze && !freezeActive) {
+    return false
+  }
+
+  const hasWindow =
+    schedule.days !== undefined || schedule.start !== undefined || schedule.end !== undefined
+  if (!hasWindow) {
+    return true
+  }
+
+  const zone = schedule.timezone ?? (isValidTimezone(timezone) ? timezone : 'UTC')
+  const { day, minutes } = localTime(at, zone)
+  const start = toMinutes(schedule.start ?? '00:00')
+  const end = toMinutes(schedule.end ?? '24:00')
+
+  // For windows wrapping midnight, the early-morning part belongs to the
+  // window that started on the previous day.
+  let windowDay = day
+  let inWindow: boolean
+  if (start <= end) {
+    inWindow = minutes >= start && minutes < end
+  } else if (minutes >= start) {
+    inWindow = true
+  } else {
+    inWindow = minutes < end
+    windowDay = WEEKDAYS[(WEEKDAYS.indexOf(day) + 6) % 7]
+  }
+
+  const inside = inWindow && (schedule.days === undefined || schedule.days.includes(windowDay))
+  return schedule.outside ? !inside : inside
+}
+
+// ---- Change freezes ---------------------------------------------------------
+
+export interface ChangeFreezeInput {
+  name: string
+  reason: string
+  startsAt: Date
+  endsAt: Date
+  capabilities: string[]
+}
+
+/**
+ * Validate an untrusted change-freeze payload, merged over `existing` when
+ * updating. Returns either the normalised freeze or a list of problems.
+ */
+export function parseChangeFreeze(
+  input: Record<string, unknown>,
+  existing?: ChangeFreezeInput,
+): { freeze: ChangeFreezeInput; errors: [] } | { freeze: null; errors: string[] } {
+  const errors: string[] = []
+
+  const name = input.name ?? existing?.name
+  if (typeof name !== 'string' || name.trim() === '') {
+    errors.push('name is required')
+  }
+
+  const reason = input.reason ?? existing?.reason ?? ''
+  if (typeof reason !== 'string') {
+    errors.push('reason must be a string')
+  }
+
+  const startsAt = input.startsAt !== undefined ? new Date(input.startsAt as string) : existing?.startsAt
+  const endsAt = input.endsAt !== undefined ? new Date(input.endsAt as string) : existing?.endsAt
+  if (!startsAt || isNaN(startsAt.getTime())) errors.push('startsAt must be a valid date')
+  if (!endsAt || isNaN(endsAt.getTime())) errors.push('endsAt must be a valid date')
+  if (startsAt && endsAt && endsAt.getTime() <= startsAt.getTime()) {
+    errors.push('endsAt must be after startsAt')
+  }
+
+  const capabilities = input.capabilities ?? existing?.capabilities ?? []
+  if (!Array.isArray(capabilities)) {
+    errors.push('capabilities must be a list of capability patterns')
+  } else {
+    for (const capability of capabilities) {
+      const problem = validateCapabilityPattern(capability)
+      if (problem) errors.push(problem)
+    }
+  }
+
+  if (errors.length > 0) {
+    return { freeze: null, errors }
+  }
+  return {
+    freeze: {
+      name: (name as string).trim(),
+      reason: reason as string,
+      startsAt: startsAt as Date,
+      endsAt: endsAt as Date,
+      capabilities: capabilities as string[],
+    },
+    errors: [],
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map((n) => parseInt(n, 10))
+  return hours * 60 + minutes
+}
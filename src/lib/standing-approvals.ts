@@ -0,0 +1,182 @@
+// ---------------------------------------------------------------------------
+// Standing approvals
+// A reviewer can approve a pattern of requests ahead of time: one employee's
+// capability (exact or a pattern, as in policies), optionally narrowed by
+// conditions over the evaluation context, for a bounded window. While one is
+// in force the policy engine allows matching actions that would otherwise
+// wait for a reviewer, and audit-logs each use.
+//
+// Windows are capped at MAX_STANDING_MINUTES and a justification is
+// required, since a standing approval stands in for every decision it
+// covers. It never stands in for a policy that requires a quorum: one
+// grantor cannot vouch for several approvers. They are revoked rather than
+// deleted, so their uses stay attributable.
+// ---------------------------------------------------------------------------
+
+import type { Policy, Prisma, PrismaClient, StandingApproval } from '@prisma/client'
+import { formatMinutes } from '@/lib/approval-expiry'
+import { describeQuorum, parseQuorum } from '@/lib/approval-quorum'
+import { matchesCapability, validateCapabilityPattern } from '@/lib/capabilities'
+import { Condition, evaluateConditions, parseConditionList, validateConditionList } from '@/lib/conditions'
+
+/** Longest window a standing approval may cover: one week. */
+export const MAX_STANDING_MINUTES = 7 * 24 * 60
+
+export interface StandingApprovalInput {
+  employeeId: string
+  capability: string
+  conditions: Condition[]
+  grantedBy: string
+  justification: string
+  startsAt: Date
+  expiresAt: Date
+}
+
+/** The fields matching and descriptions need. */
+export type StandingApprovalRecord = Pick<
+  StandingApproval,
+  'id' | 'employeeId' | 'capability' | 'conditions' | 'grantedBy' | 'justification' | 'startsAt' | 'expiresAt' | 'revokedAt'
+>
+
+/**
+ * Validate a new standing approval. The window starts now and lasts either
+ * `durationMinutes` or until `expiresAt`.
+ */
+export function parseStandingApproval(
+  input: Record<string, unknown>,
+  now = new Date(),
+): { standing: StandingApprovalInput; errors: [] } | { standing: null; errors: string[] } {
+  const errors: string[] = []
+
+  const { employeeId, capability, grantedBy, justification, durationMinutes, expiresAt } = input
+  const conditions = input.conditions ?? []
+
+  if (typeof employeeId !== 'string' || !employeeId) errors.push('employeeId is required')
+  const capabilityError = validateCapabilityPattern(capability)
+  if (capabilityError) errors.push(capabilityError)
+  errors.push(...validateConditionList(conditions, 'conditions'))
+  if (typeof grantedBy !== 'string' || !grantedBy.trim()) errors.push('grantedBy is required')
+  if (typeof justification !== 'string' || !justification.trim()) {
+    errors.push('justification is required for a standing approval')
+  }
+
+  let end: Date | null = null
+  if (durationMinutes !== undefined && expiresAt !== undefined) {
+    errors.push('give either durationMinutes or expiresAt, not both')
+  } else if (durationMinutes !== undefined) {
+    if (typeof durationMinutes !== 'number' || !Number.isInteger(durationMinutes) || durationMinutes < 1) {
+      errors.push('durationMinutes must be a positive integer')
+    } else {
+      end = new Date(now.getTime() + durationMinutes * 60_000)
+    }
+  } else if (expiresAt !== undefined) {
+    end = new Date(expiresAt as string)
+    if (isNaN(end.getTime())) {
+      errors.push('expiresAt must be a valid date')
+      end = null
+    } else if (end <= now) {
+      errors.push('expiresAt must be in the future')
+      end = null
+    }
+  } else {
+    errors.push('durationMinutes or expiresAt is required')
+  }
+  if (end && end.getTime() - now.getTime() > MAX_STANDING_MINUTES * 60_000) {
+    errors.push(`a standing approval can last at most ${formatMinutes(MAX_STANDING_MINUTES)}`)
+  }
+
+  if (errors.length > 0) {
+    return { standing: null, errors }
+  }
+  return {
+    standing: {
+      employeeId: employeeId as string,
+      capability: (capability as string).trim(),
+      conditions: conditions as Condition[],
+      grantedBy: (grantedBy as string).trim(),
+      justification: (justification as string).trim(),
+      startsAt: now,
+      expiresAt: end!,
+    },
+    errors: [],
+  }
+}
+
+/**
+ * Reasons a standing approval for `capability` cannot be granted under these
+ * policies: one for each approval_required policy with a quorum whose
+ * capability overlaps it. The engine also ignores standing approvals for
+ * such policies, so a quorum added later still applies.
+ */
+export function quorumConflicts(
+  capability: string,
+  policies: Array<Pick<Policy, 'capability' | 'permission' | 'approvers'>>,
+): string[] {
+  return policies
+    .filter(
+      (p) =>
+        p.permission === 'approval_required' &&
+        (matchesCapability(capability, p.capability) || matchesCapability(p.capability, capability)),
+    )
+    .map((p) => ({ capability: p.capability, rule: parseQuorum(p.approvers) }))
+    .filter(({ rule }) => rule.length > 0)
+    .map(({ capability: governed, rule }) => `"${governed}" needs ${describeQuorum(rule)}, which a standing approval cannot stand in for`)
+}
+
+export function isStandingApprovalActive(standing: StandingApprovalRecord, at: Date): boolean {
+  return !standing.revokedAt && standing.startsAt <= at && at < standing.expiresAt
+}
+
+/**
+ * True when the standing approval covers the action in this context. Its
+ * conditions are evaluated like a policy's; malformed ones cover nothing.
+ */
+export function coversAction(
+  standing: StandingApprovalRecord,
+  action: string,
+  context: Record<string, unknown> | undefined,
+): boolean {
+  const conditions = parseConditionList(standing.conditions)
+  return (
+    conditions !== null &&
+    matchesCapability(standing.capability, action) &&
+    evaluateConditions(conditions, context ?? {})
+  )
+}
+
+/**
+ * The employee's standing approval in force at `at` that covers the action,
+ * or null. Of several, the one lasting longest is used.
+ */
+export async function findStandingApproval(
+  db: PrismaClient | Prisma.TransactionClient,
+  employeeId: string,
+  action: string,
+  context: Record<string, unknown> | undefined,
+  at: Date,
+): Promise<StandingApproval | null> {
+  const candidates = await db.standingApproval.findMany({
+    where: { employeeId, revokedAt: null, startsAt: { lte: at }, expiresAt: { gt: at } },
+    orderBy: { expiresAt: 'desc' },
+  })
+  return candidates.find((s) => isStandingApprovalActive(s, at) && coversAction(s, action, context)) ?? null
+}
+
+/** The context an approval request was raised with; requests store it as JSON in `details`. */
+export function requestContext(details: string): Record<string, unknown> | undefined {
+  try {
+    const parsed = JSON.parse(details)
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/** e.g. `"send_email" when recipient ends_with "@acme.com", until 2026-10-19T09:00:00.000Z (granted by dana)` */
+export function describeStandingApproval(standing: StandingApprovalRecord): string {
+  const conditions = parseConditionList(standing.conditions) ?? []
+  const when = conditions
+    .map((c) => (c.op === 'exists' ? `${c.path} exists` : `${c.path} ${c.op} ${JSON.stringify(c.value)}`))
+    .join(' and ')
+  return `"${standing.capability}"${when ? ` when ${when}` : ''}, until ${standing.expiresAt.toISOString()} (granted by ${standing.grantedBy})`
+}
@@ -0,0 +1,99 @@
+// ---------------------------------------------------------------------------
+// Line diffs
+// Compares two texts line by line (longest common subsequence) and pairs the
+// result up for a side-by-side view: unchanged lines sit level on both
+// sides, and a run of removed lines is paired with the run of added lines
+// that replaces it.
+// ---------------------------------------------------------------------------
+
+export type LineChange = 'same' | 'removed' | 'added'
+
+export interface DiffLine {
+  change: LineChange
+  text: string
+}
+
+/** One side of a side-by-side row; null where that side has no line. */
+export interface DiffCell {
+  number: number
+  text: string
+  change: LineChange
+}
+
+export interface SideBySideRow {
+  left: DiffCell | null
+  right: DiffCell | null
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n')
+}
+
+/** The line-level edit script turning `before` into `after`. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before)
+  const b = splitLines(after)
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ change: 'same', text: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ change: 'removed', text: a[i++] })
+    } else {
+      lines.push({ change: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) lines.push({ change: 'removed', text: a[i++] })
+  while (j < b.length) lines.push({ change: 'added', text: b[j++] })
+  return lines
+}
+
+/** Lay a diff out as rows, numbering the lines on each side. */
+export function sideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = []
+  let left = 0
+  let right = 0
+  let k = 0
+  while (k < lines.length) {
+    if (lines[k].change === 'same') {
+      rows.push({
+        left: { number: ++left, text: lines[k].text, change: 'same' },
+        right: { number: ++right, text: lines[k].text, change: 'same' },
+      })
+      k++
+      continue
+    }
+
+    const removed: DiffCell[] = []
+    const added: DiffCell[] = []
+    for (; k < lines.length && lines[k].change !== 'same'; k++) {
+      if (lines[k].change === 'removed') removed.push({ number: ++left, text: lines[k].text, change: 'removed' })
+      else added.push({ number: ++right, text: lines[k].text, change: 'added' })
+    }
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      rows.push({ left: removed[n] ?? null, right: added[n] ?? null })
+    }
+  }
+  return rows
+}
+
+/** How many lines a diff adds and removes. */
+export function summarizeDiff(lines: DiffLine[]): { added: number; removed: number } {
+  return {
+    added: lines.filter((l) => l.change === 'added').length,
+    removed: lines.filter((l) => l.change === 'removed').length,
+  }
+}
@@ -0,0 +1,228 @@
+// ---------------------------------------------------------------------------
+// Unified diffs
+// Parses the patches developer agents attach to `modify_code` and `deploy`
+// approvals (`git diff` output, or plain `diff -u` with ---/+++ headers)
+// into files and hunks with old and new line numbers.
+//
+// Hunk headers give each hunk's length, which is what separates the next
+// file's `--- a/...` header from a deleted line starting with "--". Parsing
+// is lenient: a patch cut short ends its last hunk early, and lines outside
+// any hunk that are not headers are ignored. Text that changes no file (no
+// hunk, binary change or rename) is not a unified diff.
+//
+// Reviewers comment on a line by anchoring to its file, side and number:
+// deleted lines by their old number, every other line by its new number.
+// ---------------------------------------------------------------------------
+
+export type HunkLineKind = 'context' | 'add' | 'delete'
+
+export interface HunkLine {
+  kind: HunkLineKind
+  text: string
+  oldNumber: number | null
+  newNumber: number | null
+  /** Followed by "\ No newline at end of file". */
+  noNewlineAtEnd?: boolean
+}
+
+export interface DiffHunk {
+  header: string
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  /** The enclosing function or section git prints after the header, if any. */
+  section: string
+  lines: HunkLine[]
+}
+
+export type FileChange = 'added' | 'deleted' | 'modified' | 'renamed'
+
+export interface DiffFile {
+  /** null for a file the patch creates. */
+  oldPath: string | null
+  /** null for a file the patch deletes. */
+  newPath: string | null
+  /** The path to show: the new path, or the old one for deletions. */
+  path: string
+  change: FileChange
+  binary: boolean
+  hunks: DiffHunk[]
+  additions: number
+  deletions: number
+}
+
+export type LineSide = 'old' | 'new'
+
+export interface LineAnchor {
+  file: string
+  side: LineSide
+  line: number
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/
+const GIT_HEADER = /^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/
+
+/** Strip the a/ or b/ prefix and any trailing timestamp from a ---/+++ path. */
+function headerPath(raw: string): string | null {
+  const path = raw.split('\t')[0].trim()
+  if (path === '/dev/null') return null
+  return path.replace(/^[ab]\//, '')
+}
+
+function newFile(oldPath: string | null, newPath: string | null): DiffFile {
+  return { oldPath, newPath, path: '', change: 'modified', binary: false, hunks: [], additions: 0, deletions: 0 }
+}
+
+function finishFile(file: DiffFile): DiffFile {
+  const change: FileChange =
+    file.oldPath === null ? 'added' : file.newPath === null ? 'deleted' : file.oldPath !== file.newPath ? 'renamed' : 'modified'
+  return { ...file, change, path: file.newPath ?? file.oldPath ?? '' }
+}
+
+/** The files a unified diff changes, or null when the text is not one. */
+export function parseUnifiedDiff(text: string): DiffFile[] | null {
+  const files: DiffFile[] = []
+  const state = {
+    file: null as DiffFile | null,
+    hunk: null as DiffHunk | null,
+    // Lines still expected in the current hunk, per side, and the next line numbers
+    oldLeft: 0,
+    newLeft: 0,
+    oldNumber: 0,
+    newNumber: 0,
+  }
+
+  const startFile = (oldPath: string | null, newPath: string | null): DiffFile => {
+    if (state.file) files.push(finishFile(state.file))
+    state.file = newFile(oldPath, newPath)
+    state.hunk = null
+    return state.file
+  }
+
+  for (const line of text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n')) {
+    const { file, hunk } = state
+
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file" qualifies the line before it
+      const last = hunk?.lines[hunk.lines.length - 1]
+      if (last) last.noNewlineAtEnd = true
+      continue
+    }
+
+    if (file && hunk && (state.oldLeft > 0 || state.newLeft > 0)) {
+      const marker = line[0]
+      // Some tools strip the space from empty context lines
+      if (marker === ' ' || line === '') {
+        hunk.lines.push({ kind: 'context', text: line.slice(1), oldNumber: state.oldNumber++, newNumber: state.newNumber++ })
+        state.oldLeft--
+        state.newLeft--
+        continue
+      }
+      if (marker === '-') {
+        hunk.lines.push({ kind: 'delete', text: line.slice(1), oldNumber: state.oldNumber++, newNumber: null })
+        file.deletions++
+        state.oldLeft--
+        continue
+      }
+      if (marker === '+') {
+        hunk.lines.push({ kind: 'add', text: line.slice(1), oldNumber: null, newNumber: state.newNumber++ })
+        file.additions++
+        state.newLeft--
+        continue
+      }
+      // Anything else ends a truncated hunk and is read as a header below
+    }
+
+    const git = GIT_HEADER.exec(line)
+    if (git) {
+      startFile(git[1], git[2])
+      continue
+    }
+
+    if (line.startsWith('--- ')) {
+      // A git header already opened this file; a bare ---/+++ pair opens a new one
+      if (!file || file.hunks.length > 0) startFile(headerPath(line.slice(4)), null)
+      else file.oldPath = headerPath(line.slice(4))
+      continue
+    }
+    if (line.startsWith('+++ ') && file) {
+      file.newPath = headerPath(line.slice(4))
+      continue
+    }
+
+    const header = HUNK_HEADER.exec(line)
+    if (header) {
+      const [, oldStart, oldLines, newStart, newLines, section] = header
+      const next: DiffHunk = {
+        header: line,
+        oldStart: Number(oldStart),
+        oldLines: oldLines === undefined ? 1 : Number(oldLines),
+        newStart: Number(newStart),
+        newLines: newLines === undefined ? 1 : Number(newLines),
+        section: section.trim(),
+        lines: [],
+      }
+      const owner = file ?? startFile(null, null)
+      owner.hunks.push(next)
+      Object.assign(state, {
+        hunk: next,
+        oldLeft: next.oldLines,
+        newLeft: next.newLines,
+        oldNumber: next.oldStart,
+        newNumber: next.newStart,
+      })
+      continue
+    }
+
+    if (!file) continue
+    if (line.startsWith('new file mode')) file.oldPath = null
+    else if (line.startsWith('deleted file mode')) file.newPath = null
+    else if (line.startsWith('rename from ')) file.oldPath = line.slice('rename from '.length)
+    else if (line.startsWith('rename to ')) file.newPath = line.slice('rename to '.length)
+    else if (line.startsWith('Binary files ') || line === 'GIT binary patch') file.binary = true
+  }
+
+  if (state.file) files.push(finishFile(state.file))
+  // A stray "--- " line (an email signature, say) makes a file with nothing in it
+  const parsed = files.filter((f) => f.hunks.length > 0 || f.binary || f.change === 'renamed')
+  return parsed.length > 0 ? parsed : null
+}
+
+/** The diff line an anchor points at, or null if the diff has no such line. */
+export function findAnchoredLine(files: DiffFile[], anchor: LineAnchor): HunkLine | null {
+  const file = files.find((f) => f.path === anchor.file)
+  for (const hunk of file?.hunks ?? []) {
+    const line = hunk.lines.find((l) =>
+      anchor.side === 'old' ? l.kind === 'delete' && l.oldNumber === anchor.line : l.kind !== 'delete' && l.newNumber === anchor.line,
+    )
+    if (line) return line
+  }
+  return null
+}
+
+/** Where a reviewer's comment on a line is anchored. */
+export function lineAnchor(line: HunkLine, file: string): LineAnchor {
+  return line.kind === 'delete'
+    ? { file, side: 'old', line: line.oldNumber! }
+    : { file, side: 'new', line: line.newNumber! }
+}
+
+/** The first problem with a line comment's anchor into `diff`, or null when it is valid. */
+export function validateLineAnchor(
+  input: { file?: unknown; side?: unknown; line?: unknown },
+  diff: string,
+): string | null {
+  if (typeof input.file !== 'string' || !input.file) return 'file must name a file in the diff'
+  if (input.side !== 'old' && input.side !== 'new') return 'side must be "old" or "new"'
+  if (typeof input.line !== 'number' || !Number.isInteger(input.line) || input.line < 1) {
+    return 'line must be a positive integer'
+  }
+  const files = parseUnifiedDiff(diff)
+  if (!files) return 'This request has no unified diff to comment on'
+  if (!files.some((f) => f.path === input.file)) return `${input.file} is not in the diff`
+  if (!findAnchoredLine(files, { file: input.file, side: input.side, line: input.line })) {
+    return `${input.file} has no ${input.side} line ${input.line} in the diff`
+  }
+  return null
+}
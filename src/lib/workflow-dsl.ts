@@ -0,0 +1,384 @@
+// ---------------------------------------------------------------------------
+// Workflow definition DSL
+// Typed schema and parser for the JSON stored in WorkflowRule.steps. A
+// definition is an ordered list of steps; each step is either a single agent
+// action or a parallel group of actions that fan out and join. Steps can be
+// guarded by conditions on the trigger context or on earlier step output,
+// and actions can declare retries and a timeout.
+//
+// The legacy flat format `[{ agent, action, order }]` is a valid definition.
+// ---------------------------------------------------------------------------
+
+import { Condition, validateCondition } from '@/lib/conditions'
+
+export interface ActionStep {
+  /** Unique key used to reference this step's output in conditions. */
+  id: string
+  agent: string
+  action: string
+  order: number
+  /** All conditions must hold for the step to run; otherwise it is skipped. */
+  if: Condition[]
+  /** Additional attempts after a failed runtime execution. */
+  retries: number
+  /** Maximum runtime execution time per attempt, in milliseconds. */
+  timeoutMs?: number
+}
+
+export interface ParallelStep {
+  id: string
+  order: number
+  if: Condition[]
+  /** "all" succeeds when every branch succeeds, "any" on the first success. */
+  join: 'all' | 'any'
+  parallel: ActionStep[]
+}
+
+export type WorkflowStep = ActionStep | ParallelStep
+
+export const MAX_RETRIES = 5
+export const MIN_TIMEOUT_MS = 100
+export const MAX_TIMEOUT_MS = 300_000
+
+const STEP_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+const ACTION_KEYS = ['id', 'agent', 'action', 'order', 'if', 'retries', 'timeoutMs']
+const PARALLEL_KEYS = ['id', 'order', 'if', 'join', 'parallel']
+
+export class WorkflowDefinitionError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid workflow definition: ${issues.join('; ')}`)
+    this.name = 'WorkflowDefinitionError'
+    // Keep `instanceof` working when compiled to ES5
+    Object.setPrototypeOf(this, WorkflowDefinitionError.prototype)
+  }
+}
+
+export function isParallelStep(step: WorkflowStep): step is ParallelStep {
+  return 'parallel' in step
+}
+
+/** Flatten a definition into its action steps, in execution order. */
+export function flattenSteps(steps: WorkflowStep[]): Array<ActionStep & { group?: string }> {
+  return steps.flatMap((step) =>
+    isParallelStep(step)
+      ? step.parallel.map((branch) => ({ ...branch, group: step.id }))
+      : [step],
+  )
+}
+
+/** An employee a step's agent name may refer to; `teamId` is whatever identifies their team. */
+export interface AgentCandidate {
+  name: string
+  teamId: string | null
+}
+
+/**
+ * Resolve a step's agent by name across the organization, so a rule can hand
+ * work to another team's agent. When several employees share the name, the
+ * member of the rule's team is meant; otherwise the name must be unique.
+ */
+export function resolveAgent<T extends AgentCandidate>(
+  name: string,
+  teamId: string,
+  employees: T[],
+): { agent: T; error?: undefined } | { agent: null; error: string } {
+  const named = employees.filter((e) => e.name === name)
+  const members = named.filter((e) => e.teamId === teamId)
+  const matches = members.length > 0 ? members : named
+  if (matches.length === 1) return { agent: matches[0] }
+  return {
+    agent: null,
+    error:
+      matches.length === 0
+        ? `agent "${name}" is not an employee`
+        : `agent "${name}" is ambiguous: ${matches.length} employees ${members.length > 0 ? 'in this team' : 'outside this team'} have that name`,
+  }
+}
+
+/**
+ * Check that every agent referenced by a definition resolves to exactly one
+ * of `employees` for a rule owned by `teamId`. Returns one issue per agent
+ * that does not.
+ */
+export function findUnknownAgents(steps: WorkflowStep[], employees: AgentCandidate[], teamId: string): string[] {
+  const agents = new Set(flattenSteps(steps).map((s) => s.agent))
+  return Array.from(agents)
+    .map((agent) => resolveAgent(agent, teamId, employees).error)
+    .filter((issue): issue is string => issue !== undefined)
+}
+
+/**
+ * Check stored rules against a change of team membership: `moves` maps
+ * employee ids to their team afterwards (null for none). Returns the agent
+ * issues the change would add, each labelled with its rule; problems a rule
+ * already has are not the change's doing and are left out.
+ */
+export function agentsBrokenByMoves(
+  rules: Array<{ teamId: string; trigger: string; steps: string; team: { name: string } }>,
+  employees: Array<AgentCandidate & { id: string }>,
+  moves: Map<string, string | null>,
+): string[] {
+  const moved = employees.map((e) => ({
+    name: e.name,
+    teamId: moves.has(e.id) ? (moves.get(e.id) as string | null) : e.teamId,
+  }))
+  return rules.flatMap((rule) => {
+    let steps: WorkflowStep[]
+    try {
+      steps = parseWorkflowDefinition(rule.steps)
+    } catch (error) {
+      if (!(error instanceof WorkflowDefinitionError)) throw error
+      return []
+    }
+    const existing = new Set(findUnknownAgents(steps, employees, rule.teamId))
+    return findUnknownAgents(steps, moved, rule.teamId)
+      .filter((issue) => !existing.has(issue))
+      .map((issue) => `team "${rule.team.name}" rule "${rule.trigger}": ${issue}`)
+  })
+}
+
+/**
+ * Parse and validate an untrusted workflow definition (either the raw JSON
+ * string stored on a WorkflowRule or an already-decoded value).
+ *
+ * @throws WorkflowDefinitionError listing every problem found.
+ */
+export function parseWorkflowDefinition(input: unknown): WorkflowStep[] {
+  let value = input
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input)
+    } catch {
+      throw new WorkflowDefinitionError(['steps must be valid JSON'])
+    }
+  }
+
+  if (!Array.isArray(value)) {
+    throw new WorkflowDefinitionError(['steps must be an array'])
+  }
+  if (value.length === 0) {
+    throw new WorkflowDefinitionError(['steps must contain at least one step'])
+  }
+
+  const errors: string[] = []
+  const idClaims: IdClaims = new Map()
+  const steps: WorkflowStep[] = []
+
+  value.forEach((raw, idx) => {
+    const label = `steps[${idx}]`
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      errors.push(`${label} must be an object`)
+      return
+    }
+
+    const entry = raw as Record<string, unknown>
+    const order = parseOrder(entry.order, idx + 1, label, errors)
+
+    if ('parallel' in entry) {
+      errors.push(...unknownKeys(entry, PARALLEL_KEYS, label))
+      if (!Array.isArray(entry.parallel) || entry.parallel.length < 2) {
+        errors.push(`${label}.parallel must be an array of at least two action steps`)
+        return
+      }
+      if (entry.join !== undefined && entry.join !== 'all' && entry.join !== 'any') {
+        errors.push(`${label}.join must be "all" or "any"`)
+      }
+
+      const branches = entry.parallel
+        .map((branch, bIdx) =>
+          parseActionStep(branch, order, `${label}.parallel[${bIdx}]`, idClaims, errors),
+        )
+        .filter((b): b is ActionStep => b !== null)
+
+      const group: ParallelStep = {
+        id: '',
+        order,
+        if: parseConditions(entry.if, label, errors),
+        join: entry.join === 'any' ? 'any' : 'all',
+        parallel: branches,
+      }
+      idClaims.set(group, { explicit: entry.id, fallback: `parallel_${order}`, label })
+      steps.push(group)
+      return
+    }
+
+    const step = parseActionStep(entry, order, label, idClaims, errors)
+    if (step) steps.push(step)
+  })
+
+  const orders = steps.map((s) => s.order)
+  const duplicateOrders = orders.filter((o, i) => orders.indexOf(o) !== i)
+  for (const order of Array.from(new Set(duplicateOrders))) {
+    errors.push(`order ${order} is used by more than one step; use a "parallel" group instead`)
+  }
+
+  // Explicit ids are reserved first, so a generated id never takes one a
+  // later step asks for. Ids are then generated in execution order, so their
+  // suffixes follow `order` rather than where a step appears in the document
+  steps.sort((a, b) => a.order - b.order)
+  const ordered = steps.flatMap((step) => (isParallelStep(step) ? [step, ...step.parallel] : [step]))
+  const usedIds = new Set<string>()
+  for (const step of ordered) {
+    const { explicit, label } = idClaims.get(step)!
+    step.id = reserveId(explicit, label, usedIds, errors) ?? ''
+  }
+  for (const step of ordered) {
+    if (!step.id) step.id = generateId(idClaims.get(step)!.fallback, usedIds)
+  }
+  errors.push(...checkConditionReferences(steps))
+
+  if (errors.length > 0) {
+    throw new WorkflowDefinitionError(errors)
+  }
+  return steps
+}
+
+// ---- Helpers ----------------------------------------------------------------
+
+/** The id each parsed step asked for, claimed once the steps are in order. */
+type IdClaims = Map<WorkflowStep, { explicit: unknown; fallback: string; label: string }>
+
+function parseActionStep(
+  raw: unknown,
+  order: number,
+  label: string,
+  idClaims: IdClaims,
+  errors: string[],
+): ActionStep | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    errors.push(`${label} must be an object`)
+    return null
+  }
+
+  const entry = raw as Record<string, unknown>
+  if ('parallel' in entry) {
+    errors.push(`${label} cannot nest a parallel group`)
+    return null
+  }
+  errors.push(...unknownKeys(entry, ACTION_KEYS, label))
+
+  const agent = typeof entry.agent === 'string' ? entry.agent.trim() : ''
+  const action = typeof entry.action === 'string' ? entry.action.trim() : ''
+  if (!agent) errors.push(`${label}.agent must be a non-empty string`)
+  if (!action) errors.push(`${label}.action must be a non-empty string`)
+
+  let retries = 0
+  if (entry.retries !== undefined) {
+    if (!Number.isInteger(entry.retries) || (entry.retries as number) < 0 || (entry.retries as number) > MAX_RETRIES) {
+      errors.push(`${label}.retries must be an integer between 0 and ${MAX_RETRIES}`)
+    } else {
+      retries = entry.retries as number
+    }
+  }
+
+  let timeoutMs: number | undefined
+  if (entry.timeoutMs !== undefined) {
+    if (
+      !Number.isInteger(entry.timeoutMs) ||
+      (entry.timeoutMs as number) < MIN_TIMEOUT_MS ||
+      (entry.timeoutMs as number) > MAX_TIMEOUT_MS
+    ) {
+      errors.push(`${label}.timeoutMs must be an integer between ${MIN_TIMEOUT_MS} and ${MAX_TIMEOUT_MS}`)
+    } else {
+      timeoutMs = entry.timeoutMs as number
+    }
+  }
+
+  const step: ActionStep = {
+    id: '',
+    agent,
+    action,
+    order,
+    if: parseConditions(entry.if, label, errors),
+    retries,
+    ...(timeoutMs !== undefined ? { timeoutMs } : {}),
+  }
+  idClaims.set(step, { explicit: entry.id, fallback: action || `step_${order}`, label })
+  return step
+}
+
+function parseOrder(value: unknown, fallback: number, label: string, errors: string[]): number {
+  if (value === undefined) return fallback
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    errors.push(`${label}.order must be a positive integer`)
+    return fallback
+  }
+  return value as number
+}
+
+function parseConditions(value: unknown, label: string, errors: string[]): Condition[] {
+  if (value === undefined) return []
+  const list = Array.isArray(value) ? value : [value]
+  const problems = list.flatMap((c, i) =>
+    validateCondition(c, Array.isArray(value) ? `${label}.if[${i}]` : `${label}.if`),
+  )
+  errors.push(...problems)
+  return problems.length === 0 ? (list as Condition[]) : []
+}
+
+/** Reserve a step's explicit id, if it has a valid one. Explicit ids must be unique. */
+function reserveId(
+  explicit: unknown,
+  label: string,
+  usedIds: Set<string>,
+  errors: string[],
+): string | null {
+  if (explicit === undefined) return null
+  if (typeof explicit !== 'string' || !STEP_ID_PATTERN.test(explicit)) {
+    errors.push(`${label}.id may only contain letters, digits, "_" and "-"`)
+    return null
+  }
+  if (usedIds.has(explicit)) {
+    errors.push(`${label}.id "${explicit}" is already used by another step`)
+    return null
+  }
+  usedIds.add(explicit)
+  return explicit
+}
+
+/** Generate a free step id, with a numeric suffix when the same action appears more than once. */
+function generateId(fallback: string, usedIds: Set<string>): string {
+  let id = fallback
+  for (let n = 2; usedIds.has(id); n++) {
+    id = `${fallback}_${n}`
+  }
+  usedIds.add(id)
+  return id
+}
+
+function unknownKeys(entry: Record<string, unknown>, allowed: string[], label: string): string[] {
+  return Object.keys(entry)
+    .filter((k) => !allowed.includes(k))
+    .map((k) => `${label} has unknown field "${k}"`)
+}
+
+/**
+ * Conditions may reference the trigger context (`trigger.*`) or the output of
+ * a step that runs strictly before the one being guarded (`steps.<id>.*`).
+ */
+function checkConditionReferences(steps: WorkflowStep[]): string[] {
+  const errors: string[] = []
+  const earlier = new Set<string>()
+
+  for (const step of steps) {
+    const guarded = isParallelStep(step) ? [step, ...step.parallel] : [step]
+    for (const s of guarded) {
+      for (const condition of s.if) {
+        const [root, stepId] = condition.path.split('.')
+        if (root === 'trigger') continue
+        if (root !== 'steps' || !stepId) {
+          errors.push(`step "${s.id}" condition path "${condition.path}" must start with "trigger." or "steps.<id>."`)
+        } else if (!earlier.has(stepId)) {
+          errors.push(`step "${s.id}" condition references "${stepId}", which does not run before it`)
+        }
+      }
+    }
+
+    earlier.add(step.id)
+    if (isParallelStep(step)) {
+      step.parallel.forEach((b) => earlier.add(b.id))
+    }
+  }
+
+  return errors
+}
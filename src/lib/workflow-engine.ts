@@ -0,0 +1,573 @@
+// ---------------------------------------------------------------------------
+// Workflow execution engine
+// Executes the steps of a WorkflowRule for a given trigger. Each step's agent
+// is resolved by name across the organization (preferring the rule's team
+// when names collide), gated through the policy engine under the agent's own
+// policies, executed on the agent's assigned runtime, and persisted as a
+// WorkflowRun with per-step status. Runs suspend on steps that need human
+// approval and resume once the linked ApprovalRequest is resolved.
+//
+// Definitions follow the DSL in workflow-dsl.ts: steps can be guarded by
+// conditions, fanned out in parallel groups, retried and bounded by timeouts.
+// ---------------------------------------------------------------------------
+
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/db'
+import { approvedDiff } from '@/lib/approval-decisions'
+import { AuditLogger } from '@/lib/audit'
+import { evaluateConditions } from '@/lib/conditions'
+import { PolicyEngine } from '@/lib/policy-engine'
+import { getRuntimeForEmployee, Runtime, RuntimeResult, RuntimeTask } from '@/lib/runtime'
+import {
+  ActionStep,
+  ParallelStep,
+  flattenSteps,
+  isParallelStep,
+  parseWorkflowDefinition,
+  resolveAgent,
+} from '@/lib/workflow-dsl'
+
+export type WorkflowRunWithSteps = Prisma.WorkflowRunGetPayload<{
+  include: { steps: true }
+}>
+
+type WorkflowStepRunRecord = WorkflowRunWithSteps['steps'][number]
+
+type StepStatus = 'completed' | 'skipped' | 'awaiting_approval' | 'denied' | 'failed'
+
+interface StepOutcome {
+  status: StepStatus
+  reason: string
+  result?: RuntimeResult
+  attempts?: number
+}
+
+/** Per-call bookkeeping shared by the steps executed by `advance`. */
+interface ExecutionState {
+  runId: string
+  trigger: string
+  teamId: string
+  context: Record<string, unknown>
+  records: Map<string, WorkflowStepRunRecord>
+  /** What step conditions are evaluated against. */
+  scope: {
+    trigger: Record<string, unknown>
+    steps: Record<string, Record<string, unknown>>
+  }
+}
+
+const TERMINAL_STATUSES = ['completed', 'skipped', 'awaiting_approval', 'denied', 'failed']
+
+const auditLogger = new AuditLogger()
+const policyEngine = new PolicyEngine()
+
+export class WorkflowEngine {
+  // --------------------------------------------------------------------------
+  // trigger – start every workflow rule listening for an event
+  // --------------------------------------------------------------------------
+
+  /**
+   * Start a run for every WorkflowRule whose trigger matches. When `teamId`
+   * is given, only that team's rules are considered.
+   *
+   * @param trigger  The event name (e.g. "slack_complaint").
+   * @param options  Optional team filter and context passed to every step.
+   * @returns        The runs that were started, in their state after
+   *                 executing as far as policies allow.
+   */
+  async trigger(
+    trigger: string,
+    options: { teamId?: string; context?: Record<string, unknown> } = {},
+  ): Promise<WorkflowRunWithSteps[]> {
+    const rules = await prisma.workflowRule.findMany({
+      where: {
+        trigger,
+        ...(options.teamId ? { teamId: options.teamId } : {}),
+      },
+    })
+
+    const runs: WorkflowRunWithSteps[] = []
+    for (const rule of rules) {
+      runs.push(await this.start(rule.id, options.context))
+    }
+    return runs
+  }
+
+  // --------------------------------------------------------------------------
+  // start – create a run for a single rule and execute it
+  // --------------------------------------------------------------------------
+
+  /**
+   * Create a WorkflowRun (with one pending WorkflowStepRun per action step)
+   * for the given rule and execute it. The parsed definition is snapshotted
+   * on the run so that editing the rule does not affect runs in flight.
+   *
+   * @throws WorkflowDefinitionError if the rule's steps are malformed.
+   */
+  async start(
+    ruleId: string,
+    context: Record<string, unknown> = {},
+  ): Promise<WorkflowRunWithSteps> {
+    const rule = await prisma.workflowRule.findUnique({ where: { id: ruleId }, include: { team: true } })
+    if (!rule) {
+      throw new Error(`Workflow rule ${ruleId} not found`)
+    }
+
+    const definition = parseWorkflowDefinition(rule.steps)
+    const actions = flattenSteps(definition)
+
+    const run = await prisma.workflowRun.create({
+      data: {
+        ruleId: rule.id,
+        trigger: rule.trigger,
+        teamId: rule.teamId,
+        teamName: rule.team.name,
+        status: 'pending',
+        context: JSON.stringify(context),
+        definition: JSON.stringify(definition),
+        steps: {
+          create: actions.map((s) => ({
+            order: s.order,
+            stepKey: s.id,
+            groupKey: s.group ?? null,
+            agent: s.agent,
+            action: s.action,
+          })),
+        },
+      },
+    })
+
+    await auditLogger.log(
+      'workflow_started',
+      `Workflow "${rule.trigger}" started (run ${run.id}, ${actions.length} steps)`,
+    )
+
+    return this.advance(run.id)
+  }
+
+  // --------------------------------------------------------------------------
+  // advance – execute pending steps until the run finishes or blocks
+  // --------------------------------------------------------------------------
+
+  /**
+   * Execute the run's pending (or freshly approved) steps in order. Execution
+   * stops at the first step that is denied, fails, or needs human approval;
+   * otherwise the run is marked completed once every step has succeeded or
+   * been skipped because its conditions did not hold.
+   *
+   * Only one call advances a run at a time: a call that finds the run
+   * already running (or finished) returns it as it is. A decision recorded
+   * meanwhile is picked up by the call holding the run before it suspends.
+   */
+  async advance(runId: string): Promise<WorkflowRunWithSteps> {
+    const claimed = await prisma.workflowRun.updateMany({
+      where: { id: runId, status: { in: ['pending', 'awaiting_approval'] } },
+      data: { status: 'running' },
+    })
+
+    const run = await prisma.workflowRun.findUnique({
+      where: { id: runId },
+      include: { steps: { orderBy: { order: 'asc' } } },
+    })
+
+    if (!run) {
+      throw new Error(`Workflow run ${runId} not found`)
+    }
+    if (claimed.count === 0) {
+      return run
+    }
+
+    const definition = parseWorkflowDefinition(run.definition)
+
+    const context = this.parseJson(run.context)
+    const state: ExecutionState = {
+      runId: run.id,
+      trigger: run.trigger,
+      teamId: run.teamId ?? '',
+      context,
+      records: new Map(),
+      scope: { trigger: context, steps: {} },
+    }
+    run.steps.forEach((record) => this.track(state, record))
+
+    for (const step of definition) {
+      const outcome = isParallelStep(step)
+        ? await this.runParallel(step, state)
+        : await this.runAction(step, state)
+
+      if (outcome.status === 'completed' || outcome.status === 'skipped') continue
+
+      if (outcome.status === 'awaiting_approval') {
+        const suspended = await this.finish(runId, 'awaiting_approval', outcome.reason)
+        // Approvals resolved while this call held the run could not advance it
+        const resolved = suspended.steps.some(
+          (s) => s.status !== 'awaiting_approval' && state.records.get(s.stepKey)?.status === 'awaiting_approval',
+        )
+        return resolved ? this.advance(runId) : suspended
+      }
+
+      await auditLogger.log(
+        'workflow_failed',
+        `Workflow "${run.trigger}" failed at step "${step.id}": ${outcome.reason}`,
+      )
+      return this.finish(runId, 'failed', outcome.reason)
+    }
+
+    await auditLogger.log(
+      'workflow_completed',
+      `Workflow "${run.trigger}" completed (run ${run.id}, ${run.steps.length} steps)`,
+    )
+    return this.finish(runId, 'completed', '')
+  }
+
+  // --------------------------------------------------------------------------
+  // resolveApproval – resume or fail a run suspended on an approval
+  // --------------------------------------------------------------------------
+
+  /**
+   * Apply a reviewer's decision to the workflow step suspended by the given
+   * ApprovalRequest. Approval resumes the run from that step (skipping the
+   * policy gate for it, and passing it the approved diff, as amended by the
+   * reviewer); denial fails the step, which fails the run unless another
+   * branch of an "any" parallel group can still succeed.
+   *
+   * @returns The updated run, or null if the request is not linked to a
+   *          suspended workflow step (or the decision was already applied).
+   */
+  async resolveApproval(
+    approvalRequestId: string,
+    status: 'approved' | 'denied',
+    reason?: string,
+  ): Promise<WorkflowRunWithSteps | null> {
+    const approval = await prisma.approvalRequest.findUnique({
+      where: { id: approvalRequestId },
+      include: { workflowStepRun: true },
+    })
+
+    const step = approval?.workflowStepRun
+    if (!approval || !step || step.status !== 'awaiting_approval') {
+      return null
+    }
+
+    // Claim the step, so that a decision applied again (the sweep resuming
+    // runs left waiting on decided requests) takes effect once
+    const claim = (data: Prisma.WorkflowStepRunUpdateManyMutationInput) =>
+      prisma.workflowStepRun.updateMany({ where: { id: step.id, status: 'awaiting_approval' }, data })
+
+    if (status === 'approved') {
+      const amended = approval.amendedDiff ? ' with modifications' : ''
+      const { count } = await claim({
+        status: 'approved',
+        reason: `Approved${amended} by ${approval.decidedBy || 'reviewer'} (request ${approval.id})`,
+      })
+      if (count === 0) return null
+      await auditLogger.log(
+        'workflow_resumed',
+        `Workflow run ${step.runId} resumed at step "${step.stepKey}" (${step.agent} → ${step.action}) after approval${amended}`,
+        approval.employeeId,
+      )
+      return this.advance(step.runId)
+    }
+
+    const deniedBy = approval.decidedBy ? ` by ${approval.decidedBy}` : ''
+    const failure = reason
+      ? `Approval for "${approval.action}" was denied${deniedBy}: ${reason}`
+      : `Approval for "${approval.action}" was denied${deniedBy}`
+
+    const { count } = await claim({ status: 'denied', reason: failure, completedAt: new Date() })
+    if (count === 0) return null
+    return this.advance(step.runId)
+  }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  /**
+   * Run a single action step unless it already reached a terminal status.
+   * Pending steps whose conditions do not hold are skipped.
+   */
+  private async runAction(step: ActionStep, state: ExecutionState): Promise<StepOutcome> {
+    const record = state.records.get(step.id)
+    if (!record) {
+      return { status: 'failed', reason: `Step "${step.id}" has no run record` }
+    }
+
+    if (TERMINAL_STATUSES.includes(record.status)) {
+      return { status: record.status as StepStatus, reason: record.reason }
+    }
+
+    if (record.status === 'pending' && !evaluateConditions(step.if, state.scope)) {
+      return this.recordStep(state, record, { status: 'skipped', reason: 'Conditions not met' })
+    }
+
+    return this.executeStep(step, record, state)
+  }
+
+  /**
+   * Fan out a parallel group and join the branch outcomes. With join "all"
+   * every branch must succeed; with join "any" one successful branch is
+   * enough and any branch still outstanding is skipped.
+   */
+  private async runParallel(group: ParallelStep, state: ExecutionState): Promise<StepOutcome> {
+    const branchRecords = () =>
+      group.parallel
+        .map((b) => state.records.get(b.id))
+        .filter((r): r is WorkflowStepRunRecord => r !== undefined)
+
+    const untouched = branchRecords().every((r) => r.status === 'pending')
+    if (untouched && !evaluateConditions(group.if, state.scope)) {
+      for (const record of branchRecords()) {
+        await this.recordStep(state, record, { status: 'skipped', reason: 'Group conditions not met' })
+      }
+      return { status: 'skipped', reason: 'Group conditions not met' }
+    }
+
+    const satisfied = group.join === 'any' && branchRecords().some((r) => r.status === 'completed')
+    const outcomes = satisfied
+      ? [{ status: 'completed' as const, reason: '' }]
+      : await Promise.all(group.parallel.map((b) => this.runAction(b, state)))
+
+    const failed = outcomes.find((o) => o.status === 'denied' || o.status === 'failed')
+    const awaiting = outcomes.find((o) => o.status === 'awaiting_approval')
+
+    if (group.join === 'all') {
+      return failed ?? awaiting ?? { status: 'completed', reason: '' }
+    }
+
+    if (outcomes.some((o) => o.status === 'completed')) {
+      for (const record of branchRecords()) {
+        if (record.status !== 'completed' && !['skipped', 'denied', 'failed'].includes(record.status)) {
+          await this.recordStep(state, record, {
+            status: 'skipped',
+            reason: 'Join satisfied by another branch',
+          })
+        }
+      }
+      return { status: 'completed', reason: '' }
+    }
+    if (awaiting) return awaiting
+    if (!failed) return { status: 'skipped', reason: 'All branches skipped' }
+    return {
+      status: 'failed',
+      reason: outcomes
+        .filter((o) => o.status === 'denied' || o.status === 'failed')
+        .map((o) => o.reason)
+        .join('; '),
+    }
+  }
+
+  /**
+   * Resolve the step's agent, gate the action through the policy engine and
+   * execute it on the agent's runtime, retrying failed attempts as allowed by
+   * the step definition. Steps that were already approved by a reviewer skip
+   * the policy gate and receive the approval in their context, including the
+   * diff to act with (the reviewer's amendment, if they made one).
+   */
+  private async executeStep(
+    step: ActionStep,
+    record: WorkflowStepRunRecord,
+    state: ExecutionState,
+  ): Promise<StepOutcome> {
+    const named = await prisma.employee.findMany({ where: { name: step.agent } })
+    const { agent: employee, error } = resolveAgent(step.agent, state.teamId, named)
+
+    if (!employee) {
+      return this.recordStep(state, record, {
+        status: 'failed',
+        reason: `Cannot run step: ${error}`,
+      })
+    }
+
+    if (employee.status !== 'running') {
+      return this.recordStep(state, record, {
+        status: 'failed',
+        reason: `Agent "${employee.name}" is ${employee.status}`,
+      }, employee.id)
+    }
+
+    const preApproved = record.status === 'approved'
+
+    await prisma.workflowStepRun.update({
+      where: { id: record.id },
+      data: { status: 'running', employeeId: employee.id, startedAt: new Date() },
+    })
+
+    const approval = preApproved
+      ? await prisma.approvalRequest.findFirst({
+          where: { workflowStepRunId: record.id, status: 'approved' },
+          orderBy: { resolvedAt: 'desc' },
+        })
+      : null
+
+    const stepContext = {
+      ...state.context,
+      workflowRunId: state.runId,
+      trigger: state.trigger,
+      step: step.id,
+      ...(approval
+        ? {
+            approval: {
+              id: approval.id,
+              decidedBy: approval.decidedBy,
+              diff: approvedDiff(approval),
+              amended: approval.amendedDiff !== '',
+            },
+          }
+        : {}),
+    }
+
+    if (!preApproved) {
+      const decision = await policyEngine.evaluate(employee.id, step.action, stepContext)
+      if (!decision.allowed) {
+        if (decision.approvalRequestId) {
+          await prisma.approvalRequest.update({
+            where: { id: decision.approvalRequestId },
+            data: { workflowRunId: state.runId, workflowStepRunId: record.id },
+          })
+        }
+        return this.recordStep(state, record, {
+          status: decision.requiresApproval ? 'awaiting_approval' : 'denied',
+          reason: decision.reason,
+        }, employee.id)
+      }
+    }
+
+    const runtime = await getRuntimeForEmployee(employee.id)
+    const task: RuntimeTask = {
+      id: record.id,
+      description: `${step.action.replace(/_/g, ' ')} (${state.trigger.replace(/_/g, ' ')})`,
+      context: stepContext,
+    }
+
+    let attempts = 1
+    let result = await this.executeWithTimeout(runtime, task, step.timeoutMs)
+    while (result.status !== 'completed' && attempts <= step.retries) {
+      attempts++
+      result = await this.executeWithTimeout(runtime, task, step.timeoutMs)
+    }
+
+    const succeeded = result.status === 'completed'
+    return this.recordStep(state, record, {
+      status: succeeded ? 'completed' : 'failed',
+      reason: succeeded ? '' : attempts > 1 ? `${result.output} (after ${attempts} attempts)` : result.output,
+      result,
+      attempts,
+    }, employee.id)
+  }
+
+  /**
+   * Execute a task on a runtime. An attempt that outlives the step's timeout
+   * is reported as a failed result.
+   */
+  private async executeWithTimeout(
+    runtime: Runtime,
+    task: RuntimeTask,
+    timeoutMs?: number,
+  ): Promise<RuntimeResult> {
+    if (timeoutMs === undefined) {
+      return runtime.execute(task)
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<RuntimeResult>((resolve) => {
+      timer = setTimeout(() => {
+        resolve({
+          taskId: task.id,
+          status: 'failed',
+          output: `Timed out after ${timeoutMs}ms`,
+          durationMs: timeoutMs,
+          metadata: { runtime: runtime.name, timedOut: true },
+        })
+      }, timeoutMs)
+    })
+
+    try {
+      return await Promise.race([runtime.execute(task), timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /** Persist a step outcome and mirror it into the execution state. */
+  private async recordStep(
+    state: ExecutionState,
+    record: WorkflowStepRunRecord,
+    outcome: StepOutcome,
+    employeeId?: string,
+  ): Promise<StepOutcome> {
+    this.track(state, await this.persistStep(record.id, outcome, employeeId))
+    return outcome
+  }
+
+  /**
+   * Write a step outcome to the database. Terminal outcomes are stamped with
+   * a completion time; runtime results are stored alongside the status.
+   */
+  private async persistStep(
+    stepId: string,
+    outcome: StepOutcome,
+    employeeId?: string,
+  ): Promise<WorkflowStepRunRecord> {
+    const { result } = outcome
+    return prisma.workflowStepRun.update({
+      where: { id: stepId },
+      data: {
+        status: outcome.status,
+        reason: outcome.reason,
+        ...(employeeId ? { employeeId } : {}),
+        ...(outcome.attempts !== undefined ? { attempts: outcome.attempts } : {}),
+        ...(outcome.status !== 'awaiting_approval' ? { completedAt: new Date() } : {}),
+        ...(result
+          ? {
+              runtime: String(result.metadata.runtime ?? ''),
+              output: result.output,
+              metadata: JSON.stringify(result.metadata),
+              durationMs: result.durationMs,
+            }
+          : {}),
+      },
+    })
+  }
+
+  /** Record a step's latest state and expose it to later conditions. */
+  private track(state: ExecutionState, record: WorkflowStepRunRecord): void {
+    state.records.set(record.stepKey, record)
+    state.scope.steps[record.stepKey] = {
+      status: record.status,
+      agent: record.agent,
+      action: record.action,
+      output: record.output,
+      metadata: this.parseJson(record.metadata),
+    }
+  }
+
+  /** Set the run's final (or suspended) status and reload it with its steps. */
+  private async finish(
+    runId: string,
+    status: 'completed' | 'failed' | 'awaiting_approval',
+    error: string,
+  ): Promise<WorkflowRunWithSteps> {
+    return prisma.workflowRun.update({
+      where: { id: runId },
+      data: {
+        status,
+        error: status === 'failed' ? error : '',
+        completedAt: status === 'awaiting_approval' ? null : new Date(),
+      },
+      include: { steps: { orderBy: { order: 'asc' } } },
+    })
+  }
+
+  private parseJson(raw: string): Record<string, unknown> {
+    try {
+      const parsed = JSON.parse(raw)
+      return typeof parsed === 'object' && parsed !== null ? parsed : {}
+    } catch {
+      return {}
+    }
+  }
+}
+
+// Singleton for convenience
+export const workflowEngine = new WorkflowEngine()